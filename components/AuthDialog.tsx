@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -12,38 +12,54 @@ import {
 } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { UserCircle, Mail, Lock, AlertCircle, Loader2 } from "lucide-react";
+import { UserCircle, Mail, Lock, AlertCircle, Loader2, CheckCircle, KeyRound } from "lucide-react";
+import { MIN_PASSWORD_LENGTH, isValidEmail, type UserData } from "@/lib/auth-backend";
+import { consumeLegacyAccount, loginUser, registerUser, requestPasswordReset, resetPassword } from "@/lib/auth";
 
 interface AuthDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onAuthSuccess: (userData: UserData) => void;
+  // Token from a password reset link; opens the dialog on the new password form
+  resetToken?: string;
 }
 
-export interface UserData {
-  email: string;
-  userId: string;
-  isPremium: boolean;
-  createdAt: Date;
-}
-
-const AUTH_STORAGE_KEY = "knowly-user-auth";
+type AuthView = "login" | "register" | "forgotPassword" | "resetPassword";
 
-export function AuthDialog({ open, onOpenChange, onAuthSuccess }: AuthDialogProps) {
+export function AuthDialog({ open, onOpenChange, onAuthSuccess, resetToken }: AuthDialogProps) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
-  const [activeTab, setActiveTab] = useState<"login" | "register">("login");
+  const [notice, setNotice] = useState("");
+  const [activeTab, setActiveTab] = useState<AuthView>("login");
+
+  useEffect(() => {
+    if (resetToken) {
+      setActiveTab("resetPassword");
+    }
+  }, [resetToken]);
+
+  // Accounts of the old local login were removed; ask their owner once to register again
+  useEffect(() => {
+    if (!open) return;
+    const legacyAccount = consumeLegacyAccount();
+    if (legacyAccount) {
+      setActiveTab("register");
+      setEmail(legacyAccount.email ?? "");
+      setNotice(
+        "Konten werden jetzt sicher auf dem Server gespeichert, Ihr bisheriges Konto konnte nicht übernommen werden. Bitte registrieren Sie sich einmal neu – Ihre Lernmaterialien bleiben erhalten."
+      );
+    }
+  }, [open]);
 
   const validateEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
+    return isValidEmail(email);
   };
 
   const validatePassword = (password: string): boolean => {
-    return password.length >= 6;
+    return password.length >= MIN_PASSWORD_LENGTH;
   };
 
   const handleLogin = async () => {
@@ -60,28 +76,9 @@ export function AuthDialog({ open, onOpenChange, onAuthSuccess }: AuthDialogProp
         throw new Error("Das Passwort muss mindestens 6 Zeichen lang sein");
       }
 
-      // Check if user exists in localStorage
-      const storedUsers = localStorage.getItem(AUTH_STORAGE_KEY);
-      const users: Record<string, { password: string; userData: UserData }> = storedUsers
-        ? JSON.parse(storedUsers)
-        : {};
-
-      const userEntry = users[email];
-
-      if (!userEntry) {
-        throw new Error("Kein Konto mit dieser E-Mail-Adresse gefunden");
-      }
-
-      if (userEntry.password !== password) {
-        throw new Error("Falsches Passwort");
-      }
+      const userData = await loginUser(email, password);
 
       // Login successful
-      const userData: UserData = {
-        ...userEntry.userData,
-        createdAt: new Date(userEntry.userData.createdAt),
-      };
-
       onAuthSuccess(userData);
       onOpenChange(false);
       resetForm();
@@ -110,38 +107,61 @@ export function AuthDialog({ open, onOpenChange, onAuthSuccess }: AuthDialogProp
         throw new Error("Die Passwörter stimmen nicht überein");
       }
 
-      // Check if user already exists
-      const storedUsers = localStorage.getItem(AUTH_STORAGE_KEY);
-      const users: Record<string, { password: string; userData: UserData }> = storedUsers
-        ? JSON.parse(storedUsers)
-        : {};
+      // Create new user; the backend sends the verification email
+      const userData = await registerUser(email, password);
 
-      if (users[email]) {
-        throw new Error("Ein Konto mit dieser E-Mail-Adresse existiert bereits");
+      // Registration successful
+      onAuthSuccess(userData);
+      onOpenChange(false);
+      resetForm();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Registrierung fehlgeschlagen");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleForgotPassword = async () => {
+    setError("");
+    setIsLoading(true);
+
+    try {
+      if (!validateEmail(email)) {
+        throw new Error("Bitte geben Sie eine gültige E-Mail-Adresse ein");
       }
 
-      // Create new user
-      const userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const userData: UserData = {
-        email,
-        userId,
-        isPremium: false,
-        createdAt: new Date(),
-      };
+      await requestPasswordReset(email);
+      setNotice("Falls ein Konto mit dieser E-Mail-Adresse existiert, haben wir einen Link zum Zurücksetzen gesendet.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Anfrage fehlgeschlagen");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    setError("");
+    setIsLoading(true);
 
-      users[email] = {
-        password,
-        userData,
-      };
+    try {
+      if (!resetToken) {
+        throw new Error("Der Link ist ungültig oder abgelaufen");
+      }
 
-      localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(users));
+      if (!validatePassword(password)) {
+        throw new Error("Das Passwort muss mindestens 6 Zeichen lang sein");
+      }
 
-      // Registration successful
-      onAuthSuccess(userData);
-      onOpenChange(false);
+      if (password !== confirmPassword) {
+        throw new Error("Die Passwörter stimmen nicht überein");
+      }
+
+      await resetPassword(resetToken, password);
       resetForm();
+      setActiveTab("login");
+      setNotice("Ihr Passwort wurde geändert. Bitte melden Sie sich mit dem neuen Passwort an.");
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Registrierung fehlgeschlagen");
+      setError(err instanceof Error ? err.message : "Zurücksetzen fehlgeschlagen");
     } finally {
       setIsLoading(false);
     }
@@ -152,13 +172,29 @@ export function AuthDialog({ open, onOpenChange, onAuthSuccess }: AuthDialogProp
     setPassword("");
     setConfirmPassword("");
     setError("");
+    setNotice("");
   };
 
   const handleTabChange = (value: string) => {
-    setActiveTab(value as "login" | "register");
+    setActiveTab(value as AuthView);
     setError("");
+    setNotice("");
   };
 
+  const errorAlert = error && (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertDescription>{error}</AlertDescription>
+    </Alert>
+  );
+
+  const noticeAlert = notice && (
+    <Alert className="bg-green-50 border-green-200">
+      <CheckCircle className="h-4 w-4 text-green-600" />
+      <AlertDescription className="text-green-800">{notice}</AlertDescription>
+    </Alert>
+  );
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-md">
@@ -213,12 +249,8 @@ export function AuthDialog({ open, onOpenChange, onAuthSuccess }: AuthDialogProp
               </div>
             </div>
 
-            {error && (
-              <Alert variant="destructive">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
-            )}
+            {noticeAlert}
+            {errorAlert}
 
             <Button
               onClick={handleLogin}
@@ -234,6 +266,12 @@ export function AuthDialog({ open, onOpenChange, onAuthSuccess }: AuthDialogProp
                 "Anmelden"
               )}
             </Button>
+
+            <div className="text-center">
+              <Button variant="link" size="sm" onClick={() => handleTabChange("forgotPassword")} disabled={isLoading}>
+                Passwort vergessen?
+              </Button>
+            </div>
           </TabsContent>
 
           <TabsContent value="register" className="space-y-4 mt-4">
@@ -286,12 +324,8 @@ export function AuthDialog({ open, onOpenChange, onAuthSuccess }: AuthDialogProp
               </div>
             </div>
 
-            {error && (
-              <Alert variant="destructive">
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription>{error}</AlertDescription>
-              </Alert>
-            )}
+            {noticeAlert}
+            {errorAlert}
 
             <Button
               onClick={handleRegister}
@@ -309,63 +343,108 @@ export function AuthDialog({ open, onOpenChange, onAuthSuccess }: AuthDialogProp
             </Button>
 
             <div className="text-center text-sm text-gray-500">
-              Mit der Registrierung erstellen Sie ein kostenloses Konto
+              Mit der Registrierung erstellen Sie ein kostenloses Konto. Wir senden Ihnen einen Link zur
+              Bestätigung Ihrer E-Mail-Adresse.
             </div>
           </TabsContent>
-        </Tabs>
 
-        <DialogFooter className="flex-col sm:flex-row gap-2 mt-4">
-          <div className="text-xs text-gray-500 text-center w-full">
-            Ihre Daten werden sicher lokal gespeichert
-          </div>
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
-  );
-}
+          <TabsContent value="forgotPassword" className="space-y-4 mt-4">
+            <p className="text-sm text-gray-600">
+              Geben Sie Ihre E-Mail-Adresse ein. Wir senden Ihnen einen Link, mit dem Sie ein neues Passwort festlegen können.
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="forgot-email">E-Mail-Adresse</Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="forgot-email"
+                  type="email"
+                  placeholder="beispiel@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="pl-10"
+                  disabled={isLoading}
+                  onKeyDown={(e) => e.key === "Enter" && handleForgotPassword()}
+                />
+              </div>
+            </div>
 
-// Helper function to get current user
-export function getCurrentUser(): UserData | null {
-  const currentUserEmail = localStorage.getItem("knowly-current-user");
-  if (!currentUserEmail) return null;
+            {noticeAlert}
+            {errorAlert}
 
-  const storedUsers = localStorage.getItem(AUTH_STORAGE_KEY);
-  if (!storedUsers) return null;
+            <Button onClick={handleForgotPassword} className="w-full" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Wird gesendet...
+                </>
+              ) : (
+                "Link senden"
+              )}
+            </Button>
 
-  try {
-    const users: Record<string, { password: string; userData: UserData }> = JSON.parse(storedUsers);
-    const userEntry = users[currentUserEmail];
+            <div className="text-center">
+              <Button variant="link" size="sm" onClick={() => handleTabChange("login")} disabled={isLoading}>
+                Zurück zur Anmeldung
+              </Button>
+            </div>
+          </TabsContent>
 
-    if (userEntry) {
-      return {
-        ...userEntry.userData,
-        createdAt: new Date(userEntry.userData.createdAt),
-      };
-    }
-  } catch (e) {
-    console.error("Failed to load user:", e);
-  }
+          <TabsContent value="resetPassword" className="space-y-4 mt-4">
+            <div className="space-y-2">
+              <Label htmlFor="reset-password">Neues Passwort</Label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="reset-password"
+                  type="password"
+                  placeholder="Mindestens 6 Zeichen"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="pl-10"
+                  disabled={isLoading}
+                />
+              </div>
+            </div>
 
-  return null;
-}
+            <div className="space-y-2">
+              <Label htmlFor="reset-confirm-password">Passwort bestätigen</Label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="reset-confirm-password"
+                  type="password"
+                  placeholder="Passwort wiederholen"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="pl-10"
+                  disabled={isLoading}
+                  onKeyDown={(e) => e.key === "Enter" && handleResetPassword()}
+                />
+              </div>
+            </div>
 
-// Helper function to logout
-export function logoutUser(): void {
-  localStorage.removeItem("knowly-current-user");
-}
+            {errorAlert}
 
-// Helper function to update user premium status
-export function updateUserPremiumStatus(email: string, isPremium: boolean): void {
-  const storedUsers = localStorage.getItem(AUTH_STORAGE_KEY);
-  if (!storedUsers) return;
+            <Button onClick={handleResetPassword} className="w-full" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Wird gespeichert...
+                </>
+              ) : (
+                "Passwort ändern"
+              )}
+            </Button>
+          </TabsContent>
+        </Tabs>
 
-  try {
-    const users: Record<string, { password: string; userData: UserData }> = JSON.parse(storedUsers);
-    if (users[email]) {
-      users[email].userData.isPremium = isPremium;
-      localStorage.setItem(AUTH_STORAGE_KEY, JSON.stringify(users));
-    }
-  } catch (e) {
-    console.error("Failed to update premium status:", e);
-  }
+        <DialogFooter className="flex-col sm:flex-row gap-2 mt-4">
+          <div className="text-xs text-gray-500 text-center w-full">
+            Passwörter werden nur verschlüsselt auf dem Server gespeichert
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
 }
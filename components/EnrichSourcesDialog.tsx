@@ -0,0 +1,176 @@
+import { useEffect, useEffectEvent, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, Globe, Loader2, Search } from "lucide-react";
+import { useGPTChatMutation } from "@/hooks/use-gpt-chat";
+import { callMCPTool, type MCPToolResponse } from "@/sdk/core/mcp-client";
+import { getHostname } from "@/lib/citations";
+import {
+  deriveSearchQueries,
+  fetchSupplementarySources,
+  getSupplementaryUrls,
+  searchSupplementarySources,
+  type SupplementaryCandidate,
+  type SupplementarySource,
+} from "@/lib/enrichment";
+import { createFirecrawlClient, FIRECRAWL_MCP_ID } from "@/lib/firecrawl";
+import type { UploadedMaterial } from "@/lib/types";
+
+const firecrawl = createFirecrawlClient((tool, args) => callMCPTool<MCPToolResponse>(FIRECRAWL_MCP_ID, tool, args));
+
+interface EnrichSourcesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  material: UploadedMaterial;
+  // Receives the content of the approved results
+  onEnrich: (sources: SupplementarySource[]) => void;
+}
+
+// Find background reading on the web for a material and let the learner pick what to add
+export function EnrichSourcesDialog({ open, onOpenChange, material, onEnrich }: EnrichSourcesDialogProps) {
+  const chatMutation = useGPTChatMutation();
+  const [queries, setQueries] = useState("");
+  const [candidates, setCandidates] = useState<SupplementaryCandidate[] | null>(null);
+  const [selectedUrls, setSelectedUrls] = useState<string[]>([]);
+  const [busy, setBusy] = useState<"queries" | "search" | "fetch" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (step: NonNullable<typeof busy>, task: () => Promise<void>) => {
+    setBusy(step);
+    setError(null);
+    try {
+      await task();
+    } catch (e) {
+      console.error("Enrichment failed:", e);
+      setError(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Suggest queries every time the dialog opens for a material without results yet
+  const suggestQueries = useEffectEvent(() => {
+    if (queries || candidates) return;
+    void run("queries", async () => {
+      setQueries((await deriveSearchQueries(chatMutation.mutateAsync, material)).join("\n"));
+    });
+  });
+  useEffect(() => {
+    if (open) suggestQueries();
+  }, [open]);
+
+  const search = () =>
+    run("search", async () => {
+      const list = queries
+        .split("\n")
+        .map((query) => query.trim())
+        .filter(Boolean);
+      const exclude = [...getSupplementaryUrls(material.extractedText), ...(material.sourceUrl ? [material.sourceUrl] : [])];
+      const results = await searchSupplementarySources(firecrawl, list, exclude);
+      setCandidates(results);
+      setSelectedUrls([]);
+    });
+
+  const addSources = () =>
+    run("fetch", async () => {
+      const approved = (candidates ?? []).filter((candidate) => selectedUrls.includes(candidate.url));
+      onEnrich(await fetchSupplementarySources(firecrawl, approved));
+      setCandidates(null);
+      setQueries("");
+      onOpenChange(false);
+    });
+
+  const toggle = (url: string, checked: boolean) => {
+    setSelectedUrls((prev) => (checked ? [...prev, url] : prev.filter((other) => other !== url)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => busy !== "fetch" && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5 text-purple-600" />
+            Enrich with sources
+          </DialogTitle>
+          <DialogDescription>
+            Add background reading from the web. Approved pages are added as supplementary sources and the content is
+            generated again; citations show which parts come from them. Flashcards whose front changes start their
+            review schedule over.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="enrich-queries" className="text-sm font-medium mb-2 block">
+              Search queries (one per line)
+            </Label>
+            <div className="flex gap-2">
+              <Textarea
+                id="enrich-queries"
+                value={queries}
+                onChange={(e) => setQueries(e.target.value)}
+                placeholder={busy === "queries" ? "Suggesting queries..." : "osmosis across cell membranes"}
+                rows={3}
+                disabled={busy !== null}
+              />
+              <Button onClick={search} disabled={!queries.trim() || busy !== null} className="self-start">
+                {busy === "search" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Search className="h-4 w-4 mr-2" />}
+                Search
+              </Button>
+            </div>
+          </div>
+
+          {candidates && candidates.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">No new pages found. Try other queries.</p>
+          )}
+          {candidates && candidates.length > 0 && (
+            <ScrollArea className="h-[260px] rounded-lg border p-2">
+              {candidates.map((candidate) => (
+                <Label
+                  key={candidate.url}
+                  className="flex items-start gap-3 p-2 rounded hover:bg-gray-50 cursor-pointer font-normal"
+                >
+                  <Checkbox
+                    checked={selectedUrls.includes(candidate.url)}
+                    onCheckedChange={(checked) => toggle(candidate.url, checked === true)}
+                    disabled={busy !== null}
+                    className="mt-0.5"
+                  />
+                  <span className="flex-1 min-w-0 space-y-0.5">
+                    <span className="block text-sm font-medium break-words">{candidate.title ?? candidate.url}</span>
+                    <span className="block text-xs text-purple-600">{getHostname(candidate.url)}</span>
+                    {candidate.description && (
+                      <span className="block text-xs text-gray-500 line-clamp-2">{candidate.description}</span>
+                    )}
+                  </span>
+                </Label>
+              ))}
+            </ScrollArea>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy === "fetch"}>
+            Cancel
+          </Button>
+          <Button onClick={addSources} disabled={selectedUrls.length === 0 || busy !== null}>
+            {busy === "fetch" && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Add {selectedUrls.length || ""} source{selectedUrls.length !== 1 ? "s" : ""} and regenerate
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CalendarCheck, CheckCircle } from "lucide-react";
+import { MathText } from "@/components/MathText";
+import {
+  REVIEW_GRADES,
+  formatInterval,
+  previewIntervals,
+  type CardSchedule,
+  type ReviewGrade,
+} from "@/lib/spaced-repetition";
+
+export interface ReviewQueueItem {
+  key: string;
+  materialId: string;
+  materialName: string;
+  cardIndex: number;
+  front: string;
+  back: string;
+  schedule?: CardSchedule;
+}
+
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: "Again",
+  hard: "Hard",
+  good: "Good",
+  easy: "Easy",
+};
+
+const GRADE_CLASSES: Record<ReviewGrade, string> = {
+  again: "border-red-300 text-red-700 hover:bg-red-50",
+  hard: "border-orange-300 text-orange-700 hover:bg-orange-50",
+  good: "border-green-300 text-green-700 hover:bg-green-50",
+  easy: "border-blue-300 text-blue-700 hover:bg-blue-50",
+};
+
+interface ReviewGradeButtonsProps {
+  schedule?: CardSchedule;
+  onGrade: (grade: ReviewGrade) => void;
+}
+
+export function ReviewGradeButtons({ schedule, onGrade }: ReviewGradeButtonsProps) {
+  const intervals = previewIntervals(schedule);
+
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      {REVIEW_GRADES.map((grade) => (
+        <Button
+          key={grade}
+          variant="outline"
+          size="sm"
+          className={`flex flex-col h-auto py-1 ${GRADE_CLASSES[grade]}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            onGrade(grade);
+          }}
+        >
+          <span className="font-semibold">{GRADE_LABELS[grade]}</span>
+          <span className="text-[10px] opacity-75">{formatInterval(intervals[grade])}</span>
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+interface FlashcardReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  queue: ReviewQueueItem[];
+  onGrade: (item: ReviewQueueItem, grade: ReviewGrade) => void;
+}
+
+export function FlashcardReviewDialog({ open, onOpenChange, queue, onGrade }: FlashcardReviewDialogProps) {
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const current = queue[0];
+  const total = reviewedCount + queue.length;
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setIsFlipped(false);
+      setReviewedCount(0);
+    }
+    onOpenChange(value);
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current) return;
+    onGrade(current, grade);
+    setIsFlipped(false);
+    setReviewedCount((prev) => prev + 1);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5 text-blue-600" />
+            Due today
+          </DialogTitle>
+          <DialogDescription>
+            {queue.length} card{queue.length !== 1 ? "s" : ""} left in this review session
+          </DialogDescription>
+        </DialogHeader>
+
+        {total > 0 && <Progress value={(reviewedCount / total) * 100} className="h-2" />}
+
+        {!current ? (
+          <div className="text-center py-8">
+            <CheckCircle className="h-12 w-12 mx-auto mb-3 text-green-600" />
+            <p className="font-semibold">All caught up!</p>
+            <p className="text-sm text-gray-600">No more cards are due today.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div
+              className="min-h-[180px] p-4 border-2 rounded-lg cursor-pointer hover:shadow-md transition-all flex flex-col justify-center"
+              onClick={() => setIsFlipped((prev) => !prev)}
+            >
+              <div className="flex items-center justify-between mb-3">
+                <Badge variant="outline" className="text-xs max-w-[70%] truncate">
+                  {current.materialName}
+                </Badge>
+                <Badge variant="secondary" className="text-xs">
+                  {isFlipped ? "Back" : "Front"}
+                </Badge>
+              </div>
+              {!isFlipped ? (
+                <div className="font-medium text-lg">
+                  <MathText text={current.front} />
+                </div>
+              ) : (
+                <div className="text-gray-700 text-base">
+                  <MathText text={current.back} />
+                </div>
+              )}
+              <p className="text-xs text-gray-400 mt-4 italic">
+                {isFlipped ? "How well did you remember it?" : "Click to reveal answer"}
+              </p>
+            </div>
+
+            {isFlipped && <ReviewGradeButtons schedule={current.schedule} onGrade={handleGrade} />}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
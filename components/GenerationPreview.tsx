@@ -0,0 +1,91 @@
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, XCircle } from "lucide-react";
+import { MathText } from "@/components/MathText";
+import { ARTIFACT_STAGES, getStageLabel, type PipelineProgress } from "@/lib/pipeline";
+import type { MicroLesson } from "@/lib/types";
+
+interface GenerationPreviewProps {
+  // Label of the stage that is currently running
+  stageLabel?: string;
+  lessons: MicroLesson[];
+  summary?: string;
+  progress?: PipelineProgress;
+  onCancel?: () => void;
+}
+
+// Lessons and summary of a material that is still being generated, updated as tokens arrive
+export function GenerationPreview({ stageLabel, lessons, summary, progress, onCancel }: GenerationPreviewProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span>{stageLabel ? `Generating: ${stageLabel}...` : "Processing your material..."}</span>
+        </div>
+        {onCancel && (
+          <Button size="sm" variant="outline" onClick={onCancel}>
+            <XCircle className="h-4 w-4 mr-2" />
+            Cancel
+          </Button>
+        )}
+      </div>
+
+      {progress && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {ARTIFACT_STAGES.map((stage) => (
+            <div key={stage}>
+              <div className="flex justify-between text-xs text-gray-500 mb-1">
+                <span>{getStageLabel(stage)}</span>
+                <span>{Math.round((progress[stage] ?? 0) * 100)}%</span>
+              </div>
+              <Progress value={(progress[stage] ?? 0) * 100} className="h-1" />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Tabs defaultValue="lessons" className="w-full">
+        <TabsList className="grid w-full grid-cols-2">
+          <TabsTrigger value="lessons">Lessons</TabsTrigger>
+          <TabsTrigger value="summary">Summary</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="lessons">
+          <ScrollArea className="h-[400px]">
+            {lessons.length === 0 ? (
+              <p className="text-center text-gray-500 py-12">Lessons will appear here as they are written.</p>
+            ) : (
+              lessons.map((lesson, idx) => (
+                <div key={idx} className="mb-4">
+                  <h3 className="font-semibold text-lg mb-2">
+                    <MathText text={`${idx + 1}. ${lesson.title}`} />
+                  </h3>
+                  <div className="text-gray-700 whitespace-pre-wrap">
+                    <MathText text={lesson.content} />
+                  </div>
+                  {idx < lessons.length - 1 && <Separator className="my-4" />}
+                </div>
+              ))
+            )}
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="summary">
+          <ScrollArea className="h-[400px]">
+            {summary ? (
+              <div className="text-gray-700 whitespace-pre-wrap">
+                <MathText text={summary} />
+              </div>
+            ) : (
+              <p className="text-center text-gray-500 py-12">The summary will appear here once it is being written.</p>
+            )}
+          </ScrollArea>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { Link } from "@tanstack/react-router";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import {
+  AlertCircle,
+  ArrowUpDown,
+  BookOpen,
+  CheckCircle,
+  ClipboardCheck,
+  Clock,
+  Edit3,
+  FileText,
+  Loader2,
+  PauseCircle,
+  RotateCcw,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { examMaterials } from "@/lib/exam";
+import { canResume } from "@/lib/pipeline";
+import type { UploadedMaterial } from "@/lib/types";
+
+export type MaterialSortOrder = "date" | "theme" | "name";
+
+interface MaterialListProps {
+  materials: UploadedMaterial[];
+  selectedId?: string;
+  sortBy: MaterialSortOrder;
+  onSortChange: (sortBy: MaterialSortOrder) => void;
+  onSelect: (material: UploadedMaterial) => void;
+  onRename: (materialId: string, fileName: string) => void;
+  onDelete: (materialId: string) => void;
+  onResume: (material: UploadedMaterial) => void;
+  onSearch: (query: string) => void;
+}
+
+function sortMaterials(materials: UploadedMaterial[], sortBy: MaterialSortOrder): UploadedMaterial[] {
+  const sorted = [...materials];
+
+  switch (sortBy) {
+    case "theme":
+      return sorted.sort((a, b) => {
+        const categoryA = a.thematicCategory || "Other";
+        const categoryB = b.thematicCategory || "Other";
+        if (categoryA !== categoryB) {
+          return categoryA.localeCompare(categoryB);
+        }
+        return b.uploadedAt.getTime() - a.uploadedAt.getTime();
+      });
+    case "name":
+      return sorted.sort((a, b) => a.fileName.localeCompare(b.fileName));
+    // "date", newest first
+    default:
+      return sorted.sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime());
+  }
+}
+
+const suggestedFileName = (material: UploadedMaterial) =>
+  `${material.suggestedTitle}.${material.fileName.split(".").pop()}`;
+
+// Library sidebar with search, sorting, renaming, deleting and resuming of materials
+export function MaterialList({
+  materials,
+  selectedId,
+  sortBy,
+  onSortChange,
+  onSelect,
+  onRename,
+  onDelete,
+  onResume,
+  onSearch,
+}: MaterialListProps) {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [editingMaterialId, setEditingMaterialId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const stopEditing = () => {
+    setEditingMaterialId(null);
+    setEditingName("");
+  };
+
+  const rename = (materialId: string, fileName: string) => {
+    onRename(materialId, fileName);
+    stopEditing();
+  };
+
+  return (
+    <Card className="lg:col-span-1">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Your Materials ({materials.length})
+          {examMaterials(materials).length > 0 && (
+            <Button variant="outline" size="sm" className="ml-auto" asChild>
+              <Link to="/exam">
+                <ClipboardCheck className="h-4 w-4 mr-1" />
+                Exam
+              </Link>
+            </Button>
+          )}
+        </CardTitle>
+        {materials.length > 0 && (
+          <form
+            className="mt-3 relative"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (searchQuery.trim()) onSearch(searchQuery.trim());
+            }}
+          >
+            <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <Input
+              type="search"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search all materials..."
+              className="pl-9"
+            />
+          </form>
+        )}
+        {materials.length > 0 && (
+          <div className="mt-3">
+            <Label htmlFor="sort-by" className="text-sm font-medium mb-2 block">
+              Sort by
+            </Label>
+            <Select value={sortBy} onValueChange={(value) => onSortChange(value as MaterialSortOrder)}>
+              <SelectTrigger id="sort-by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="date">
+                  <span className="flex items-center gap-2">
+                    <ArrowUpDown className="h-3 w-3" />
+                    Upload Date
+                  </span>
+                </SelectItem>
+                <SelectItem value="theme">
+                  <span className="flex items-center gap-2">
+                    <ArrowUpDown className="h-3 w-3" />
+                    Theme
+                  </span>
+                </SelectItem>
+                <SelectItem value="name">
+                  <span className="flex items-center gap-2">
+                    <ArrowUpDown className="h-3 w-3" />
+                    Name
+                  </span>
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="h-[500px]">
+          {materials.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">
+              <BookOpen className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>No materials yet</p>
+              <p className="text-sm">Upload a file to get started</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {sortMaterials(materials, sortBy).map((material) => (
+                <div
+                  key={material.id}
+                  className={`p-3 border rounded-lg transition-all ${
+                    selectedId === material.id ? "border-blue-500 bg-blue-50" : "border-gray-200 hover:border-gray-300"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1 min-w-0 cursor-pointer" onClick={() => onSelect(material)}>
+                      {editingMaterialId === material.id ? (
+                        <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+                          <Input
+                            type="text"
+                            value={editingName}
+                            onChange={(e) => setEditingName(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") {
+                                rename(material.id, editingName);
+                              } else if (e.key === "Escape") {
+                                stopEditing();
+                              }
+                            }}
+                            className="text-sm"
+                            autoFocus
+                          />
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              variant="default"
+                              onClick={() => rename(material.id, editingName)}
+                              className="text-xs h-7 px-2"
+                            >
+                              Save
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={stopEditing} className="text-xs h-7 px-2">
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <>
+                          <p className="font-medium text-sm break-words">{material.fileName}</p>
+                          <p className="text-xs text-gray-500">{material.uploadedAt.toLocaleDateString()}</p>
+                          {material.thematicCategory && (
+                            <Badge variant="outline" className="text-xs mt-1">
+                              {material.thematicCategory}
+                            </Badge>
+                          )}
+                          {material.suggestedTitle && material.fileName !== suggestedFileName(material) && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onRename(material.id, suggestedFileName(material));
+                              }}
+                              className="text-xs h-7 px-2 mt-1 w-full text-blue-600"
+                            >
+                              Use suggested: {material.suggestedTitle}
+                            </Button>
+                          )}
+                        </>
+                      )}
+                      <div className="mt-1">
+                        {material.processingStatus === "completed" && (
+                          <Badge variant="default" className="text-xs">
+                            <CheckCircle className="h-3 w-3 mr-1" />
+                            Ready
+                          </Badge>
+                        )}
+                        {material.processingStatus === "pending" && (
+                          <Badge variant="outline" className="text-xs">
+                            <Clock className="h-3 w-3 mr-1" />
+                            Queued
+                          </Badge>
+                        )}
+                        {material.processingStatus === "processing" && (
+                          <Badge variant="secondary" className="text-xs">
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                            Processing
+                          </Badge>
+                        )}
+                        {material.processingStatus === "error" && (
+                          <Badge variant="destructive" className="text-xs">
+                            <AlertCircle className="h-3 w-3 mr-1" />
+                            Error
+                          </Badge>
+                        )}
+                        {material.processingStatus === "interrupted" && (
+                          <Badge variant="outline" className="text-xs text-orange-600 border-orange-300">
+                            <PauseCircle className="h-3 w-3 mr-1" />
+                            Interrupted
+                          </Badge>
+                        )}
+                        {canResume(material) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onResume(material);
+                            }}
+                            className="text-xs h-7 px-2 mt-1 w-full text-blue-600"
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            {material.processingStatus === "error" ? "Retry" : "Resume"}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex flex-col gap-1">
+                      {editingMaterialId !== material.id && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditingMaterialId(material.id);
+                            setEditingName(material.fileName);
+                          }}
+                          title="Rename"
+                        >
+                          <Edit3 className="h-4 w-4 text-blue-500" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDelete(material.id);
+                        }}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,190 @@
+import { useEffect, useEffectEvent, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, CheckCircle2, ExternalLink, FileText, Loader2, Search, Send } from "lucide-react";
+import { callMCPTool, type MCPToolResponse } from "@/sdk/core/mcp-client";
+import { createNotionClient, NOTION_MCP_ID, type NotionPageRef } from "@/lib/notion";
+import { exportToNotion, findResultsDatabase, type NotionExportStep } from "@/lib/notion-export";
+import type { NotionExport, UploadedMaterial } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const notion = createNotionClient((tool, args) => callMCPTool<MCPToolResponse>(NOTION_MCP_ID, tool, args));
+
+const STEP_LABELS: Record<NotionExportStep, string> = {
+  page: "Preparing the page...",
+  content: "Adding lessons, summary and flashcards...",
+  results: "Saving quiz results...",
+};
+
+interface NotionExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  material: UploadedMaterial;
+  // All materials, to reuse the quiz results database of earlier exports
+  materials: UploadedMaterial[];
+  onExported: (notionExport: NotionExport) => void;
+}
+
+// Send a material to a Notion page picked by the learner; exporting again updates it
+export function NotionExportDialog({ open, onOpenChange, material, materials, onExported }: NotionExportDialogProps) {
+  const [query, setQuery] = useState("");
+  const [pages, setPages] = useState<NotionPageRef[] | null>(null);
+  const [parentId, setParentId] = useState<string | undefined>(material.notionExport?.parentId);
+  const [isSearching, setIsSearching] = useState(false);
+  const [step, setStep] = useState<NotionExportStep | null>(null);
+  const [exported, setExported] = useState<NotionExport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = async (text: string) => {
+    setIsSearching(true);
+    setError(null);
+    try {
+      const results = await notion.searchPages(text.trim());
+      // The material's own page cannot be its parent
+      setPages(results.filter((page) => page.id !== material.notionExport?.pageId));
+    } catch (e) {
+      console.error("Notion search failed:", e);
+      setError(e instanceof Error ? e.message : "Notion could not be searched");
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  // Every time the dialog opens, start from the page of the last export and list the pages
+  const reset = useEffectEvent(() => {
+    setExported(null);
+    setParentId(material.notionExport?.parentId);
+    void search(query);
+  });
+  useEffect(() => {
+    if (open) reset();
+  }, [open]);
+
+  const startExport = async () => {
+    if (!parentId) return;
+    setError(null);
+    try {
+      const result = await exportToNotion(notion, material, parentId, {
+        resultsDatabaseId: findResultsDatabase(materials, parentId),
+        onStep: setStep,
+      });
+      onExported(result);
+      setExported(result);
+    } catch (e) {
+      console.error("Notion export failed:", e);
+      setError(e instanceof Error ? e.message : "The export failed");
+    } finally {
+      setStep(null);
+    }
+  };
+
+  const isUpdate = !!parentId && material.notionExport?.parentId === parentId;
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => step === null && onOpenChange(nextOpen)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Send className="h-5 w-5 text-gray-800" />
+            Send to Notion
+          </DialogTitle>
+          <DialogDescription>
+            Creates a page with the lessons, summary and flashcards below the page you pick, and adds your quiz results
+            to a database there.
+          </DialogDescription>
+        </DialogHeader>
+
+        {exported ? (
+          <div className="text-center py-6 space-y-3">
+            <CheckCircle2 className="h-12 w-12 mx-auto text-green-600" />
+            <p className="text-sm text-gray-700">"{material.suggestedTitle ?? material.fileName}" is in Notion</p>
+            {exported.pageUrl && (
+              <Button variant="outline" asChild>
+                <a href={exported.pageUrl} target="_blank" rel="noreferrer">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Open in Notion
+                </a>
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                void search(query);
+              }}
+            >
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search your Notion pages"
+                disabled={step !== null}
+              />
+              <Button type="submit" variant="outline" disabled={isSearching || step !== null}>
+                {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+              </Button>
+            </form>
+
+            <ScrollArea className="h-[220px] rounded-lg border p-2">
+              {pages?.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-8">
+                  No pages found. Share a page with the Notion integration and search again.
+                </p>
+              )}
+              {pages?.map((page) => (
+                <button
+                  key={page.id}
+                  type="button"
+                  onClick={() => setParentId(page.id)}
+                  disabled={step !== null}
+                  className={cn(
+                    "flex w-full items-center gap-2 rounded p-2 text-left text-sm hover:bg-gray-50",
+                    parentId === page.id && "bg-blue-50 text-blue-900 hover:bg-blue-50"
+                  )}
+                >
+                  <FileText className="h-4 w-4 shrink-0 text-gray-500" />
+                  <span className="flex-1 min-w-0 truncate">{page.title}</span>
+                  {material.notionExport?.parentId === page.id && (
+                    <span className="text-xs text-gray-500">last export</span>
+                  )}
+                </button>
+              ))}
+            </ScrollArea>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={step !== null}>
+            {exported ? "Close" : "Cancel"}
+          </Button>
+          {!exported && (
+            <Button onClick={startExport} disabled={!parentId || step !== null}>
+              {step !== null ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  {STEP_LABELS[step]}
+                </>
+              ) : isUpdate ? (
+                "Update in Notion"
+              ) : (
+                "Send to Notion"
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
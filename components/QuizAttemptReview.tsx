@@ -0,0 +1,66 @@
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CheckCircle, Clock, XCircle } from "lucide-react";
+import { MathText } from "@/components/MathText";
+import { QuizQuestionInput } from "@/components/QuizQuestionInput";
+import { SourceCitations } from "@/components/SourceCitations";
+import { formatQuestionText, isResponseCorrect } from "@/lib/question-types";
+import { formatDuration, totalAttemptTime, type ReviewableQuizResult } from "@/lib/quiz-attempts";
+
+interface QuizAttemptReviewProps {
+  materialId: string;
+  attempt: ReviewableQuizResult;
+}
+
+// Replays a finished attempt: the response and the correct answer of every question, with explanations
+export function QuizAttemptReview({ materialId, attempt }: QuizAttemptReviewProps) {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600">
+        <span>{new Date(attempt.timestamp).toLocaleString()}</span>
+        <Badge variant={attempt.percentage >= 60 ? "default" : "destructive"}>
+          {attempt.correctAnswers}/{attempt.totalQuestions} · {attempt.percentage.toFixed(1)}%
+        </Badge>
+        <span className="flex items-center gap-1">
+          <Clock className="h-3 w-3" />
+          {formatDuration(totalAttemptTime(attempt))}
+        </span>
+      </div>
+
+      <ScrollArea className="h-[450px]">
+        {attempt.questions.map((quiz, idx) => {
+          const { selected, timeMs } = attempt.answers[idx];
+          const isCorrect = isResponseCorrect(quiz, selected);
+
+          return (
+            <div key={idx} className="mb-6">
+              <h3 className="font-semibold mb-1 flex items-start gap-2">
+                {isCorrect ? (
+                  <CheckCircle className="h-5 w-5 text-green-600 shrink-0 mt-0.5" />
+                ) : (
+                  <XCircle className="h-5 w-5 text-red-600 shrink-0 mt-0.5" />
+                )}
+                <MathText text={`${idx + 1}. ${formatQuestionText(quiz)}`} />
+              </h3>
+              <p className="text-xs text-gray-500 mb-3 ml-7">
+                {selected === null ? "Not answered" : `Answered in ${formatDuration(timeMs)}`}
+              </p>
+              <QuizQuestionInput question={quiz} response={selected} revealed />
+              {quiz.explanation && (
+                <Alert className="mt-3 bg-blue-50 border-blue-200">
+                  <AlertDescription>
+                    <strong>Explanation:</strong> <MathText text={quiz.explanation} />
+                  </AlertDescription>
+                </Alert>
+              )}
+              <SourceCitations materialId={materialId} citations={quiz.citations} className="mt-2" />
+              {idx < attempt.questions.length - 1 && <Separator className="my-4" />}
+            </div>
+          );
+        })}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,386 @@
+import type { ReactNode } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Loader2 } from "lucide-react";
+import { MathText } from "@/components/MathText";
+import {
+  PASSING_SCORE,
+  describeCorrectAnswer,
+  isResponseCorrect,
+  normalizeText,
+  parseNumber,
+  readResponse,
+  shuffledOrder,
+} from "@/lib/question-types";
+import type {
+  ClozeQuestion,
+  FreeTextQuestion,
+  MatchingQuestion,
+  MultiSelectQuestion,
+  MultipleChoiceQuestion,
+  NumericQuestion,
+  OrderingQuestion,
+  QuizQuestion,
+  QuizResponse,
+  QuizResponseMap,
+  TrueFalseQuestion,
+} from "@/lib/types";
+
+interface QuizQuestionInputProps {
+  question: QuizQuestion;
+  response: QuizResponse | null | undefined;
+  // Omitted when the question is only displayed, e.g. in the attempt review
+  onChange?: (response: QuizResponse) => void;
+  // Show which parts were right and what the correct answer is
+  revealed: boolean;
+  // A free-text answer is being graded by the model
+  grading?: boolean;
+}
+
+interface InputProps<Q extends QuizQuestion, R extends QuizResponse> {
+  question: Q;
+  response: R | null;
+  onChange: (response: R) => void;
+  revealed: boolean;
+  disabled: boolean;
+}
+
+// Answer area of a quiz question, rendered according to its type
+export function QuizQuestionInput({ question, response, onChange, revealed, grading = false }: QuizQuestionInputProps) {
+  const shared = { revealed, disabled: revealed || grading || !onChange, onChange: (value: QuizResponse) => onChange?.(value) };
+
+  switch (question.type) {
+    case "trueFalse":
+      return <TrueFalseInput {...shared} question={question} response={readResponse("trueFalse", response)} />;
+    case "multiSelect":
+      return <MultiSelectInput {...shared} question={question} response={readResponse("multiSelect", response)} />;
+    case "cloze":
+      return <ClozeInput {...shared} question={question} response={readResponse("cloze", response)} />;
+    case "ordering":
+      return <OrderingInput {...shared} question={question} response={readResponse("ordering", response)} />;
+    case "matching":
+      return <MatchingInput {...shared} question={question} response={readResponse("matching", response)} />;
+    case "numeric":
+      return <NumericInput {...shared} question={question} response={readResponse("numeric", response)} />;
+    case "freeText":
+      return (
+        <FreeTextInput {...shared} question={question} response={readResponse("freeText", response)} grading={grading} />
+      );
+    default:
+      return <MultipleChoiceInput {...shared} question={question} response={readResponse("multipleChoice", response)} />;
+  }
+}
+
+function optionClassName(revealed: boolean, isSelected: boolean, isCorrectOption: boolean) {
+  return `w-full p-3 rounded-lg border text-left transition-all ${
+    revealed && isCorrectOption
+      ? "border-green-500 bg-green-50"
+      : revealed && isSelected
+      ? "border-red-500 bg-red-50"
+      : isSelected && !revealed
+      ? "border-blue-500 bg-blue-50"
+      : "border-gray-200 hover:border-gray-300"
+  } ${revealed ? "cursor-not-allowed" : "cursor-pointer"}`;
+}
+
+function fieldClassName(revealed: boolean, isCorrect: boolean) {
+  if (!revealed) return "";
+  return isCorrect ? "border-green-500 bg-green-50" : "border-red-500 bg-red-50";
+}
+
+function OptionBadges({ revealed, isSelected, isCorrectOption }: { revealed: boolean; isSelected: boolean; isCorrectOption: boolean }) {
+  if (!revealed) return null;
+  if (isCorrectOption) {
+    return (
+      <Badge variant="default" className="ml-2 text-xs">
+        Correct
+      </Badge>
+    );
+  }
+  if (isSelected) {
+    return (
+      <Badge variant="destructive" className="ml-2 text-xs">
+        Wrong
+      </Badge>
+    );
+  }
+  return null;
+}
+
+function CorrectAnswer({ question, response, revealed }: { question: QuizQuestion; response: QuizResponse | null; revealed: boolean }) {
+  if (!revealed || isResponseCorrect(question, response)) return null;
+  return (
+    <p className="mt-2 text-sm text-green-700">
+      <strong>Correct answer:</strong> <MathText text={describeCorrectAnswer(question)} />
+    </p>
+  );
+}
+
+function ChoiceList({
+  options,
+  isSelected,
+  isCorrectOption,
+  onSelect,
+  revealed,
+  disabled,
+  renderMarker,
+}: {
+  options: string[];
+  isSelected: (optIdx: number) => boolean;
+  isCorrectOption: (optIdx: number) => boolean;
+  onSelect: (optIdx: number) => void;
+  revealed: boolean;
+  disabled: boolean;
+  renderMarker: (optIdx: number) => ReactNode;
+}) {
+  return (
+    <div className="space-y-2">
+      {options.map((option, optIdx) => (
+        <button
+          key={optIdx}
+          onClick={() => onSelect(optIdx)}
+          disabled={disabled}
+          className={optionClassName(revealed, isSelected(optIdx), isCorrectOption(optIdx))}
+        >
+          {renderMarker(optIdx)}
+          <MathText text={option} />
+          <OptionBadges revealed={revealed} isSelected={isSelected(optIdx)} isCorrectOption={isCorrectOption(optIdx)} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+const letterMarker = (optIdx: number) => <span className="font-medium mr-2">{String.fromCharCode(65 + optIdx)}.</span>;
+
+function MultipleChoiceInput({ question, response, onChange, revealed, disabled }: InputProps<MultipleChoiceQuestion, number>) {
+  return (
+    <ChoiceList
+      options={question.options}
+      isSelected={(optIdx) => response === optIdx}
+      isCorrectOption={(optIdx) => optIdx === question.correctAnswer}
+      onSelect={onChange}
+      revealed={revealed}
+      disabled={disabled}
+      renderMarker={letterMarker}
+    />
+  );
+}
+
+const TRUE_FALSE_OPTIONS = [true, false];
+
+function TrueFalseInput({ question, response, onChange, revealed, disabled }: InputProps<TrueFalseQuestion, boolean>) {
+  return (
+    <ChoiceList
+      options={TRUE_FALSE_OPTIONS.map((value) => (value ? "True" : "False"))}
+      isSelected={(optIdx) => response === TRUE_FALSE_OPTIONS[optIdx]}
+      isCorrectOption={(optIdx) => TRUE_FALSE_OPTIONS[optIdx] === question.correctAnswer}
+      onSelect={(optIdx) => onChange(TRUE_FALSE_OPTIONS[optIdx])}
+      revealed={revealed}
+      disabled={disabled}
+      renderMarker={() => null}
+    />
+  );
+}
+
+function MultiSelectInput({ question, response, onChange, revealed, disabled }: InputProps<MultiSelectQuestion, number[]>) {
+  const selected = response ?? [];
+  const toggle = (optIdx: number) =>
+    onChange(
+      selected.includes(optIdx)
+        ? selected.filter((value) => value !== optIdx)
+        : [...selected, optIdx].sort((a, b) => a - b)
+    );
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">Select all that apply</p>
+      <ChoiceList
+        options={question.options}
+        isSelected={(optIdx) => selected.includes(optIdx)}
+        isCorrectOption={(optIdx) => question.correctAnswers.includes(optIdx)}
+        onSelect={toggle}
+        revealed={revealed}
+        disabled={disabled}
+        renderMarker={(optIdx) => (
+          <Checkbox checked={selected.includes(optIdx)} tabIndex={-1} className="mr-2 align-middle pointer-events-none" />
+        )}
+      />
+    </div>
+  );
+}
+
+function ClozeInput({ question, response, onChange, revealed, disabled }: InputProps<ClozeQuestion, string[]>) {
+  const values = question.blanks.map((_, idx) => response?.[idx] ?? "");
+
+  return (
+    <div className="space-y-2">
+      {question.blanks.map((accepted, idx) => {
+        const isCorrect = accepted.some((answer) => normalizeText(answer) === normalizeText(values[idx]));
+        return (
+          <div key={idx} className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-600 w-8">({idx + 1})</span>
+            <Input
+              value={values[idx]}
+              onChange={(e) => onChange(values.map((value, other) => (other === idx ? e.target.value : value)))}
+              disabled={disabled}
+              placeholder="Your answer"
+              className={fieldClassName(revealed, isCorrect)}
+            />
+          </div>
+        );
+      })}
+      <CorrectAnswer question={question} response={response} revealed={revealed} />
+    </div>
+  );
+}
+
+function OrderingInput({ question, response, onChange, revealed, disabled }: InputProps<OrderingQuestion, number[]>) {
+  const order = response ?? shuffledOrder(question.items.length, question.question);
+  const move = (position: number, offset: number) => {
+    const next = [...order];
+    [next[position], next[position + offset]] = [next[position + offset], next[position]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-500">Put the items in the correct order</p>
+      {order.map((item, position) => (
+        <div
+          key={item}
+          className={`flex items-center gap-2 p-2 rounded-lg border ${fieldClassName(revealed, item === position) || "border-gray-200"}`}
+        >
+          <span className="font-medium text-gray-600 w-6 text-center">{position + 1}.</span>
+          <MathText text={question.items[item]} className="flex-1" />
+          <Button variant="ghost" size="icon" onClick={() => move(position, -1)} disabled={disabled || position === 0}>
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => move(position, 1)}
+            disabled={disabled || position === order.length - 1}
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <CorrectAnswer question={question} response={response} revealed={revealed} />
+    </div>
+  );
+}
+
+function MatchingInput({ question, response, onChange, revealed, disabled }: InputProps<MatchingQuestion, QuizResponseMap["matching"]>) {
+  const choices = shuffledOrder(question.pairs.length, question.question);
+  const matches = question.pairs.map((_, idx) => response?.[idx] ?? null);
+
+  return (
+    <div className="space-y-2">
+      {question.pairs.map((pair, idx) => (
+        <div key={idx} className="grid grid-cols-2 items-center gap-2">
+          <MathText text={pair.left} className="text-sm" />
+          <Select
+            value={matches[idx] === null ? "" : String(matches[idx])}
+            onValueChange={(value) => onChange(matches.map((match, other) => (other === idx ? Number(value) : match)))}
+            disabled={disabled}
+          >
+            <SelectTrigger className={`w-full ${fieldClassName(revealed, matches[idx] === idx)}`}>
+              <SelectValue placeholder="Choose a match" />
+            </SelectTrigger>
+            <SelectContent>
+              {choices.map((choice) => (
+                <SelectItem key={choice} value={String(choice)}>
+                  {question.pairs[choice].right}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      ))}
+      <CorrectAnswer question={question} response={response} revealed={revealed} />
+    </div>
+  );
+}
+
+function NumericInput({ question, response, onChange, revealed, disabled }: InputProps<NumericQuestion, string>) {
+  const value = response ?? "";
+  const isInvalid = value.trim() !== "" && parseNumber(value) === undefined;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          inputMode="decimal"
+          placeholder="Your answer"
+          className={`max-w-48 ${fieldClassName(revealed, isResponseCorrect(question, response))}`}
+        />
+        {question.unit && <MathText text={question.unit} className="text-sm text-gray-600" />}
+      </div>
+      {isInvalid && !revealed && <p className="text-xs text-red-600">Enter a number, e.g. 3.5</p>}
+      <CorrectAnswer question={question} response={response} revealed={revealed} />
+    </div>
+  );
+}
+
+function FreeTextInput({
+  question,
+  response,
+  onChange,
+  revealed,
+  disabled,
+  grading,
+}: InputProps<FreeTextQuestion, QuizResponseMap["freeText"]> & { grading: boolean }) {
+  const grade = response?.grade;
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={response?.text ?? ""}
+        onChange={(e) => onChange({ text: e.target.value })}
+        disabled={disabled}
+        placeholder="Answer in your own words"
+        rows={4}
+        className={revealed && grade ? fieldClassName(true, grade.score >= PASSING_SCORE) : ""}
+      />
+      {grading && (
+        <p className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Grading your answer...
+        </p>
+      )}
+      {revealed && grade && (
+        <div className="rounded-lg border p-3 text-sm space-y-2">
+          <div className="flex items-center gap-2">
+            <Badge variant={grade.score >= PASSING_SCORE ? "default" : "destructive"}>{Math.round(grade.score)}/100</Badge>
+            <MathText text={grade.feedback} />
+          </div>
+          {grade.missingPoints.length > 0 && (
+            <div>
+              <strong>Missing:</strong>
+              <ul className="list-disc ml-5">
+                {grade.missingPoints.map((point, idx) => (
+                  <li key={idx}>
+                    <MathText text={point} />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+      {revealed && (
+        <p className="text-sm text-gray-700">
+          <strong>Reference answer:</strong> <MathText text={question.referenceAnswer} />
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Link } from "@tanstack/react-router";
+import { AlertTriangle, BookOpenText, Globe } from "lucide-react";
+import { formatCitation } from "@/lib/citations";
+import type { SourceCitation } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface SourceCitationsProps {
+  materialId: string;
+  citations?: SourceCitation[];
+  className?: string;
+}
+
+// Links to the passages an item is based on. Items whose quotes were not found in the
+// source are flagged; items generated before citations existed show nothing. Passages of
+// supplementary web sources are labelled with their site, apart from the original material.
+export function SourceCitations({ materialId, citations, className }: SourceCitationsProps) {
+  if (!citations) return null;
+
+  if (citations.length === 0) {
+    return (
+      <span
+        className={cn("flex items-center gap-1 text-xs text-orange-600", className)}
+        title="The passage this is based on could not be found in the source. Double-check it."
+      >
+        <AlertTriangle className="h-3 w-3" />
+        Not found in source
+      </span>
+    );
+  }
+
+  return (
+    <span className={cn("flex flex-wrap items-center gap-1 text-xs text-gray-500", className)}>
+      <BookOpenText className="h-3 w-3" />
+      {citations.map((citation, idx) => (
+        <Link
+          key={idx}
+          to="/materials/$materialId/source"
+          params={{ materialId }}
+          search={{ start: citation.startOffset, end: citation.endOffset }}
+          title={citation.sourceUrl ? `Supplementary source ${citation.sourceUrl}: ${citation.quote}` : citation.quote}
+          className={cn(
+            "hover:underline",
+            citation.sourceUrl ? "inline-flex items-center gap-0.5 text-purple-600" : "text-blue-600"
+          )}
+          // Flashcards flip on click
+          onClick={(e) => e.stopPropagation()}
+        >
+          {citation.sourceUrl && <Globe className="h-3 w-3" />}
+          {formatCitation(citation)}
+        </Link>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,106 @@
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Separator } from "@/components/ui/separator";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, CheckCircle, Crown, Loader2, User } from "lucide-react";
+
+const PREMIUM_FEATURES = [
+  { title: "Unbegrenzte Uploads", description: "Laden Sie so viele Dateien hoch, wie Sie möchten" },
+  { title: "Alle Dateiformate", description: "PDF, PPT, Text und mehr" },
+  { title: "Erweiterte KI-Funktionen", description: "Bessere Quiz-Qualität und detailliertere Lektionen" },
+  { title: "Flashcards Feature", description: "Erstellen Sie Karteikarten für effizientes Lernen" },
+  { title: "Prioritätssupport", description: "Schnelle Hilfe bei Fragen" },
+];
+
+interface SubscriptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSignedIn: boolean;
+  freeDailyLimit: number;
+  isCheckingOut: boolean;
+  onCheckout: () => void;
+  onSignIn: () => void;
+}
+
+// Premium offer, shown from the upgrade buttons and when the daily upload limit is reached
+export function SubscriptionDialog({
+  open,
+  onOpenChange,
+  isSignedIn,
+  freeDailyLimit,
+  isCheckingOut,
+  onCheckout,
+  onSignIn,
+}: SubscriptionDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl">
+            <Crown className="h-6 w-6 text-yellow-500" />
+            Premium Upgrade
+          </DialogTitle>
+          <DialogDescription>
+            Schalten Sie unbegrenzte Uploads und erweiterte Funktionen frei
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="bg-gradient-to-br from-yellow-50 to-orange-50 p-6 rounded-lg border-2 border-yellow-200">
+            <div className="text-center mb-4">
+              <div className="text-4xl font-bold text-gray-900">3,99€</div>
+              <div className="text-sm text-gray-600">pro Monat</div>
+            </div>
+
+            <Separator className="my-4" />
+
+            <div className="space-y-3">
+              {PREMIUM_FEATURES.map((feature) => (
+                <div key={feature.title} className="flex items-start gap-2">
+                  <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <div className="font-semibold">{feature.title}</div>
+                    <div className="text-sm text-gray-600">{feature.description}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Alert className="bg-blue-50 border-blue-200">
+            <AlertCircle className="h-4 w-4 text-blue-600" />
+            <AlertDescription className="text-blue-800 text-sm">
+              {isSignedIn
+                ? `Kostenlos: ${freeDailyLimit} Uploads pro Tag. Upgrade jetzt für unbegrenzte Nutzung!`
+                : "Bitte melden Sie sich an, um Premium zu aktivieren"}
+            </AlertDescription>
+          </Alert>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} className="w-full sm:w-auto">
+            Später
+          </Button>
+          {isSignedIn ? (
+            <Button
+              onClick={onCheckout}
+              disabled={isCheckingOut}
+              className="w-full sm:w-auto bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600 text-white"
+            >
+              {isCheckingOut ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Crown className="h-4 w-4 mr-2" />}
+              Jetzt für 3,99€/Monat upgraden
+            </Button>
+          ) : (
+            <Button
+              onClick={onSignIn}
+              className="w-full sm:w-auto bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white"
+            >
+              <User className="h-4 w-4 mr-2" />
+              Zuerst anmelden
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
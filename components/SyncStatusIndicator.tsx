@@ -0,0 +1,77 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Cloud, CloudAlert, CloudOff, RefreshCw } from "lucide-react";
+import type { SyncStatus } from "@/lib/sync-engine";
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus | "disabled";
+  lastSyncedAt?: Date;
+  onEnable: () => void;
+  onDisable: () => void;
+  onSync: () => void;
+}
+
+// Cloud sync state next to the user's email, with a menu to sync now or turn sync off
+export function SyncStatusIndicator({ status, lastSyncedAt, onEnable, onDisable, onSync }: SyncStatusIndicatorProps) {
+  if (status === "disabled") {
+    return (
+      <Button variant="ghost" size="sm" className="h-7 px-2 text-gray-500" onClick={onEnable} title="Materialien auf allen Geräten synchronisieren">
+        <CloudOff className="h-4 w-4 mr-1" />
+        <span className="text-xs">Sync aus</span>
+      </Button>
+    );
+  }
+
+  const syncedAt = lastSyncedAt ? `Zuletzt synchronisiert: ${lastSyncedAt.toLocaleTimeString()}` : "Noch nicht synchronisiert";
+  const { icon, label, className, title } = {
+    idle: { icon: <Cloud className="h-4 w-4" />, label: "Synchronisiert", className: "text-green-600", title: syncedAt },
+    syncing: {
+      icon: <RefreshCw className="h-4 w-4 animate-spin" />,
+      label: "Synchronisiere...",
+      className: "text-blue-600",
+      title: syncedAt,
+    },
+    offline: {
+      icon: <CloudOff className="h-4 w-4" />,
+      label: "Offline",
+      className: "text-gray-500",
+      title: "Änderungen werden synchronisiert, sobald Sie wieder online sind",
+    },
+    error: {
+      icon: <CloudAlert className="h-4 w-4" />,
+      label: "Sync-Fehler",
+      className: "text-red-600",
+      title: "Synchronisierung fehlgeschlagen",
+    },
+  }[status];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className={`h-7 px-2 ${className}`} title={title}>
+          {icon}
+          <span className="text-xs ml-1">{label}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-gray-500">{title}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={onSync} disabled={status === "syncing"}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Jetzt synchronisieren
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={onDisable}>
+          <CloudOff className="h-4 w-4 mr-2" />
+          Synchronisierung ausschalten
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
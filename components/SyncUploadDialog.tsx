@@ -0,0 +1,38 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { SyncUploadRequest } from "@/hooks/use-material-sync";
+
+interface SyncUploadDialogProps {
+  request: SyncUploadRequest | null;
+}
+
+// Asks before materials that were already on this device are uploaded into the signed-in account
+export function SyncUploadDialog({ request }: SyncUploadDialogProps) {
+  return (
+    <AlertDialog open={!!request} onOpenChange={(open) => !open && request?.respond(false)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Materialien in Ihr Konto hochladen?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {request?.count === 1
+              ? "Auf diesem Gerät ist 1 Material gespeichert, das noch nicht zu Ihrem Konto gehört."
+              : `Auf diesem Gerät sind ${request?.count} Materialien gespeichert, die noch nicht zu Ihrem Konto gehören.`}{" "}
+            Wenn Sie sie nicht hochladen, bleiben sie nur auf diesem Gerät und werden nicht synchronisiert.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Nur auf diesem Gerät</AlertDialogCancel>
+          <AlertDialogAction onClick={() => request?.respond(true)}>Hochladen</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,141 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, CheckCircle, Clock, Loader2, Pause, Play, X } from "lucide-react";
+import { getCompletedProgress, getOverallProgress, type PipelineProgress } from "@/lib/pipeline";
+import { summarizeQueue, type QueueItem, type QueueItemStatus } from "@/lib/upload-queue";
+
+interface UploadQueueProps {
+  queue: QueueItem[];
+  progress: Record<string, PipelineProgress>;
+  onPause: (materialId: string) => void;
+  onResume: (materialId: string) => void;
+  onCancel: (materialId: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  queued: "Queued",
+  waitingForQuota: "Tageslimit erreicht",
+  processing: "Processing",
+  paused: "Paused",
+  completed: "Ready",
+  error: "Error",
+};
+
+function StatusBadge({ status }: { status: QueueItemStatus }) {
+  switch (status) {
+    case "processing":
+      return (
+        <Badge variant="secondary" className="text-xs">
+          <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+          {STATUS_LABELS[status]}
+        </Badge>
+      );
+    case "completed":
+      return (
+        <Badge variant="default" className="text-xs">
+          <CheckCircle className="h-3 w-3 mr-1" />
+          {STATUS_LABELS[status]}
+        </Badge>
+      );
+    case "error":
+      return (
+        <Badge variant="destructive" className="text-xs">
+          <AlertCircle className="h-3 w-3 mr-1" />
+          {STATUS_LABELS[status]}
+        </Badge>
+      );
+    case "waitingForQuota":
+      return (
+        <Badge variant="outline" className="text-xs text-yellow-700 border-yellow-300">
+          <Clock className="h-3 w-3 mr-1" />
+          {STATUS_LABELS[status]}
+        </Badge>
+      );
+    default:
+      return (
+        <Badge variant="outline" className="text-xs">
+          {status === "paused" ? <Pause className="h-3 w-3 mr-1" /> : <Clock className="h-3 w-3 mr-1" />}
+          {STATUS_LABELS[status]}
+        </Badge>
+      );
+  }
+}
+
+// Per-file status of a batch upload with pause, resume and cancel controls
+export function UploadQueue({ queue, progress, onPause, onResume, onCancel, onClearFinished }: UploadQueueProps) {
+  if (queue.length === 0) return null;
+
+  const { total, finished, active } = summarizeQueue(queue);
+  const waitingForQuota = queue.some((item) => item.status === "waitingForQuota");
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          {active > 0 && <Loader2 className="h-4 w-4 animate-spin" />}
+          <span>
+            {finished} of {total} file{total !== 1 ? "s" : ""} processed
+          </span>
+        </div>
+        {finished > 0 && (
+          <Button size="sm" variant="ghost" className="text-xs h-7" onClick={onClearFinished}>
+            Clear finished
+          </Button>
+        )}
+      </div>
+      <Progress value={(finished / total) * 100} className="h-2" />
+
+      {waitingForQuota && (
+        <p className="text-xs text-yellow-700">
+          Einige Dateien warten auf das Tageslimit und werden automatisch verarbeitet, sobald wieder Uploads verfügbar sind.
+        </p>
+      )}
+
+      <div className="max-h-64 overflow-y-auto space-y-2">
+        {queue.map((item) => {
+          const itemProgress = getOverallProgress(
+            progress[item.materialId] ?? getCompletedProgress(item.material.pipeline)
+          );
+          const canPause = item.status === "processing" || item.status === "queued" || item.status === "waitingForQuota";
+          const canCancel = item.status !== "completed" && item.status !== "error";
+
+          return (
+            <div key={item.materialId} className="rounded-md border bg-white p-2">
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium truncate" title={item.fileName}>
+                  {item.fileName}
+                </p>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <StatusBadge status={item.status} />
+                  {canPause && (
+                    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Pause" onClick={() => onPause(item.materialId)}>
+                      <Pause className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {item.status === "paused" && (
+                    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Resume" onClick={() => onResume(item.materialId)}>
+                      <Play className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {canCancel && (
+                    <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Cancel" onClick={() => onCancel(item.materialId)}>
+                      <X className="h-4 w-4 text-red-500" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {(item.status === "processing" || item.status === "paused") && (
+                <Progress value={itemProgress} className="h-1 mt-2" />
+              )}
+              {item.status === "error" && item.error && (
+                <p className="text-xs text-red-600 mt-1 whitespace-pre-line">{item.error}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
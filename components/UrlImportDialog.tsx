@@ -0,0 +1,204 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertCircle, Globe, Loader2 } from "lucide-react";
+import { callMCPTool, type MCPToolResponse } from "@/sdk/core/mcp-client";
+import { createFirecrawlClient, FIRECRAWL_MCP_ID } from "@/lib/firecrawl";
+import { isAbortError } from "@/lib/structured-output";
+import {
+  DEFAULT_CRAWL_LIMIT,
+  importFromWeb,
+  parsePathPatterns,
+  toMarkdownFile,
+  type WebImport,
+  type WebImportRequest,
+} from "@/lib/web-import";
+
+const PAGE_LIMITS = [5, DEFAULT_CRAWL_LIMIT, 25, 50];
+
+const firecrawl = createFirecrawlClient((tool, args) => callMCPTool<MCPToolResponse>(FIRECRAWL_MCP_ID, tool, args));
+
+interface UrlImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Receives the imported pages as a markdown file, queued like an uploaded file
+  onImport: (file: File, webImport: WebImport) => void;
+}
+
+// Import a web page, or the pages of a documentation site, as a new material
+export function UrlImportDialog({ open, onOpenChange, onImport }: UrlImportDialogProps) {
+  const [mode, setMode] = useState<WebImportRequest["mode"]>("page");
+  const [url, setUrl] = useState("");
+  const [includePaths, setIncludePaths] = useState("");
+  const [excludePaths, setExcludePaths] = useState("");
+  const [limit, setLimit] = useState(DEFAULT_CRAWL_LIMIT);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const close = (nextOpen: boolean) => {
+    if (nextOpen) return;
+    // Closing while a crawl is running cancels it
+    abortRef.current?.abort();
+    setError(null);
+    onOpenChange(false);
+  };
+
+  const startImport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsImporting(true);
+    setProgress(null);
+    setError(null);
+    try {
+      const request: WebImportRequest =
+        mode === "page"
+          ? { mode, url }
+          : {
+              mode,
+              url,
+              includePaths: parsePathPatterns(includePaths),
+              excludePaths: parsePathPatterns(excludePaths),
+              limit,
+            };
+      const webImport = await importFromWeb(firecrawl, request, { onProgress: setProgress, signal: controller.signal });
+      // Scraping a page cannot be stopped, and the last poll of a crawl may finish after Cancel
+      if (controller.signal.aborted) return;
+      onImport(toMarkdownFile(webImport), webImport);
+      setUrl("");
+      onOpenChange(false);
+    } catch (e) {
+      if (controller.signal.aborted || isAbortError(e)) return;
+      console.error("Web import failed:", e);
+      setError(e instanceof Error ? e.message : "The import failed");
+    } finally {
+      abortRef.current = null;
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Globe className="h-5 w-5 text-blue-600" />
+            Import from URL
+          </DialogTitle>
+          <DialogDescription>Turn a web article or a documentation site into learning material</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Tabs value={mode} onValueChange={(value) => setMode(value as WebImportRequest["mode"])}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="page" disabled={isImporting}>
+                Single Page
+              </TabsTrigger>
+              <TabsTrigger value="site" disabled={isImporting}>
+                Whole Site
+              </TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div>
+            <Label htmlFor="import-url" className="text-sm font-medium mb-2 block">
+              {mode === "page" ? "Page address" : "Start address"}
+            </Label>
+            <Input
+              id="import-url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://docs.example.com/guide"
+              disabled={isImporting}
+            />
+          </div>
+
+          {mode === "site" && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="include-paths" className="text-sm font-medium mb-2 block">
+                    Only paths matching
+                  </Label>
+                  <Textarea
+                    id="include-paths"
+                    value={includePaths}
+                    onChange={(e) => setIncludePaths(e.target.value)}
+                    placeholder={"^/guide/.*"}
+                    rows={2}
+                    disabled={isImporting}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="exclude-paths" className="text-sm font-medium mb-2 block">
+                    Skip paths matching
+                  </Label>
+                  <Textarea
+                    id="exclude-paths"
+                    value={excludePaths}
+                    onChange={(e) => setExcludePaths(e.target.value)}
+                    placeholder={"/blog/.*"}
+                    rows={2}
+                    disabled={isImporting}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">Regular expressions, one per line</p>
+              <div>
+                <Label htmlFor="page-limit" className="text-sm font-medium mb-2 block">
+                  Maximum pages
+                </Label>
+                <Select value={String(limit)} onValueChange={(value) => setLimit(Number(value))} disabled={isImporting}>
+                  <SelectTrigger id="page-limit">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAGE_LIMITS.map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count} pages
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => close(false)}>
+            Cancel
+          </Button>
+          <Button onClick={startImport} disabled={!url.trim() || isImporting}>
+            {isImporting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {mode === "page"
+                  ? "Reading page..."
+                  : progress && progress.total > 0
+                    ? `Crawling ${progress.completed}/${progress.total} pages...`
+                    : "Crawling..."}
+              </>
+            ) : (
+              "Import"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,73 @@
+import { useMutation, useQuery, type UseMutationResult } from '@tanstack/react-query';
+import { NO_ENTITLEMENT, type Entitlement } from '@/lib/entitlements-backend';
+import { getEntitlement, startCheckout } from '@/lib/entitlements';
+
+/**
+ * How often the entitlement is re-read while a finished checkout waits for its webhook
+ */
+const CHECKOUT_POLL_INTERVAL_MS = 3000;
+
+export interface UseEntitlementsResult {
+  /**
+   * Current entitlement; `NO_ENTITLEMENT` while loading or when nobody is signed in
+   */
+  entitlement: Entitlement;
+  /**
+   * Whether premium features are unlocked
+   */
+  isPremium: boolean;
+  isLoading: boolean;
+  /**
+   * Re-read the entitlement, e.g. after the user returns from the payment page
+   */
+  refresh: () => void;
+  /**
+   * Opens the payment page for the signed-in user
+   */
+  checkout: UseMutationResult<void, Error, void>;
+}
+
+/**
+ * Hook for the signed-in user's premium entitlement, as verified by the billing service
+ *
+ * The entitlement only changes when the payment provider reports a payment, renewal or
+ * cancellation to the billing webhook, so nothing on the client can grant premium access.
+ *
+ * @param userId - Signed-in user, or null; the entitlement is reloaded when it changes
+ * @param awaitingCheckout - Poll until premium is active, after returning from a successful checkout
+ *
+ * @example
+ * ```tsx
+ * const { isPremium, checkout } = useEntitlements(currentUser?.userId ?? null);
+ *
+ * if (!isPremium) {
+ *   return <Button onClick={() => checkout.mutate()}>Upgrade</Button>;
+ * }
+ * ```
+ */
+export function useEntitlements(userId: string | null, awaitingCheckout = false): UseEntitlementsResult {
+  const query = useQuery({
+    queryKey: ['entitlements', userId],
+    queryFn: getEntitlement,
+    enabled: !!userId,
+    // The webhook may arrive a few seconds after the redirect back from the payment page
+    refetchInterval: (q) => (awaitingCheckout && !q.state.data?.isPremium ? CHECKOUT_POLL_INTERVAL_MS : false),
+  });
+
+  const checkout = useMutation({
+    mutationFn: startCheckout,
+    onError: (error) => {
+      console.error('Checkout failed:', error);
+    },
+  });
+
+  const entitlement = (userId && query.data) || NO_ENTITLEMENT;
+
+  return {
+    entitlement,
+    isPremium: entitlement.isPremium,
+    isLoading: query.isLoading,
+    refresh: () => void query.refetch(),
+    checkout,
+  };
+}
@@ -33,7 +33,7 @@ export interface UploadFileResponse {
  * 1. Get a presigned URL from the API
  * 2. Upload the file directly to S3 using the presigned URL
  *
- * Supports: PDF, PPT, text, audio, and video files
+ * Supports: PDF, PPT, text, image, audio, and video files
  *
  * @example
  * ```tsx
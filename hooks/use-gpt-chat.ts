@@ -1,6 +1,7 @@
 import { useMutation, type UseMutationResult } from '@tanstack/react-query';
 import { createChatCompletion } from '@/sdk/api-clients/OpenAIGPTChat';
-import type { CreateChatCompletionData } from '@/sdk/api-clients/OpenAIGPTChat';
+import type { CreateChatCompletionData, CreateChatCompletionResponse } from '@/sdk/api-clients/OpenAIGPTChat';
+import { client } from '@/sdk/api-clients/OpenAIGPTChat/client.gen';
 
 /**
  * Chat message type
@@ -26,6 +27,20 @@ export interface GPTChatInput {
   model?: string;
 }
 
+/**
+ * Input for the streaming GPT chat completion mutation
+ */
+export interface GPTChatStreamInput extends GPTChatInput {
+  /**
+   * Aborts the in-flight request. The mutation then rejects with a `DOMException` named `AbortError`
+   */
+  signal?: AbortSignal;
+  /**
+   * Called for every received token with the token and the content so far
+   */
+  onToken?: (token: string, content: string) => void;
+}
+
 /**
  * Response from GPT chat completion
  */
@@ -56,6 +71,99 @@ export interface GPTChatResponse {
   finishReason: 'stop' | 'length' | 'function_call' | 'content_filter' | 'null';
 }
 
+const CHAT_COMPLETIONS_URL = '/v1/ai/zWwyutGgvEGWwzSa/chat/completions';
+
+/**
+ * Throws if the messages are missing or malformed
+ */
+function validateInput(input: GPTChatInput): void {
+  // Validate input
+  if (!input.messages || !Array.isArray(input.messages) || input.messages.length === 0) {
+    throw new Error('At least one message is required');
+  }
+
+  // Validate message structure
+  for (const message of input.messages) {
+    if (!message.role || !message.content) {
+      throw new Error('Each message must have a role and content');
+    }
+    if (!['system', 'user', 'assistant'].includes(message.role)) {
+      throw new Error(
+        `Invalid message role: ${message.role}. Must be 'system', 'user', or 'assistant'`
+      );
+    }
+  }
+}
+
+/**
+ * Builds the request for the chat completions endpoint
+ */
+function buildRequest(input: GPTChatInput): CreateChatCompletionData {
+  return {
+    body: {
+      model: input.model || 'MaaS_4.1',
+      messages: input.messages,
+    },
+    headers: {
+      'X-CREAO-API-NAME': 'OpenAIGPTChat',
+      'X-CREAO-API-PATH': CHAT_COMPLETIONS_URL,
+      'X-CREAO-API-ID': '688a0b64dc79a2533460892c',
+    },
+    url: CHAT_COMPLETIONS_URL,
+  };
+}
+
+/**
+ * Converts the body of a (non-streamed) chat completion response
+ */
+function toChatResponse(data: CreateChatCompletionResponse): GPTChatResponse {
+  // Validate choices array
+  if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
+    throw new Error('No completion choices returned from API');
+  }
+
+  const firstChoice = data.choices[0];
+
+  if (!firstChoice.message || !firstChoice.message.content) {
+    throw new Error('No content in completion response');
+  }
+
+  // Extract and format response
+  return {
+    content: firstChoice.message.content,
+    id: data.id,
+    model: data.model,
+    usage: {
+      promptTokens: data.usage.prompt_tokens,
+      completionTokens: data.usage.completion_tokens,
+      totalTokens: data.usage.total_tokens,
+    },
+    finishReason: firstChoice.finish_reason,
+  };
+}
+
+/**
+ * Requests a complete (non-streamed) chat completion
+ */
+async function createCompletion(input: GPTChatInput): Promise<GPTChatResponse> {
+  validateInput(input);
+
+  // Make API request
+  const response = await createChatCompletion(buildRequest(input));
+
+  // Check for API errors
+  if (response.error) {
+    throw new Error('Chat completion request failed. Please check your API credentials.');
+  }
+
+  // Validate response data
+  if (!response.data) {
+    throw new Error('No response data received from chat completion API');
+  }
+
+  return toChatResponse(response.data);
+}
+
 /**
  * Hook for generating AI chat completions using OpenAI GPT
  *
@@ -111,78 +219,145 @@ export function useGPTChatMutation(): UseMutationResult<
   GPTChatInput
 > {
   return useMutation({
-    mutationFn: async (input: GPTChatInput): Promise<GPTChatResponse> => {
-      // Validate input
-      if (!input.messages || !Array.isArray(input.messages) || input.messages.length === 0) {
-        throw new Error('At least one message is required');
-      }
+    mutationFn: createCompletion,
+  });
+}
 
-      // Validate message structure
-      for (const message of input.messages) {
-        if (!message.role || !message.content) {
-          throw new Error('Each message must have a role and content');
-        }
-        if (!['system', 'user', 'assistant'].includes(message.role)) {
-          throw new Error(
-            `Invalid message role: ${message.role}. Must be 'system', 'user', or 'assistant'`
-          );
-        }
-      }
+/**
+ * One server-sent event of a streamed chat completion (OpenAI `chat.completion.chunk`)
+ */
+interface ChatCompletionChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    delta?: { content?: string | null };
+    finish_reason?: GPTChatResponse['finishReason'] | null;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+}
 
-      const model = input.model || 'MaaS_4.1';
-
-      // Prepare request data
-      const requestData: CreateChatCompletionData = {
-        body: {
-          model,
-          messages: input.messages,
-        },
-        headers: {
-          'X-CREAO-API-NAME': 'OpenAIGPTChat',
-          'X-CREAO-API-PATH': '/v1/ai/zWwyutGgvEGWwzSa/chat/completions',
-          'X-CREAO-API-ID': '688a0b64dc79a2533460892c',
-        },
-        url: '/v1/ai/zWwyutGgvEGWwzSa/chat/completions',
-      };
+function createAbortError(): DOMException {
+  return new DOMException('The generation was cancelled', 'AbortError');
+}
 
-      // Make API request
-      const response = await createChatCompletion(requestData);
+/**
+ * Requests a streamed chat completion and reports every token as it arrives.
+ * If the endpoint answers with a regular JSON completion instead of an event stream, that answer is used.
+ */
+async function createStreamingCompletion(input: GPTChatStreamInput): Promise<GPTChatResponse> {
+  validateInput(input);
+  const { signal, onToken } = input;
+  if (signal?.aborted) throw createAbortError();
 
-      // Check for API errors
-      if (response.error) {
-        throw new Error('Chat completion request failed. Please check your API credentials.');
-      }
+  const request = buildRequest(input);
+  const baseFetch = client.getConfig().fetch ?? globalThis.fetch;
+  let streamError: unknown;
+  let completion: CreateChatCompletionResponse | undefined;
 
-      // Validate response data
-      if (!response.data) {
-        throw new Error('No response data received from chat completion API');
+  const { stream } = await client.sse.post<ChatCompletionChunk>({
+    ...request,
+    body: { ...request.body, stream: true },
+    headers: { 'Content-Type': 'application/json', ...request.headers },
+    signal,
+    fetch: async (url, init) => {
+      const response = await baseFetch(url, init);
+      if (!response.ok || !response.headers.get('Content-Type')?.includes('application/json')) {
+        return response;
       }
+      completion = await response.json();
+      // An empty body ends the event stream without any events
+      return new Response('');
+    },
+    // A failed stream is reported to the caller instead of being retried
+    sseMaxRetryAttempts: 1,
+    onSseError: (error) => {
+      streamError = error;
+    },
+  });
 
-      const { data } = response;
+  let content = '';
+  let id = '';
+  let model = request.body.model;
+  let finishReason: GPTChatResponse['finishReason'] = 'null';
+  let usage: GPTChatResponse['usage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
 
-      // Validate choices array
-      if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
-        throw new Error('No completion choices returned from API');
-      }
+  for await (const event of stream) {
+    // The stream ends with a literal "[DONE]" event
+    if (typeof event !== 'object' || event === null) continue;
 
-      const firstChoice = data.choices[0];
+    const chunk = event as ChatCompletionChunk;
+    id = chunk.id || id;
+    model = chunk.model || model;
+    if (chunk.usage) {
+      usage = {
+        promptTokens: chunk.usage.prompt_tokens,
+        completionTokens: chunk.usage.completion_tokens,
+        totalTokens: chunk.usage.total_tokens,
+      };
+    }
 
-      if (!firstChoice.message || !firstChoice.message.content) {
-        throw new Error('No content in completion response');
-      }
+    const choice = chunk.choices?.[0];
+    if (choice?.finish_reason) finishReason = choice.finish_reason;
+    const token = choice?.delta?.content;
+    if (token) {
+      content += token;
+      onToken?.(token, content);
+    }
+  }
 
-      // Extract and format response
-      return {
-        content: firstChoice.message.content,
-        id: data.id,
-        model: data.model,
-        usage: {
-          promptTokens: data.usage.prompt_tokens,
-          completionTokens: data.usage.completion_tokens,
-          totalTokens: data.usage.total_tokens,
-        },
-        finishReason: firstChoice.finish_reason,
-      };
-    },
+  if (signal?.aborted) throw createAbortError();
+  if (streamError) {
+    throw new Error(
+      `Chat completion stream failed: ${streamError instanceof Error ? streamError.message : 'unknown error'}`
+    );
+  }
+
+  if (completion) {
+    const response = toChatResponse(completion);
+    onToken?.(response.content, response.content);
+    return response;
+  }
+
+  if (!content) {
+    throw new Error('No content in completion response');
+  }
+
+  return { content, id, model, usage, finishReason };
+}
+
+/**
+ * Streaming variant of {@link useGPTChatMutation}
+ *
+ * Tokens are passed to `onToken` while the completion is generated, so partial
+ * content can be rendered before the request finishes. Pass an `AbortSignal` to
+ * cancel the request; the mutation then rejects with a `DOMException` named
+ * `AbortError`.
+ *
+ * @example
+ * ```tsx
+ * const chatStreamMutation = useGPTChatStreamMutation();
+ * const controller = new AbortController();
+ *
+ * const result = await chatStreamMutation.mutateAsync({
+ *   messages: [{ role: 'user', content: 'Summarize photosynthesis' }],
+ *   signal: controller.signal,
+ *   onToken: (_token, content) => setPreview(content),
+ * });
+ *
+ * // Cancel button
+ * controller.abort();
+ * ```
+ */
+export function useGPTChatStreamMutation(): UseMutationResult<
+  GPTChatResponse,
+  Error,
+  GPTChatStreamInput
+> {
+  return useMutation({
+    mutationFn: createStreamingCompletion,
   });
 }
@@ -0,0 +1,145 @@
+import { useMutation, type UseMutationResult } from '@tanstack/react-query';
+import { postV1AiZWwyutGgvEgWwzSaChatCompletions } from '@/sdk/api-clients/OpenAIGPTVision';
+import type { PostV1AiZWwyutGgvEgWwzSaChatCompletionsData } from '@/sdk/api-clients/OpenAIGPTVision';
+
+/**
+ * Input for GPT vision mutation
+ */
+export interface GPTVisionInput {
+  /**
+   * Instruction for the model, sent as the text part of the message
+   */
+  prompt: string;
+  /**
+   * Images to analyze, as public URLs or `data:image/...;base64,` URLs
+   */
+  images: string[];
+  /**
+   * Aborts the request
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Response from GPT vision completion
+ */
+export interface GPTVisionResponse {
+  /**
+   * The generated response content from the assistant
+   */
+  content: string;
+  /**
+   * Unique identifier for the completion
+   */
+  id: string;
+  /**
+   * The model used for the completion
+   */
+  model: string;
+  /**
+   * Token usage statistics
+   */
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+/**
+ * Hook for analyzing images using the OpenAI GPT vision model
+ *
+ * Use cases:
+ * - Transcribe scanned PDF pages that have no text layer
+ * - Read photos of whiteboards and handwritten notes
+ * - Describe diagrams and figures in words
+ *
+ * @example
+ * ```tsx
+ * const visionMutation = useGPTVisionMutation();
+ *
+ * const transcribe = async (imageDataUrl: string) => {
+ *   const result = await visionMutation.mutateAsync({
+ *     prompt: 'Transcribe all text in this image.',
+ *     images: [imageDataUrl],
+ *   });
+ *   return result.content;
+ * };
+ * ```
+ */
+export function useGPTVisionMutation(): UseMutationResult<
+  GPTVisionResponse,
+  Error,
+  GPTVisionInput
+> {
+  return useMutation({
+    mutationFn: async (input: GPTVisionInput): Promise<GPTVisionResponse> => {
+      // Validate input
+      if (!input.prompt) {
+        throw new Error('A prompt is required');
+      }
+      if (!input.images || !Array.isArray(input.images) || input.images.length === 0) {
+        throw new Error('At least one image is required');
+      }
+
+      // Prepare request data
+      const requestData: PostV1AiZWwyutGgvEgWwzSaChatCompletionsData = {
+        body: {
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: input.prompt },
+                ...input.images.map((url) => ({ type: 'image_url' as const, image_url: { url } })),
+              ],
+            },
+          ],
+        },
+        headers: {
+          'X-CREAO-API-NAME': 'OpenAIGPTVision',
+          'X-CREAO-API-PATH': '/v1/ai/zWwyutGgvEGWwzSa/chat/completions',
+          'X-CREAO-API-ID': '68a5655cdeb2a0b2f64c013d',
+        },
+        url: '/v1/ai/zWwyutGgvEGWwzSa/chat/completions',
+      };
+
+      // Make API request
+      const response = await postV1AiZWwyutGgvEgWwzSaChatCompletions({ ...requestData, signal: input.signal });
+
+      // Check for API errors
+      if (response.error) {
+        throw new Error('Vision request failed. Please check your API credentials.');
+      }
+
+      // Validate response data
+      if (!response.data) {
+        throw new Error('No response data received from vision API');
+      }
+
+      const { data } = response;
+
+      // Validate choices array
+      if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
+        throw new Error('No completion choices returned from API');
+      }
+
+      const firstChoice = data.choices[0];
+
+      if (!firstChoice.message || !firstChoice.message.content) {
+        throw new Error('No content in vision response');
+      }
+
+      // Extract and format response
+      return {
+        content: firstChoice.message.content,
+        id: data.id,
+        model: data.model,
+        usage: {
+          promptTokens: data.usage.prompt_tokens,
+          completionTokens: data.usage.completion_tokens,
+          totalTokens: data.usage.total_tokens,
+        },
+      };
+    },
+  });
+}
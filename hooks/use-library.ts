@@ -0,0 +1,71 @@
+import { createContext, useContext } from 'react';
+import type { UseMaterialSyncResult } from '@/hooks/use-material-sync';
+import type { UserData } from '@/lib/auth-backend';
+import type { Entitlement } from '@/lib/entitlements-backend';
+import type { PipelinePreview, PipelineProgress } from '@/lib/pipeline';
+import type { ReviewGrade } from '@/lib/spaced-repetition';
+import type { UploadedMaterial } from '@/lib/types';
+
+export type MaterialUpdate = Partial<UploadedMaterial> | ((material: UploadedMaterial) => Partial<UploadedMaterial>);
+
+export interface LibraryContextValue {
+  /**
+   * Every material in the library, kept in memory and saved to IndexedDB on change
+   */
+  materials: UploadedMaterial[];
+  updateMaterial: (materialId: string, update: MaterialUpdate) => void;
+  /**
+   * Progress and streamed draft of the materials that are being processed
+   */
+  pipelineProgress: Record<string, PipelineProgress>;
+  preview: (PipelinePreview & { materialId: string }) | null;
+  /**
+   * Continue an interrupted or failed material from its first incomplete stage
+   */
+  resumeProcessing: (material: UploadedMaterial) => void;
+  cancelProcessing: (materialId: string) => void;
+  gradeFlashcard: (materialId: string, cardIndex: number, grade: ReviewGrade) => void;
+  currentUser: UserData | null;
+  entitlement: Entitlement;
+  isPremium: boolean;
+  sync: UseMaterialSyncResult;
+  openSubscriptionDialog: () => void;
+  openAuthDialog: () => void;
+  logout: () => Promise<void>;
+  resendVerification: () => Promise<void>;
+}
+
+export const LibraryContext = createContext<LibraryContextValue | null>(null);
+
+/**
+ * Hook for the material library and account state shared by the library routes
+ *
+ * The state lives in the `/_library` layout route, so it survives navigating between
+ * materials and study modes, and processing continues in the background.
+ *
+ * @example
+ * ```tsx
+ * const { materials, updateMaterial } = useLibrary();
+ * const material = materials.find((m) => m.id === materialId);
+ * ```
+ */
+export function useLibrary(): LibraryContextValue {
+  const context = useContext(LibraryContext);
+  if (!context) {
+    throw new Error('useLibrary must be used inside the library layout route');
+  }
+  return context;
+}
+
+/**
+ * Hook for the material of the current `/materials/$materialId` route
+ *
+ * Only used below the material route, which shows a not-found message for unknown ids.
+ */
+export function useCurrentMaterial(materialId: string): UploadedMaterial {
+  const material = useLibrary().materials.find((m) => m.id === materialId);
+  if (!material) {
+    throw new Error(`Material ${materialId} is not in the library`);
+  }
+  return material;
+}
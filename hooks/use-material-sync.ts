@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from 'react';
+import { createPlatformSyncApi } from '@/lib/sync-api';
+import {
+  createSyncEngine,
+  createSyncState,
+  type RemoteUpdate,
+  type SyncEngine,
+  type SyncState,
+  type SyncStatus,
+} from '@/lib/sync-engine';
+import type { UploadedMaterial } from '@/lib/types';
+
+/**
+ * Periodic sync while the app is open, to pick up changes from other devices
+ */
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Local edits are pushed after this quiet period, so a burst of edits becomes one request
+ */
+const PUSH_DELAY_MS = 2000;
+
+const enabledKey = (userId: string) => `knowly-sync-enabled:${userId}`;
+const stateKey = (userId: string) => `knowly-sync-state:${userId}`;
+
+function loadSyncState(userId: string): SyncState {
+  const stored = localStorage.getItem(stateKey(userId));
+  if (!stored) return createSyncState();
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error('Failed to load sync state:', e);
+    return createSyncState();
+  }
+}
+
+export interface UseMaterialSyncOptions {
+  /**
+   * Signed-in user; sync is only available with an account
+   */
+  userId: string | null;
+  /**
+   * Current local library
+   */
+  materials: UploadedMaterial[];
+  /**
+   * Apply materials changed or deleted on another device to the local library
+   */
+  applyRemote: (update: RemoteUpdate) => void;
+}
+
+/**
+ * Question whether materials the account does not track yet should be uploaded to it
+ */
+export interface SyncUploadRequest {
+  count: number;
+  respond: (upload: boolean) => void;
+}
+
+export interface UseMaterialSyncResult {
+  /**
+   * Whether the user opted in to sync on this device
+   */
+  enabled: boolean;
+  setEnabled: (enabled: boolean) => void;
+  /**
+   * `disabled` when signed out or not opted in
+   */
+  status: SyncStatus | 'disabled';
+  lastSyncedAt?: Date;
+  syncNow: () => void;
+  /**
+   * Set while sync waits for the user to allow uploading materials that were already on the device
+   */
+  uploadRequest: SyncUploadRequest | null;
+}
+
+/**
+ * Hook for the opt-in cloud sync of the material library
+ *
+ * Local edits are queued per user in localStorage and pushed shortly after they happen;
+ * changes from other devices are pulled on start, every minute, when the device comes
+ * back online and when the tab becomes visible again. While offline, edits stay queued.
+ * Materials that were on the device before (added while signed out, or by another account)
+ * are only uploaded once the user answered `uploadRequest`.
+ *
+ * @example
+ * ```tsx
+ * const sync = useMaterialSync({
+ *   userId: currentUser?.userId ?? null,
+ *   materials,
+ *   applyRemote: applyRemoteMaterials,
+ * });
+ *
+ * <SyncStatusIndicator status={sync.status} onSync={sync.syncNow} />
+ * ```
+ */
+export function useMaterialSync({ userId, materials, applyRemote }: UseMaterialSyncOptions): UseMaterialSyncResult {
+  const [enabled, setEnabledState] = useState(false);
+  const [status, setStatus] = useState<SyncStatus>('idle');
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | undefined>();
+  const [engine, setEngine] = useState<SyncEngine | null>(null);
+  const [uploadRequest, setUploadRequest] = useState<SyncUploadRequest | null>(null);
+
+  const materialsRef = useRef(materials);
+  materialsRef.current = materials;
+  const applyRemoteRef = useRef(applyRemote);
+  applyRemoteRef.current = applyRemote;
+  const previousRef = useRef(materials);
+  const pushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // The opt-in is remembered per user and device
+  useEffect(() => {
+    setEnabledState(!!userId && localStorage.getItem(enabledKey(userId)) === 'true');
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId || !enabled) {
+      setEngine(null);
+      return;
+    }
+
+    const next = createSyncEngine({
+      api: createPlatformSyncApi(),
+      loadState: () => loadSyncState(userId),
+      saveState: (state) => localStorage.setItem(stateKey(userId), JSON.stringify(state)),
+      getMaterials: () => materialsRef.current,
+      applyRemote: (update) => applyRemoteRef.current(update),
+      confirmUpload: (pending) =>
+        new Promise((resolve) => {
+          setUploadRequest({
+            count: pending.length,
+            respond: (upload) => {
+              setUploadRequest(null);
+              resolve(upload);
+            },
+          });
+        }),
+      onStatus: (nextStatus) => {
+        setStatus(nextStatus);
+        if (nextStatus === 'idle') {
+          const syncedAt = next.getLastSyncedAt();
+          setLastSyncedAt(syncedAt ? new Date(syncedAt) : undefined);
+        }
+      },
+    });
+    previousRef.current = materialsRef.current;
+    setEngine(next);
+    next.sync();
+
+    const interval = setInterval(() => next.sync(), SYNC_INTERVAL_MS);
+    const handleOnline = () => next.sync();
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') next.sync();
+    };
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      if (pushTimerRef.current) clearTimeout(pushTimerRef.current);
+      // A question left open belongs to the engine that is discarded here
+      setUploadRequest(null);
+    };
+  }, [userId, enabled]);
+
+  // Queue local edits and push them once editing pauses
+  useEffect(() => {
+    const previous = previousRef.current;
+    previousRef.current = materials;
+    if (!engine || !engine.trackChanges(materials, previous)) return;
+
+    if (pushTimerRef.current) clearTimeout(pushTimerRef.current);
+    pushTimerRef.current = setTimeout(() => engine.sync(), PUSH_DELAY_MS);
+  }, [materials, engine]);
+
+  const setEnabled = (next: boolean) => {
+    if (!userId) return;
+    localStorage.setItem(enabledKey(userId), String(next));
+    setEnabledState(next);
+  };
+
+  return {
+    enabled,
+    setEnabled,
+    status: engine ? status : 'disabled',
+    lastSyncedAt,
+    syncNow: () => void engine?.sync(),
+    uploadRequest,
+  };
+}
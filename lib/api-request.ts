@@ -0,0 +1,41 @@
+// JSON requests to the app's own services on the platform API (accounts, billing).
+// Errors come back as { error: { code } }.
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_PATH;
+
+export class ApiError extends Error {
+  constructor(
+    // 0 when the service could not be reached
+    public readonly status: number,
+    public readonly code?: string
+  ) {
+    super(code ? `Request failed: ${code}` : `Request failed with status ${status}`);
+    this.name = "ApiError";
+  }
+}
+
+// The session token is passed explicitly: a token may be checked before it is stored
+export async function apiRequest<T>(path: string, body?: unknown, token?: string): Promise<T> {
+  const headers = new Headers({ "Content-Type": "application/json" });
+  if (token) {
+    headers.set("Authorization", `Bearer ${token}`);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error(`Request ${path} failed:`, error);
+    throw new ApiError(0);
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(response.status, data?.error?.code);
+  }
+  return data as T;
+}
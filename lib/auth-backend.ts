@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+// Contract between the app and the service that owns user accounts. Passwords never leave
+// the backend in readable form; the app only keeps the session token it gets back.
+
+export interface UserData {
+  email: string;
+  userId: string;
+  emailVerified: boolean;
+  createdAt: Date;
+}
+
+export interface AuthSession {
+  token: string;
+  user: UserData;
+}
+
+export const authErrorCodeSchema = z.enum([
+  "invalid_email",
+  "weak_password",
+  "email_taken",
+  "invalid_credentials",
+  "invalid_session",
+  "invalid_token",
+  "unavailable",
+]);
+
+export type AuthErrorCode = z.infer<typeof authErrorCodeSchema>;
+
+const AUTH_ERROR_MESSAGES: Record<AuthErrorCode, string> = {
+  invalid_email: "Bitte geben Sie eine gültige E-Mail-Adresse ein",
+  weak_password: "Das Passwort muss mindestens 6 Zeichen lang sein",
+  email_taken: "Ein Konto mit dieser E-Mail-Adresse existiert bereits",
+  invalid_credentials: "E-Mail-Adresse oder Passwort ist falsch",
+  invalid_session: "Ihre Sitzung ist abgelaufen. Bitte melden Sie sich erneut an",
+  invalid_token: "Der Link ist ungültig oder abgelaufen",
+  unavailable: "Der Anmeldedienst ist nicht erreichbar. Bitte versuchen Sie es später erneut",
+};
+
+export class AuthError extends Error {
+  constructor(public readonly code: AuthErrorCode) {
+    super(AUTH_ERROR_MESSAGES[code]);
+    this.name = "AuthError";
+  }
+}
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+export function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+export interface AuthBackend {
+  register(email: string, password: string): Promise<AuthSession>;
+  login(email: string, password: string): Promise<AuthSession>;
+  logout(token: string): Promise<void>;
+  // Throws AuthError("invalid_session") for unknown or expired tokens
+  getUser(token: string): Promise<UserData>;
+  // Always resolves, so the response does not reveal whether the address has an account
+  requestPasswordReset(email: string): Promise<void>;
+  resetPassword(resetToken: string, newPassword: string): Promise<void>;
+  sendVerificationEmail(token: string): Promise<void>;
+  verifyEmail(verificationToken: string): Promise<UserData>;
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AuthError } from "./auth-backend";
+import { createHttpAuthBackend } from "./auth-http";
+
+const codeOf = (promise: Promise<unknown>) =>
+  promise.then(
+    () => undefined,
+    (error) => (error instanceof AuthError ? error.code : error)
+  );
+
+// Every request of the backend is answered with this status and error code
+const respondWith = (status: number, code?: string) =>
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async () => new Response(JSON.stringify(code ? { error: { code } } : {}), { status }))
+  );
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("createHttpAuthBackend", () => {
+  it("passes on the error codes of the auth service", async () => {
+    respondWith(409, "email_taken");
+    expect(await codeOf(createHttpAuthBackend().register("anna@example.com", "secret123"))).toBe("email_taken");
+  });
+
+  it("reports unknown error codes and unreachable services as unavailable", async () => {
+    const backend = createHttpAuthBackend();
+    respondWith(500, "database_down");
+    expect(await codeOf(backend.login("anna@example.com", "secret123"))).toBe("unavailable");
+
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("Failed to fetch")));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(await codeOf(backend.getUser("token"))).toBe("unavailable");
+  });
+
+  it("treats a rejected token without error code as an expired session", async () => {
+    respondWith(401);
+    expect(await codeOf(createHttpAuthBackend().getUser("token"))).toBe("invalid_session");
+  });
+});
@@ -0,0 +1,57 @@
+import { ApiError, apiRequest } from "./api-request";
+import { AuthError, authErrorCodeSchema, type AuthBackend, type AuthSession, type UserData } from "./auth-backend";
+
+// Auth service on the platform API. Error codes from the service are AuthErrorCodes;
+// anything else is reported as "unavailable".
+
+interface UserResponse extends Omit<UserData, "createdAt"> {
+  createdAt: string;
+}
+
+interface SessionResponse {
+  token: string;
+  user: UserResponse;
+}
+
+function toUserData(user: UserResponse): UserData {
+  return { ...user, createdAt: new Date(user.createdAt) };
+}
+
+function toSession(session: SessionResponse): AuthSession {
+  return { token: session.token, user: toUserData(session.user) };
+}
+
+async function authRequest<T>(path: string, body?: unknown, token?: string): Promise<T> {
+  try {
+    return await apiRequest<T>(`/auth${path}`, body, token);
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error;
+    if (error.code === undefined) {
+      throw new AuthError(error.status === 401 ? "invalid_session" : "unavailable");
+    }
+    const code = authErrorCodeSchema.safeParse(error.code);
+    throw new AuthError(code.success ? code.data : "unavailable");
+  }
+}
+
+export function createHttpAuthBackend(): AuthBackend {
+  return {
+    register: async (email, password) => toSession(await authRequest<SessionResponse>("/register", { email, password })),
+    login: async (email, password) => toSession(await authRequest<SessionResponse>("/login", { email, password })),
+    logout: async (token) => {
+      await authRequest("/logout", {}, token);
+    },
+    getUser: async (token) => toUserData(await authRequest<UserResponse>("/session", undefined, token)),
+    requestPasswordReset: async (email) => {
+      await authRequest("/password-reset", { email });
+    },
+    resetPassword: async (resetToken, newPassword) => {
+      await authRequest("/password-reset/confirm", { token: resetToken, password: newPassword });
+    },
+    sendVerificationEmail: async (token) => {
+      await authRequest("/verify-email", {}, token);
+    },
+    verifyEmail: async (verificationToken) =>
+      toUserData(await authRequest<UserResponse>("/verify-email/confirm", { token: verificationToken })),
+  };
+}
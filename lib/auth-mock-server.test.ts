@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { createMockAuthServer } from "./auth-mock-server";
+import { AuthError } from "./auth-backend";
+
+const memoryStorage = () => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => void data.set(key, value),
+    dump: () => [...data.values()].join(""),
+  };
+};
+
+const codeOf = (promise: Promise<unknown>) =>
+  promise.then(
+    () => undefined,
+    (error) => (error instanceof AuthError ? error.code : error)
+  );
+
+describe("createMockAuthServer", () => {
+  it("registers accounts with hashed passwords and signs in", async () => {
+    const storage = memoryStorage();
+    const server = createMockAuthServer({ storage });
+    const session = await server.register("Anna@Example.com", "secret123");
+
+    expect(session.user).toMatchObject({ email: "anna@example.com", emailVerified: false });
+    expect(storage.dump()).not.toContain("secret123");
+    expect(await codeOf(server.register("anna@example.com", "other123"))).toBe("email_taken");
+
+    const login = await server.login("anna@example.com", "secret123");
+    expect((await server.getUser(login.token)).userId).toBe(session.user.userId);
+    expect(await codeOf(server.login("anna@example.com", "wrong123"))).toBe("invalid_credentials");
+
+    await server.logout(login.token);
+    expect(await codeOf(server.getUser(login.token))).toBe("invalid_session");
+  });
+
+  it("keeps accounts across instances sharing storage", async () => {
+    const storage = memoryStorage();
+    const { token } = await createMockAuthServer({ storage }).register("a@b.de", "secret123");
+    const user = await createMockAuthServer({ storage }).getUser(token);
+    expect(user.email).toBe("a@b.de");
+  });
+
+  it("resets the password with a single-use token and ends existing sessions", async () => {
+    const server = createMockAuthServer();
+    const { token } = await server.register("a@b.de", "secret123");
+    await server.requestPasswordReset("unknown@b.de");
+    await server.requestPasswordReset("a@b.de");
+
+    const email = server.outbox.find((e) => e.kind === "passwordReset");
+    expect(email?.to).toBe("a@b.de");
+
+    await server.resetPassword(email!.token, "newsecret");
+    expect(await codeOf(server.resetPassword(email!.token, "again123"))).toBe("invalid_token");
+    expect(await codeOf(server.getUser(token))).toBe("invalid_session");
+    expect(await codeOf(server.login("a@b.de", "secret123"))).toBe("invalid_credentials");
+    await expect(server.login("a@b.de", "newsecret")).resolves.toBeTruthy();
+  });
+
+  it("verifies the email address and expires sessions", async () => {
+    let now = 0;
+    const server = createMockAuthServer({ now: () => now });
+    const { token } = await server.register("a@b.de", "secret123");
+
+    const verification = server.outbox.find((e) => e.kind === "verification");
+    expect((await server.verifyEmail(verification!.token)).emailVerified).toBe(true);
+    expect((await server.getUser(token)).emailVerified).toBe(true);
+
+    now += 31 * 24 * 60 * 60 * 1000;
+    expect(await codeOf(server.getUser(token))).toBe("invalid_session");
+  });
+});
@@ -0,0 +1,223 @@
+import {
+  AuthError,
+  MIN_PASSWORD_LENGTH,
+  isValidEmail,
+  type AuthBackend,
+  type AuthSession,
+  type UserData,
+} from "./auth-backend";
+
+// In-browser stand-in for the auth service, used by tests and by local development
+// (VITE_AUTH_BACKEND=mock). It behaves like the real service: salted PBKDF2 password
+// hashes, random session tokens, and single-use reset and verification tokens that expire.
+// Emails are not sent but collected in `outbox` and handed to onEmail.
+
+const PBKDF2_ITERATIONS = 100_000;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+const VERIFICATION_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const STORAGE_KEY = "knowly-mock-auth-server";
+
+interface StoredUser {
+  userId: string;
+  email: string;
+  passwordHash: string;
+  salt: string;
+  emailVerified: boolean;
+  createdAt: string;
+}
+
+type TokenKind = "session" | "passwordReset" | "verification";
+
+interface StoredToken {
+  kind: TokenKind;
+  userId: string;
+  expiresAt: number;
+}
+
+interface ServerState {
+  users: Record<string, StoredUser>;
+  tokens: Record<string, StoredToken>;
+}
+
+export interface SentEmail {
+  to: string;
+  kind: "passwordReset" | "verification";
+  token: string;
+}
+
+export interface MockAuthServerOptions {
+  // Persist accounts and sessions, e.g. in localStorage; kept in memory otherwise
+  storage?: Pick<Storage, "getItem" | "setItem">;
+  now?: () => number;
+  onEmail?: (email: SentEmail) => void;
+}
+
+export interface MockAuthServer extends AuthBackend {
+  outbox: SentEmail[];
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function randomToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+async function hashPassword(password: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, [
+    "deriveBits",
+  ]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: new TextEncoder().encode(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function toUserData(user: StoredUser): UserData {
+  return {
+    email: user.email,
+    userId: user.userId,
+    emailVerified: user.emailVerified,
+    createdAt: new Date(user.createdAt),
+  };
+}
+
+export function createMockAuthServer({ storage, now = Date.now, onEmail }: MockAuthServerOptions = {}): MockAuthServer {
+  const load = (): ServerState => {
+    const stored = storage?.getItem(STORAGE_KEY);
+    if (!stored) return { users: {}, tokens: {} };
+    try {
+      return JSON.parse(stored);
+    } catch (e) {
+      console.error("Failed to load mock auth data:", e);
+      return { users: {}, tokens: {} };
+    }
+  };
+
+  const state = load();
+  const outbox: SentEmail[] = [];
+
+  const save = () => storage?.setItem(STORAGE_KEY, JSON.stringify(state));
+
+  const sendEmail = (email: SentEmail) => {
+    outbox.push(email);
+    onEmail?.(email);
+  };
+
+  const findUserById = (userId: string) => Object.values(state.users).find((u) => u.userId === userId);
+
+  const issueToken = (kind: TokenKind, userId: string, ttl: number): string => {
+    const token = randomToken();
+    state.tokens[token] = { kind, userId, expiresAt: now() + ttl };
+    return token;
+  };
+
+  // Look up a token of the given kind; single-use tokens are removed
+  const redeemToken = (token: string, kind: TokenKind, consume: boolean): StoredUser => {
+    const entry = state.tokens[token];
+    const user = entry && findUserById(entry.userId);
+    if (!entry || entry.kind !== kind || entry.expiresAt <= now() || !user) {
+      if (entry && entry.expiresAt <= now()) delete state.tokens[token];
+      throw new AuthError(kind === "session" ? "invalid_session" : "invalid_token");
+    }
+    if (consume) delete state.tokens[token];
+    return user;
+  };
+
+  const sendVerification = (user: StoredUser) => {
+    const token = issueToken("verification", user.userId, VERIFICATION_TOKEN_TTL_MS);
+    sendEmail({ to: user.email, kind: "verification", token });
+  };
+
+  const startSession = (user: StoredUser): AuthSession => {
+    const token = issueToken("session", user.userId, SESSION_TTL_MS);
+    save();
+    return { token, user: toUserData(user) };
+  };
+
+  return {
+    outbox,
+
+    async register(email, password) {
+      const key = normalizeEmail(email);
+      if (!isValidEmail(key)) throw new AuthError("invalid_email");
+      if (password.length < MIN_PASSWORD_LENGTH) throw new AuthError("weak_password");
+      if (state.users[key]) throw new AuthError("email_taken");
+
+      const salt = randomToken();
+      const user: StoredUser = {
+        userId: `user_${randomToken().slice(0, 16)}`,
+        email: key,
+        passwordHash: await hashPassword(password, salt),
+        salt,
+        emailVerified: false,
+        createdAt: new Date(now()).toISOString(),
+      };
+      state.users[key] = user;
+      sendVerification(user);
+      return startSession(user);
+    },
+
+    async login(email, password) {
+      const user = state.users[normalizeEmail(email)];
+      // Hash even for unknown addresses so both cases take the same time
+      const hash = await hashPassword(password, user?.salt ?? "unknown");
+      if (!user || hash !== user.passwordHash) throw new AuthError("invalid_credentials");
+      return startSession(user);
+    },
+
+    async logout(token) {
+      if (state.tokens[token]?.kind === "session") {
+        delete state.tokens[token];
+        save();
+      }
+    },
+
+    async getUser(token) {
+      return toUserData(redeemToken(token, "session", false));
+    },
+
+    async requestPasswordReset(email) {
+      const user = state.users[normalizeEmail(email)];
+      if (!user) return;
+      const token = issueToken("passwordReset", user.userId, RESET_TOKEN_TTL_MS);
+      sendEmail({ to: user.email, kind: "passwordReset", token });
+      save();
+    },
+
+    async resetPassword(resetToken, newPassword) {
+      if (newPassword.length < MIN_PASSWORD_LENGTH) throw new AuthError("weak_password");
+      const user = redeemToken(resetToken, "passwordReset", true);
+      user.salt = randomToken();
+      user.passwordHash = await hashPassword(newPassword, user.salt);
+      // A reset signs out every existing session
+      for (const [token, entry] of Object.entries(state.tokens)) {
+        if (entry.kind === "session" && entry.userId === user.userId) delete state.tokens[token];
+      }
+      save();
+    },
+
+    async sendVerificationEmail(token) {
+      const user = redeemToken(token, "session", false);
+      if (user.emailVerified) return;
+      sendVerification(user);
+      save();
+    },
+
+    async verifyEmail(verificationToken) {
+      const user = redeemToken(verificationToken, "verification", true);
+      user.emailVerified = true;
+      save();
+      return toUserData(user);
+    },
+  };
+}
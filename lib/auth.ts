@@ -0,0 +1,164 @@
+import { AuthError, type AuthBackend, type UserData } from "@/lib/auth-backend";
+import { createHttpAuthBackend } from "@/lib/auth-http";
+import { createMockAuthServer } from "@/lib/auth-mock-server";
+
+// User accounts for the app. The auth backend owns credentials; the session token it issues
+// is kept under its own key, apart from the platform token in sdk/core/auth that
+// authenticates the app's requests to the platform.
+
+const SESSION_KEY = "knowly-session";
+
+// Plaintext accounts from before the auth backend. Passwords cannot be carried over, so
+// their owners are asked once to register again.
+const LEGACY_USERS_KEY = "knowly-user-auth";
+const LEGACY_CURRENT_USER_KEY = "knowly-current-user";
+
+// Query parameters of the links in password reset and verification emails
+const RESET_TOKEN_PARAM = "reset_token";
+const VERIFY_TOKEN_PARAM = "verify_token";
+
+function createAuthBackend(): AuthBackend {
+  if (import.meta.env.VITE_AUTH_BACKEND !== "mock") {
+    return createHttpAuthBackend();
+  }
+  return createMockAuthServer({
+    storage: localStorage,
+    // No mail delivery in local development; the link goes to the console instead
+    onEmail: (email) => {
+      const param = email.kind === "passwordReset" ? RESET_TOKEN_PARAM : VERIFY_TOKEN_PARAM;
+      const url = new URL(window.location.href);
+      url.search = new URLSearchParams({ [param]: email.token }).toString();
+      console.info(`Email to ${email.to} (${email.kind}): ${url}`);
+    },
+  });
+}
+
+let backend = createAuthBackend();
+
+type SessionListener = (token: string | null) => void;
+const sessionListeners = new Set<SessionListener>();
+
+function setSessionToken(token: string | null): void {
+  if (token) {
+    localStorage.setItem(SESSION_KEY, token);
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+  for (const listener of sessionListeners) listener(token);
+}
+
+export function configureAuthBackend(next: AuthBackend): void {
+  backend = next;
+}
+
+export function getAuthBackend(): AuthBackend {
+  return backend;
+}
+
+// Token of the signed-in session, or null when nobody is signed in
+export function getSessionToken(): string | null {
+  return localStorage.getItem(SESSION_KEY);
+}
+
+// Token of the signed-in session; throws when nobody is signed in
+export async function requireSessionToken(): Promise<string> {
+  const token = getSessionToken();
+  if (!token) throw new AuthError("invalid_session");
+  return token;
+}
+
+// Signed-in user of the stored session, or null. Only a rejected session ends it; a session
+// that cannot be checked because the service is unreachable is kept.
+export async function getCurrentUser(): Promise<UserData | null> {
+  const token = getSessionToken();
+  if (!token) return null;
+  try {
+    return await backend.getUser(token);
+  } catch (error) {
+    if (error instanceof AuthError && error.code === "invalid_session") {
+      setSessionToken(null);
+    } else {
+      console.warn("Session could not be validated, keeping it:", error);
+    }
+    return null;
+  }
+}
+
+export async function loginUser(email: string, password: string): Promise<UserData> {
+  const session = await backend.login(email, password);
+  setSessionToken(session.token);
+  return session.user;
+}
+
+export async function registerUser(email: string, password: string): Promise<UserData> {
+  const session = await backend.register(email, password);
+  setSessionToken(session.token);
+  return session.user;
+}
+
+export async function logoutUser(): Promise<void> {
+  const token = getSessionToken();
+  if (token) {
+    await backend.logout(token).catch((e) => console.error("Failed to end session:", e));
+  }
+  setSessionToken(null);
+}
+
+export function requestPasswordReset(email: string): Promise<void> {
+  return backend.requestPasswordReset(email);
+}
+
+export function resetPassword(resetToken: string, newPassword: string): Promise<void> {
+  return backend.resetPassword(resetToken, newPassword);
+}
+
+export async function sendVerificationEmail(): Promise<void> {
+  return backend.sendVerificationEmail(await requireSessionToken());
+}
+
+export function verifyEmail(verificationToken: string): Promise<UserData> {
+  return backend.verifyEmail(verificationToken);
+}
+
+// Notify with the signed-in user now and whenever the session changes, including sessions
+// that turn out to be expired
+export function addCurrentUserListener(listener: (user: UserData | null) => void): () => void {
+  let lastToken: string | null | undefined;
+  const update = (token: string | null) => {
+    if (token === lastToken) return;
+    lastToken = token;
+    getCurrentUser().then((user) => {
+      // Skip results for a token that was replaced in the meantime
+      if (token === lastToken) listener(user);
+    });
+  };
+  sessionListeners.add(update);
+  update(getSessionToken());
+  return () => {
+    sessionListeners.delete(update);
+  };
+}
+
+// Account that was signed in before the auth backend, so its owner can be asked to register
+// again; undefined when there were no old accounts. The old accounts are removed.
+export function consumeLegacyAccount(): { email?: string } | undefined {
+  const users = localStorage.getItem(LEGACY_USERS_KEY);
+  const email = localStorage.getItem(LEGACY_CURRENT_USER_KEY);
+  if (users === null && email === null) return undefined;
+  localStorage.removeItem(LEGACY_USERS_KEY);
+  localStorage.removeItem(LEGACY_CURRENT_USER_KEY);
+  return { email: email ?? undefined };
+}
+
+// Tokens from a password reset or verification link; they are removed from the URL
+export function consumeAuthLinkTokens(): { resetToken?: string; verificationToken?: string } {
+  const url = new URL(window.location.href);
+  const resetToken = url.searchParams.get(RESET_TOKEN_PARAM) ?? undefined;
+  const verificationToken = url.searchParams.get(VERIFY_TOKEN_PARAM) ?? undefined;
+  if (resetToken || verificationToken) {
+    url.searchParams.delete(RESET_TOKEN_PARAM);
+    url.searchParams.delete(VERIFY_TOKEN_PARAM);
+    window.history.replaceState({}, document.title, url.toString());
+  }
+  return { resetToken, verificationToken };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { PAGE_BREAK, getChunkLabel, looksLikeHeading, splitIntoChunks } from "./chunking";
+
+const paragraph = (n: number) => `Paragraph ${n} ${"lorem ipsum dolor sit amet ".repeat(8)}`.trim();
+
+describe("splitIntoChunks", () => {
+  it("keeps short text in a single chunk", () => {
+    const chunks = splitIntoChunks("Hello world.\n\nSecond paragraph.");
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe("Hello world.\n\nSecond paragraph.");
+    expect(getChunkLabel(chunks[0])).toBe("Section 1");
+  });
+
+  it("covers the whole text without exceeding the chunk size", () => {
+    const text = Array.from({ length: 40 }, (_, i) => paragraph(i)).join("\n\n");
+    const chunks = splitIntoChunks(text, 1000);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(chunk.text.length).toBeLessThanOrEqual(1000));
+    expect(chunks[0].startOffset).toBe(0);
+    expect(chunks[chunks.length - 1].endOffset).toBe(text.length);
+    expect(chunks.map((c) => c.text).join("\n\n")).toBe(text);
+  });
+
+  it("reports page ranges for page separated text", () => {
+    const pages = Array.from({ length: 6 }, (_, i) => `${paragraph(i)}\n\n${paragraph(i + 100)}`);
+    const chunks = splitIntoChunks(pages.join(`\n\n${PAGE_BREAK}`), 900);
+
+    expect(chunks[0].pageStart).toBe(1);
+    expect(chunks[chunks.length - 1].pageEnd).toBe(6);
+    expect(getChunkLabel(chunks[0])).toMatch(/^Pages? 1/);
+  });
+
+  it("starts a new chunk at a section heading once the chunk is half full", () => {
+    const text = [paragraph(1), paragraph(2), paragraph(3), "# Second Chapter", paragraph(4)].join("\n\n");
+    const chunks = splitIntoChunks(text, 1000);
+
+    expect(chunks[1].text.startsWith("# Second Chapter")).toBe(true);
+    expect(chunks[1].heading).toBe("Second Chapter");
+  });
+
+  it("splits paragraphs that are longer than a chunk", () => {
+    const chunks = splitIntoChunks("Sentence number one. ".repeat(200), 500);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(chunk.text.length).toBeLessThanOrEqual(500));
+  });
+});
+
+describe("looksLikeHeading", () => {
+  it("detects common heading styles", () => {
+    expect(looksLikeHeading("## Thermodynamics")).toBe(true);
+    expect(looksLikeHeading("2.1 Entropie und Wärme")).toBe(true);
+    expect(looksLikeHeading("INTRODUCTION")).toBe(true);
+    expect(looksLikeHeading("This is a normal sentence.")).toBe(false);
+  });
+});
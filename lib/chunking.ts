@@ -0,0 +1,209 @@
+// Splits extracted text into page/section-aware chunks that fit into one prompt.
+// PDF extraction separates pages with a form feed, so chunks can report the pages they cover.
+
+export const PAGE_BREAK = "\f";
+export const DEFAULT_CHUNK_SIZE = 8000;
+
+// Pages added from web research start with this label and the address they were taken from
+export const SUPPLEMENTARY_SOURCE_LABEL = "Supplementary source:";
+
+// Address of a supplementary source page, undefined for pages of the original material
+export function getSupplementarySourceUrl(pageText: string): string | undefined {
+  const firstLine = pageText.trimStart().split("\n")[0];
+  if (!firstLine.startsWith(SUPPLEMENTARY_SOURCE_LABEL)) return undefined;
+  return firstLine.slice(SUPPLEMENTARY_SOURCE_LABEL.length).trim() || undefined;
+}
+
+// Where a piece of the chunk text comes from in the original text
+export interface ChunkSegment {
+  // Offset in the chunk text
+  offset: number;
+  // Offset in the original text
+  start: number;
+  length: number;
+  page?: number;
+  // Set when the segment comes from a supplementary source
+  sourceUrl?: string;
+}
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  pageStart?: number;
+  pageEnd?: number;
+  heading?: string;
+  // Chunk text is made of blocks joined by blank lines; segments map it back to the original
+  segments: ChunkSegment[];
+}
+
+interface TextBlock {
+  text: string;
+  start: number;
+  end: number;
+  page?: number;
+  sourceUrl?: string;
+}
+
+const HEADING_PATTERN = /^(#{1,6}\s+\S|\d+(\.\d+)*\.?\s+\p{Lu}|\p{Lu}[\p{Lu}\d ,:&/-]{3,}$)/u;
+
+// Short lines that look like "# Title", "2.1 Title" or "ALL CAPS TITLE" start a new section
+export function looksLikeHeading(text: string): boolean {
+  const firstLine = text.split("\n")[0].trim();
+  if (firstLine.length === 0 || firstLine.length > 80) return false;
+  if (/[.:;,]$/.test(firstLine)) return false;
+  return HEADING_PATTERN.test(firstLine);
+}
+
+// Split a block that is larger than a chunk at sentence or word boundaries
+function splitOversizedBlock(block: TextBlock, maxChars: number): TextBlock[] {
+  const parts: TextBlock[] = [];
+  let rest = block.text;
+  let offset = block.start;
+
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = Math.max(window.lastIndexOf(". "), window.lastIndexOf("\n"));
+    if (cut < maxChars * 0.5) cut = window.lastIndexOf(" ");
+    if (cut <= 0) cut = maxChars - 1;
+
+    const piece = rest.slice(0, cut + 1);
+    parts.push({ ...block, text: piece.trim(), start: offset, end: offset + piece.length });
+
+    const remainder = rest.slice(cut + 1);
+    const skipped = remainder.length - remainder.trimStart().length;
+    offset += piece.length + skipped;
+    rest = remainder.trimStart();
+  }
+
+  if (rest.length > 0) {
+    parts.push({ ...block, text: rest, start: offset, end: offset + rest.length });
+  }
+
+  return parts;
+}
+
+// Split text into paragraph blocks with offsets into the original text
+function splitIntoBlocks(text: string): TextBlock[] {
+  const hasPages = text.includes(PAGE_BREAK);
+  const blocks: TextBlock[] = [];
+  let pageOffset = 0;
+
+  text.split(PAGE_BREAK).forEach((pageText, pageIdx) => {
+    let offset = pageOffset;
+    const sourceUrl = getSupplementarySourceUrl(pageText);
+
+    for (const part of pageText.split(/(\n[ \t]*\n+)/)) {
+      const body = part.trim();
+      if (body) {
+        const start = offset + (part.length - part.trimStart().length);
+        blocks.push({
+          text: body,
+          start,
+          end: start + body.length,
+          page: hasPages ? pageIdx + 1 : undefined,
+          sourceUrl,
+        });
+      }
+      offset += part.length;
+    }
+
+    pageOffset += pageText.length + PAGE_BREAK.length;
+  });
+
+  return blocks;
+}
+
+export function splitIntoChunks(text: string, maxChars: number = DEFAULT_CHUNK_SIZE): TextChunk[] {
+  const blocks = splitIntoBlocks(text).flatMap((block) =>
+    block.text.length > maxChars ? splitOversizedBlock(block, maxChars) : [block]
+  );
+
+  const chunks: TextChunk[] = [];
+  let current: TextBlock[] = [];
+  let currentSize = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    const first = current[0];
+    const last = current[current.length - 1];
+    const heading = current.find((block) => looksLikeHeading(block.text));
+    let offset = 0;
+    const segments = current.map((block) => {
+      const segment: ChunkSegment = { offset, start: block.start, length: block.text.length, page: block.page };
+      if (block.sourceUrl) segment.sourceUrl = block.sourceUrl;
+      offset += block.text.length + 2;
+      return segment;
+    });
+
+    chunks.push({
+      index: chunks.length,
+      text: current.map((block) => block.text).join("\n\n"),
+      startOffset: first.start,
+      endOffset: last.end,
+      pageStart: first.page,
+      pageEnd: last.page,
+      heading: heading?.text.split("\n")[0].replace(/^#+\s*/, "").trim(),
+      segments,
+    });
+    current = [];
+    currentSize = 0;
+  };
+
+  for (const block of blocks) {
+    const wouldOverflow = currentSize + block.text.length + 2 > maxChars;
+    // Prefer to start a new chunk at a section heading once the current one is reasonably full
+    const startsSection = looksLikeHeading(block.text) && currentSize >= maxChars * 0.5;
+    // Supplementary sources never share a chunk with the original text or with each other
+    const changesSource = current.length > 0 && current[0].sourceUrl !== block.sourceUrl;
+
+    if (current.length > 0 && (wouldOverflow || startsSection || changesSource)) {
+      flush();
+    }
+
+    current.push(block);
+    currentSize += block.text.length + 2;
+  }
+  flush();
+
+  return chunks;
+}
+
+// Human readable location of a chunk, e.g. "Pages 3–5 · Introduction"
+export function getChunkLabel(chunk: TextChunk): string {
+  let location: string;
+  if (chunk.pageStart === undefined) {
+    location = `Section ${chunk.index + 1}`;
+  } else if (chunk.pageStart === chunk.pageEnd) {
+    location = `Page ${chunk.pageStart}`;
+  } else {
+    location = `Pages ${chunk.pageStart}–${chunk.pageEnd}`;
+  }
+  const sourceUrl = chunk.segments[0]?.sourceUrl;
+  if (sourceUrl) location = `Supplementary source ${sourceUrl} · ${location}`;
+  return chunk.heading ? `${location} · ${chunk.heading}` : location;
+}
+
+// Position in the original text of an offset in the chunk text, with the page it is on
+export function toSourcePosition(
+  chunk: TextChunk,
+  chunkOffset: number
+): { offset: number; page?: number; sourceUrl?: string } {
+  const segment =
+    [...chunk.segments].reverse().find((candidate) => candidate.offset <= chunkOffset) ?? chunk.segments[0];
+  const within = Math.min(Math.max(chunkOffset - segment.offset, 0), segment.length);
+  return { offset: segment.start + within, page: segment.page, sourceUrl: segment.sourceUrl };
+}
+
+// Pages of page separated text with their offsets; text without page breaks is one unnumbered page
+export function splitPages(text: string): { page?: number; start: number; text: string; sourceUrl?: string }[] {
+  if (!text.includes(PAGE_BREAK)) return [{ start: 0, text }];
+  let start = 0;
+  return text.split(PAGE_BREAK).map((pageText, idx) => {
+    const sourceUrl = getSupplementarySourceUrl(pageText);
+    const page = { page: idx + 1, start, text: pageText, ...(sourceUrl && { sourceUrl }) };
+    start += pageText.length + PAGE_BREAK.length;
+    return page;
+  });
+}
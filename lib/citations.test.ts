@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { PAGE_BREAK, splitIntoChunks, splitPages } from "./chunking";
+import { citeSources, formatCitation, resolveCitations } from "./citations";
+import type { Flashcard } from "./types";
+
+const text = [
+  "Cells are the basic unit of life.\n\nThe mitochondrion is the   powerhouse\nof the cell.",
+  "Photosynthesis turns light into chemical energy.",
+].join(`\n\n${PAGE_BREAK}`);
+
+describe("resolveCitations", () => {
+  it("locates quotes regardless of whitespace, case and quotation marks", () => {
+    const chunks = splitIntoChunks(text);
+    const [citation] = resolveCitations(chunks, ['"the mitochondrion is the powerhouse of the cell."']);
+
+    expect(text.slice(citation.startOffset, citation.endOffset)).toBe(
+      "The mitochondrion is the   powerhouse\nof the cell."
+    );
+    expect(citation.page).toBe(1);
+  });
+
+  it("maps offsets across page breaks and chunk boundaries", () => {
+    const chunks = splitIntoChunks(text, 60);
+    const [citation] = resolveCitations(chunks, ["Photosynthesis turns light into chemical energy"]);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(text.slice(citation.startOffset, citation.endOffset)).toBe(citation.quote);
+    expect(citation.page).toBe(2);
+    expect(formatCitation(citation)).toBe("p. 2");
+  });
+
+  it("falls back to the opening words of a paraphrased quote", () => {
+    const chunks = splitIntoChunks(text);
+    const [citation] = resolveCitations(chunks, ["The mitochondrion is the powerhouse of the cell and makes ATP."]);
+
+    expect(citation.quote).toBe("The mitochondrion is the   powerhouse\nof the cell");
+  });
+
+  it("drops quotes that are not in the source", () => {
+    const item = citeSources<Flashcard>(
+      { front: "?", back: "!", sources: ["Ribosomes build proteins from amino acids.", "Cells"] },
+      splitIntoChunks(text)
+    );
+
+    expect(item).toEqual({ front: "?", back: "!", citations: [] });
+  });
+});
+
+describe("splitPages", () => {
+  it("keeps the offset of every page", () => {
+    const pages = splitPages(text);
+
+    expect(pages.map((page) => page.page)).toEqual([1, 2]);
+    expect(text.slice(pages[1].start)).toBe(pages[1].text);
+    expect(splitPages("No pages")).toEqual([{ start: 0, text: "No pages" }]);
+  });
+});
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { toSourcePosition, type TextChunk } from "./chunking";
+import type { SourceCitation } from "./types";
+
+// Generated lessons, questions and flashcards quote the passages they are based on. The
+// quotes are looked up in the chunks the item was generated from and become citations with
+// offsets into the extracted text. Quotes that cannot be found are dropped, so content the
+// model made up ends without a citation instead of pointing at an unrelated passage.
+
+export const SOURCES_INSTRUCTION =
+  'Give every item a "sources" list with 1-2 short quotes (one sentence each) copied word for word from the text it is based on.';
+
+// Field of the generated JSON holding the quotes
+export const sourcesField = z
+  .array(z.string())
+  .nullish()
+  .transform((quotes) => quotes?.map((quote) => quote.trim()).filter(Boolean));
+
+// Shorter quotes match too many places to be useful
+const MIN_QUOTE_LENGTH = 12;
+// Words of the quote tried on their own when the whole quote is not found
+const OPENING_WORDS = 8;
+
+// Typographic characters the model tends to swap for their plain forms
+const FOLDED_CHARS: Record<string, string> = {
+  "‘": "'",
+  "’": "'",
+  "“": '"',
+  "”": '"',
+  "„": '"',
+  "–": "-",
+  "—": "-",
+};
+
+// Lowercased text with runs of whitespace collapsed, and the original index of every character
+function normalize(text: string): { text: string; positions: number[] } {
+  let normalized = "";
+  const positions: number[] = [];
+  let afterSpace = true;
+
+  for (let idx = 0; idx < text.length; idx++) {
+    const char = text[idx];
+    if (/\s/.test(char)) {
+      if (!afterSpace) {
+        normalized += " ";
+        positions.push(idx);
+      }
+      afterSpace = true;
+      continue;
+    }
+    for (const folded of (FOLDED_CHARS[char] ?? char).toLowerCase()) {
+      normalized += folded;
+      positions.push(idx);
+    }
+    afterSpace = false;
+  }
+
+  return { text: normalized.trimEnd(), positions };
+}
+
+// Quotation marks and ellipses around a quote are not part of the source text
+const stripQuoteMarks = (quote: string) => quote.replace(/^["'“„«\s.…]+|["'”»\s…]+$/g, "");
+
+// Range of the quote in the chunk text
+function findQuote(chunk: TextChunk, quote: string): { start: number; end: number } | undefined {
+  const haystack = normalize(chunk.text);
+  const needle = normalize(stripQuoteMarks(quote)).text;
+  if (needle.length < MIN_QUOTE_LENGTH) return undefined;
+
+  const candidates = [needle, needle.split(" ").slice(0, OPENING_WORDS).join(" ")];
+  for (const candidate of candidates) {
+    if (candidate.length < MIN_QUOTE_LENGTH) continue;
+    const at = haystack.text.indexOf(candidate);
+    if (at >= 0) {
+      return { start: haystack.positions[at], end: haystack.positions[at + candidate.length - 1] + 1 };
+    }
+  }
+  return undefined;
+}
+
+export function resolveCitations(chunks: TextChunk[], quotes: string[] = []): SourceCitation[] {
+  const citations: SourceCitation[] = [];
+
+  for (const quote of quotes) {
+    for (const chunk of chunks) {
+      const range = findQuote(chunk, quote);
+      if (!range) continue;
+      const start = toSourcePosition(chunk, range.start);
+      const citation = {
+        startOffset: start.offset,
+        endOffset: toSourcePosition(chunk, range.end).offset,
+        page: start.page,
+        quote: chunk.text.slice(range.start, range.end),
+        ...(start.sourceUrl && { sourceUrl: start.sourceUrl }),
+      };
+      if (!citations.some((other) => other.startOffset === citation.startOffset)) citations.push(citation);
+      break;
+    }
+  }
+
+  return citations.sort((a, b) => a.startOffset - b.startOffset);
+}
+
+// Replace the quotes of a generated item with the citations found in the chunks
+export function citeSources<T extends { citations?: SourceCitation[] }>(
+  item: T & { sources?: string[] },
+  chunks: TextChunk[]
+): T {
+  const { sources, ...rest } = item;
+  return { ...rest, citations: resolveCitations(chunks, sources) } as unknown as T;
+}
+
+export function formatCitation(citation: SourceCitation): string {
+  if (citation.sourceUrl) return getHostname(citation.sourceUrl);
+  return citation.page !== undefined ? `p. ${citation.page}` : "Source";
+}
+
+// Site name of a supplementary source, e.g. "en.wikipedia.org"
+export function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "");
+  } catch {
+    return url;
+  }
+}
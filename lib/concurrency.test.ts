@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { createLimiter } from "./concurrency";
+
+describe("createLimiter", () => {
+  it("never runs more tasks at once than the limit", async () => {
+    const limit = createLimiter(2);
+    let running = 0;
+    let maxRunning = 0;
+
+    const task = (value: number) => async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      return value;
+    };
+
+    const results = await Promise.all([1, 2, 3, 4, 5].map((value) => limit(task(value))));
+    expect(results).toEqual([1, 2, 3, 4, 5]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("frees the slot when a task fails", async () => {
+    const limit = createLimiter(1);
+    await expect(limit(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    await expect(limit(() => Promise.resolve("next"))).resolves.toBe("next");
+  });
+});
@@ -0,0 +1,31 @@
+// Run at most `limit` async tasks at the same time; further tasks wait in FIFO order
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+export function createLimiter(limit: number): Limiter {
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`Concurrency limit must be a positive integer, got ${limit}`);
+  }
+
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  // A finished task hands its slot directly to the next waiting one
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= limit) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
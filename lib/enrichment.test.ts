@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from "vitest";
+import { getChunkLabel, splitIntoChunks } from "./chunking";
+import { formatCitation, resolveCitations } from "./citations";
+import {
+  appendSupplementarySources,
+  deriveSearchQueries,
+  enrichMaterial,
+  fetchSupplementarySources,
+  getOriginalText,
+  getSupplementaryUrls,
+  isThinMaterial,
+  searchSupplementarySources,
+} from "./enrichment";
+import { createFirecrawlClient } from "./firecrawl";
+import { createFirecrawlStub } from "./firecrawl-stub";
+import { createMaterial, reply } from "./test-helpers";
+
+const pages = {
+  "https://en.example.org/wiki/Osmosis": {
+    title: "Osmosis",
+    markdown: "Osmosis is the movement of water across a semipermeable membrane towards higher solute concentration.",
+  },
+  "https://bio.example.com/diffusion": {
+    title: "Diffusion and osmosis",
+    markdown: "Diffusion spreads particles from high to low concentration until they are evenly distributed.",
+  },
+  "https://bio.example.com/cooking": { title: "Cooking pasta", markdown: "Salt the water generously." },
+};
+
+const material = createMaterial("m1", {
+  fileName: "handout.pdf",
+  extractedText: "Membrane transport\n\n- Diffusion\n- Osmosis\n- Active transport",
+  detectedLanguage: "English",
+});
+
+describe("deriveSearchQueries", () => {
+  it("asks the model for queries about the material and drops duplicates", async () => {
+    const complete = vi.fn().mockResolvedValue(reply('{"queries": ["osmosis membrane", "osmosis membrane", "diffusion"]}'));
+    const queries = await deriveSearchQueries(complete, material);
+
+    expect(queries).toEqual(["osmosis membrane", "diffusion"]);
+    expect(complete.mock.calls[0][0].messages[1].content).toContain("Active transport");
+  });
+});
+
+describe("supplementary sources", () => {
+  it("searches every query and offers each page once, without the excluded ones", async () => {
+    const stub = createFirecrawlStub({ pages });
+    const candidates = await searchSupplementarySources(
+      createFirecrawlClient(stub.call),
+      ["osmosis membrane", "diffusion osmosis"],
+      ["https://bio.example.com/diffusion/"]
+    );
+
+    expect(stub.calls.map((call) => call.tool)).toEqual(["FIRECRAWL_SEARCH", "FIRECRAWL_SEARCH"]);
+    expect(candidates.map((candidate) => [candidate.url, candidate.query])).toEqual([
+      ["https://en.example.org/wiki/Osmosis", "osmosis membrane"],
+    ]);
+  });
+
+  it("extracts the content of results the search could not scrape", async () => {
+    const stub = createFirecrawlStub({ pages, searchContent: false });
+    const client = createFirecrawlClient(stub.call);
+    const candidates = await searchSupplementarySources(client, ["osmosis"]);
+    const sources = await fetchSupplementarySources(client, candidates);
+
+    expect(stub.calls.at(-1)).toMatchObject({
+      tool: "FIRECRAWL_EXTRACT",
+      args: { urls: ["https://bio.example.com/diffusion"] },
+    });
+    expect(sources.map((source) => source.title)).toEqual(["Osmosis", "Diffusion and osmosis"]);
+    expect(sources[0].markdown).toContain("semipermeable membrane");
+  });
+
+  it("keeps supplementary pages apart from the original text and cites them by site", () => {
+    const source = {
+      url: "https://en.example.org/wiki/Osmosis",
+      title: "Osmosis",
+      markdown: pages["https://en.example.org/wiki/Osmosis"].markdown,
+    };
+    const text = appendSupplementarySources(material.extractedText, [source]);
+    const chunks = splitIntoChunks(text);
+
+    expect(chunks).toHaveLength(2);
+    expect(getChunkLabel(chunks[1])).toBe("Supplementary source https://en.example.org/wiki/Osmosis · Page 2 · Osmosis");
+    expect(getOriginalText(text)).toBe(material.extractedText);
+    expect(getSupplementaryUrls(text)).toEqual([source.url]);
+
+    const [original, supplementary] = resolveCitations(chunks, [
+      "- Active transport",
+      "Osmosis is the movement of water across a semipermeable membrane",
+    ]);
+    expect(original.sourceUrl).toBeUndefined();
+    expect(formatCitation(original)).toBe("p. 1");
+    expect(supplementary.sourceUrl).toBe(source.url);
+    expect(formatCitation(supplementary)).toBe("en.example.org");
+    expect(text.slice(supplementary.startOffset, supplementary.endOffset)).toBe(supplementary.quote);
+  });
+
+  it("regenerates the content after the analysis when sources are added", () => {
+    const patch = enrichMaterial(material, [{ url: "https://example.org", title: "Background", markdown: "More." }]);
+
+    expect(patch.processingStatus).toBe("pending");
+    expect(patch.pipeline?.completedStages).toEqual(["uploaded", "textExtracted", "analyzed"]);
+    expect(patch.pipeline?.lessonLength).toBe("normal");
+    expect(isThinMaterial(material)).toBe(true);
+    expect(isThinMaterial({ ...material, ...patch })).toBe(true);
+  });
+
+  it("regenerates with the lesson length the material was uploaded with", () => {
+    const patch = enrichMaterial({ ...material, lessonLength: "long" }, []);
+    expect(patch.pipeline?.lessonLength).toBe("long");
+  });
+});
@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { PAGE_BREAK, SUPPLEMENTARY_SOURCE_LABEL, splitPages } from "./chunking";
+import type { FirecrawlClient, FirecrawlSearchResult } from "./firecrawl";
+import { generateStructured, type ChatCompleter } from "./structured-output";
+import type { UploadedMaterial } from "./types";
+
+// Enrichment of thin materials with web research. Search queries are derived from the
+// material, and the results the learner approves are appended to the extracted text as pages
+// starting with "Supplementary source: <url>". The label keeps them apart from the original
+// upload: chunks never mix the two, and citations of these pages carry the source's address.
+
+// Materials with fewer words than this give the model little to work with
+export const THIN_MATERIAL_WORDS = 400;
+const QUERY_COUNT = 3;
+const RESULTS_PER_QUERY = 3;
+// Longer pages are cut, so a few sources do not drown out the original material
+const MAX_SOURCE_CHARS = 6000;
+
+// Search result offered to the learner, with the query that found it
+export interface SupplementaryCandidate extends FirecrawlSearchResult {
+  query: string;
+}
+
+export interface SupplementarySource {
+  url: string;
+  title: string;
+  markdown: string;
+}
+
+const queriesSchema = z.object({
+  queries: z.array(z.string().trim().min(1)).min(1, "queries must not be empty"),
+});
+
+// Extracted text without the supplementary sources added to it
+export function getOriginalText(extractedText: string): string {
+  return splitPages(extractedText)
+    .filter((page) => !page.sourceUrl)
+    .map((page) => page.text)
+    .join(PAGE_BREAK);
+}
+
+// Addresses of the supplementary sources already added to the material
+export function getSupplementaryUrls(extractedText: string): string[] {
+  return splitPages(extractedText).flatMap((page) => page.sourceUrl ?? []);
+}
+
+export function isThinMaterial(material: UploadedMaterial): boolean {
+  const words = getOriginalText(material.extractedText).split(/\s+/).filter(Boolean).length;
+  return words < THIN_MATERIAL_WORDS;
+}
+
+// Web searches for background reading on the main topics of the material
+export async function deriveSearchQueries(complete: ChatCompleter, material: UploadedMaterial): Promise<string[]> {
+  const language = material.detectedLanguage ?? "the language of the material";
+  const result = await generateStructured(complete, {
+    artifact: "search queries",
+    schema: queriesSchema,
+    messages: [
+      {
+        role: "system",
+        content: `You help a student find background reading for their study material. Suggest ${QUERY_COUNT} web search queries that find explanations of the main topics it only touches on, each specific enough to find a good textbook-style article. Write the queries in ${language}. Return ONLY valid JSON in this exact format: {"queries": ["..."]}`,
+      },
+      {
+        role: "user",
+        content: `Material "${material.suggestedTitle ?? material.fileName}":\n\n${getOriginalText(material.extractedText).slice(0, 4000)}`,
+      },
+    ],
+  });
+
+  return [...new Set(result.queries)].slice(0, QUERY_COUNT);
+}
+
+const normalizeResultUrl = (url: string) => url.replace(/[#?].*$/, "").replace(/\/$/, "");
+
+// Results of all queries, without duplicates and without the excluded addresses
+export async function searchSupplementarySources(
+  client: FirecrawlClient,
+  queries: string[],
+  exclude: string[] = []
+): Promise<SupplementaryCandidate[]> {
+  const seen = new Set(exclude.map(normalizeResultUrl));
+  const resultsPerQuery = await Promise.all(
+    queries.map((query) => client.search(query, { limit: RESULTS_PER_QUERY }))
+  );
+
+  return resultsPerQuery.flatMap((results, idx) =>
+    results.flatMap((result) => {
+      const key = normalizeResultUrl(result.url);
+      if (seen.has(key)) return [];
+      seen.add(key);
+      return [{ ...result, query: queries[idx] }];
+    })
+  );
+}
+
+// Content of the approved results. Results the search could not scrape are extracted
+// separately, asking only for the parts about the query that found them.
+export async function fetchSupplementarySources(
+  client: FirecrawlClient,
+  candidates: SupplementaryCandidate[]
+): Promise<SupplementarySource[]> {
+  return Promise.all(
+    candidates.map(async (candidate) => {
+      const markdown =
+        candidate.markdown ??
+        (await client.extract(
+          [candidate.url],
+          `Extract the explanations about "${candidate.query}" as markdown text, leaving out navigation, ads and unrelated sections.`
+        ));
+      return {
+        url: candidate.url,
+        title: candidate.title ?? candidate.url,
+        markdown: markdown.length > MAX_SOURCE_CHARS ? `${markdown.slice(0, MAX_SOURCE_CHARS).trimEnd()} …` : markdown,
+      };
+    })
+  );
+}
+
+// The extracted text with one labelled page per source added at the end
+export function appendSupplementarySources(extractedText: string, sources: SupplementarySource[]): string {
+  return (
+    extractedText +
+    sources
+      .map((source) => `${PAGE_BREAK}${SUPPLEMENTARY_SOURCE_LABEL} ${source.url}\n\n# ${source.title}\n\n${source.markdown}`)
+      .join("")
+  );
+}
+
+// Material update that adds the sources and generates the content again with the lesson
+// length of the upload; upload, extraction and analysis are kept, so only the artifact stages run
+export function enrichMaterial(material: UploadedMaterial, sources: SupplementarySource[]): Partial<UploadedMaterial> {
+  return {
+    extractedText: appendSupplementarySources(material.extractedText, sources),
+    processingStatus: "pending",
+    error: undefined,
+    pipeline: {
+      lessonLength: material.lessonLength ?? "normal",
+      completedStages: ["uploaded", "textExtracted", "analyzed"],
+      draft: { detectedLanguage: material.detectedLanguage },
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMemoryEntitlementStore,
+  createWebhookReceiver,
+  signWebhookPayload,
+  toEntitlement,
+  type WebhookResult,
+} from "./entitlement-webhook";
+import { createStripeStub } from "./stripe-stub";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const setup = () => {
+  let now = Date.UTC(2025, 0, 1);
+  const clock = {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+  const store = createMemoryEntitlementStore();
+  const receiver = createWebhookReceiver({ secret: "whsec_test", store, now: clock.now });
+  const results: WebhookResult[] = [];
+  const payloads: string[] = [];
+  const stripe = createStripeStub({
+    webhookSecret: "whsec_test",
+    deliver: async (payload, header) => {
+      payloads.push(payload);
+      results.push(await receiver.receive(payload, header));
+    },
+    now: clock.now,
+  });
+  const entitlement = (userId: string) => toEntitlement(store.getRecord(userId), clock.now());
+  return { clock, receiver, results, payloads, stripe, entitlement };
+};
+
+describe("entitlement webhook", () => {
+  it("grants premium only after a completed checkout for that user", async () => {
+    const { stripe, results, entitlement } = setup();
+    const session = stripe.createCheckoutSession({ userId: "u1", successUrl: "/ok", cancelUrl: "/cancel" });
+    expect(entitlement("u1").isPremium).toBe(false);
+
+    await stripe.completeCheckout(session.id);
+    expect(results.every((r) => r.status === 200)).toBe(true);
+    expect(entitlement("u1")).toMatchObject({ isPremium: true, status: "active", cancelAtPeriodEnd: false });
+    expect(entitlement("u2").isPremium).toBe(false);
+  });
+
+  it("rejects unsigned, tampered and stale events", async () => {
+    const { receiver, clock } = setup();
+    const payload = JSON.stringify({ id: "evt_1", type: "customer.subscription.created", created: 0 });
+    const header = await signWebhookPayload(payload, "whsec_test", Math.floor(clock.now() / 1000));
+
+    expect((await receiver.receive(payload, null)).status).toBe(400);
+    expect((await receiver.receive(payload.replace("evt_1", "evt_2"), header)).status).toBe(400);
+    expect((await receiver.receive(payload, await signWebhookPayload(payload, "whsec_other", 0))).status).toBe(400);
+    clock.advance(10 * 60 * 1000);
+    expect((await receiver.receive(payload, header)).status).toBe(400);
+  });
+
+  it("keeps premium until the period ends after a cancellation", async () => {
+    const { stripe, clock, entitlement } = setup();
+    const session = stripe.createCheckoutSession({ userId: "u1", successUrl: "/ok", cancelUrl: "/cancel" });
+    await stripe.completeCheckout(session.id);
+    const [subscriptionId] = stripe.subscriptionIds();
+
+    await stripe.cancelSubscription(subscriptionId, { atPeriodEnd: true });
+    expect(entitlement("u1")).toMatchObject({ isPremium: true, cancelAtPeriodEnd: true });
+
+    clock.advance(31 * DAY_MS);
+    expect(entitlement("u1").isPremium).toBe(false);
+  });
+
+  it("ends premium immediately when the subscription is deleted, despite redelivered events", async () => {
+    const { stripe, clock, receiver, payloads, entitlement } = setup();
+    const session = stripe.createCheckoutSession({ userId: "u1", successUrl: "/ok", cancelUrl: "/cancel" });
+    await stripe.completeCheckout(session.id);
+    const [subscriptionId] = stripe.subscriptionIds();
+
+    clock.advance(DAY_MS);
+    await stripe.cancelSubscription(subscriptionId, { atPeriodEnd: false });
+    expect(entitlement("u1")).toMatchObject({ isPremium: false, status: "canceled" });
+
+    // The provider retries the earlier "created" event
+    const created = payloads.find((p) => p.includes("customer.subscription.created"))!;
+    const header = await signWebhookPayload(created, "whsec_test", Math.floor(clock.now() / 1000));
+    expect((await receiver.receive(created, header)).status).toBe(200);
+    expect(entitlement("u1").isPremium).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import { NO_ENTITLEMENT, type Entitlement, type SubscriptionStatus } from "./entitlements-backend";
+
+// Receiver for the payment provider's webhook (Stripe event format). Events are checked
+// against the signing secret, applied once per event id, and turned into one subscription
+// record per user, from which the entitlement is derived.
+
+// Maximum age of a signed event, against replayed requests
+const SIGNATURE_TOLERANCE_S = 5 * 60;
+
+export interface SubscriptionRecord {
+  userId: string;
+  customerId: string;
+  subscriptionId: string;
+  status: SubscriptionStatus;
+  // Unix time in seconds, as sent by the provider
+  currentPeriodEnd: number;
+  cancelAtPeriodEnd: boolean;
+  // Creation time of the last applied event; older events arriving late are ignored
+  updatedAt: number;
+}
+
+export interface CheckoutCompletedObject {
+  id: string;
+  client_reference_id: string;
+  customer: string;
+  subscription: string;
+}
+
+export interface SubscriptionObject {
+  id: string;
+  customer: string;
+  status: "active" | "past_due" | "unpaid" | "canceled" | "incomplete";
+  current_period_end: number;
+  cancel_at_period_end: boolean;
+  metadata: { userId: string };
+}
+
+export type WebhookEvent = { id: string; created: number } & (
+  | { type: "checkout.session.completed"; data: { object: CheckoutCompletedObject } }
+  | {
+      type: "customer.subscription.created" | "customer.subscription.updated" | "customer.subscription.deleted";
+      data: { object: SubscriptionObject };
+    }
+);
+
+export interface EntitlementStore {
+  getRecord(userId: string): SubscriptionRecord | undefined;
+  saveRecord(record: SubscriptionRecord): void;
+  hasProcessed(eventId: string): boolean;
+  markProcessed(eventId: string): void;
+}
+
+export interface WebhookResult {
+  status: 200 | 400;
+  error?: string;
+}
+
+export function createMemoryEntitlementStore(): EntitlementStore {
+  const records = new Map<string, SubscriptionRecord>();
+  const processed = new Set<string>();
+  return {
+    getRecord: (userId) => records.get(userId),
+    saveRecord: (record) => void records.set(record.userId, record),
+    hasProcessed: (eventId) => processed.has(eventId),
+    markProcessed: (eventId) => void processed.add(eventId),
+  };
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function hmacSha256(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message)));
+}
+
+// Signature header in the provider's format: t=<timestamp>,v1=<hmac of "timestamp.payload">
+export async function signWebhookPayload(payload: string, secret: string, timestamp: number): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256(secret, `${timestamp}.${payload}`)}`;
+}
+
+export async function verifyWebhookSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  nowSeconds: number
+): Promise<boolean> {
+  if (!header) return false;
+  const parts = Object.fromEntries(header.split(",").map((part) => part.split("=", 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || !Number.isFinite(timestamp) || Math.abs(nowSeconds - timestamp) > SIGNATURE_TOLERANCE_S) {
+    return false;
+  }
+  return (await hmacSha256(secret, `${timestamp}.${payload}`)) === parts.v1;
+}
+
+function toStatus(status: SubscriptionObject["status"]): SubscriptionStatus {
+  switch (status) {
+    case "active":
+      return "active";
+    case "past_due":
+    case "unpaid":
+      return "past_due";
+    case "canceled":
+      return "canceled";
+    default:
+      return "none";
+  }
+}
+
+export function applyWebhookEvent(store: EntitlementStore, event: WebhookEvent): void {
+  if (event.type === "checkout.session.completed") {
+    const session = event.data.object;
+    const existing = store.getRecord(session.client_reference_id);
+    // The subscription events carry the status; the checkout only links the customer
+    store.saveRecord({
+      status: "none",
+      currentPeriodEnd: 0,
+      cancelAtPeriodEnd: false,
+      updatedAt: 0,
+      ...existing,
+      userId: session.client_reference_id,
+      customerId: session.customer,
+      subscriptionId: session.subscription,
+    });
+    return;
+  }
+
+  const subscription = event.data.object;
+  const existing = store.getRecord(subscription.metadata.userId);
+  if (existing && existing.updatedAt > event.created) return;
+
+  store.saveRecord({
+    userId: subscription.metadata.userId,
+    customerId: subscription.customer,
+    subscriptionId: subscription.id,
+    status: event.type === "customer.subscription.deleted" ? "canceled" : toStatus(subscription.status),
+    currentPeriodEnd: subscription.current_period_end,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    updatedAt: event.created,
+  });
+}
+
+export function createWebhookReceiver({
+  secret,
+  store,
+  now = Date.now,
+}: {
+  secret: string;
+  store: EntitlementStore;
+  now?: () => number;
+}) {
+  return {
+    async receive(payload: string, signatureHeader: string | null): Promise<WebhookResult> {
+      if (!(await verifyWebhookSignature(payload, signatureHeader, secret, Math.floor(now() / 1000)))) {
+        return { status: 400, error: "Invalid signature" };
+      }
+      const event: WebhookEvent = JSON.parse(payload);
+      // The provider retries deliveries, so the same event can arrive more than once
+      if (!store.hasProcessed(event.id)) {
+        applyWebhookEvent(store, event);
+        store.markProcessed(event.id);
+      }
+      return { status: 200 };
+    },
+  };
+}
+
+// Premium while a subscription is active, or past due but still inside the paid period
+export function toEntitlement(record: SubscriptionRecord | undefined, nowMs: number): Entitlement {
+  if (!record || record.status === "none") {
+    return NO_ENTITLEMENT;
+  }
+  const currentPeriodEnd = new Date(record.currentPeriodEnd * 1000);
+  return {
+    isPremium: (record.status === "active" || record.status === "past_due") && currentPeriodEnd.getTime() > nowMs,
+    status: record.status,
+    currentPeriodEnd,
+    cancelAtPeriodEnd: record.cancelAtPeriodEnd,
+  };
+}
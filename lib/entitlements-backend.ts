@@ -0,0 +1,31 @@
+// Premium access as recorded by the billing service. The client only reads it; it changes
+// when the payment provider reports a payment, renewal or cancellation through its webhook.
+
+export type SubscriptionStatus = "none" | "active" | "past_due" | "canceled";
+
+export interface Entitlement {
+  isPremium: boolean;
+  status: SubscriptionStatus;
+  // End of the paid period; after a cancellation, access ends here
+  currentPeriodEnd?: Date;
+  cancelAtPeriodEnd: boolean;
+}
+
+export const NO_ENTITLEMENT: Entitlement = { isPremium: false, status: "none", cancelAtPeriodEnd: false };
+
+export interface CheckoutSession {
+  id: string;
+  // Hosted payment page
+  url: string;
+}
+
+export interface CheckoutUrls {
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface EntitlementBackend {
+  // The signed-in user's id is attached to the session, so the webhook can credit the payment
+  createCheckoutSession(token: string, urls: CheckoutUrls): Promise<CheckoutSession>;
+  getEntitlement(token: string): Promise<Entitlement>;
+}
@@ -0,0 +1,33 @@
+import { ApiError, apiRequest } from "@/lib/api-request";
+import { AuthError } from "@/lib/auth-backend";
+import type { CheckoutSession, Entitlement, EntitlementBackend } from "@/lib/entitlements-backend";
+
+// Billing service on the platform API. It creates the provider's checkout sessions and
+// receives the provider's webhook; the client only reads the resulting entitlement.
+
+interface EntitlementResponse extends Omit<Entitlement, "currentPeriodEnd"> {
+  currentPeriodEnd?: string;
+}
+
+async function billingRequest<T>(path: string, body: unknown, token: string): Promise<T> {
+  try {
+    return await apiRequest<T>(`/billing${path}`, body, token);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 401) throw new AuthError("invalid_session");
+    if (error instanceof ApiError) throw new Error("Der Zahlungsdienst ist nicht erreichbar. Bitte versuchen Sie es später erneut");
+    throw error;
+  }
+}
+
+export function createHttpEntitlementBackend(): EntitlementBackend {
+  return {
+    createCheckoutSession: (token, urls) => billingRequest<CheckoutSession>("/checkout", urls, token),
+    getEntitlement: async (token) => {
+      const entitlement = await billingRequest<EntitlementResponse>("/entitlement", undefined, token);
+      return {
+        ...entitlement,
+        currentPeriodEnd: entitlement.currentPeriodEnd ? new Date(entitlement.currentPeriodEnd) : undefined,
+      };
+    },
+  };
+}
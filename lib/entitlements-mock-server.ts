@@ -0,0 +1,64 @@
+import type { AuthBackend } from "@/lib/auth-backend";
+import {
+  createMemoryEntitlementStore,
+  createWebhookReceiver,
+  toEntitlement,
+  type EntitlementStore,
+  type SubscriptionRecord,
+} from "@/lib/entitlement-webhook";
+import type { EntitlementBackend } from "@/lib/entitlements-backend";
+import { createStripeStub, type StripeStub } from "@/lib/stripe-stub";
+
+// Billing service for local development (VITE_AUTH_BACKEND=mock): checkout sessions go to
+// the Stripe stub, which pays immediately and reports back through the webhook receiver.
+
+const STORAGE_KEY = "knowly-mock-billing";
+const WEBHOOK_SECRET = "whsec_mock";
+
+export interface MockEntitlementServer extends EntitlementBackend {
+  stripe: StripeStub;
+}
+
+// Store that survives reloads; processed event ids only matter while the stub is running
+function createPersistentStore(storage: Pick<Storage, "getItem" | "setItem">): EntitlementStore {
+  const memory = createMemoryEntitlementStore();
+  const records: Record<string, SubscriptionRecord> = JSON.parse(storage.getItem(STORAGE_KEY) ?? "{}");
+  return {
+    ...memory,
+    getRecord: (userId) => records[userId],
+    saveRecord: (record) => {
+      records[record.userId] = record;
+      storage.setItem(STORAGE_KEY, JSON.stringify(records));
+    },
+  };
+}
+
+export function createMockEntitlementServer({
+  auth,
+  storage,
+  now = Date.now,
+}: {
+  auth: AuthBackend;
+  storage?: Pick<Storage, "getItem" | "setItem">;
+  now?: () => number;
+}): MockEntitlementServer {
+  const store = storage ? createPersistentStore(storage) : createMemoryEntitlementStore();
+  const receiver = createWebhookReceiver({ secret: WEBHOOK_SECRET, store, now });
+  const stripe = createStripeStub({ webhookSecret: WEBHOOK_SECRET, deliver: receiver.receive, now });
+
+  return {
+    stripe,
+
+    async createCheckoutSession(token, { successUrl, cancelUrl }) {
+      const user = await auth.getUser(token);
+      const session = stripe.createCheckoutSession({ userId: user.userId, successUrl, cancelUrl });
+      // There is no payment page to show; the test card always succeeds
+      return { id: session.id, url: await stripe.completeCheckout(session.id) };
+    },
+
+    async getEntitlement(token) {
+      const user = await auth.getUser(token);
+      return toEntitlement(store.getRecord(user.userId), now());
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import { getAuthBackend, getSessionToken, requireSessionToken } from "@/lib/auth";
+import { NO_ENTITLEMENT, type Entitlement, type EntitlementBackend } from "@/lib/entitlements-backend";
+import { createHttpEntitlementBackend } from "@/lib/entitlements-http";
+import { createMockEntitlementServer } from "@/lib/entitlements-mock-server";
+
+// Premium access of the signed-in user, as verified by the billing service
+
+// Set on the return URLs of the checkout page
+const CHECKOUT_PARAM = "checkout";
+
+export type CheckoutResult = "success" | "canceled";
+
+let backend: EntitlementBackend =
+  import.meta.env.VITE_AUTH_BACKEND === "mock"
+    ? createMockEntitlementServer({ auth: getAuthBackend(), storage: localStorage })
+    : createHttpEntitlementBackend();
+
+export function configureEntitlementBackend(next: EntitlementBackend): void {
+  backend = next;
+}
+
+export async function getEntitlement(): Promise<Entitlement> {
+  const token = getSessionToken();
+  if (!token) return NO_ENTITLEMENT;
+  return backend.getEntitlement(token);
+}
+
+function returnUrl(result: CheckoutResult): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set(CHECKOUT_PARAM, result);
+  return url.toString();
+}
+
+// Send the signed-in user to the payment page
+export async function startCheckout(): Promise<void> {
+  const session = await backend.createCheckoutSession(await requireSessionToken(), {
+    successUrl: returnUrl("success"),
+    cancelUrl: returnUrl("canceled"),
+  });
+  window.location.assign(session.url);
+}
+
+// Outcome of a checkout the user just returned from; removed from the URL
+export function consumeCheckoutResult(): CheckoutResult | undefined {
+  const url = new URL(window.location.href);
+  const result = url.searchParams.get(CHECKOUT_PARAM);
+  if (!result) return undefined;
+  url.searchParams.delete(CHECKOUT_PARAM);
+  window.history.replaceState({}, document.title, url.toString());
+  return result === "success" ? "success" : "canceled";
+}
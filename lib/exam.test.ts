@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { buildExam, examTimeLeft, gradeExam, shuffleOptions, toMaterialResults } from "./exam";
+import { startAttemptTimer } from "./quiz-attempts";
+import { createMaterial } from "./test-helpers";
+import type { MultiSelectQuestion, QuizQuestion } from "./types";
+
+// Deterministic stand-in for Math.random
+function seededRandom(seed = 1) {
+  let state = seed;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return (state - 1) / 2147483646;
+  };
+}
+
+const question = (text: string, concept?: string): QuizQuestion => ({
+  question: text,
+  options: ["right", "wrong 1", "wrong 2", "wrong 3"],
+  correctAnswer: 0,
+  concept,
+});
+
+const material = (id: string, questions: QuizQuestion[]) =>
+  createMaterial(id, {
+    content: { microLessons: [], quizQuestions: questions, summary: "", flashcards: [], detectedLanguage: "English" },
+  });
+
+const biology = material("bio", [question("Cell?", "Cells"), question("DNA?", "Genetics"), question("RNA?", "Genetics")]);
+const physics = material("phys", [question("Force?", "Mechanics"), question("Mass?", "Mechanics")]);
+const empty = material("empty", []);
+
+describe("exams", () => {
+  it("spreads the questions over the materials and skips materials without questions", () => {
+    const exam = buildExam([biology, physics, empty], { questionCount: 4, durationMs: 60_000 }, seededRandom(), 1000);
+    const perMaterial = exam.questions.map((entry) => entry.materialId).sort();
+    expect(perMaterial).toEqual(["bio", "bio", "phys", "phys"]);
+    expect(examTimeLeft(exam, 31_000)).toBe(30_000);
+    expect(examTimeLeft(exam, 100_000)).toBe(0);
+  });
+
+  it("builds the same exam, id included, from the same random source", () => {
+    const build = () => buildExam([biology, physics], { questionCount: 4, durationMs: 60_000 }, seededRandom(5), 1000);
+    expect(build()).toEqual(build());
+  });
+
+  it("keeps the correct answers when shuffling options", () => {
+    const random = seededRandom(7);
+    for (let run = 0; run < 5; run++) {
+      const shuffled = shuffleOptions(question("Cell?"), random);
+      expect(shuffled.type === undefined && shuffled.options[shuffled.correctAnswer]).toBe("right");
+    }
+    const multi: MultiSelectQuestion = {
+      type: "multiSelect",
+      question: "Primes?",
+      options: ["2", "4", "5", "6"],
+      correctAnswers: [0, 2],
+    };
+    const shuffled = shuffleOptions(multi, random) as MultiSelectQuestion;
+    expect(shuffled.correctAnswers.map((idx) => shuffled.options[idx]).sort()).toEqual(["2", "5"]);
+  });
+
+  it("grades by material and topic and splits the results per material", () => {
+    const exam = buildExam([biology, physics], { questionCount: 5, durationMs: 60_000 }, seededRandom(3));
+    const wrongFor = new Set(["DNA?", "Force?"]);
+    const responses = Object.fromEntries(
+      exam.questions.map((entry, idx) => {
+        const q = entry.question;
+        const correct = q.type === undefined ? q.correctAnswer : 0;
+        return [idx, wrongFor.has(q.question) ? (correct + 1) % 4 : correct];
+      })
+    );
+
+    const report = gradeExam(exam, responses);
+    expect(report).toMatchObject({ correct: 3, total: 5 });
+    expect(report.byMaterial).toEqual(
+      expect.arrayContaining([
+        { materialId: "bio", correct: 2, total: 3, percentage: (2 / 3) * 100 },
+        { materialId: "phys", correct: 1, total: 2, percentage: 50 },
+      ])
+    );
+    expect(report.byTopic.find((entry) => entry.topic === "Genetics")).toMatchObject({ correct: 1, total: 2 });
+    // Weakest topics first
+    expect(report.byTopic.at(-1)).toMatchObject({ topic: "Cells", percentage: 100 });
+
+    const results = toMaterialResults(exam, responses, startAttemptTimer(5, 0));
+    expect(results.get("bio")).toMatchObject({ mode: "exam", examId: exam.id, totalQuestions: 3, correctAnswers: 2 });
+    expect(results.get("phys")?.answers).toHaveLength(2);
+  });
+});
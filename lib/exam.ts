@@ -0,0 +1,156 @@
+import { isResponseCorrect } from "./question-types";
+import { createQuizAttempt, type AttemptTimer } from "./quiz-attempts";
+import type { QuizQuestion, QuizResponse, QuizResult, UploadedMaterial } from "./types";
+
+// Timed exams draw questions from several materials. Question and option order are
+// shuffled, feedback stays hidden until the exam is submitted, and the result is graded
+// per material and per topic. Each material gets its share of the exam as a quiz result,
+// so exams count towards its history and concept mastery.
+
+export interface ExamQuestion {
+  materialId: string;
+  question: QuizQuestion;
+}
+
+export interface Exam {
+  id: string;
+  questions: ExamQuestion[];
+  startedAt: number;
+  durationMs: number;
+}
+
+export interface ExamScore {
+  correct: number;
+  total: number;
+  percentage: number;
+}
+
+export interface ExamReport extends ExamScore {
+  byMaterial: (ExamScore & { materialId: string })[];
+  byTopic: (ExamScore & { topic: string })[];
+}
+
+// Topic of questions generated without a concept
+export const UNCATEGORIZED_TOPIC = "Other";
+
+export const examMaterials = (materials: UploadedMaterial[]) =>
+  materials.filter((material) => (material.content?.quizQuestions.length ?? 0) > 0);
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let idx = shuffled.length - 1; idx > 0; idx--) {
+    const other = Math.floor(random() * (idx + 1));
+    [shuffled[idx], shuffled[other]] = [shuffled[other], shuffled[idx]];
+  }
+  return shuffled;
+}
+
+// Shuffle the options of choice questions and remap the correct answers; ordering and
+// matching questions are shuffled when they are displayed
+export function shuffleOptions(question: QuizQuestion, random: () => number = Math.random): QuizQuestion {
+  if (question.type !== undefined && question.type !== "multipleChoice" && question.type !== "multiSelect") {
+    return question;
+  }
+  const order = shuffle(
+    question.options.map((_, idx) => idx),
+    random
+  );
+  const options = order.map((idx) => question.options[idx]);
+  if (question.type === "multiSelect") {
+    return {
+      ...question,
+      options,
+      correctAnswers: question.correctAnswers.map((answer) => order.indexOf(answer)).sort((a, b) => a - b),
+    };
+  }
+  return { ...question, options, correctAnswer: order.indexOf(question.correctAnswer) };
+}
+
+// Pick `questionCount` questions spread evenly over the materials, in shuffled order
+export function buildExam(
+  materials: UploadedMaterial[],
+  { questionCount, durationMs }: { questionCount: number; durationMs: number },
+  random: () => number = Math.random,
+  now: number = Date.now()
+): Exam {
+  const pools = examMaterials(materials).map((material) =>
+    shuffle(material.content!.quizQuestions, random).map((question) => ({ materialId: material.id, question }))
+  );
+
+  // Round-robin over the materials until enough questions are picked or all pools are empty
+  const picked: ExamQuestion[] = [];
+  while (picked.length < questionCount && pools.some((pool) => pool.length > 0)) {
+    for (const pool of pools) {
+      const next = pool.shift();
+      if (next && picked.length < questionCount) picked.push(next);
+    }
+  }
+
+  const questions = shuffle(picked, random).map((entry) => ({
+    ...entry,
+    question: shuffleOptions(entry.question, random),
+  }));
+  return {
+    id: `exam-${now}-${random().toString(36).slice(2, 8)}`,
+    questions,
+    startedAt: now,
+    durationMs,
+  };
+}
+
+export const examTimeLeft = (exam: Exam, now: number = Date.now()) =>
+  Math.max(0, exam.startedAt + exam.durationMs - now);
+
+function score(entries: boolean[]): ExamScore {
+  const correct = entries.filter(Boolean).length;
+  return { correct, total: entries.length, percentage: entries.length > 0 ? (correct / entries.length) * 100 : 0 };
+}
+
+function groupScores<K extends string>(keys: K[], results: boolean[]): { key: K; score: ExamScore }[] {
+  const groups = new Map<K, boolean[]>();
+  keys.forEach((key, idx) => groups.set(key, [...(groups.get(key) ?? []), results[idx]]));
+  return [...groups].map(([key, entries]) => ({ key, score: score(entries) }));
+}
+
+export function gradeExam(exam: Exam, responses: Record<number, QuizResponse | null>): ExamReport {
+  const results = exam.questions.map((entry, idx) => isResponseCorrect(entry.question, responses[idx]));
+
+  return {
+    ...score(results),
+    byMaterial: groupScores(
+      exam.questions.map((entry) => entry.materialId),
+      results
+    ).map(({ key, score }) => ({ materialId: key, ...score })),
+    byTopic: groupScores(
+      exam.questions.map((entry) => entry.question.concept?.trim() || UNCATEGORIZED_TOPIC),
+      results
+    )
+      .map(({ key, score }) => ({ topic: key, ...score }))
+      .sort((a, b) => a.percentage - b.percentage),
+  };
+}
+
+// The exam split into one quiz result per material
+export function toMaterialResults(
+  exam: Exam,
+  responses: Record<number, QuizResponse | null>,
+  timer: AttemptTimer,
+  now: Date = new Date()
+): Map<string, QuizResult> {
+  const indexesByMaterial = new Map<string, number[]>();
+  exam.questions.forEach((entry, idx) =>
+    indexesByMaterial.set(entry.materialId, [...(indexesByMaterial.get(entry.materialId) ?? []), idx])
+  );
+
+  return new Map(
+    [...indexesByMaterial].map(([materialId, indexes]) => {
+      const attempt = createQuizAttempt(
+        indexes.map((idx) => exam.questions[idx].question),
+        Object.fromEntries(indexes.map((idx, position) => [position, responses[idx] ?? null])),
+        { ...timer, timeMs: indexes.map((idx) => timer.timeMs[idx] ?? 0) },
+        now
+      );
+      return [materialId, { ...attempt, mode: "exam", examId: exam.id }];
+    })
+  );
+}
@@ -0,0 +1,70 @@
+import { isImageFile } from "@/lib/ocr";
+
+// File selection for batch uploads: supported formats and files dropped as whole folders.
+
+export const ACCEPTED_FILE_EXTENSIONS = ".pdf,.ppt,.pptx,.txt,.png,.jpg,.jpeg";
+
+export function isSupportedFile(file: File): boolean {
+  const fileName = file.name.toLowerCase();
+  const fileType = file.type.toLowerCase();
+  return (
+    fileType === "application/pdf" ||
+    fileName.endsWith(".pdf") ||
+    fileType.includes("presentation") ||
+    fileName.endsWith(".ppt") ||
+    fileName.endsWith(".pptx") ||
+    fileType.startsWith("text/") ||
+    fileName.endsWith(".txt") ||
+    isImageFile(file)
+  );
+}
+
+// Hidden files (e.g. .DS_Store) and OS metadata that come along with dropped folders
+function isHiddenFile(file: File): boolean {
+  return file.name.startsWith(".") || file.name === "Thumbs.db";
+}
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns at most ~100 entries per call, so read until it returns none
+async function readDirectoryEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collectEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return [await readEntryFile(entry as FileSystemFileEntry)];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(collectEntryFiles));
+    return nested.flat();
+  }
+  return [];
+}
+
+// All files of a drop, descending into dropped folders, in natural name order
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter((item) => item.kind === "file")
+    .map((item) => item.webkitGetAsEntry());
+
+  // Browsers without the entries API only provide the top-level files
+  if (entries.some((entry) => !entry)) {
+    return Array.from(dataTransfer.files).filter((file) => !isHiddenFile(file));
+  }
+
+  const files = await Promise.all(entries.map((entry) => (entry ? collectEntryFiles(entry) : [])));
+  return files
+    .flat()
+    .filter((file) => !isHiddenFile(file))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
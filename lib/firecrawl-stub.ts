@@ -0,0 +1,122 @@
+import { createToolResponse as respond, type McpToolCaller } from "./mcp-tools";
+
+// Stand-in for the Firecrawl MCP server in tests. It serves a fixed set of pages, crawls
+// the pages below the start URL that match the include/exclude patterns, and reports a
+// crawl as finished after a given number of status polls. Search finds the pages sharing
+// words with the query, and extraction returns the content of the first page asked for.
+// Every call is recorded.
+
+export interface StubPage {
+  title?: string;
+  description?: string;
+  markdown: string;
+}
+
+interface StubCrawl {
+  urls: string[];
+  polls: number;
+  cancelled: boolean;
+}
+
+const toPage = (url: string, page: StubPage) => ({
+  markdown: page.markdown,
+  metadata: { title: page.title, sourceURL: url },
+});
+
+export function createFirecrawlStub({
+  pages,
+  pollsUntilDone = 1,
+  searchContent = true,
+}: {
+  pages: Record<string, StubPage>;
+  pollsUntilDone?: number;
+  // Whether search results include the page content; without it the app has to extract it
+  searchContent?: boolean;
+}) {
+  const crawls = new Map<string, StubCrawl>();
+  const calls: { tool: string; args: Record<string, unknown> }[] = [];
+
+  const crawlUrls = (start: string, args: Record<string, unknown>) => {
+    const base = new URL(start);
+    const matches = (patterns: unknown, path: string) =>
+      Array.isArray(patterns) && patterns.some((pattern) => new RegExp(String(pattern)).test(path));
+    return Object.keys(pages)
+      .filter((url) => {
+        const { origin, pathname } = new URL(url);
+        if (origin !== base.origin || !pathname.startsWith(base.pathname)) return false;
+        if (Array.isArray(args.includePaths) && !matches(args.includePaths, pathname)) return false;
+        return !matches(args.excludePaths, pathname);
+      })
+      .slice(0, typeof args.limit === "number" ? args.limit : 10);
+  };
+
+  const search = (query: string, limit: number) => {
+    const words = query.toLowerCase().split(/\W+/).filter((word) => word.length > 2);
+    return Object.entries(pages)
+      .map(([url, page]) => {
+        const text = `${page.title ?? ""} ${page.markdown}`.toLowerCase();
+        return { url, page, hits: words.filter((word) => text.includes(word)).length };
+      })
+      .filter(({ hits }) => hits > 0)
+      .sort((a, b) => b.hits - a.hits)
+      .slice(0, limit)
+      .map(({ url, page }) => ({
+        url,
+        title: page.title,
+        description: page.description ?? page.markdown.slice(0, 80),
+        ...(searchContent && { markdown: page.markdown }),
+      }));
+  };
+
+  const call: McpToolCaller = async (tool, args) => {
+    calls.push({ tool, args });
+    switch (tool) {
+      case "FIRECRAWL_SCRAPE": {
+        const page = pages[String(args.url)];
+        return page
+          ? respond({ data: { data: toPage(String(args.url), page) }, successful: true })
+          : respond({ data: {}, successful: false, error: `404 Not Found: ${args.url}` });
+      }
+      case "FIRECRAWL_SEARCH":
+        return respond({
+          data: search(String(args.query), typeof args.limit === "number" ? args.limit : 5),
+          successful: true,
+        });
+      case "FIRECRAWL_EXTRACT": {
+        const url = Array.isArray(args.urls) ? String(args.urls[0]) : "";
+        const page = pages[url];
+        return page
+          ? respond({ data: { content: page.markdown }, successful: true })
+          : respond({ data: {}, successful: false, error: `404 Not Found: ${url}` });
+      }
+      case "FIRECRAWL_CRAWL": {
+        const id = `crawl-${crawls.size + 1}`;
+        crawls.set(id, { urls: crawlUrls(String(args.url), args), polls: 0, cancelled: false });
+        return respond({ data: { id, success: true }, successful: true });
+      }
+      case "FIRECRAWL_GET_THE_STATUS_OF_A_CRAWL_JOB": {
+        const crawl = crawls.get(String(args.id));
+        if (!crawl) return respond({ data: {}, successful: false, error: "Crawl job not found" });
+        crawl.polls++;
+        const total = crawl.urls.length;
+        if (crawl.cancelled) return respond({ data: { status: "cancelled", total, completed: 0 }, successful: true });
+        if (crawl.polls < pollsUntilDone) {
+          return respond({ data: { status: "scraping", total, completed: crawl.polls, data: [] }, successful: true });
+        }
+        return respond({
+          data: { status: "completed", total, completed: total, data: crawl.urls.map((url) => toPage(url, pages[url])) },
+          successful: true,
+        });
+      }
+      case "FIRECRAWL_CANCEL_A_CRAWL_JOB": {
+        const crawl = crawls.get(String(args.id));
+        if (crawl) crawl.cancelled = true;
+        return respond({ data: { status: "cancelled" }, successful: !!crawl });
+      }
+      default:
+        return respond({ data: {}, successful: false, error: `Unknown tool ${tool}` });
+    }
+  };
+
+  return { call, calls };
+}
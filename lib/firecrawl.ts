@@ -0,0 +1,190 @@
+import { z } from "zod";
+import type { McpServerId } from "@/sdk/constants/mcp-server";
+import { parseToolResult, type McpToolCaller } from "./mcp-tools";
+
+// Client for the Firecrawl MCP server (see spec/platform-sdk/mcp-schemas/Firecrawl.txt).
+// The client unwraps the tool results and validates the parts the app relies on.
+
+export const FIRECRAWL_MCP_ID: McpServerId = "68f0a290f81ae7b79782adc9";
+
+export class FirecrawlError extends Error {
+  constructor(
+    public readonly tool: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "FirecrawlError";
+  }
+}
+
+const pageSchema = z.object({
+  markdown: z.string().nullish(),
+  metadata: z
+    .object({
+      title: z.string().nullish(),
+      sourceURL: z.string().nullish(),
+      url: z.string().nullish(),
+    })
+    .passthrough()
+    .nullish(),
+});
+
+export interface FirecrawlPage {
+  url: string;
+  title?: string;
+  markdown: string;
+}
+
+export type CrawlStatus = "scraping" | "completed" | "failed" | "cancelled";
+
+export interface CrawlJob {
+  status: CrawlStatus;
+  total: number;
+  completed: number;
+  pages: FirecrawlPage[];
+}
+
+export interface CrawlOptions {
+  // Regular expressions for the URL paths to crawl or to skip
+  includePaths?: string[];
+  excludePaths?: string[];
+  limit?: number;
+  maxDepth?: number;
+}
+
+export interface FirecrawlSearchResult {
+  url: string;
+  title?: string;
+  description?: string;
+  // Content of the result page when the search could scrape it
+  markdown?: string;
+}
+
+export interface FirecrawlClient {
+  scrape: (url: string) => Promise<FirecrawlPage>;
+  search: (query: string, options?: { limit?: number }) => Promise<FirecrawlSearchResult[]>;
+  // Text of the pages answering the prompt, extracted by the server's model
+  extract: (urls: string[], prompt: string) => Promise<string>;
+  startCrawl: (url: string, options?: CrawlOptions) => Promise<string>;
+  getCrawlStatus: (id: string) => Promise<CrawlJob>;
+  cancelCrawl: (id: string) => Promise<void>;
+}
+
+// The wrapper's data sometimes nests the API response ({success, data}) once more
+function unwrapData(data: Record<string, unknown>): Record<string, unknown> {
+  const inner = data.data;
+  return inner && typeof inner === "object" && !Array.isArray(inner) ? (inner as Record<string, unknown>) : data;
+}
+
+const searchResultSchema = pageSchema.extend({
+  url: z.string().nullish(),
+  title: z.string().nullish(),
+  description: z.string().nullish(),
+});
+
+const nonEmpty = (text: string | null | undefined) => text?.trim() || undefined;
+
+function toPage(value: unknown, fallbackUrl: string): FirecrawlPage | undefined {
+  const page = pageSchema.safeParse(value);
+  if (!page.success || !page.data.markdown?.trim()) return undefined;
+  const metadata = page.data.metadata;
+  return {
+    url: metadata?.sourceURL ?? metadata?.url ?? fallbackUrl,
+    title: metadata?.title?.trim() || undefined,
+    markdown: page.data.markdown.trim(),
+  };
+}
+
+export function createFirecrawlClient(call: McpToolCaller): FirecrawlClient {
+  const callToolData = async (
+    tool: string,
+    args: Record<string, unknown>
+  ): Promise<Record<string, unknown> | unknown[]> => {
+    const result = parseToolResult(await call(tool, args));
+    if (!result) {
+      throw new FirecrawlError(tool, "Unexpected response from the import service");
+    }
+    if (!result.successful) {
+      throw new FirecrawlError(tool, result.error || "The import service could not process the request");
+    }
+    return result.data ?? {};
+  };
+
+  const callTool = async (tool: string, args: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    const data = await callToolData(tool, args);
+    return Array.isArray(data) ? {} : data;
+  };
+
+  return {
+    async scrape(url) {
+      const data = await callTool("FIRECRAWL_SCRAPE", { url, formats: ["markdown"], onlyMainContent: true });
+      const page = toPage(unwrapData(data), url);
+      if (!page) throw new FirecrawlError("FIRECRAWL_SCRAPE", "The page has no readable content");
+      return page;
+    },
+
+    async search(query, { limit = 5 } = {}) {
+      const data = await callToolData("FIRECRAWL_SEARCH", { query, limit, formats: ["markdown"] });
+      const items = Array.isArray(data) ? data : Array.isArray(data.data) ? data.data : [];
+      return items.flatMap((item) => {
+        const result = searchResultSchema.safeParse(item);
+        const url = result.success && (result.data.url ?? result.data.metadata?.sourceURL);
+        if (!result.success || !url) return [];
+        return [
+          {
+            url,
+            title: nonEmpty(result.data.title ?? result.data.metadata?.title),
+            description: nonEmpty(result.data.description),
+            markdown: nonEmpty(result.data.markdown),
+          },
+        ];
+      });
+    },
+
+    async extract(urls, prompt) {
+      const data = await callTool("FIRECRAWL_EXTRACT", {
+        urls,
+        prompt,
+        schema: { type: "object", properties: { content: { type: "string" } }, required: ["content"] },
+      });
+      const content = unwrapData(data).content;
+      if (typeof content !== "string" || !content.trim()) {
+        throw new FirecrawlError("FIRECRAWL_EXTRACT", "Nothing relevant could be extracted from the page");
+      }
+      return content.trim();
+    },
+
+    async startCrawl(url, { includePaths, excludePaths, limit, maxDepth } = {}) {
+      const data = await callTool("FIRECRAWL_CRAWL", {
+        url,
+        ...(includePaths?.length && { includePaths }),
+        ...(excludePaths?.length && { excludePaths }),
+        ...(limit !== undefined && { limit }),
+        ...(maxDepth !== undefined && { maxDepth }),
+        scrapeOptions_formats: ["markdown"],
+        scrapeOptions_onlyMainContent: true,
+      });
+      const id = data.id ?? data.jobId ?? unwrapData(data).id;
+      if (typeof id !== "string" || !id) {
+        throw new FirecrawlError("FIRECRAWL_CRAWL", "The crawl could not be started");
+      }
+      return id;
+    },
+
+    async getCrawlStatus(id) {
+      const data = await callTool("FIRECRAWL_GET_THE_STATUS_OF_A_CRAWL_JOB", { id });
+      const pages = Array.isArray(data.data) ? data.data : [];
+      const status = typeof data.status === "string" ? data.status : "scraping";
+      return {
+        status: (["completed", "failed", "cancelled"].includes(status) ? status : "scraping") as CrawlStatus,
+        total: typeof data.total === "number" ? data.total : 0,
+        completed: typeof data.completed === "number" ? data.completed : 0,
+        pages: pages.flatMap((page) => toPage(page, "") ?? []),
+      };
+    },
+
+    async cancelCrawl(id) {
+      await callTool("FIRECRAWL_CANCEL_A_CRAWL_JOB", { id });
+    },
+  };
+}
@@ -0,0 +1,515 @@
+import { z } from "zod";
+import { getChunkLabel, splitIntoChunks, type TextChunk } from "./chunking";
+import { SOURCES_INSTRUCTION, citeSources, sourcesField } from "./citations";
+import { parsePartialList } from "./partial-json";
+import { generateStructured, isAbortError, type ChatCompleter } from "./structured-output";
+import type { QuizDifficulty, WeakSpotPlan } from "./mastery";
+import { describeCorrectAnswer, describeQuestionTypes, quizQuestionSchema } from "./question-types";
+import type { ChunkCoverage, Flashcard, LessonLength, MicroLesson, QuizQuestion } from "./types";
+
+// Map-reduce generation: every chunk of the source text gets its own lessons, questions,
+// flashcards and partial summary, which are then merged and de-duplicated.
+
+// Schemas for the JSON artifacts the model has to return
+export const lessonsSchema = z.object({
+  lessons: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1, "title must not be empty"),
+        content: z.string().trim().min(1, "content must not be empty"),
+        sources: sourcesField,
+      })
+    )
+    .min(1, "at least one lesson is required"),
+});
+
+export const quizSchema = z.object({
+  questions: z.array(quizQuestionSchema).min(1, "at least one question is required"),
+});
+
+export const flashcardsSchema = z.object({
+  flashcards: z
+    .array(
+      z.object({
+        front: z.string().trim().min(1, "front must not be empty"),
+        back: z.string().trim().min(1, "back must not be empty"),
+        sources: sourcesField,
+      })
+    )
+    .min(1, "at least one flashcard is required"),
+});
+
+export const analysisSchema = z.object({
+  language: z.string().trim().min(1, "language must not be empty"),
+  title: z.string().trim().min(1, "title must not be empty"),
+  category: z.string().trim().min(1, "category must not be empty"),
+});
+
+export type DocumentAnalysis = z.infer<typeof analysisSchema>;
+
+// Counts used when the whole document fits into a single chunk
+const DOCUMENT_CONFIG: Record<LessonLength, { lessons: string; detail: string }> = {
+  short: { lessons: "2-3", detail: "brief and concise, focusing only on key points" },
+  normal: { lessons: "4-5", detail: "moderate detail with clear explanations" },
+  long: { lessons: "6-8", detail: "comprehensive and detailed with examples and in-depth explanations" },
+};
+
+// Counts per chunk when a long document is split into several chunks
+const CHUNK_LESSON_COUNT: Record<LessonLength, string> = {
+  short: "1",
+  normal: "1-2",
+  long: "2-3",
+};
+
+const SIMILARITY_THRESHOLD = 0.75;
+
+const QUIZ_FORMAT = `Most questions should be multiple choice; mix in the other question types where the content suits them. Question types and their JSON format:
+${describeQuestionTypes()}
+Give every question an "explanation" of the correct answer and the key "concept" it tests in 1-4 words. ${SOURCES_INSTRUCTION} Return ONLY valid JSON in this exact format: {"questions": [...]}, with each question in the format of its type plus "explanation", "concept" and "sources".`;
+
+const DIFFICULTY_INSTRUCTIONS = {
+  easier: "The learner has been struggling: ask about core definitions and single facts, with clearly distinct options.",
+  standard: "",
+  harder: "The learner has been answering well: ask application and transfer questions that combine ideas, with plausible distractors.",
+} satisfies Record<QuizDifficulty, string>;
+
+const CATEGORIES = [
+  "Science",
+  "Technology",
+  "History",
+  "Literature",
+  "Mathematics",
+  "Business",
+  "Arts",
+  "Health",
+  "Language",
+  "Social Studies",
+  "Philosophy",
+  "Engineering",
+  "Other",
+];
+
+export interface GenerateOptions {
+  lessonLength: LessonLength;
+  detectedLanguage: string;
+  onProgress?: (fraction: number) => void;
+}
+
+// Stage options with a callback for the partial result while the answer is streamed
+export interface StreamingOptions<T> extends GenerateOptions {
+  onPartial?: (partial: T) => void;
+}
+
+// Result of one artifact stage over all chunks
+export interface StageResult<T> {
+  items: T[];
+  chunkCounts: number[];
+  chunkErrors: (string | undefined)[];
+}
+
+function describeChunk(chunk: TextChunk, total: number): string {
+  if (total === 1) return "";
+  // Web research appended to the material supports the original text instead of replacing it
+  const supplementary = chunk.segments[0]?.sourceUrl
+    ? " It is background reading added from the web, not part of the learner's own material."
+    : "";
+  return `This is part ${chunk.index + 1} of ${total} (${getChunkLabel(chunk)}) of a longer document.${supplementary} Only use this part.\n\n`;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter((word) => word.length > 2)
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+// Keep the first occurrence of near-identical items (token Jaccard similarity)
+export function dedupeBySimilarity<T>(
+  items: { item: T; chunkIndex: number }[],
+  getKey: (item: T) => string
+): { item: T; chunkIndex: number }[] {
+  const kept: { item: T; chunkIndex: number; tokens: Set<string> }[] = [];
+
+  for (const entry of items) {
+    const tokens = tokenize(getKey(entry.item));
+    const isDuplicate = kept.some((other) => similarity(tokens, other.tokens) >= SIMILARITY_THRESHOLD);
+    if (!isDuplicate) {
+      kept.push({ ...entry, tokens });
+    }
+  }
+
+  return kept.map(({ item, chunkIndex }) => ({ item, chunkIndex }));
+}
+
+// Map step: run one generator per chunk, then merge and de-duplicate the results.
+// A failing chunk is recorded in chunkErrors; the stage only fails if every chunk failed.
+// Cancelling aborts the whole stage.
+async function generatePerChunk<T>(
+  chunks: TextChunk[],
+  generateForChunk: (chunk: TextChunk, onChunkPartial: (items: T[]) => void) => Promise<T[]>,
+  getKey: (item: T) => string,
+  onProgress?: (fraction: number) => void,
+  onPartial?: (items: T[]) => void
+): Promise<StageResult<T>> {
+  const collected: { item: T; chunkIndex: number }[] = [];
+  const chunkErrors: (string | undefined)[] = [];
+
+  for (const chunk of chunks) {
+    // Items of the earlier chunks followed by what has arrived for this one
+    const onChunkPartial = (items: T[]) => onPartial?.([...collected.map((entry) => entry.item), ...items]);
+    try {
+      const items = await generateForChunk(chunk, onChunkPartial);
+      collected.push(...items.map((item) => ({ item, chunkIndex: chunk.index })));
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error(`Generation failed for ${getChunkLabel(chunk)}:`, error);
+      chunkErrors[chunk.index] = error instanceof Error ? error.message : "Unknown error";
+    }
+    onProgress?.((chunk.index + 1) / chunks.length);
+  }
+
+  const failed = chunkErrors.filter(Boolean);
+  if (failed.length === chunks.length) {
+    throw new Error(failed[0]);
+  }
+
+  const kept = dedupeBySimilarity(collected, getKey);
+  return {
+    items: kept.map((entry) => entry.item),
+    chunkCounts: chunks.map((chunk) => kept.filter((entry) => entry.chunkIndex === chunk.index).length),
+    chunkErrors: chunks.map((chunk) => chunkErrors[chunk.index]),
+  };
+}
+
+// Lessons received so far from a streamed (incomplete) lessons answer
+function parsePartialLessons(content: string): MicroLesson[] {
+  return parsePartialList(content, "lessons").flatMap((lesson) =>
+    typeof lesson.title === "string"
+      ? [{ title: lesson.title, content: typeof lesson.content === "string" ? lesson.content : "" }]
+      : []
+  );
+}
+
+export function generateLessons(
+  complete: ChatCompleter,
+  chunks: TextChunk[],
+  { lessonLength, detectedLanguage, onProgress, onPartial }: StreamingOptions<MicroLesson[]>
+): Promise<StageResult<MicroLesson>> {
+  const config = DOCUMENT_CONFIG[lessonLength];
+  const lessonCount = chunks.length === 1 ? config.lessons : CHUNK_LESSON_COUNT[lessonLength];
+
+  return generatePerChunk(
+    chunks,
+    async (chunk, onChunkPartial) => {
+      const result = await generateStructured(complete, {
+        artifact: "lessons",
+        schema: lessonsSchema,
+        onPartial: onPartial && ((content) => onChunkPartial(parsePartialLessons(content))),
+        messages: [
+          {
+            role: "system",
+            content: `You are an educational content creator. Create ${lessonCount} ${config.detail} micro-lessons from the provided text. If the text is divided into numbered slides, mention the slide numbers each lesson is based on (e.g. "Slide 14"). ${SOURCES_INSTRUCTION} You MUST respond in ${detectedLanguage}. Return ONLY valid JSON in this exact format: {\"lessons\": [{\"title\": \"...\", \"content\": \"...\", \"sources\": [\"...\"]}]}`,
+          },
+          {
+            role: "user",
+            content: `${describeChunk(chunk, chunks.length)}Create micro-lessons from this text:\n\n${chunk.text}`,
+          },
+        ],
+      });
+      return result.lessons.map((lesson) => citeSources<MicroLesson>(lesson, [chunk]));
+    },
+    (lesson) => `${lesson.title} ${lesson.content.slice(0, 200)}`,
+    onProgress,
+    onPartial
+  );
+}
+
+export function generateQuizQuestions(
+  complete: ChatCompleter,
+  chunks: TextChunk[],
+  { detectedLanguage, onProgress }: GenerateOptions
+): Promise<StageResult<QuizQuestion>> {
+  const questionCount = chunks.length === 1 ? "5-7" : "2-3";
+
+  return generatePerChunk(
+    chunks,
+    async (chunk) => {
+      const result = await generateStructured(complete, {
+        artifact: "quiz questions",
+        schema: quizSchema,
+        messages: [
+          {
+            role: "system",
+            content: `You are a quiz creator. Create ${questionCount} detailed quiz questions. You MUST respond in ${detectedLanguage}. ${QUIZ_FORMAT}`,
+          },
+          {
+            role: "user",
+            content: `${describeChunk(chunk, chunks.length)}Create quiz questions from this text:\n\n${chunk.text}`,
+          },
+        ],
+      });
+      return result.questions.map((question) => citeSources<QuizQuestion>(question, [chunk]));
+    },
+    (question) => question.question,
+    onProgress
+  );
+}
+
+export function generateFlashcards(
+  complete: ChatCompleter,
+  chunks: TextChunk[],
+  { detectedLanguage, onProgress }: GenerateOptions
+): Promise<StageResult<Flashcard>> {
+  const flashcardCount = chunks.length === 1 ? "10-12" : "3-4";
+
+  return generatePerChunk(
+    chunks,
+    async (chunk) => {
+      const result = await generateStructured(complete, {
+        artifact: "flashcards",
+        schema: flashcardsSchema,
+        messages: [
+          {
+            role: "system",
+            content: `You are a flashcard creator. Create ${flashcardCount} detailed flashcards with a question/term on the front and a comprehensive answer/definition on the back. ${SOURCES_INSTRUCTION} You MUST respond in ${detectedLanguage}. Return ONLY valid JSON in this exact format: {\"flashcards\": [{\"front\": \"...\", \"back\": \"...\", \"sources\": [\"...\"]}]}`,
+          },
+          {
+            role: "user",
+            content: `${describeChunk(chunk, chunks.length)}Create flashcards from this text:\n\n${chunk.text}`,
+          },
+        ],
+      });
+      return result.flashcards.map((card) => citeSources<Flashcard>(card, [chunk]));
+    },
+    (card) => card.front,
+    onProgress
+  );
+}
+
+// Summarize every chunk, then combine the partial summaries (reduce step).
+// Only the final text is streamed: the single summary or the combined one.
+export async function generateSummary(
+  complete: ChatCompleter,
+  chunks: TextChunk[],
+  { detectedLanguage, onProgress, onPartial }: StreamingOptions<string>
+): Promise<{ summary: string; chunkErrors: (string | undefined)[] }> {
+  const isSingle = chunks.length === 1;
+  const partials = await generatePerChunk(
+    chunks,
+    async (chunk) => {
+      const response = await complete({
+        messages: [
+          {
+            role: "system",
+            content: isSingle
+              ? `You are a summarization expert. Create a concise 2-3 paragraph summary. You MUST respond in ${detectedLanguage}.`
+              : `You are a summarization expert. Summarize the key points of this part of a document in one short paragraph. You MUST respond in ${detectedLanguage}.`,
+          },
+          {
+            role: "user",
+            content: `${describeChunk(chunk, chunks.length)}Summarize this text:\n\n${chunk.text}`,
+          },
+        ],
+        onToken: isSingle && onPartial ? (_token, content) => onPartial(content) : undefined,
+      });
+      return [{ label: getChunkLabel(chunk), summary: response.content }];
+    },
+    // Partial summaries are never merged as duplicates
+    (partial) => partial.label,
+    (fraction) => onProgress?.(isSingle ? fraction : fraction * 0.9)
+  );
+
+  if (partials.items.length === 1) {
+    return { summary: partials.items[0].summary, chunkErrors: partials.chunkErrors };
+  }
+
+  const response = await complete({
+    messages: [
+      {
+        role: "system",
+        content: `You are a summarization expert. You receive summaries of consecutive parts of one document. Combine them into a concise 2-3 paragraph summary of the whole document. You MUST respond in ${detectedLanguage}.`,
+      },
+      {
+        role: "user",
+        content: partials.items.map((p) => `[${p.label}]\n${p.summary}`).join("\n\n"),
+      },
+    ],
+    onToken: onPartial && ((_token, content) => onPartial(content)),
+  });
+  onProgress?.(1);
+
+  return { summary: response.content, chunkErrors: partials.chunkErrors };
+}
+
+// Empty coverage report for the chunks of a document, filled in by each stage
+export function createCoverage(chunks: TextChunk[]): ChunkCoverage[] {
+  return chunks.map((chunk) => ({
+    chunkIndex: chunk.index,
+    label: getChunkLabel(chunk),
+    charCount: chunk.text.length,
+    lessons: 0,
+    quizQuestions: 0,
+    flashcards: 0,
+    status: "completed",
+  }));
+}
+
+export function applyStageCoverage(
+  coverage: ChunkCoverage[],
+  chunkErrors: (string | undefined)[],
+  field?: "lessons" | "quizQuestions" | "flashcards",
+  chunkCounts?: number[]
+): ChunkCoverage[] {
+  return coverage.map((entry) => {
+    const error = chunkErrors[entry.chunkIndex];
+    return {
+      ...entry,
+      ...(field && chunkCounts ? { [field]: chunkCounts[entry.chunkIndex] ?? 0 } : {}),
+      ...(error ? { status: "error" as const, error: entry.error || error } : {}),
+    };
+  });
+}
+
+// Language, title and category in one request, based on the beginning of the document
+export function analyzeDocument(complete: ChatCompleter, text: string): Promise<DocumentAnalysis> {
+  return generateStructured(complete, {
+    artifact: "document analysis",
+    schema: analysisSchema,
+    messages: [
+      {
+        role: "system",
+        content: `You are a content analyst. Analyze the provided text and return:
+- "language": the language of the text as its English name (e.g. "English", "German", "Spanish", "French")
+- "title": a short, descriptive title (3-8 words) that captures the main topic, written in that language
+- "category": ONE thematic category, chosen from: ${CATEGORIES.join(", ")}, written in that language
+Return ONLY valid JSON in this exact format: {"language": "...", "title": "...", "category": "..."}`,
+      },
+      {
+        role: "user",
+        content: `Analyze this content:\n\n${text.slice(0, 2000)}`,
+      },
+    ],
+  });
+}
+
+// Up to `count` chunks of the document, in document order: the chunks most similar to the
+// queries when there are any, random ones otherwise
+function sampleSourceText(extractedText: string, queries: string[] = [], count = 3): string {
+  const chunks = splitIntoChunks(extractedText);
+  const queryTokens = queries.map(tokenize);
+  const score = (chunk: TextChunk) => {
+    if (queryTokens.length === 0) return Math.random();
+    const tokens = tokenize(chunk.text);
+    // Share of each query's words found in the chunk, so long chunks are not favoured
+    return queryTokens.reduce((sum, query) => {
+      let found = 0;
+      query.forEach((word) => {
+        if (tokens.has(word)) found++;
+      });
+      return sum + (query.size > 0 ? found / query.size : 0);
+    }, 0);
+  };
+
+  return chunks
+    .map((chunk) => ({ chunk, key: score(chunk) }))
+    .sort((a, b) => b.key - a.key)
+    .slice(0, count)
+    .map(({ chunk }) => chunk)
+    .sort((a, b) => a.index - b.index)
+    .map((chunk) => chunk.text)
+    .join("\n\n")
+    .slice(0, 12000);
+}
+
+const listQuestions = (questions: QuizQuestion[]) => questions.map((q) => `- ${q.question}`).join("\n");
+
+// Replace the quiz of a material with new questions drawn from random parts of the document
+export async function generateNewQuizQuestions(
+  complete: ChatCompleter,
+  extractedText: string,
+  detectedLanguage: string,
+  previousQuestions: QuizQuestion[] = []
+): Promise<QuizQuestion[]> {
+  const avoid = previousQuestions.length > 0 ? `\n\nDo NOT repeat or rephrase these previous questions:\n${listQuestions(previousQuestions)}` : "";
+
+  const quiz = await generateStructured(complete, {
+    artifact: "quiz questions",
+    schema: quizSchema,
+    messages: [
+      {
+        role: "system",
+        content: `You are a quiz creator. Create 5-7 NEW and DIFFERENT detailed quiz questions. You MUST respond in ${detectedLanguage}. ${QUIZ_FORMAT}`,
+      },
+      {
+        role: "user",
+        content: `Create NEW quiz questions from this text:\n\n${sampleSourceText(extractedText)}${avoid}`,
+      },
+    ],
+  });
+
+  const chunks = splitIntoChunks(extractedText);
+  return quiz.questions.map((question) => citeSources<QuizQuestion>(question, chunks));
+}
+
+// New questions on the concepts the learner keeps missing, at a difficulty matching their
+// recent accuracy. The missed questions are shown so the new ones test the same ideas from
+// a different angle instead of repeating them.
+export async function generateWeakSpotQuestions(
+  complete: ChatCompleter,
+  extractedText: string,
+  detectedLanguage: string,
+  plan: WeakSpotPlan,
+  previousQuestions: QuizQuestion[] = []
+): Promise<QuizQuestion[]> {
+  const concepts = plan.weakConcepts.map((entry) => entry.concept);
+  const missed = plan.missedQuestions.slice(0, 8);
+  const missedList = missed
+    .map((q) => `- ${q.question} (correct answer: ${describeCorrectAnswer(q)})`)
+    .join("\n");
+
+  const quiz = await generateStructured(complete, {
+    artifact: "quiz questions",
+    schema: quizSchema,
+    messages: [
+      {
+        role: "system",
+        content: [
+          "You are a tutor creating a practice quiz on a learner's weak spots. Create 4-6 quiz questions that focus on the concepts listed by the user.",
+          DIFFICULTY_INSTRUCTIONS[plan.difficulty],
+          `You MUST respond in ${detectedLanguage}.`,
+          QUIZ_FORMAT,
+        ]
+          .filter(Boolean)
+          .join(" "),
+      },
+      {
+        role: "user",
+        content: [
+          concepts.length > 0 ? `Weak concepts:\n${concepts.map((c) => `- ${c}`).join("\n")}` : "",
+          missed.length > 0
+            ? `Questions the learner answered wrong (test the same ideas from a different angle, do not repeat them):\n${missedList}`
+            : "",
+          previousQuestions.length > 0 ? `Do NOT repeat or rephrase these questions:\n${listQuestions(previousQuestions)}` : "",
+          `Source text:\n\n${sampleSourceText(extractedText, [...concepts, ...missed.map((q) => q.question)])}`,
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
+      },
+    ],
+  });
+
+  const chunks = splitIntoChunks(extractedText);
+  return quiz.questions.map((question) => citeSources<QuizQuestion>(question, chunks));
+}
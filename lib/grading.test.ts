@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from "vitest";
+import { gradePendingAnswers } from "./grading";
+import { reply } from "./test-helpers";
+import type { QuizQuestion } from "./types";
+
+const questions: QuizQuestion[] = [
+  { question: "2 + 2?", options: ["3", "4"], correctAnswer: 1 },
+  { type: "freeText", question: "Why is the sky blue?", referenceAnswer: "Rayleigh scattering", rubric: ["scattering"] },
+  { type: "freeText", question: "What is gravity?", referenceAnswer: "Attraction of masses", rubric: ["attraction"] },
+];
+
+describe("gradePendingAnswers", () => {
+  it("grades typed free-text answers and keeps the other responses", async () => {
+    const complete = vi.fn().mockResolvedValue(
+      reply('{"score": 80, "feedback": "Mostly right.", "missingPoints": [" wavelength ", ""]}')
+    );
+    const graded = await gradePendingAnswers(complete, questions, { 0: 1, 1: { text: "Light scatters" }, 2: { text: " " } }, "English");
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(complete.mock.calls[0][0].messages[1].content).toContain("Learner's answer:\nLight scatters");
+    expect(graded).toEqual({
+      0: 1,
+      1: { text: "Light scatters", grade: { score: 80, feedback: "Mostly right.", missingPoints: ["wavelength"] } },
+      2: { text: " " },
+    });
+  });
+
+  it("does not grade an answer twice", async () => {
+    const complete = vi.fn();
+    const grade = { score: 40, feedback: "Incomplete.", missingPoints: [] };
+    const graded = await gradePendingAnswers(complete, questions, { 1: { text: "Light", grade } }, "English");
+    expect(complete).not.toHaveBeenCalled();
+    expect(graded[1]).toEqual({ text: "Light", grade });
+  });
+});
@@ -0,0 +1,52 @@
+import { freeTextGradeSchema, needsGrading, readResponse } from "./question-types";
+import { generateStructured, type ChatCompleter } from "./structured-output";
+import type { FreeTextGrade, FreeTextQuestion, QuizQuestion, QuizResponse } from "./types";
+
+// Free-text answers are graded by the model against the question's reference answer and
+// rubric. The grade is stored with the response, so the attempt history keeps it.
+
+export function gradeFreeTextAnswer(
+  complete: ChatCompleter,
+  question: FreeTextQuestion,
+  answer: string,
+  language: string
+): Promise<FreeTextGrade> {
+  return generateStructured(complete, {
+    artifact: "grade",
+    schema: freeTextGradeSchema,
+    messages: [
+      {
+        role: "system",
+        content: `You are a fair teacher grading a learner's answer to an open question. Compare it with the reference answer and the rubric: every rubric point that is covered correctly earns its share of the score from 0 to 100. Accept different wording and ignore spelling mistakes; deduct for statements that are wrong. Write 1-3 sentences of "feedback" addressed to the learner, and list the rubric points the answer misses or gets wrong in "missingPoints". You MUST respond in ${language}. Return ONLY valid JSON in this exact format: {"score": 0, "feedback": "...", "missingPoints": ["..."]}`,
+      },
+      {
+        role: "user",
+        content: [
+          `Question: ${question.question}`,
+          `Reference answer: ${question.referenceAnswer}`,
+          `Rubric:\n${question.rubric.map((point) => `- ${point}`).join("\n")}`,
+          `Learner's answer:\n${answer}`,
+        ].join("\n\n"),
+      },
+    ],
+  });
+}
+
+// Grade every free-text answer that has not been graded yet; other responses are returned as they are
+export async function gradePendingAnswers(
+  complete: ChatCompleter,
+  questions: QuizQuestion[],
+  responses: Record<number, QuizResponse | null>,
+  language: string
+): Promise<Record<number, QuizResponse | null>> {
+  const graded = await Promise.all(
+    questions.map(async (question, idx) => {
+      const response = responses[idx];
+      if (question.type !== "freeText" || !needsGrading(question, response)) return [idx, response] as const;
+      const { text } = readResponse("freeText", response)!;
+      const grade = await gradeFreeTextAnswer(complete, question, text, language);
+      return [idx, { text, grade }] as const;
+    })
+  );
+  return Object.fromEntries(graded.filter(([, response]) => response !== undefined));
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  chooseDifficulty,
+  computeConceptMastery,
+  getMissedQuestions,
+  getRecentAccuracy,
+  mixInRetries,
+  planWeakSpotQuiz,
+} from "./mastery";
+import { createQuizAttempt, startAttemptTimer } from "./quiz-attempts";
+import type { QuizQuestion } from "./types";
+
+const questions: QuizQuestion[] = [
+  { question: "What is a derivative?", options: ["Rate of change", "Area"], correctAnswer: 0, concept: "Derivatives" },
+  { question: "What is an integral?", options: ["Slope", "Area"], correctAnswer: 1, concept: "Integrals" },
+  { question: "d/dx x²?", options: ["2x", "x"], correctAnswer: 0, concept: "Derivatives" },
+];
+
+const attempt = (selected: Record<number, number | null>, at: number) =>
+  createQuizAttempt(questions, selected, startAttemptTimer(questions.length, 0), new Date(at));
+
+describe("concept mastery", () => {
+  it("weighs recent answers more and sorts the weakest concept first", () => {
+    const mastery = computeConceptMastery([
+      attempt({ 0: 0, 1: 0, 2: 0 }, 1000),
+      attempt({ 0: 0, 1: 1, 2: 0 }, 2000),
+    ]);
+    expect(mastery.map((entry) => entry.concept)).toEqual(["Integrals", "Derivatives"]);
+    expect(mastery[0]).toMatchObject({ attempts: 2, correct: 1 });
+    expect(mastery[0].mastery).toBeCloseTo(0.4);
+    expect(mastery[1].mastery).toBe(1);
+  });
+
+  it("lists questions whose last answer was wrong, most recent first", () => {
+    const results = [attempt({ 0: 1, 1: 0, 2: 1 }, 1000), attempt({ 0: 0, 1: null }, 2000)];
+    expect(getMissedQuestions(results).map((q) => q.question)).toEqual(["d/dx x²?", "What is an integral?"]);
+  });
+
+  it("adjusts the difficulty to the recent accuracy", () => {
+    expect(chooseDifficulty(undefined)).toBe("standard");
+    expect(chooseDifficulty(0.3)).toBe("easier");
+    expect(chooseDifficulty(0.7)).toBe("standard");
+    expect(chooseDifficulty(0.9)).toBe("harder");
+    expect(planWeakSpotQuiz([attempt({ 0: 1, 1: 0, 2: 1 }, 1000)])).toMatchObject({ difficulty: "easier" });
+  });
+
+  it("leaves unanswered questions out of the recent accuracy", () => {
+    expect(getRecentAccuracy([attempt({ 0: 0 }, 1000)])).toBe(1);
+    expect(getRecentAccuracy([attempt({}, 1000)])).toBeUndefined();
+    expect(planWeakSpotQuiz([attempt({ 0: 0, 1: 1 }, 1000)])).toMatchObject({ difficulty: "harder" });
+  });
+
+  it("spreads retried questions through the generated ones", () => {
+    const generated = ["a", "b", "c", "d"].map((question) => ({ ...questions[0], question }));
+    const retries = ["x", "y"].map((question) => ({ ...questions[1], question }));
+    expect(mixInRetries(generated, retries).map((q) => q.question)).toEqual(["x", "a", "b", "y", "c", "d"]);
+    expect(mixInRetries(generated, [])).toBe(generated);
+  });
+});
@@ -0,0 +1,127 @@
+import { isResponseCorrect } from "./question-types";
+import { isReviewable } from "./quiz-attempts";
+import type { QuizQuestion, QuizResult } from "./types";
+
+// Per-concept mastery derived from the quiz attempt history. Every answered question counts
+// for its concept (questions generated before concepts existed count as their own concept);
+// recent answers weigh more, so a concept that was missed early but answered correctly since
+// recovers.
+
+export interface ConceptMastery {
+  concept: string;
+  attempts: number;
+  correct: number;
+  // Recency-weighted share of correct answers, 0-1
+  mastery: number;
+  lastAnsweredAt: Date;
+}
+
+export type QuizDifficulty = "easier" | "standard" | "harder";
+
+export interface WeakSpotPlan {
+  weakConcepts: ConceptMastery[];
+  // Questions whose last answer was wrong, most recent first
+  missedQuestions: QuizQuestion[];
+  difficulty: QuizDifficulty;
+}
+
+// Weight of the newest answer in the running mastery estimate
+const RECENCY_WEIGHT = 0.4;
+export const MASTERY_THRESHOLD = 0.7;
+// Attempts that decide the difficulty of the next practice quiz
+const RECENT_ATTEMPTS = 3;
+const EASIER_BELOW = 0.5;
+const HARDER_ABOVE = 0.85;
+
+export const getConcept = (question: QuizQuestion) => question.concept?.trim() || question.question;
+
+// Attempts with their answers, oldest first
+function reviewableAttempts(results: QuizResult[]) {
+  return results
+    .filter(isReviewable)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+export function computeConceptMastery(results: QuizResult[] = []): ConceptMastery[] {
+  const byConcept = new Map<string, ConceptMastery>();
+
+  for (const attempt of reviewableAttempts(results)) {
+    attempt.questions.forEach((question, idx) => {
+      const { selected } = attempt.answers[idx];
+      if (selected === null) return;
+      const score = isResponseCorrect(question, selected) ? 1 : 0;
+      const concept = getConcept(question);
+      const previous = byConcept.get(concept);
+      byConcept.set(concept, {
+        concept,
+        attempts: (previous?.attempts ?? 0) + 1,
+        correct: (previous?.correct ?? 0) + score,
+        mastery: previous ? previous.mastery * (1 - RECENCY_WEIGHT) + score * RECENCY_WEIGHT : score,
+        lastAnsweredAt: new Date(attempt.timestamp),
+      });
+    });
+  }
+
+  return [...byConcept.values()].sort((a, b) => a.mastery - b.mastery);
+}
+
+export function getMissedQuestions(results: QuizResult[] = []): QuizQuestion[] {
+  const lastAnswer = new Map<string, { question: QuizQuestion; correct: boolean }>();
+  for (const attempt of reviewableAttempts(results)) {
+    attempt.questions.forEach((question, idx) => {
+      const { selected } = attempt.answers[idx];
+      if (selected === null) return;
+      // Re-inserting moves the question to the end, so the map stays in order of the last answer
+      lastAnswer.delete(question.question);
+      lastAnswer.set(question.question, { question, correct: isResponseCorrect(question, selected) });
+    });
+  }
+  return [...lastAnswer.values()]
+    .filter((entry) => !entry.correct)
+    .map((entry) => entry.question)
+    .reverse();
+}
+
+// Share of correct answers over the last few attempts, or undefined without answers.
+// Unanswered questions are skipped like in the mastery, so abandoned attempts do not count as wrong.
+export function getRecentAccuracy(results: QuizResult[] = []): number | undefined {
+  const recent = reviewableAttempts(results).slice(-RECENT_ATTEMPTS);
+  const answered = recent.flatMap((attempt) =>
+    attempt.questions.flatMap((question, idx) => {
+      const { selected } = attempt.answers[idx];
+      return selected === null ? [] : [{ question, selected }];
+    })
+  );
+  if (answered.length === 0) return undefined;
+  return answered.filter(({ question, selected }) => isResponseCorrect(question, selected)).length / answered.length;
+}
+
+export function chooseDifficulty(accuracy: number | undefined): QuizDifficulty {
+  if (accuracy === undefined) return "standard";
+  if (accuracy < EASIER_BELOW) return "easier";
+  if (accuracy > HARDER_ABOVE) return "harder";
+  return "standard";
+}
+
+export function planWeakSpotQuiz(results: QuizResult[] = []): WeakSpotPlan {
+  return {
+    weakConcepts: computeConceptMastery(results).filter((entry) => entry.mastery < MASTERY_THRESHOLD),
+    missedQuestions: getMissedQuestions(results),
+    difficulty: chooseDifficulty(getRecentAccuracy(results)),
+  };
+}
+
+export function hasWeakSpots(plan: WeakSpotPlan): boolean {
+  return plan.weakConcepts.length > 0 || plan.missedQuestions.length > 0;
+}
+
+// Spread retried questions evenly through the new ones
+export function mixInRetries(generated: QuizQuestion[], retries: QuizQuestion[]): QuizQuestion[] {
+  if (retries.length === 0) return generated;
+  const mixed = [...generated];
+  const step = (generated.length + retries.length) / retries.length;
+  retries.forEach((retry, idx) => {
+    mixed.splice(Math.min(mixed.length, Math.floor(idx * step)), 0, retry);
+  });
+  return mixed;
+}
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import type { MCPToolResponse } from "@/sdk/core/mcp-client";
+
+// Tools of the hosted MCP servers (Firecrawl, Notion) answer with a wrapper
+// {data, successful, error} serialized into the text of the first content item.
+
+// Calls one tool of a server; callMCPTool in the app, a stub in tests
+export type McpToolCaller = (toolName: string, args: Record<string, unknown>) => Promise<MCPToolResponse>;
+
+const toolResultSchema = z.object({
+  // Some tools answer with a list, most with an object
+  data: z.union([z.record(z.unknown()), z.array(z.unknown())]).nullish(),
+  successful: z.boolean(),
+  error: z.string().nullish(),
+});
+
+export type McpToolResult = z.infer<typeof toolResultSchema>;
+
+// The unwrapped result, or undefined when the response is not a wrapper
+export function parseToolResult(response: MCPToolResponse): McpToolResult | undefined {
+  try {
+    const result = toolResultSchema.safeParse(JSON.parse(response.content?.[0]?.text ?? ""));
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// A response in the wrapper format, as the stubs of the servers send it
+export function createToolResponse(result: McpToolResult): MCPToolResponse {
+  return { content: [{ type: "text", text: JSON.stringify(result) }] };
+}
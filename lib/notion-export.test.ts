@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { createNotionClient, NotionError } from "./notion";
+import { buildResultsRow, exportToNotion, findResultsDatabase, markdownToBlocks, splitText } from "./notion-export";
+import { createNotionStub } from "./notion-stub";
+import { createMaterial } from "./test-helpers";
+
+const material = createMaterial("m1", {
+  fileName: "cells.pdf",
+  extractedText: "Cells are the basic unit of life.",
+  suggestedTitle: "Cell Biology",
+  content: {
+    summary: "Cells are the **basic unit** of life.",
+    microLessons: [
+      { title: "Organelles", content: "## Mitochondria\nThey produce energy.\n\n- Nucleus\n- Ribosomes" },
+      { title: "Membranes", content: "The membrane controls what enters the cell." },
+    ],
+    quizQuestions: [],
+    flashcards: [
+      { front: "What produces energy?", back: "The mitochondria" },
+      { front: "What holds the DNA?", back: "The nucleus" },
+    ],
+    detectedLanguage: "English",
+  },
+  quizResults: [
+    { timestamp: new Date("2026-03-01T10:00:00Z"), totalQuestions: 4, correctAnswers: 3, percentage: 75 },
+    { timestamp: new Date("2026-03-02T10:00:00Z"), totalQuestions: 4, correctAnswers: 2, percentage: 50 },
+  ],
+});
+
+describe("exportToNotion", () => {
+  it("creates a page with summary, lessons and flashcard toggles, and a quiz results row", async () => {
+    const stub = createNotionStub({ pages: { notes: "Study notes" } });
+    const client = createNotionClient(stub.call);
+
+    expect(await client.searchPages("study")).toEqual([
+      { id: "notes", title: "Study notes", url: "https://notion.so/notes" },
+    ]);
+    const exported = await exportToNotion(client, material, "notes", { now: new Date(1) });
+
+    const [page] = stub.getChildPages("notes");
+    const [database] = stub.getDatabases();
+    expect(page.title).toBe("Cell Biology");
+    expect(database).toMatchObject({ parentId: "notes", title: "Quiz results" });
+    expect(exported).toEqual({
+      parentId: "notes",
+      pageId: page.id,
+      pageUrl: page.url,
+      databaseId: database.id,
+      rowId: [...database.rows.keys()][0],
+      exportedAt: new Date(1),
+    });
+    expect(stub.getBlocks(page.id)).toEqual([
+      { block_property: "heading_1", content: "Summary" },
+      { block_property: "paragraph", content: "Cells are the **basic unit** of life." },
+      { block_property: "heading_1", content: "Lessons" },
+      { block_property: "heading_2", content: "1. Organelles" },
+      { block_property: "heading_3", content: "Mitochondria" },
+      { block_property: "paragraph", content: "They produce energy." },
+      { block_property: "bulleted_list_item", content: "Nucleus" },
+      { block_property: "bulleted_list_item", content: "Ribosomes" },
+      { block_property: "heading_2", content: "2. Membranes" },
+      { block_property: "paragraph", content: "The membrane controls what enters the cell." },
+      { block_property: "heading_1", content: "Flashcards" },
+      {
+        type: "toggle",
+        toggle: {
+          rich_text: [{ type: "text", text: { content: "What produces energy?" } }],
+          children: [{ type: "paragraph", paragraph: { rich_text: [{ type: "text", text: { content: "The mitochondria" } }] } }],
+        },
+      },
+      expect.objectContaining({ type: "toggle" }),
+    ]);
+  });
+
+  it("updates the existing page and row when exporting again", async () => {
+    const stub = createNotionStub({ pages: { notes: "Study notes" }, pageSize: 5 });
+    const client = createNotionClient(stub.call);
+    const first = await exportToNotion(client, material, "notes");
+
+    const renamed = { ...material, suggestedTitle: "Cells", notionExport: first };
+    const second = await exportToNotion(client, renamed, "notes");
+
+    expect(second).toMatchObject({ pageId: first.pageId, databaseId: first.databaseId, rowId: first.rowId });
+    expect(stub.getChildPages("notes").map((page) => page.title)).toEqual(["Cells"]);
+    expect(stub.getBlocks(first.pageId)).toHaveLength(13);
+    const [database] = stub.getDatabases();
+    expect([...database.rows.values()]).toEqual([buildResultsRow(renamed, first.pageUrl)]);
+  });
+
+  it("shares the results database of a parent page and recreates deleted pages", async () => {
+    const stub = createNotionStub({ pages: { notes: "Study notes" } });
+    const client = createNotionClient(stub.call);
+    const first = await exportToNotion(client, material, "notes");
+    const other = { ...material, id: "m2", suggestedTitle: "Genetics" };
+    const materials = [{ ...material, notionExport: first }, other];
+
+    const second = await exportToNotion(client, other, "notes", {
+      resultsDatabaseId: findResultsDatabase(materials, "notes"),
+    });
+    expect(second.databaseId).toBe(first.databaseId);
+    expect(stub.getDatabases()).toHaveLength(1);
+
+    const gone = await exportToNotion(client, { ...material, notionExport: { ...first, pageId: "deleted" } }, "notes");
+    expect(gone.pageId).not.toBe("deleted");
+    expect(gone.rowId).toBe(first.rowId);
+  });
+
+  it("reports errors of the server", async () => {
+    const client = createNotionClient(createNotionStub().call);
+    const result = exportToNotion(client, material, "missing");
+    await expect(result).rejects.toThrow(NotionError);
+    await expect(result).rejects.toThrow("Could not find page");
+  });
+});
+
+describe("notion blocks", () => {
+  it("splits long text at word boundaries below the rich text limit", () => {
+    const pieces = splitText("word ".repeat(1000));
+    expect(pieces.every((piece) => piece.length <= 2000)).toBe(true);
+    expect(pieces.join(" ")).toBe("word ".repeat(1000).trim());
+    expect(markdownToBlocks("1. First\n2. Second\n\nPlain\ntext")).toEqual([
+      { block_property: "numbered_list_item", content: "First" },
+      { block_property: "numbered_list_item", content: "Second" },
+      { block_property: "paragraph", content: "Plain\ntext" },
+    ]);
+  });
+
+  it("summarizes the quiz results of the material", () => {
+    expect(buildResultsRow(material, "https://notion.so/page-1")).toEqual([
+      { name: "Material", type: "title", value: "Cell Biology" },
+      { name: "Attempts", type: "number", value: "2" },
+      { name: "Best score", type: "number", value: "75" },
+      { name: "Last score", type: "number", value: "50" },
+      { name: "Last attempt", type: "date", value: "2026-03-02T10:00:00.000Z" },
+      { name: "Page", type: "url", value: "https://notion.so/page-1" },
+    ]);
+  });
+});
@@ -0,0 +1,199 @@
+import { createLimiter } from "./concurrency";
+import {
+  MAX_TEXT_LENGTH,
+  NotionError,
+  richText,
+  type NotionBlock,
+  type NotionClient,
+  type NotionPropertyType,
+  type NotionPropertyValue,
+  type NotionTextBlock,
+} from "./notion";
+import type { NotionExport, UploadedMaterial } from "./types";
+
+// Export of a material to Notion: one page per material with the summary, a section per
+// lesson and the flashcards as toggles (front outside, back inside), plus one row per
+// material in a "Quiz results" database next to the pages. Exporting again clears and
+// refills the same page and updates the row, so nothing is duplicated.
+
+export const RESULTS_DATABASE_TITLE = "Quiz results";
+
+export const RESULTS_DATABASE_PROPERTIES: { name: string; type: NotionPropertyType }[] = [
+  { name: "Material", type: "title" },
+  { name: "Attempts", type: "number" },
+  { name: "Best score", type: "number" },
+  { name: "Last score", type: "number" },
+  { name: "Last attempt", type: "date" },
+  { name: "Page", type: "url" },
+];
+
+// Blocks deleted at the same time when a page is cleared
+const DELETE_CONCURRENCY = 3;
+
+export type NotionExportStep = "page" | "content" | "results";
+
+export interface NotionExportOptions {
+  // Quiz results database of another material exported to the same parent page
+  resultsDatabaseId?: string;
+  onStep?: (step: NotionExportStep) => void;
+  now?: Date;
+}
+
+export function getMaterialTitle(material: UploadedMaterial): string {
+  return material.suggestedTitle ?? material.fileName;
+}
+
+// Pieces of at most the rich text limit, cut at line or word boundaries
+export function splitText(text: string, maxLength: number = MAX_TEXT_LENGTH): string[] {
+  const pieces: string[] = [];
+  let rest = text.trim();
+  while (rest.length > maxLength) {
+    const window = rest.slice(0, maxLength);
+    let cut = window.lastIndexOf("\n");
+    if (cut < maxLength * 0.5) cut = window.lastIndexOf(" ");
+    if (cut <= 0) cut = maxLength;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+// Markdown text as Notion blocks: headings, list items and paragraphs; inline formatting
+// is left to the server, which parses it in the flattened format
+export function markdownToBlocks(markdown: string): NotionTextBlock[] {
+  return markdown
+    .split(/\n\s*\n/)
+    .flatMap((paragraph) => {
+      const lines = paragraph.split("\n").map((line) => line.trim());
+      // Headings and list items are blocks of their own, anything else keeps its line breaks
+      if (/^#{1,3}\s/.test(lines[0])) return [lines[0], lines.slice(1).join("\n")];
+      if (lines.every((line) => /^([-*•]|\d+[.)])\s+/.test(line))) return lines;
+      return [paragraph.trim()];
+    })
+    .filter(Boolean)
+    .flatMap((text): NotionTextBlock[] => {
+      const heading = text.match(/^(#{1,3})\s+(.*)$/);
+      if (heading) {
+        const level = Math.min(heading[1].length + 1, 3) as 2 | 3;
+        return [{ block_property: `heading_${level}`, content: heading[2].slice(0, MAX_TEXT_LENGTH) }];
+      }
+      const bullet = text.match(/^[-*•]\s+(.*)$/s);
+      if (bullet) return [{ block_property: "bulleted_list_item", content: bullet[1].slice(0, MAX_TEXT_LENGTH) }];
+      const numbered = text.match(/^\d+[.)]\s+(.*)$/s);
+      if (numbered) return [{ block_property: "numbered_list_item", content: numbered[1].slice(0, MAX_TEXT_LENGTH) }];
+      return splitText(text).map((content) => ({ block_property: "paragraph", content }));
+    });
+}
+
+export function buildMaterialBlocks(material: UploadedMaterial): NotionBlock[] {
+  const content = material.content;
+  if (!content) return [];
+  const blocks: NotionBlock[] = [];
+
+  if (content.summary.trim()) {
+    blocks.push({ block_property: "heading_1", content: "Summary" }, ...markdownToBlocks(content.summary));
+  }
+
+  if (content.microLessons.length > 0) {
+    blocks.push({ block_property: "heading_1", content: "Lessons" });
+    content.microLessons.forEach((lesson, idx) => {
+      blocks.push(
+        { block_property: "heading_2", content: `${idx + 1}. ${lesson.title}`.slice(0, MAX_TEXT_LENGTH) },
+        ...markdownToBlocks(lesson.content)
+      );
+    });
+  }
+
+  if (content.flashcards.length > 0) {
+    blocks.push({ block_property: "heading_1", content: "Flashcards" });
+    content.flashcards.forEach((card) => {
+      blocks.push({
+        type: "toggle",
+        toggle: {
+          rich_text: richText(card.front),
+          children: splitText(card.back).map((back) => ({ type: "paragraph", paragraph: { rich_text: richText(back) } })),
+        },
+      });
+    });
+  }
+
+  return blocks;
+}
+
+// The material's row of the quiz results database
+export function buildResultsRow(material: UploadedMaterial, pageUrl?: string): NotionPropertyValue[] {
+  const results = material.quizResults ?? [];
+  const last = results.reduce<(typeof results)[number] | undefined>(
+    (latest, result) => (!latest || result.timestamp > latest.timestamp ? result : latest),
+    undefined
+  );
+  const row: NotionPropertyValue[] = [
+    { name: "Material", type: "title", value: getMaterialTitle(material).slice(0, MAX_TEXT_LENGTH) },
+    { name: "Attempts", type: "number", value: String(results.length) },
+  ];
+  if (last) {
+    row.push(
+      { name: "Best score", type: "number", value: String(Math.max(...results.map((result) => result.percentage))) },
+      { name: "Last score", type: "number", value: String(last.percentage) },
+      { name: "Last attempt", type: "date", value: last.timestamp.toISOString() }
+    );
+  }
+  if (pageUrl) row.push({ name: "Page", type: "url", value: pageUrl });
+  return row;
+}
+
+// Quiz results database already created under the parent page by an earlier export
+export function findResultsDatabase(materials: UploadedMaterial[], parentId: string): string | undefined {
+  return materials.find((m) => m.notionExport?.parentId === parentId)?.notionExport?.databaseId;
+}
+
+// Remove the content of an earlier export; false when the page is gone
+async function clearPage(client: NotionClient, pageId: string): Promise<boolean> {
+  let blockIds: string[];
+  try {
+    blockIds = await client.listChildBlockIds(pageId);
+  } catch (error) {
+    if (error instanceof NotionError) return false;
+    throw error;
+  }
+  const limit = createLimiter(DELETE_CONCURRENCY);
+  await Promise.all(blockIds.map((id) => limit(() => client.deleteBlock(id))));
+  return true;
+}
+
+export async function exportToNotion(
+  client: NotionClient,
+  material: UploadedMaterial,
+  parentId: string,
+  { resultsDatabaseId, onStep, now = new Date() }: NotionExportOptions = {}
+): Promise<NotionExport> {
+  const title = getMaterialTitle(material);
+  // Exports to another parent start over there
+  const previous = material.notionExport?.parentId === parentId ? material.notionExport : undefined;
+
+  onStep?.("page");
+  let page: { id: string; url?: string };
+  if (previous && (await clearPage(client, previous.pageId))) {
+    await client.renamePage(previous.pageId, title);
+    page = { id: previous.pageId, url: previous.pageUrl };
+  } else {
+    page = await client.createPage(parentId, title, "📚");
+  }
+
+  onStep?.("content");
+  await client.appendBlocks(page.id, buildMaterialBlocks(material));
+
+  onStep?.("results");
+  const row = buildResultsRow(material, page.url);
+  let databaseId = previous?.databaseId ?? resultsDatabaseId;
+  let rowId = previous?.rowId;
+  if (databaseId && rowId) {
+    await client.updateRow(rowId, row);
+  } else {
+    databaseId ??= await client.createDatabase(parentId, RESULTS_DATABASE_TITLE, RESULTS_DATABASE_PROPERTIES);
+    rowId = await client.insertRow(databaseId, row);
+  }
+
+  return { parentId, pageId: page.id, pageUrl: page.url, databaseId, rowId, exportedAt: now };
+}
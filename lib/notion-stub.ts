@@ -0,0 +1,136 @@
+import { createToolResponse as respond, type McpToolCaller } from "./mcp-tools";
+
+// Stand-in for the Notion MCP server in tests. It keeps a small workspace in memory: pages
+// with their child blocks, databases and their rows. Page and block listings are paginated
+// like the Notion API, and every call is recorded.
+
+interface StubPage {
+  title: string;
+  parentId?: string;
+  url: string;
+  children: string[];
+}
+
+export function createNotionStub({ pages = {}, pageSize = 100 }: { pages?: Record<string, string>; pageSize?: number } = {}) {
+  const workspace = new Map<string, StubPage>(
+    Object.entries(pages).map(([id, title]) => [id, { title, url: `https://notion.so/${id}`, children: [] }])
+  );
+  const blocks = new Map<string, { parentId: string; block: unknown }>();
+  const databases = new Map<string, { parentId: string; title: string; rows: Map<string, unknown[]> }>();
+  const calls: { tool: string; args: Record<string, unknown> }[] = [];
+  let nextId = 1;
+  const createId = (kind: string) => `${kind}-${nextId++}`;
+
+  const failure = (error: string) => respond({ data: {}, successful: false, error });
+  const toPageObject = (id: string, page: StubPage) => ({
+    object: "page",
+    id,
+    url: page.url,
+    properties: { title: { type: "title", title: [{ plain_text: page.title }] } },
+  });
+
+  const call: McpToolCaller = async (tool, args) => {
+    calls.push({ tool, args });
+    switch (tool) {
+      case "NOTION_SEARCH_NOTION_PAGE": {
+        const query = String(args.query ?? "").toLowerCase();
+        const results = [...workspace.entries()]
+          .filter(([, page]) => page.title.toLowerCase().includes(query))
+          .map(([id, page]) => toPageObject(id, page));
+        return respond({ data: { response_data: { results, has_more: false } }, successful: true });
+      }
+      case "NOTION_CREATE_NOTION_PAGE": {
+        const parentId = String(args.parent_id);
+        const parent = workspace.get(parentId);
+        if (!parent) return failure(`Could not find page with ID: ${parentId}`);
+        const id = createId("page");
+        const page = { title: String(args.title), parentId, url: `https://notion.so/${id}`, children: [] };
+        workspace.set(id, page);
+        parent.children.push(id);
+        return respond({ data: toPageObject(id, page), successful: true });
+      }
+      case "NOTION_UPDATE_PAGE": {
+        const page = workspace.get(String(args.page_id));
+        if (!page) return failure("Could not find page");
+        const title = (args.properties as { title?: { title?: { text?: { content?: string } }[] } })?.title;
+        page.title = title?.title?.map((part) => part.text?.content ?? "").join("") ?? page.title;
+        return respond({ data: toPageObject(String(args.page_id), page), successful: true });
+      }
+      case "NOTION_ADD_MULTIPLE_PAGE_CONTENT": {
+        const page = workspace.get(String(args.parent_block_id));
+        const contentBlocks = Array.isArray(args.content_blocks) ? args.content_blocks : [];
+        if (!page) return failure("Could not find block");
+        if (contentBlocks.length === 0 || contentBlocks.length > 100) {
+          return failure("content_blocks must contain between 1 and 100 blocks");
+        }
+        contentBlocks.forEach((item) => {
+          const id = createId("block");
+          blocks.set(id, { parentId: String(args.parent_block_id), block: (item as { content_block: unknown }).content_block });
+          page.children.push(id);
+        });
+        return respond({ data: {}, successful: true });
+      }
+      case "NOTION_FETCH_BLOCK_CONTENTS": {
+        const page = workspace.get(String(args.block_id));
+        if (!page) return failure("Could not find block");
+        const children = page.children.filter((id) => blocks.has(id));
+        const start = args.start_cursor ? children.indexOf(String(args.start_cursor)) : 0;
+        const slice = children.slice(start, start + pageSize);
+        const next = children[start + pageSize];
+        return respond({
+          data: {
+            block_child_data: {
+              results: slice.map((id) => ({ object: "block", id })),
+              has_more: next !== undefined,
+              next_cursor: next ?? null,
+            },
+          },
+          successful: true,
+        });
+      }
+      case "NOTION_DELETE_BLOCK": {
+        const id = String(args.block_id);
+        const block = blocks.get(id);
+        if (!block) return failure("Could not find block");
+        blocks.delete(id);
+        const parent = workspace.get(block.parentId);
+        if (parent) parent.children = parent.children.filter((child) => child !== id);
+        return respond({ data: { id, archived: true }, successful: true });
+      }
+      case "NOTION_CREATE_DATABASE": {
+        const parentId = String(args.parent_id);
+        if (!workspace.has(parentId)) return failure(`Could not find page with ID: ${parentId}`);
+        const id = createId("database");
+        databases.set(id, { parentId, title: String(args.title), rows: new Map() });
+        return respond({ data: { object: "database", id }, successful: true });
+      }
+      case "NOTION_INSERT_ROW_DATABASE": {
+        const database = databases.get(String(args.database_id));
+        if (!database) return failure("Could not find database");
+        const id = createId("row");
+        database.rows.set(id, Array.isArray(args.properties) ? args.properties : []);
+        return respond({ data: { response_data: { object: "page", id } }, successful: true });
+      }
+      case "NOTION_UPDATE_ROW_DATABASE": {
+        const id = String(args.row_id);
+        const database = [...databases.values()].find((candidate) => candidate.rows.has(id));
+        if (!database) return failure("Could not find row");
+        database.rows.set(id, Array.isArray(args.properties) ? args.properties : []);
+        return respond({ data: { response_data: { object: "page", id } }, successful: true });
+      }
+      default:
+        return failure(`Unknown tool ${tool}`);
+    }
+  };
+
+  return {
+    call,
+    calls,
+    // Blocks on a page, in order
+    getBlocks: (pageId: string) =>
+      (workspace.get(pageId)?.children ?? []).flatMap((id) => (blocks.has(id) ? [blocks.get(id)!.block] : [])),
+    getChildPages: (pageId: string) =>
+      (workspace.get(pageId)?.children ?? []).flatMap((id) => (workspace.has(id) ? [{ id, ...workspace.get(id)! }] : [])),
+    getDatabases: () => [...databases.entries()].map(([id, database]) => ({ id, ...database })),
+  };
+}
@@ -0,0 +1,222 @@
+import { z } from "zod";
+import type { McpServerId } from "@/sdk/constants/mcp-server";
+import { parseToolResult, type McpToolCaller } from "./mcp-tools";
+
+// Client for the Notion MCP server (see spec/platform-sdk/mcp-schemas/Notion*.txt). Tools
+// wrap the Notion API response in different keys (response_data, block_child_data, or the
+// object itself); the client digs out the ids and titles the export needs.
+
+export const NOTION_MCP_ID: McpServerId = "686de4616fd1cae1afbb55b9";
+
+// Notion rejects requests with more blocks, and rich texts longer than this
+export const MAX_BLOCKS_PER_REQUEST = 100;
+export const MAX_TEXT_LENGTH = 2000;
+
+export class NotionError extends Error {
+  constructor(
+    public readonly tool: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "NotionError";
+  }
+}
+
+export type NotionTextBlockType =
+  | "paragraph"
+  | "heading_1"
+  | "heading_2"
+  | "heading_3"
+  | "bulleted_list_item"
+  | "numbered_list_item"
+  | "quote"
+  | "callout";
+
+interface NotionRichText {
+  type: "text";
+  text: { content: string };
+}
+
+// Block in the server's flattened format; its content may use inline markdown
+export interface NotionTextBlock {
+  block_property: NotionTextBlockType;
+  content: string;
+}
+
+// Nested content needs the full Notion block structure
+export interface NotionToggleBlock {
+  type: "toggle";
+  toggle: {
+    rich_text: NotionRichText[];
+    children: { type: "paragraph"; paragraph: { rich_text: NotionRichText[] } }[];
+  };
+}
+
+export type NotionBlock = NotionTextBlock | NotionToggleBlock;
+
+export interface NotionPageRef {
+  id: string;
+  title: string;
+  url?: string;
+}
+
+export type NotionPropertyType = "title" | "rich_text" | "number" | "date" | "url";
+
+// Property value of a database row, formatted as a string as the server expects
+export interface NotionPropertyValue {
+  name: string;
+  type: NotionPropertyType;
+  value: string;
+}
+
+export interface NotionClient {
+  searchPages: (query: string) => Promise<NotionPageRef[]>;
+  createPage: (parentId: string, title: string, icon?: string) => Promise<NotionPageRef>;
+  renamePage: (pageId: string, title: string) => Promise<void>;
+  appendBlocks: (parentId: string, blocks: NotionBlock[]) => Promise<void>;
+  listChildBlockIds: (blockId: string) => Promise<string[]>;
+  deleteBlock: (blockId: string) => Promise<void>;
+  createDatabase: (
+    parentId: string,
+    title: string,
+    properties: { name: string; type: NotionPropertyType }[]
+  ) => Promise<string>;
+  insertRow: (databaseId: string, properties: NotionPropertyValue[]) => Promise<string>;
+  updateRow: (rowId: string, properties: NotionPropertyValue[]) => Promise<void>;
+}
+
+export function richText(content: string): NotionRichText[] {
+  return [{ type: "text", text: { content: content.slice(0, MAX_TEXT_LENGTH) } }];
+}
+
+const notionObjectSchema = z
+  .object({
+    id: z.string(),
+    url: z.string().nullish(),
+    properties: z.record(z.unknown()).nullish(),
+  })
+  .passthrough();
+
+const titlePropertySchema = z.object({
+  type: z.literal("title"),
+  title: z.array(z.object({ plain_text: z.string().nullish() }).passthrough()),
+});
+
+// The Notion object in a tool result, wherever the tool put it
+function findObject(data: Record<string, unknown>): z.infer<typeof notionObjectSchema> | undefined {
+  for (const candidate of [data, data.response_data, data.data]) {
+    const parsed = notionObjectSchema.safeParse(candidate);
+    if (parsed.success) return parsed.data;
+  }
+  return undefined;
+}
+
+function getTitle(properties: Record<string, unknown> | null | undefined): string {
+  for (const property of Object.values(properties ?? {})) {
+    const title = titlePropertySchema.safeParse(property);
+    if (title.success) return title.data.title.map((part) => part.plain_text ?? "").join("");
+  }
+  return "";
+}
+
+// List and pagination fields of a Notion list response
+function readList(value: unknown): { results: unknown[]; nextCursor?: string } {
+  const list = value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+  return {
+    results: Array.isArray(list.results) ? list.results : [],
+    nextCursor: list.has_more === true && typeof list.next_cursor === "string" ? list.next_cursor : undefined,
+  };
+}
+
+export function createNotionClient(call: McpToolCaller): NotionClient {
+  const callTool = async (tool: string, args: Record<string, unknown>): Promise<Record<string, unknown>> => {
+    const result = parseToolResult(await call(tool, args));
+    if (!result) {
+      throw new NotionError(tool, "Unexpected response from Notion");
+    }
+    if (!result.successful) {
+      throw new NotionError(tool, result.error || "Notion could not process the request");
+    }
+    return result.data && !Array.isArray(result.data) ? result.data : {};
+  };
+
+  const findCreated = (tool: string, data: Record<string, unknown>) => {
+    const object = findObject(data);
+    if (!object) throw new NotionError(tool, "Notion did not return the created object");
+    return object;
+  };
+
+  return {
+    async searchPages(query) {
+      const data = await callTool("NOTION_SEARCH_NOTION_PAGE", { query, filter_value: "page", page_size: 20 });
+      return readList(data.response_data).results.flatMap((result) => {
+        const page = notionObjectSchema.safeParse(result);
+        if (!page.success) return [];
+        return [{ id: page.data.id, title: getTitle(page.data.properties) || "Untitled", url: page.data.url ?? undefined }];
+      });
+    },
+
+    async createPage(parentId, title, icon) {
+      const page = findCreated(
+        "NOTION_CREATE_NOTION_PAGE",
+        await callTool("NOTION_CREATE_NOTION_PAGE", { parent_id: parentId, title, ...(icon && { icon }) })
+      );
+      return { id: page.id, title, url: page.url ?? undefined };
+    },
+
+    async renamePage(pageId, title) {
+      await callTool("NOTION_UPDATE_PAGE", {
+        page_id: pageId,
+        properties: { title: { title: [{ text: { content: title } }] } },
+      });
+    },
+
+    async appendBlocks(parentId, blocks) {
+      for (let start = 0; start < blocks.length; start += MAX_BLOCKS_PER_REQUEST) {
+        await callTool("NOTION_ADD_MULTIPLE_PAGE_CONTENT", {
+          parent_block_id: parentId,
+          content_blocks: blocks
+            .slice(start, start + MAX_BLOCKS_PER_REQUEST)
+            .map((block) => ({ content_block: block })),
+        });
+      }
+    },
+
+    async listChildBlockIds(blockId) {
+      const ids: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const data = await callTool("NOTION_FETCH_BLOCK_CONTENTS", {
+          block_id: blockId,
+          page_size: 100,
+          ...(cursor && { start_cursor: cursor }),
+        });
+        const list = readList(data.block_child_data);
+        list.results.forEach((block) => {
+          const parsed = notionObjectSchema.safeParse(block);
+          if (parsed.success) ids.push(parsed.data.id);
+        });
+        cursor = list.nextCursor;
+      } while (cursor);
+      return ids;
+    },
+
+    async deleteBlock(blockId) {
+      await callTool("NOTION_DELETE_BLOCK", { block_id: blockId });
+    },
+
+    async createDatabase(parentId, title, properties) {
+      const data = await callTool("NOTION_CREATE_DATABASE", { parent_id: parentId, title, properties });
+      return findCreated("NOTION_CREATE_DATABASE", data).id;
+    },
+
+    async insertRow(databaseId, properties) {
+      const data = await callTool("NOTION_INSERT_ROW_DATABASE", { database_id: databaseId, properties });
+      return findCreated("NOTION_INSERT_ROW_DATABASE", data).id;
+    },
+
+    async updateRow(rowId, properties) {
+      await callTool("NOTION_UPDATE_ROW_DATABASE", { row_id: rowId, properties });
+    },
+  };
+}
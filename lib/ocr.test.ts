@@ -0,0 +1,73 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { describe, expect, it, vi } from "vitest";
+import { PAGE_BREAK } from "./chunking";
+import { extractPdfText, hasTextLayer, transcribeImage } from "./ocr";
+
+const vision = (content: string) =>
+  vi.fn().mockResolvedValue({
+    content,
+    id: "test",
+    model: "test",
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+  });
+
+// PDF whose pages all have a text layer
+const createPdf = (pages: string[]) => {
+  const getPage = vi.fn(async (pageNumber: number) => ({
+    getTextContent: async () => ({ items: pages[pageNumber - 1].split(" ").map((str) => ({ str })) }),
+  }));
+  return { pdf: { numPages: pages.length, getPage } as unknown as PDFDocumentProxy, getPage };
+};
+
+const PAGE_ONE = "Cells are the basic unit of all known living organisms.";
+const PAGE_TWO = "Mitochondria produce most of the chemical energy of the cell.";
+
+describe("hasTextLayer", () => {
+  it("treats pages with only a few characters as scans", () => {
+    expect(hasTextLayer(PAGE_ONE)).toBe(true);
+    expect(hasTextLayer("  12  \n  Figure 3  ")).toBe(false);
+    expect(hasTextLayer("")).toBe(false);
+  });
+});
+
+describe("transcribeImage", () => {
+  it("returns the transcription without surrounding whitespace", async () => {
+    const complete = vision("  # Photosynthesis\n\n- Light reactions  \n");
+    const text = await transcribeImage(complete, "data:image/jpeg;base64,", "photo");
+    expect(text).toBe("# Photosynthesis\n\n- Light reactions");
+    expect(complete).toHaveBeenCalledWith(expect.objectContaining({ images: ["data:image/jpeg;base64,"] }));
+  });
+
+  it("passes the abort signal on to the vision request", async () => {
+    const complete = vision("Notes");
+    const { signal } = new AbortController();
+    await transcribeImage(complete, "data:image/jpeg;base64,", "photo", signal);
+    expect(complete).toHaveBeenCalledWith(expect.objectContaining({ signal }));
+  });
+
+  it("returns no text for images the model marks as empty", async () => {
+    expect(await transcribeImage(vision(" [NO TEXT]\n"), "data:image/jpeg;base64,", "page")).toBe("");
+  });
+});
+
+describe("extractPdfText", () => {
+  it("joins the text layers of all pages with page breaks and reports progress", async () => {
+    const { pdf } = createPdf([PAGE_ONE, PAGE_TWO]);
+    const onProgress = vi.fn();
+
+    const text = await extractPdfText(pdf, vision(""), { onProgress });
+
+    expect(text.split(PAGE_BREAK).map((page) => page.trim())).toEqual([PAGE_ONE, PAGE_TWO]);
+    expect(onProgress.mock.calls).toEqual([[0.5], [1]]);
+  });
+
+  it("stops before the next page once aborted", async () => {
+    const { pdf, getPage } = createPdf([PAGE_ONE, PAGE_TWO]);
+    const controller = new AbortController();
+
+    const text = extractPdfText(pdf, vision(""), { onProgress: () => controller.abort(), signal: controller.signal });
+
+    await expect(text).rejects.toMatchObject({ name: "AbortError" });
+    expect(getPage).toHaveBeenCalledTimes(1);
+  });
+});
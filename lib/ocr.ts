@@ -0,0 +1,114 @@
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+import type { GPTVisionInput, GPTVisionResponse } from "@/hooks/use-gpt-vision";
+import { PAGE_BREAK } from "./chunking";
+
+// OCR through the vision model: scanned PDF pages without a text layer and photos of
+// whiteboards or handwritten notes are rendered to JPEG and transcribed to plain text.
+
+export type VisionCompleter = (input: GPTVisionInput) => Promise<GPTVisionResponse>;
+
+// Pages with fewer non-whitespace characters are treated as scans
+const MIN_TEXT_LAYER_CHARS = 20;
+
+// Longest side of the images sent to the model, in pixels
+const MAX_IMAGE_DIMENSION = 2000;
+
+const JPEG_QUALITY = 0.85;
+
+export const IMAGE_FILE_TYPES = ["image/png", "image/jpeg"];
+export const IMAGE_FILE_EXTENSIONS = [".png", ".jpg", ".jpeg"];
+
+const NO_TEXT_MARKER = "[NO TEXT]";
+
+const TRANSCRIBE_PROMPTS = {
+  page: "This is a scanned page of a document. Transcribe ALL text on the page exactly as written, keeping headings, lists and paragraphs in reading order. Write formulas in LaTeX between $ signs. Describe every diagram, chart or figure in words inside [Diagram: ...], including its labels and what it shows.",
+  photo: "This is a photo of learning material, for example a whiteboard, a slide or handwritten notes. Transcribe ALL readable text as plain text in reading order, keeping the structure of lists and headings. Write formulas in LaTeX between $ signs. Describe every diagram, sketch or chart in words inside [Diagram: ...], including arrows, labels and relationships.",
+};
+
+export function isImageFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return IMAGE_FILE_TYPES.includes(file.type) || IMAGE_FILE_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+export function hasTextLayer(pageText: string): boolean {
+  return pageText.replace(/\s/g, "").length >= MIN_TEXT_LAYER_CHARS;
+}
+
+export async function transcribeImage(
+  vision: VisionCompleter,
+  imageUrl: string,
+  kind: keyof typeof TRANSCRIBE_PROMPTS,
+  signal?: AbortSignal
+): Promise<string> {
+  const response = await vision({
+    prompt: `${TRANSCRIBE_PROMPTS[kind]} Return only the transcription without any introduction. If there is no readable content, return ${NO_TEXT_MARKER}.`,
+    images: [imageUrl],
+    signal,
+  });
+  const text = response.content.trim();
+  return text === NO_TEXT_MARKER ? "" : text;
+}
+
+function scaleToFit(width: number, height: number): number {
+  return Math.min(1, MAX_IMAGE_DIMENSION / Math.max(width, height));
+}
+
+// Render a PDF page at a resolution that keeps small print readable
+export async function renderPdfPage(page: PDFPageProxy): Promise<string> {
+  const base = page.getViewport({ scale: 1 });
+  // Render at 2x, capped at the maximum image size
+  const scale = Math.min(2, MAX_IMAGE_DIMENSION / Math.max(base.width, base.height));
+  const viewport = page.getViewport({ scale });
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+
+  const dataUrl = canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+  page.cleanup();
+  return dataUrl;
+}
+
+// Text of all pages of a PDF, separated by page breaks so long documents can be chunked by
+// page. Scanned pages are transcribed one after another; aborting stops before the next page.
+export async function extractPdfText(
+  pdf: PDFDocumentProxy,
+  vision: VisionCompleter,
+  { onProgress, signal }: { onProgress?: (fraction: number) => void; signal?: AbortSignal } = {}
+): Promise<string> {
+  let fullText = "";
+
+  for (let i = 1; i <= pdf.numPages; i++) {
+    signal?.throwIfAborted();
+    const page = await pdf.getPage(i);
+    const textContent = await page.getTextContent();
+    const pageText = textContent.items.map((item) => ("str" in item ? item.str || "" : "")).join(" ");
+    const text = hasTextLayer(pageText)
+      ? pageText
+      : await transcribeImage(vision, await renderPdfPage(page), "page", signal);
+    fullText += text + "\n\n" + PAGE_BREAK;
+    onProgress?.(i / pdf.numPages);
+  }
+
+  return fullText.trim();
+}
+
+// Downscale large photos before sending them to the model
+export async function imageFileToDataUrl(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  const scale = scaleToFit(bitmap.width, bitmap.height);
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    bitmap.close();
+    throw new Error("Could not prepare the image for text recognition");
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return canvas.toDataURL("image/jpeg", JPEG_QUALITY);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { parsePartialJson, parsePartialList } from "./partial-json";
+
+describe("parsePartialJson", () => {
+  it("closes an unfinished string value and the open containers", () => {
+    expect(parsePartialJson('```json\n{"lessons": [{"title": "Cells", "content": "A cell is the sm')).toEqual({
+      lessons: [{ title: "Cells", content: "A cell is the sm" }],
+    });
+  });
+
+  it("drops a key whose value has not arrived yet", () => {
+    expect(parsePartialJson('{"lessons": [{"title": "Cells", "cont')).toEqual({ lessons: [{ title: "Cells" }] });
+    expect(parsePartialJson('{"lessons": [{"title": "Cells", "content":')).toEqual({ lessons: [{ title: "Cells" }] });
+    expect(parsePartialJson('{"a": 1, "b": tr')).toEqual({ a: 1 });
+  });
+
+  it("keeps escaped quotes and removes half-received escapes", () => {
+    expect(parsePartialJson('{"text": "say \\"hi\\" and \\')).toEqual({ text: 'say "hi" and ' });
+  });
+
+  it("ignores text after a complete document", () => {
+    expect(parsePartialJson('{"a": [1, 2]}\n```\nDone!')).toEqual({ a: [1, 2] });
+  });
+});
+
+describe("parsePartialList", () => {
+  it("returns the items of a list artifact received so far", () => {
+    const content = '{"flashcards": [{"front": "DNA", "back": "Carrier of genetic information"}, {"front": "RN';
+    expect(parsePartialList(content, "flashcards")).toEqual([
+      { front: "DNA", back: "Carrier of genetic information" },
+      { front: "RN" },
+    ]);
+    expect(parsePartialList("Sure, here", "flashcards")).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+// Incremental JSON parsing for streamed model output. An unfinished answer such as
+// {"lessons": [{"title": "Cells", "content": "A cell is the sm
+// is closed up to the last usable value so the items received so far can be rendered.
+
+interface Frame {
+  type: "{" | "[";
+  // Inside an object: true until the ":" of the current key/value pair
+  expectKey: boolean;
+  // Offset of the key string of the current pair
+  keyStart?: number;
+}
+
+const LITERALS = new Set(["true", "false", "null"]);
+
+// Close open strings, objects and arrays and drop the incomplete trailing key or value
+export function completePartialJson(content: string): string | undefined {
+  const start = content.search(/[[{]/);
+  if (start < 0) return undefined;
+
+  const stack: Frame[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+  let end = content.length;
+
+  for (let i = start; i < content.length; i++) {
+    const ch = content[i];
+    const top = stack[stack.length - 1];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      stringIsKey = top?.type === "{" && top.expectKey;
+      if (stringIsKey) top.keyStart = i;
+    } else if (ch === "{" || ch === "[") {
+      stack.push({ type: ch, expectKey: ch === "{" });
+    } else if (ch === "}" || ch === "]") {
+      stack.pop();
+      if (stack.length === 0) {
+        // Complete document; ignore anything after it (closing fence, prose)
+        end = i + 1;
+        break;
+      }
+    } else if (ch === "," && top?.type === "{") {
+      top.expectKey = true;
+      top.keyStart = undefined;
+    } else if (ch === ":" && top?.type === "{") {
+      top.expectKey = false;
+    }
+  }
+
+  let json = content.slice(start, end);
+  if (stack.length === 0) return json;
+
+  const top = stack[stack.length - 1];
+  const dropKey = () => {
+    if (top.keyStart !== undefined) json = json.slice(0, top.keyStart - start);
+  };
+
+  if (inString) {
+    if (stringIsKey) {
+      dropKey();
+    } else {
+      // Drop a half-received escape sequence before closing the string
+      json = json.replace(/\\u[0-9a-fA-F]{0,3}$/, "").replace(/(^|[^\\])((?:\\\\)*)\\$/, "$1$2") + '"';
+    }
+  } else {
+    // Unfinished literal or number at the end
+    const literal = json.match(/[a-z]+$/);
+    if (literal && !LITERALS.has(literal[0])) json = json.slice(0, -literal[0].length);
+    json = json.replace(/[-+.eE]+$/, "");
+
+    if (top.type === "{" && (top.expectKey || /:\s*$/.test(json))) dropKey();
+  }
+
+  json = json.replace(/[\s,]+$/, "");
+  for (let i = stack.length - 1; i >= 0; i--) {
+    json += stack[i].type === "{" ? "}" : "]";
+  }
+  return json;
+}
+
+export function parsePartialJson(content: string): unknown {
+  const json = completePartialJson(content);
+  if (json === undefined) return undefined;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
+
+// Items of a top-level list artifact (e.g. {"lessons": [...]}) received so far
+export function parsePartialList(content: string, key: string): Record<string, unknown>[] {
+  const value = parsePartialJson(content);
+  if (typeof value !== "object" || value === null || !(key in value)) return [];
+  const list = (value as Record<string, unknown>)[key];
+  if (!Array.isArray(list)) return [];
+  return list.filter((item): item is Record<string, unknown> => typeof item === "object" && item !== null);
+}
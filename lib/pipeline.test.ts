@@ -0,0 +1,202 @@
+import { describe, expect, it, vi } from "vitest";
+import { createCardSchedule, scheduleReview } from "./spaced-repetition";
+import type { GPTChatStreamInput } from "@/hooks/use-gpt-chat";
+import {
+  canResume,
+  createPipelineState,
+  getActiveStages,
+  markInterrupted,
+  runPipeline,
+  type PipelineContext,
+} from "./pipeline";
+import { createMaterial, reply } from "./test-helpers";
+import type { PipelineStage, UploadedMaterial } from "./types";
+
+// Answers per stage, recognized by the system prompt of the request
+const ANSWERS: Record<string, string> = {
+  "content analyst": JSON.stringify({ language: "English", title: "Cell Biology", category: "Science" }),
+  "micro-lessons": JSON.stringify({ lessons: [{ title: "Organelles", content: "Mitochondria produce energy." }] }),
+  "quiz creator": JSON.stringify({
+    questions: [{ question: "What produces energy?", options: ["Nucleus", "Mitochondria"], correctAnswer: 1 }],
+  }),
+  "summarization expert": "Cells are the basic unit of life.",
+  "flashcard creator": JSON.stringify({ flashcards: [{ front: "Mitochondria", back: "Produce energy" }] }),
+};
+
+const getStage = (input: GPTChatStreamInput) => {
+  const prompt = String(input.messages[0].content);
+  return Object.keys(ANSWERS).find((key) => prompt.includes(key)) ?? "unknown";
+};
+
+// Fake completer; `failing` maps a stage's prompt key to the error its requests reject with
+const createCompleter = (failing: Record<string, (input: GPTChatStreamInput) => unknown> = {}) =>
+  vi.fn(async (input: GPTChatStreamInput) => {
+    const stage = getStage(input);
+    if (failing[stage]) throw failing[stage](input);
+    return reply(ANSWERS[stage]);
+  });
+
+const createContext = (complete: PipelineContext["complete"], overrides: Partial<PipelineContext> = {}) => ({
+  complete,
+  getFile: vi.fn(async () => new File(["Cells are the basic unit of life."], "cells.txt", { type: "text/plain" })),
+  uploadFile: vi.fn(async () => "https://files.example.com/cells.txt"),
+  extractText: vi.fn(async () => "Cells are the basic unit of life. Mitochondria produce energy."),
+  ...overrides,
+});
+
+const material = (pipeline = createPipelineState("normal"), patch: Partial<UploadedMaterial> = {}) =>
+  createMaterial("m1", {
+    fileName: "cells.txt",
+    fileType: "text/plain",
+    processingStatus: "pending",
+    pipeline,
+    ...patch,
+  });
+
+// Material as persisted from the patches handed to onUpdate
+const run = async (start: UploadedMaterial, ctx: PipelineContext) => {
+  let persisted = start;
+  const result = await runPipeline(start, ctx, (patch) => {
+    persisted = { ...persisted, ...patch };
+  });
+  expect(persisted).toEqual(result);
+  return result;
+};
+
+describe("runPipeline", () => {
+  it("resumes after the finished stages and reuses their draft", async () => {
+    const completedStages: PipelineStage[] = ["uploaded", "textExtracted", "analyzed", "lessons"];
+    const lessons = [{ title: "Kept lesson", content: "From the earlier run" }];
+    const start = material(
+      { lessonLength: "short", completedStages, draft: { detectedLanguage: "German", microLessons: lessons } },
+      {
+        processingStatus: "interrupted",
+        fileUrl: "https://files.example.com/cells.txt",
+        extractedText: "Zellen sind die Grundeinheit des Lebens.",
+      }
+    );
+    const complete = createCompleter();
+    const ctx = createContext(complete);
+
+    const result = await run(start, ctx);
+
+    expect(ctx.getFile).not.toHaveBeenCalled();
+    expect(ctx.uploadFile).not.toHaveBeenCalled();
+    expect(ctx.extractText).not.toHaveBeenCalled();
+    const stages = complete.mock.calls.map(([input]) => getStage(input));
+    expect(stages.sort()).toEqual(["flashcard creator", "quiz creator", "summarization expert"]);
+    complete.mock.calls.forEach(([input]) => expect(input.messages[0].content).toContain("respond in German"));
+    expect(result.processingStatus).toBe("completed");
+    expect(result.pipeline).toBeUndefined();
+    expect(result.content).toMatchObject({
+      microLessons: lessons,
+      summary: "Cells are the basic unit of life.",
+      flashcards: [{ front: "Mitochondria", back: "Produce energy" }],
+      detectedLanguage: "German",
+    });
+  });
+
+  it("records a failed artifact while the others finish, and retries only that one", async () => {
+    const ctx = createContext(createCompleter({ "flashcard creator": () => new Error("Rate limited") }));
+    const failed = await run(material(), ctx);
+
+    expect(failed.processingStatus).toBe("error");
+    expect(failed.error).toBe("Flashcards failed: Rate limited");
+    expect(failed.pipeline?.failedStages).toEqual(["flashcards"]);
+    expect(failed.pipeline?.completedStages).toEqual(
+      expect.arrayContaining(["uploaded", "textExtracted", "analyzed", "lessons", "quiz", "summary"])
+    );
+    expect(failed.pipeline?.completedStages).not.toContain("flashcards");
+    expect(failed).toMatchObject({ suggestedTitle: "Cell Biology", fileUrl: "https://files.example.com/cells.txt" });
+    expect(canResume(failed)).toBe(true);
+    expect(getActiveStages(failed.pipeline)).toEqual(["flashcards"]);
+
+    const complete = createCompleter();
+    const retried = await run(failed, { ...ctx, complete });
+    expect(complete.mock.calls.map(([input]) => getStage(input))).toEqual(["flashcard creator"]);
+    expect(retried.processingStatus).toBe("completed");
+    expect(retried.error).toBeUndefined();
+    expect(retried.content?.microLessons).toMatchObject([
+      { title: "Organelles", content: "Mitochondria produce energy." },
+    ]);
+    expect(retried.content?.flashcards).toHaveLength(1);
+  });
+
+  it("leaves an aborted run interrupted and resumable", async () => {
+    const controller = new AbortController();
+    const abort = () => {
+      controller.abort();
+      return new DOMException("The operation was aborted.", "AbortError");
+    };
+    const ctx = createContext(createCompleter({ "micro-lessons": abort, "quiz creator": abort }), {
+      signal: controller.signal,
+    });
+
+    const interrupted = await run(material(), ctx);
+
+    expect(interrupted.processingStatus).toBe("interrupted");
+    expect(interrupted.error).toBeUndefined();
+    expect(interrupted.pipeline?.completedStages).not.toContain("lessons");
+    expect(interrupted.pipeline?.completedStages).toEqual(
+      expect.arrayContaining(["uploaded", "textExtracted", "analyzed"])
+    );
+    expect(canResume(interrupted)).toBe(true);
+    expect(getActiveStages(interrupted.pipeline)).toContain("lessons");
+  });
+
+  it("keeps the review schedules of regenerated flashcards with an unchanged front", async () => {
+    const schedule = scheduleReview(createCardSchedule(new Date(0)), "good", new Date(0));
+    const start = material(
+      { lessonLength: "normal", completedStages: ["uploaded", "textExtracted", "analyzed"], draft: {} },
+      {
+        fileUrl: "https://files.example.com/cells.txt",
+        extractedText: "Cells are the basic unit of life.",
+        content: {
+          microLessons: [],
+          quizQuestions: [],
+          summary: "",
+          flashcards: [
+            { front: "Mitochondria", back: "Powerhouse of the cell", schedule },
+            { front: "Nucleus", back: "Holds the DNA", schedule },
+          ],
+          detectedLanguage: "English",
+        },
+      }
+    );
+
+    const result = await run(start, createContext(createCompleter()));
+
+    expect(result.content?.flashcards).toMatchObject([{ front: "Mitochondria", back: "Produce energy", schedule }]);
+  });
+
+  it("stops before the next stage when aborted during text extraction", async () => {
+    const controller = new AbortController();
+    const complete = createCompleter();
+    const ctx = createContext(complete, {
+      signal: controller.signal,
+      extractText: vi.fn(async () => {
+        controller.abort();
+        return "Cells are the basic unit of life.";
+      }),
+    });
+
+    const interrupted = await run(material(), ctx);
+
+    expect(interrupted.processingStatus).toBe("interrupted");
+    expect(interrupted.pipeline?.completedStages).toEqual(["uploaded", "textExtracted"]);
+    expect(complete).not.toHaveBeenCalled();
+    expect(getActiveStages(interrupted.pipeline)).toEqual(["analyzed"]);
+  });
+});
+
+describe("markInterrupted", () => {
+  it("marks materials that were still processing when the app closed", () => {
+    const materials = markInterrupted([
+      material(createPipelineState("normal"), { id: "a", processingStatus: "processing" }),
+      material(createPipelineState("normal"), { id: "b", processingStatus: "pending" }),
+      material(undefined, { id: "c", processingStatus: "completed", pipeline: undefined }),
+    ]);
+    expect(materials.map((m) => m.processingStatus)).toEqual(["interrupted", "interrupted", "completed"]);
+    expect(materials.map(canResume)).toEqual([true, true, false]);
+  });
+});
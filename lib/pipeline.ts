@@ -0,0 +1,340 @@
+import { splitIntoChunks } from "./chunking";
+import { createLimiter } from "./concurrency";
+import {
+  analyzeDocument,
+  applyStageCoverage,
+  createCoverage,
+  generateFlashcards,
+  generateLessons,
+  generateQuizQuestions,
+  generateSummary,
+  type GenerateOptions,
+} from "./generation";
+import { isAbortError, type ChatCompleter } from "./structured-output";
+import type { Flashcard, LearningContent, MicroLesson, PipelineStage, PipelineState, UploadedMaterial } from "./types";
+
+// Staged processing of an uploaded material. Upload, text extraction and the combined
+// language/title/category analysis run in order; lessons, quiz, summary and flashcards are
+// independent and run concurrently. Every finished stage is handed to onUpdate (and from
+// there persisted), so a reload or a failed request only repeats the stages that did not finish.
+
+export const PIPELINE_STAGES: PipelineStage[] = [
+  "uploaded",
+  "textExtracted",
+  "analyzed",
+  "lessons",
+  "quiz",
+  "summary",
+  "flashcards",
+];
+
+type ArtifactStage = "lessons" | "quiz" | "summary" | "flashcards";
+
+export const ARTIFACT_STAGES: ArtifactStage[] = ["lessons", "quiz", "summary", "flashcards"];
+
+// Maximum number of model requests in flight for one material
+export const DEFAULT_CONCURRENCY = 3;
+
+const STAGE_LABELS: Record<PipelineStage, string> = {
+  uploaded: "Upload",
+  textExtracted: "Text extraction",
+  analyzed: "Language, title and category",
+  lessons: "Lessons",
+  quiz: "Quiz",
+  summary: "Summary",
+  flashcards: "Flashcards",
+};
+
+// Share of the overall progress bar per stage, roughly proportional to the work involved
+const STAGE_WEIGHTS: Record<PipelineStage, number> = {
+  uploaded: 5,
+  textExtracted: 10,
+  analyzed: 5,
+  lessons: 25,
+  quiz: 20,
+  summary: 15,
+  flashcards: 20,
+};
+
+// Completed fraction (0-1) per stage
+export type PipelineProgress = Partial<Record<PipelineStage, number>>;
+
+export interface PipelineContext {
+  complete: ChatCompleter;
+  // Original file from local storage, needed for the upload and extraction stages
+  getFile: () => Promise<File | undefined>;
+  uploadFile: (file: File) => Promise<string>;
+  extractText: (
+    file: File,
+    fileUrl: string,
+    onProgress: (fraction: number) => void,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  concurrency?: number;
+  onProgress?: (progress: PipelineProgress) => void;
+  // Streamed content of the running stages, for live rendering before they finish
+  onPreview?: (preview: PipelinePreview) => void;
+  // Aborting stops the running requests and leaves the material "interrupted"
+  signal?: AbortSignal;
+}
+
+export interface PipelinePreview {
+  microLessons?: MicroLesson[];
+  summary?: string;
+}
+
+export function getStageLabel(stage: PipelineStage): string {
+  return STAGE_LABELS[stage];
+}
+
+export function createPipelineState(lessonLength: GenerateOptions["lessonLength"]): PipelineState {
+  return { lessonLength, completedStages: [], draft: {} };
+}
+
+// Stages that run next: the first unfinished sequential stage, or all unfinished artifacts
+export function getActiveStages(pipeline: PipelineState | undefined): PipelineStage[] {
+  const completed = pipeline?.completedStages ?? [];
+  const pending = PIPELINE_STAGES.filter((stage) => !completed.includes(stage));
+  const sequential = pending.find((stage) => !ARTIFACT_STAGES.some((artifact) => artifact === stage));
+  return sequential ? [sequential] : pending;
+}
+
+// Progress of the stages that already finished in an earlier run
+export function getCompletedProgress(pipeline: PipelineState | undefined): PipelineProgress {
+  return Object.fromEntries((pipeline?.completedStages ?? []).map((stage) => [stage, 1]));
+}
+
+// Overall progress in percent, weighted by the expected work per stage
+export function getOverallProgress(progress: PipelineProgress): number {
+  const total = PIPELINE_STAGES.reduce((sum, stage) => sum + STAGE_WEIGHTS[stage], 0);
+  const done = PIPELINE_STAGES.reduce((sum, stage) => sum + STAGE_WEIGHTS[stage] * (progress[stage] ?? 0), 0);
+  return Math.round((done / total) * 100);
+}
+
+// Materials that were still processing when the app closed can only be resumed manually
+export function markInterrupted(materials: UploadedMaterial[]): UploadedMaterial[] {
+  return materials.map((m) =>
+    m.processingStatus === "pending" || m.processingStatus === "processing"
+      ? { ...m, processingStatus: "interrupted" }
+      : m
+  );
+}
+
+export function canResume(material: UploadedMaterial): boolean {
+  return (
+    (material.processingStatus === "interrupted" || material.processingStatus === "error") &&
+    !!material.pipeline
+  );
+}
+
+// Regenerated cards keep the review schedule of an earlier card with the same front
+function carryOverSchedules(flashcards: Flashcard[], previous: Flashcard[] = []): Flashcard[] {
+  const schedules = new Map(
+    previous.flatMap((card) => (card.schedule ? [[card.front.trim(), card.schedule] as const] : []))
+  );
+  return flashcards.map((card) => {
+    const schedule = schedules.get(card.front.trim());
+    return schedule ? { ...card, schedule } : card;
+  });
+}
+
+function assembleContent(draft: Partial<LearningContent>, previous?: LearningContent): LearningContent {
+  return {
+    microLessons: draft.microLessons ?? [],
+    quizQuestions: draft.quizQuestions ?? [],
+    summary: draft.summary ?? "",
+    flashcards: carryOverSchedules(draft.flashcards ?? [], previous?.flashcards),
+    detectedLanguage: draft.detectedLanguage ?? "English",
+    coverage: draft.coverage,
+  };
+}
+
+// Run every stage that has not completed yet. Failures are recorded on the material
+// (status "error" plus the failed stages) rather than thrown, so the caller can offer a retry;
+// a cancelled run ends as "interrupted" and can be resumed.
+export async function runPipeline(
+  material: UploadedMaterial,
+  ctx: PipelineContext,
+  onUpdate: (patch: Partial<UploadedMaterial>) => void
+): Promise<UploadedMaterial> {
+  const limit = createLimiter(ctx.concurrency ?? DEFAULT_CONCURRENCY);
+  const complete: ChatCompleter = (input) => limit(() => ctx.complete({ ...input, signal: ctx.signal }));
+  let current: UploadedMaterial = material;
+  let pipeline: PipelineState = material.pipeline ?? createPipelineState("normal");
+  let file: File | undefined;
+  let preview: PipelinePreview = {};
+
+  const progress = getCompletedProgress(pipeline);
+  const reportProgress = (stage: PipelineStage, fraction: number) => {
+    progress[stage] = fraction;
+    ctx.onProgress?.({ ...progress });
+  };
+  const reportPreview = (next: PipelinePreview) => {
+    preview = { ...preview, ...next };
+    ctx.onPreview?.(preview);
+  };
+
+  const update = (patch: Partial<UploadedMaterial>) => {
+    current = { ...current, ...patch };
+    onUpdate(patch);
+  };
+
+  // Record a finished stage together with its share of the draft content
+  const finishStage = (stage: PipelineStage, draft: Partial<LearningContent>, patch: Partial<UploadedMaterial> = {}) => {
+    pipeline = {
+      ...pipeline,
+      completedStages: [...pipeline.completedStages, stage],
+      failedStages: pipeline.failedStages?.filter((s) => s !== stage),
+      draft: { ...pipeline.draft, ...draft },
+    };
+    reportProgress(stage, 1);
+    update({ ...patch, pipeline });
+  };
+
+  const isDone = (stage: PipelineStage) => pipeline.completedStages.includes(stage);
+
+  const loadFile = async (): Promise<File> => {
+    file ??= await ctx.getFile();
+    if (!file) {
+      throw new Error("The original file is no longer available. Please upload it again.");
+    }
+    return file;
+  };
+
+  const describeError = (stage: PipelineStage, error: unknown) =>
+    `${getStageLabel(stage)} failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+
+  update({ processingStatus: "processing", error: undefined });
+  ctx.onProgress?.({ ...progress });
+
+  // Sequential part: everything after it needs the text and its language
+  let stage: PipelineStage = "uploaded";
+  try {
+    ctx.signal?.throwIfAborted();
+    if (!isDone("uploaded")) {
+      const fileUrl = await ctx.uploadFile(await loadFile());
+      finishStage("uploaded", {}, { fileUrl });
+    }
+
+    stage = "textExtracted";
+    ctx.signal?.throwIfAborted();
+    if (!isDone("textExtracted")) {
+      const extractedText = await ctx.extractText(
+        await loadFile(),
+        current.fileUrl,
+        (fraction) => reportProgress("textExtracted", fraction),
+        ctx.signal
+      );
+      if (!extractedText.trim()) {
+        throw new Error("No text could be extracted from this file");
+      }
+      finishStage("textExtracted", {}, { extractedText });
+    }
+
+    stage = "analyzed";
+    ctx.signal?.throwIfAborted();
+    if (!isDone("analyzed")) {
+      const analysis = await analyzeDocument(complete, current.extractedText);
+      finishStage(
+        "analyzed",
+        { detectedLanguage: analysis.language },
+        { detectedLanguage: analysis.language, suggestedTitle: analysis.title, thematicCategory: analysis.category }
+      );
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      update({ processingStatus: "interrupted", pipeline });
+      return current;
+    }
+    console.error(`Processing stage "${stage}" failed:`, error);
+    pipeline = { ...pipeline, failedStages: [stage] };
+    update({ processingStatus: "error", error: describeError(stage, error), pipeline });
+    return current;
+  }
+
+  // Concurrent part: the artifacts only depend on the text, never on each other
+  const chunks = splitIntoChunks(current.extractedText);
+  // Coverage is read when a stage finishes, so concurrent stages never overwrite each other
+  const coverage = () => pipeline.draft.coverage ?? createCoverage(chunks);
+
+  const runArtifact = async (artifact: ArtifactStage): Promise<void> => {
+    const options: GenerateOptions = {
+      lessonLength: pipeline.lessonLength,
+      detectedLanguage: pipeline.draft.detectedLanguage ?? current.detectedLanguage ?? "English",
+      onProgress: (fraction) => reportProgress(artifact, fraction),
+    };
+    reportProgress(artifact, 0);
+
+    switch (artifact) {
+      case "lessons": {
+        const result = await generateLessons(complete, chunks, {
+          ...options,
+          onPartial: (microLessons) => reportPreview({ microLessons }),
+        });
+        finishStage("lessons", {
+          microLessons: result.items,
+          coverage: applyStageCoverage(coverage(), result.chunkErrors, "lessons", result.chunkCounts),
+        });
+        break;
+      }
+      case "quiz": {
+        const result = await generateQuizQuestions(complete, chunks, options);
+        finishStage("quiz", {
+          quizQuestions: result.items,
+          coverage: applyStageCoverage(coverage(), result.chunkErrors, "quizQuestions", result.chunkCounts),
+        });
+        break;
+      }
+      case "summary": {
+        const result = await generateSummary(complete, chunks, {
+          ...options,
+          onPartial: (summary) => reportPreview({ summary }),
+        });
+        finishStage("summary", {
+          summary: result.summary,
+          coverage: applyStageCoverage(coverage(), result.chunkErrors),
+        });
+        break;
+      }
+      case "flashcards": {
+        const result = await generateFlashcards(complete, chunks, options);
+        finishStage("flashcards", {
+          flashcards: result.items,
+          coverage: applyStageCoverage(coverage(), result.chunkErrors, "flashcards", result.chunkCounts),
+        });
+        break;
+      }
+    }
+  };
+
+  const pending = ARTIFACT_STAGES.filter((artifact) => !isDone(artifact));
+  const results = await Promise.allSettled(pending.map(runArtifact));
+
+  const failures = pending.flatMap((artifact, i) => {
+    const result = results[i];
+    return result.status === "rejected" ? [{ artifact, error: result.reason as unknown }] : [];
+  });
+
+  if (failures.some(({ error }) => isAbortError(error))) {
+    update({ processingStatus: "interrupted", pipeline });
+    return current;
+  }
+
+  if (failures.length > 0) {
+    failures.forEach(({ artifact, error }) => console.error(`Processing stage "${artifact}" failed:`, error));
+    pipeline = { ...pipeline, failedStages: failures.map(({ artifact }) => artifact) };
+    update({
+      processingStatus: "error",
+      error: failures.map(({ artifact, error }) => describeError(artifact, error)).join("\n"),
+      pipeline,
+    });
+    return current;
+  }
+
+  update({
+    content: assembleContent(pipeline.draft, current.content),
+    processingStatus: "completed",
+    pipeline: undefined,
+  });
+  return current;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { formatSlidesAsText, parsePptx } from "./pptx";
+
+const NS =
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"';
+const RELS_NS = 'xmlns="http://schemas.openxmlformats.org/package/2006/relationships"';
+
+const shape = (placeholder: string | null, paragraphs: string) =>
+  `<p:sp><p:nvSpPr><p:nvPr>${placeholder ? `<p:ph type="${placeholder}"/>` : ""}</p:nvPr></p:nvSpPr>` +
+  `<p:txBody>${paragraphs}</p:txBody></p:sp>`;
+const para = (text: string, level = 0) => `<a:p><a:pPr lvl="${level}"/><a:r><a:t>${text}</a:t></a:r></a:p>`;
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Response(data.slice()).body!.pipeThrough(new CompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Minimal ZIP writer (CRCs are left empty because the reader does not check them)
+async function buildZip(files: Record<string, string>): Promise<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const data = await deflateRaw(raw);
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, 8, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, 8, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, eocd];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out.buffer;
+}
+
+describe("parsePptx", () => {
+  it("extracts slides in presentation order with bullets and speaker notes", async () => {
+    const buffer = await buildZip({
+      "ppt/presentation.xml": `<p:presentation ${NS}><p:sldIdLst><p:sldId id="256" r:id="rId3"/><p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>`,
+      "ppt/_rels/presentation.xml.rels":
+        `<Relationships ${RELS_NS}>` +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide1.xml"/>' +
+        '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide" Target="slides/slide2.xml"/>' +
+        "</Relationships>",
+      "ppt/slides/slide1.xml": `<p:sld ${NS}><p:cSld><p:spTree>${shape("title", para("Second"))}${shape(null, para("Closing words"))}</p:spTree></p:cSld></p:sld>`,
+      "ppt/slides/slide2.xml": `<p:sld ${NS}><p:cSld><p:spTree>${shape("ctrTitle", para("Cell Biology"))}${shape("body", para("Mitochondria") + para("Produce ATP", 1))}${shape("sldNum", para("2"))}</p:spTree></p:cSld></p:sld>`,
+      "ppt/slides/_rels/slide2.xml.rels":
+        `<Relationships ${RELS_NS}>` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide" Target="../notesSlides/notesSlide1.xml"/>' +
+        "</Relationships>",
+      "ppt/notesSlides/notesSlide1.xml": `<p:notes ${NS}><p:cSld><p:spTree>${shape("sldImg", "")}${shape("body", para("Mention the Krebs cycle"))}</p:spTree></p:cSld></p:notes>`,
+    });
+
+    const slides = await parsePptx(buffer);
+
+    expect(slides).toEqual([
+      {
+        number: 1,
+        title: "Cell Biology",
+        bullets: [
+          { text: "Mitochondria", level: 0 },
+          { text: "Produce ATP", level: 1 },
+        ],
+        notes: "Mention the Krebs cycle",
+      },
+      { number: 2, title: "Second", bullets: [{ text: "Closing words", level: 0 }] },
+    ]);
+    expect(formatSlidesAsText(slides)).toBe(
+      "## Slide 1: Cell Biology\n- Mitochondria\n  - Produce ATP\nSpeaker notes: Mention the Krebs cycle\n\n## Slide 2: Second\n- Closing words"
+    );
+  });
+
+  it("rejects files that are not ZIP packages", async () => {
+    await expect(parsePptx(new TextEncoder().encode("not a zip file at all").buffer)).rejects.toThrow(
+      "ZIP directory not found"
+    );
+  });
+});
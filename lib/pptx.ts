@@ -0,0 +1,264 @@
+// In-browser PPTX text extraction. A .pptx file is a ZIP package of XML parts:
+// the slide order comes from ppt/presentation.xml, each slide's text from its shapes,
+// and speaker notes from the notes slide linked in the slide's relationships.
+
+const P_NS = "http://schemas.openxmlformats.org/presentationml/2006/main";
+const A_NS = "http://schemas.openxmlformats.org/drawingml/2006/main";
+const R_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const REL_NS = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIR_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+export interface SlideBullet {
+  text: string;
+  level: number;
+}
+
+export interface PptxSlide {
+  number: number;
+  title?: string;
+  bullets: SlideBullet[];
+  notes?: string;
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Read the central directory of a ZIP archive (no ZIP64 support, which PPTX files do not need)
+function readZipDirectory(view: DataView): Map<string, ZipEntry> {
+  const minEocdOffset = Math.max(0, view.byteLength - 65557);
+  let eocd = -1;
+  for (let i = view.byteLength - 22; i >= minEocdOffset; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("Invalid PPTX file: ZIP directory not found");
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIR_SIGNATURE) {
+      throw new Error("Invalid PPTX file: corrupt ZIP directory");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  // Response bodies yield ArrayBuffer-backed chunks, which is what the DecompressionStream accepts
+  const stream = new Response(data.slice()).body!.pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readZipEntry(view: DataView, entry: ZipEntry): Promise<string> {
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Invalid PPTX file: corrupt entry ${entry.name}`);
+  }
+  const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+  const raw = new Uint8Array(view.buffer, view.byteOffset + dataStart, entry.compressedSize);
+
+  let bytes: Uint8Array;
+  if (entry.method === 0) {
+    bytes = raw;
+  } else if (entry.method === 8) {
+    bytes = await inflateRaw(raw);
+  } else {
+    throw new Error(`Unsupported compression method ${entry.method} in ${entry.name}`);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+// Resolve a relationship target relative to the folder of the part that owns it
+function resolvePartPath(baseDir: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = baseDir ? baseDir.split("/") : [];
+  for (const segment of target.split("/")) {
+    if (segment === "..") parts.pop();
+    else if (segment !== ".") parts.push(segment);
+  }
+  return parts.join("/");
+}
+
+function relsPathFor(partPath: string): string {
+  const slash = partPath.lastIndexOf("/");
+  return `${partPath.slice(0, slash)}/_rels/${partPath.slice(slash + 1)}.rels`;
+}
+
+function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, "application/xml");
+}
+
+function readParagraphText(paragraph: Element): string {
+  let text = "";
+  for (const node of Array.from(paragraph.getElementsByTagNameNS(A_NS, "*"))) {
+    if (node.localName === "t") text += node.textContent || "";
+    else if (node.localName === "br") text += " ";
+  }
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function getPlaceholderType(shape: Element): string | null {
+  const placeholder = shape.getElementsByTagNameNS(P_NS, "ph")[0];
+  if (!placeholder) return null;
+  return placeholder.getAttribute("type") || "body";
+}
+
+export function parseSlideXml(xml: string, number: number): PptxSlide {
+  const doc = parseXml(xml);
+  const slide: PptxSlide = { number, bullets: [] };
+
+  for (const shape of Array.from(doc.getElementsByTagNameNS(P_NS, "sp"))) {
+    const placeholderType = getPlaceholderType(shape);
+    const paragraphs = Array.from(shape.getElementsByTagNameNS(A_NS, "p"));
+
+    if ((placeholderType === "title" || placeholderType === "ctrTitle") && !slide.title) {
+      const title = paragraphs.map(readParagraphText).filter(Boolean).join(" ");
+      if (title) {
+        slide.title = title;
+        continue;
+      }
+    }
+    // Slide numbers, dates and footers are layout noise
+    if (placeholderType === "sldNum" || placeholderType === "dt" || placeholderType === "ftr") continue;
+
+    for (const paragraph of paragraphs) {
+      const text = readParagraphText(paragraph);
+      if (!text) continue;
+      const properties = paragraph.getElementsByTagNameNS(A_NS, "pPr")[0];
+      const level = Number(properties?.getAttribute("lvl") || 0);
+      slide.bullets.push({ text, level });
+    }
+  }
+
+  // Tables are graphic frames, one bullet per row
+  for (const row of Array.from(doc.getElementsByTagNameNS(A_NS, "tr"))) {
+    const cells = Array.from(row.getElementsByTagNameNS(A_NS, "tc")).map((cell) =>
+      Array.from(cell.getElementsByTagNameNS(A_NS, "p")).map(readParagraphText).filter(Boolean).join(" ")
+    );
+    if (cells.some(Boolean)) {
+      slide.bullets.push({ text: cells.join(" | "), level: 0 });
+    }
+  }
+
+  return slide;
+}
+
+export function parseNotesXml(xml: string): string | undefined {
+  const doc = parseXml(xml);
+  const lines: string[] = [];
+
+  for (const shape of Array.from(doc.getElementsByTagNameNS(P_NS, "sp"))) {
+    if (getPlaceholderType(shape) !== "body") continue;
+    for (const paragraph of Array.from(shape.getElementsByTagNameNS(A_NS, "p"))) {
+      const text = readParagraphText(paragraph);
+      if (text) lines.push(text);
+    }
+  }
+
+  return lines.length > 0 ? lines.join("\n") : undefined;
+}
+
+function readRelationships(xml: string): { id: string; type: string; target: string }[] {
+  const doc = parseXml(xml);
+  return Array.from(doc.getElementsByTagNameNS(REL_NS, "Relationship")).map((rel) => ({
+    id: rel.getAttribute("Id") || "",
+    type: rel.getAttribute("Type") || "",
+    target: rel.getAttribute("Target") || "",
+  }));
+}
+
+// Slide part paths in presentation order, falling back to file name order
+async function getSlidePaths(view: DataView, entries: Map<string, ZipEntry>): Promise<string[]> {
+  const presentation = entries.get("ppt/presentation.xml");
+  const presentationRels = entries.get("ppt/_rels/presentation.xml.rels");
+
+  if (presentation && presentationRels) {
+    const rels = readRelationships(await readZipEntry(view, presentationRels));
+    const targets = new Map(rels.map((rel) => [rel.id, resolvePartPath("ppt", rel.target)]));
+    const doc = parseXml(await readZipEntry(view, presentation));
+    const ordered = Array.from(doc.getElementsByTagNameNS(P_NS, "sldId"))
+      .map((slideId) => targets.get(slideId.getAttributeNS(R_NS, "id") || ""))
+      .filter((path): path is string => !!path && entries.has(path));
+    if (ordered.length > 0) return ordered;
+  }
+
+  const slideNumber = (path: string) => Number(path.match(/slide(\d+)\.xml$/)?.[1] || 0);
+  return Array.from(entries.keys())
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+}
+
+export async function parsePptx(buffer: ArrayBuffer): Promise<PptxSlide[]> {
+  const view = new DataView(buffer);
+  const entries = readZipDirectory(view);
+  const slidePaths = await getSlidePaths(view, entries);
+
+  if (slidePaths.length === 0) {
+    throw new Error("No slides found in this presentation");
+  }
+
+  const slides: PptxSlide[] = [];
+  for (const [idx, path] of slidePaths.entries()) {
+    const slideEntry = entries.get(path);
+    if (!slideEntry) continue;
+    const slide = parseSlideXml(await readZipEntry(view, slideEntry), idx + 1);
+
+    const relsEntry = entries.get(relsPathFor(path));
+    if (relsEntry) {
+      const notesRel = readRelationships(await readZipEntry(view, relsEntry)).find((rel) =>
+        rel.type.endsWith("/notesSlide")
+      );
+      const notesEntry = notesRel && entries.get(resolvePartPath(path.slice(0, path.lastIndexOf("/")), notesRel.target));
+      if (notesEntry) {
+        slide.notes = parseNotesXml(await readZipEntry(view, notesEntry));
+      }
+    }
+
+    slides.push(slide);
+  }
+
+  return slides;
+}
+
+// Plain text with one "## Slide N" section per slide, so lessons can cite slide numbers
+export function formatSlidesAsText(slides: PptxSlide[]): string {
+  return slides
+    .map((slide) => {
+      const lines = [slide.title ? `## Slide ${slide.number}: ${slide.title}` : `## Slide ${slide.number}`];
+      for (const bullet of slide.bullets) {
+        lines.push(`${"  ".repeat(bullet.level)}- ${bullet.text}`);
+      }
+      if (slide.notes) {
+        lines.push(`Speaker notes: ${slide.notes}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import {
+  describeCorrectAnswer,
+  formatQuestionText,
+  isResponseComplete,
+  isResponseCorrect,
+  parseNumber,
+  quizQuestionSchema,
+  shuffledOrder,
+} from "./question-types";
+import type { QuizQuestion } from "./types";
+
+const freeText: QuizQuestion = {
+  type: "freeText",
+  question: "What is photosynthesis?",
+  referenceAnswer: "Plants turn light, water and CO2 into sugar and oxygen.",
+  rubric: ["uses light", "produces sugar"],
+};
+
+const parse = (value: unknown) => z.array(quizQuestionSchema).safeParse([value]);
+
+describe("question types", () => {
+  it("validates untyped questions as multiple choice", () => {
+    const result = parse({ question: "2 + 2?", options: ["3", "4"], correctAnswer: 1, explanation: null });
+    expect(result.success && result.data[0]).toEqual({
+      question: "2 + 2?",
+      options: ["3", "4"],
+      correctAnswer: 1,
+      explanation: undefined,
+      concept: undefined,
+    });
+    expect(parse({ question: "2 + 2?", options: ["3", "4"], correctAnswer: 2 }).error?.issues[0]).toMatchObject({
+      path: [0, "correctAnswer"],
+    });
+  });
+
+  it("reports the rules of each type", () => {
+    expect(parse({ type: "essay", question: "Why?" }).error?.issues[0].message).toMatch(/not supported/);
+    expect(parse({ type: "cloze", question: "The ___ of ___", blanks: [["sum"]] }).error?.issues[0].message).toBe(
+      "question has 2 blanks (___) but 1 answer lists are given"
+    );
+    expect(parse({ type: "numeric", question: "g?", answer: "9.81" }).success).toBe(false);
+    expect(parse({ type: "numeric", question: "g?", answer: 9.81, tolerance: null })).toMatchObject({
+      success: true,
+      data: [{ answer: 9.81, tolerance: 0 }],
+    });
+  });
+
+  it("scores every question type", () => {
+    const cases: [QuizQuestion, unknown, boolean][] = [
+      [{ question: "?", options: ["a", "b"], correctAnswer: 1 }, 1, true],
+      [{ type: "trueFalse", question: "?", correctAnswer: false }, true, false],
+      [{ type: "multiSelect", question: "?", options: ["a", "b", "c"], correctAnswers: [0, 2] }, [2, 0], true],
+      [{ type: "multiSelect", question: "?", options: ["a", "b", "c"], correctAnswers: [0, 2] }, [0, 1, 2], false],
+      [{ type: "cloze", question: "The ___ is red", blanks: [["apple", "apples"]] }, ["  Apples "], true],
+      [{ type: "ordering", question: "?", items: ["a", "b", "c"] }, [0, 2, 1], false],
+      [{ type: "matching", question: "?", pairs: [{ left: "a", right: "1" }, { left: "b", right: "2" }] }, [0, 1], true],
+      [{ type: "numeric", question: "?", answer: 9.81, tolerance: 0.01 }, "9,8", true],
+      [{ type: "numeric", question: "?", answer: 0.3, tolerance: 0 }, String(0.1 + 0.2), true],
+      [{ type: "numeric", question: "?", answer: 9.81, tolerance: 0.01 }, "9.7", false],
+      [freeText, { text: "Plants make sugar from light" }, false],
+      [freeText, { text: "Plants make sugar", grade: { score: 75, feedback: "Good", missingPoints: [] } }, true],
+      [freeText, { text: "No idea", grade: { score: 10, feedback: "Missing", missingPoints: ["light"] } }, false],
+    ];
+    for (const [question, response, expected] of cases) {
+      expect(isResponseCorrect(question, response as never)).toBe(expected);
+    }
+  });
+
+  it("treats responses of the wrong shape as incorrect and incomplete", () => {
+    const question: QuizQuestion = { type: "ordering", question: "?", items: ["a", "b", "c"] };
+    expect(isResponseCorrect(question, 0)).toBe(false);
+    expect(isResponseComplete(question, [0, 1])).toBe(false);
+    expect(isResponseComplete(question, [2, 0, 1])).toBe(true);
+    expect(isResponseComplete({ type: "numeric", question: "?", answer: 1, tolerance: 0 }, "abc")).toBe(false);
+  });
+
+  it("describes answers and numbers cloze blanks", () => {
+    const question: QuizQuestion = { type: "cloze", question: "___ and _____", blanks: [["salt"], ["pepper"]] };
+    expect(formatQuestionText(question)).toBe("(1) ____ and (2) ____");
+    expect(describeCorrectAnswer(question)).toBe("salt, pepper");
+    expect(describeCorrectAnswer({ type: "numeric", question: "?", answer: 3, tolerance: 0.5, unit: "m" })).toBe(
+      "3 ± 0.5 m"
+    );
+    expect(parseNumber("1 000,5")).toBe(1000.5);
+    expect(parseNumber("1.2.3")).toBeUndefined();
+  });
+
+  it("shuffles display order deterministically and never in the original order", () => {
+    expect(shuffledOrder(4, "seed")).toEqual(shuffledOrder(4, "seed"));
+    for (const seed of ["a", "b", "c", "d", "e"]) {
+      const order = shuffledOrder(3, seed);
+      expect([...order].sort()).toEqual([0, 1, 2]);
+      expect(order).not.toEqual([0, 1, 2]);
+    }
+  });
+});
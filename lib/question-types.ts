@@ -0,0 +1,337 @@
+import { z } from "zod";
+import { sourcesField } from "./citations";
+import type { QuizQuestion, QuizQuestionType, QuizResponse, QuizResponseMap } from "./types";
+
+// Every question type brings its generator prompt, a schema that validates generated
+// questions, a schema for the stored response and its scoring rule. The renderers live in
+// components/QuizQuestionInput.tsx. Free-text answers are scored by the grade the model
+// gave them (lib/grading.ts).
+
+type QuestionOfType<T extends QuizQuestionType> = Extract<QuizQuestion, { type?: T }>;
+
+interface QuestionTypeDefinition<T extends QuizQuestionType> {
+  // Shape and rules of the type for the generator prompt
+  prompt: string;
+  schema: z.ZodType<QuestionOfType<T>, z.ZodTypeDef, unknown>;
+  response: z.ZodType<QuizResponseMap[T], z.ZodTypeDef, unknown>;
+  isCorrect: (question: QuestionOfType<T>, response: QuizResponseMap[T]) => boolean;
+  // Every part of the question has been answered
+  isComplete: (question: QuestionOfType<T>, response: QuizResponseMap[T]) => boolean;
+  // The correct answer as text, for prompts and the review
+  describeAnswer: (question: QuestionOfType<T>) => string;
+}
+
+// Blanks in cloze questions; models sometimes use more underscores
+const BLANK_PATTERN = /_{3,}/g;
+
+const text = (field: string) => z.string().trim().min(1, `${field} must not be empty`);
+const index = z.number().int();
+const indexField = (field: string) => z.number().int(`${field} must be an integer index`);
+
+const baseFields = {
+  question: text("question"),
+  explanation: z
+    .string()
+    .nullish()
+    .transform((value) => value || undefined),
+  concept: z
+    .string()
+    .nullish()
+    .transform((value) => value?.trim() || undefined),
+  // Quotes from the source text, turned into citations once the question is generated
+  sources: sourcesField,
+};
+
+const isValidIndex = (value: number, length: number) => value >= 0 && value < length;
+const isPermutation = (values: number[], length: number) =>
+  values.length === length && new Set(values).size === length && values.every((value) => isValidIndex(value, length));
+
+// Case, surrounding whitespace and Unicode variants do not matter for typed answers
+export const normalizeText = (value: string) => value.normalize("NFKC").trim().replace(/\s+/g, " ").toLowerCase();
+
+// Accepts "3.5", "3,5" and "1 000"
+export function parseNumber(value: string): number | undefined {
+  const cleaned = value.trim().replace(/\s+/g, "").replace(",", ".");
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return undefined;
+  return Number(cleaned);
+}
+
+export const countBlanks = (question: string) => question.match(BLANK_PATTERN)?.length ?? 0;
+
+const multipleChoice: QuestionTypeDefinition<"multipleChoice"> = {
+  prompt: `"multipleChoice": exactly one of 4 options is correct. {"type": "multipleChoice", "question": "...", "options": ["A", "B", "C", "D"], "correctAnswer": 0}`,
+  schema: z
+    .object({
+      type: z.literal("multipleChoice").optional(),
+      ...baseFields,
+      options: z.array(text("options")).min(2, "at least two options are required"),
+      correctAnswer: indexField("correctAnswer"),
+    })
+    .refine(
+      (q) => isValidIndex(q.correctAnswer, q.options.length),
+      (q) => ({
+        message: `correctAnswer ${q.correctAnswer} is not a valid index into ${q.options.length} options (use 0-${q.options.length - 1})`,
+        path: ["correctAnswer"],
+      })
+    ),
+  response: index,
+  isCorrect: (question, response) => response === question.correctAnswer,
+  isComplete: () => true,
+  describeAnswer: (question) => question.options[question.correctAnswer],
+};
+
+const trueFalse: QuestionTypeDefinition<"trueFalse"> = {
+  prompt: `"trueFalse": a statement that is either true or false. {"type": "trueFalse", "question": "...", "correctAnswer": true}`,
+  schema: z.object({
+    type: z.literal("trueFalse"),
+    ...baseFields,
+    correctAnswer: z.boolean({ invalid_type_error: "correctAnswer must be true or false" }),
+  }),
+  response: z.boolean(),
+  isCorrect: (question, response) => response === question.correctAnswer,
+  isComplete: () => true,
+  describeAnswer: (question) => (question.correctAnswer ? "True" : "False"),
+};
+
+const multiSelect: QuestionTypeDefinition<"multiSelect"> = {
+  prompt: `"multiSelect": 4-5 options of which two or more are correct. {"type": "multiSelect", "question": "...", "options": ["A", "B", "C", "D"], "correctAnswers": [0, 2]}`,
+  schema: z
+    .object({
+      type: z.literal("multiSelect"),
+      ...baseFields,
+      options: z.array(text("options")).min(3, "at least three options are required"),
+      correctAnswers: z.array(indexField("correctAnswers")).min(1, "at least one correct answer is required"),
+    })
+    .refine(
+      (q) => q.correctAnswers.every((answer) => isValidIndex(answer, q.options.length)),
+      (q) => ({
+        message: `correctAnswers must be indices into ${q.options.length} options (use 0-${q.options.length - 1})`,
+        path: ["correctAnswers"],
+      })
+    )
+    .transform((q) => ({ ...q, correctAnswers: [...new Set(q.correctAnswers)].sort((a, b) => a - b) })),
+  response: z.array(index),
+  isCorrect: (question, response) =>
+    new Set(response).size === question.correctAnswers.length &&
+    question.correctAnswers.every((answer) => response.includes(answer)),
+  isComplete: (_, response) => response.length > 0,
+  describeAnswer: (question) => question.correctAnswers.map((answer) => question.options[answer]).join("; "),
+};
+
+const cloze: QuestionTypeDefinition<"cloze"> = {
+  prompt: `"cloze": a sentence with one or two key terms replaced by ___, with the accepted answers for each blank in order. {"type": "cloze", "question": "The ___ is the powerhouse of the ___.", "blanks": [["mitochondrion", "mitochondria"], ["cell"]]}`,
+  schema: z
+    .object({
+      type: z.literal("cloze"),
+      ...baseFields,
+      blanks: z
+        .array(z.array(text("accepted answers")).min(1, "every blank needs an accepted answer"))
+        .min(1, "at least one blank is required"),
+    })
+    .refine(
+      (q) => countBlanks(q.question) === q.blanks.length,
+      (q) => ({
+        message: `question has ${countBlanks(q.question)} blanks (___) but ${q.blanks.length} answer lists are given`,
+        path: ["blanks"],
+      })
+    ),
+  response: z.array(z.string()),
+  isCorrect: (question, response) =>
+    question.blanks.every((accepted, idx) =>
+      accepted.some((answer) => normalizeText(answer) === normalizeText(response[idx] ?? ""))
+    ),
+  isComplete: (question, response) => question.blanks.every((_, idx) => !!response[idx]?.trim()),
+  describeAnswer: (question) => question.blanks.map((accepted) => accepted[0]).join(", "),
+};
+
+const ordering: QuestionTypeDefinition<"ordering"> = {
+  prompt: `"ordering": 3-6 steps, events or values listed in the correct order. {"type": "ordering", "question": "...", "items": ["first", "second", "third"]}`,
+  schema: z
+    .object({
+      type: z.literal("ordering"),
+      ...baseFields,
+      items: z.array(text("items")).min(3, "at least three items are required"),
+    })
+    .refine((q) => new Set(q.items.map(normalizeText)).size === q.items.length, {
+      message: "items must be distinct",
+      path: ["items"],
+    }),
+  response: z.array(index),
+  isCorrect: (question, response) =>
+    response.length === question.items.length && response.every((item, position) => item === position),
+  isComplete: (question, response) => isPermutation(response, question.items.length),
+  describeAnswer: (question) => question.items.join(" → "),
+};
+
+const matching: QuestionTypeDefinition<"matching"> = {
+  prompt: `"matching": 3-5 terms, each with its matching counterpart. {"type": "matching", "question": "...", "pairs": [{"left": "...", "right": "..."}]}`,
+  schema: z
+    .object({
+      type: z.literal("matching"),
+      ...baseFields,
+      pairs: z
+        .array(z.object({ left: text("left"), right: text("right") }))
+        .min(2, "at least two pairs are required"),
+    })
+    .refine((q) => new Set(q.pairs.map((pair) => normalizeText(pair.right))).size === q.pairs.length, {
+      message: "the right sides must be distinct",
+      path: ["pairs"],
+    }),
+  response: z.array(index.nullable()),
+  isCorrect: (question, response) => question.pairs.every((_, idx) => response[idx] === idx),
+  isComplete: (question, response) =>
+    question.pairs.every((_, idx) => response[idx] !== null && response[idx] !== undefined),
+  describeAnswer: (question) => question.pairs.map((pair) => `${pair.left} → ${pair.right}`).join("; "),
+};
+
+const numeric: QuestionTypeDefinition<"numeric"> = {
+  prompt: `"numeric": a calculation with a single numeric result, the tolerance accepted for rounding and the unit if any; write formulas in LaTeX between $ signs. {"type": "numeric", "question": "...", "answer": 9.81, "tolerance": 0.01, "unit": "m/s^2"}`,
+  schema: z.object({
+    type: z.literal("numeric"),
+    ...baseFields,
+    answer: z.number({ invalid_type_error: "answer must be a number" }).finite(),
+    tolerance: z
+      .number()
+      .nonnegative("tolerance must not be negative")
+      .nullish()
+      .transform((value) => value ?? 0),
+    unit: z
+      .string()
+      .nullish()
+      .transform((value) => value?.trim() || undefined),
+  }),
+  response: z.string(),
+  isCorrect: (question, response) => {
+    const value = parseNumber(response);
+    // Small slack so that e.g. 0.1 + 0.2 is not rejected with a tolerance of 0
+    return value !== undefined && Math.abs(value - question.answer) <= question.tolerance + 1e-9 * Math.abs(question.answer);
+  },
+  isComplete: (_, response) => parseNumber(response) !== undefined,
+  describeAnswer: (question) =>
+    `${question.answer}${question.tolerance > 0 ? ` ± ${question.tolerance}` : ""}${question.unit ? ` ${question.unit}` : ""}`,
+};
+
+// Lowest grade that counts a free-text answer as correct
+export const PASSING_SCORE = 60;
+
+export const freeTextGradeSchema = z.object({
+  score: z.number({ invalid_type_error: "score must be a number" }).min(0).max(100),
+  feedback: text("feedback"),
+  missingPoints: z
+    .array(z.string())
+    .nullish()
+    .transform((points) => points?.map((point) => point.trim()).filter(Boolean) ?? []),
+});
+
+const freeText: QuestionTypeDefinition<"freeText"> = {
+  prompt: `"freeText": an open question answered in 1-4 sentences, with a model answer and the 2-4 key points a complete answer covers. {"type": "freeText", "question": "...", "referenceAnswer": "...", "rubric": ["...", "..."]}`,
+  schema: z.object({
+    type: z.literal("freeText"),
+    ...baseFields,
+    referenceAnswer: text("referenceAnswer"),
+    rubric: z.array(text("rubric")).min(1, "at least one rubric point is required"),
+  }),
+  response: z.object({ text: z.string(), grade: freeTextGradeSchema.optional() }),
+  isCorrect: (_, response) => !!response.grade && response.grade.score >= PASSING_SCORE,
+  isComplete: (_, response) => response.text.trim() !== "",
+  describeAnswer: (question) => question.referenceAnswer,
+};
+
+export const QUESTION_TYPES: { [T in QuizQuestionType]: QuestionTypeDefinition<T> } = {
+  multipleChoice,
+  trueFalse,
+  multiSelect,
+  cloze,
+  ordering,
+  matching,
+  numeric,
+  freeText,
+};
+
+const QUESTION_TYPE_IDS = Object.keys(QUESTION_TYPES) as QuizQuestionType[];
+
+export const getQuestionType = (question: QuizQuestion): QuizQuestionType => question.type ?? "multipleChoice";
+
+// Question and response types line up per question type, which the registry lookup loses
+function definitionOf(question: QuizQuestion) {
+  return QUESTION_TYPES[getQuestionType(question)] as unknown as QuestionTypeDefinition<QuizQuestionType>;
+}
+
+// Validates a generated question against the schema of its type (multiple choice when untyped)
+export const quizQuestionSchema = z
+  .object({ type: z.string().nullish() })
+  .passthrough()
+  .transform((value, ctx): QuizQuestion => {
+    const type = value.type ?? "multipleChoice";
+    if (!QUESTION_TYPE_IDS.includes(type as QuizQuestionType)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `type "${type}" is not supported (use one of ${QUESTION_TYPE_IDS.join(", ")})`,
+        path: ["type"],
+      });
+      return z.NEVER;
+    }
+
+    const result = QUESTION_TYPES[type as QuizQuestionType].schema.safeParse(value);
+    if (!result.success) {
+      result.error.issues.forEach((issue) => ctx.addIssue(issue));
+      return z.NEVER;
+    }
+    return result.data;
+  });
+
+// Prompt lines describing the given question types
+export function describeQuestionTypes(types: QuizQuestionType[] = QUESTION_TYPE_IDS): string {
+  return types.map((type) => `- ${QUESTION_TYPES[type].prompt}`).join("\n");
+}
+
+// The stored response for a question type, or null when there is none or it has another shape
+export function readResponse<T extends QuizQuestionType>(
+  type: T,
+  response: QuizResponse | null | undefined
+): QuizResponseMap[T] | null {
+  const result = QUESTION_TYPES[type].response.safeParse(response);
+  return result.success ? result.data : null;
+}
+
+export function isResponseCorrect(question: QuizQuestion, response: QuizResponse | null | undefined): boolean {
+  const value = readResponse(getQuestionType(question), response);
+  return value !== null && definitionOf(question).isCorrect(question, value);
+}
+
+export function isResponseComplete(question: QuizQuestion, response: QuizResponse | null | undefined): boolean {
+  const value = readResponse(getQuestionType(question), response);
+  return value !== null && definitionOf(question).isComplete(question, value);
+}
+
+// Free-text answers that were typed but not graded yet
+export const needsGrading = (question: QuizQuestion, response: QuizResponse | null | undefined) =>
+  question.type === "freeText" && isResponseComplete(question, response) && !readResponse("freeText", response)?.grade;
+
+export const describeCorrectAnswer = (question: QuizQuestion) => definitionOf(question).describeAnswer(question);
+
+// Question text for display, with cloze blanks numbered to match their inputs
+export function formatQuestionText(question: QuizQuestion): string {
+  if (question.type !== "cloze") return question.question;
+  let blank = 0;
+  return question.question.replace(BLANK_PATTERN, () => `(${++blank}) ____`);
+}
+
+// Display order of `count` items that stays the same for the same seed and never is the
+// original order (for two or more items)
+export function shuffledOrder(count: number, seed: string): number[] {
+  let state = 0;
+  for (const char of seed) state = (Math.imul(state, 31) + char.charCodeAt(0)) | 0;
+  const random = () => {
+    state = (Math.imul(state, 1103515245) + 12345) | 0;
+    return ((state >>> 16) & 0x7fff) / 0x8000;
+  };
+
+  const order = Array.from({ length: count }, (_, idx) => idx);
+  for (let idx = count - 1; idx > 0; idx--) {
+    const other = Math.floor(random() * (idx + 1));
+    [order[idx], order[other]] = [order[other], order[idx]];
+  }
+  if (count > 1 && order.every((value, idx) => value === idx)) order.push(order.shift()!);
+  return order;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import {
+  createQuizAttempt,
+  findAttempt,
+  formatDuration,
+  recordAnswerTime,
+  startAttemptTimer,
+  totalAttemptTime,
+} from "./quiz-attempts";
+import type { MultipleChoiceQuestion } from "./types";
+
+const questions: MultipleChoiceQuestion[] = [
+  { question: "2 + 2?", options: ["3", "4"], correctAnswer: 1, explanation: "Basic addition" },
+  { question: "Capital of France?", options: ["Paris", "Rome"], correctAnswer: 0 },
+  { question: "Largest planet?", options: ["Mars", "Jupiter"], correctAnswer: 1 },
+];
+
+describe("quiz attempts", () => {
+  it("attributes the time between answers to the question answered", () => {
+    let timer = startAttemptTimer(3, 0);
+    timer = recordAnswerTime(timer, 0, 5000);
+    timer = recordAnswerTime(timer, 2, 12000);
+    timer = recordAnswerTime(timer, 0, 15000);
+    expect(timer.timeMs).toEqual([8000, 0, 7000]);
+  });
+
+  it("scores the attempt and keeps the chosen options, with unanswered questions as null", () => {
+    const attempt = createQuizAttempt(questions, { 0: 1, 2: 0 }, startAttemptTimer(3, 0), new Date(1000));
+    expect(attempt).toMatchObject({ totalQuestions: 3, correctAnswers: 1 });
+    expect(attempt.percentage).toBeCloseTo(33.33, 1);
+    expect(attempt.answers.map((a) => a.selected)).toEqual([1, null, 0]);
+  });
+
+  it("keeps its question snapshot when the material's questions change", () => {
+    const current = structuredClone(questions);
+    const attempt = createQuizAttempt(current, { 0: 1 }, startAttemptTimer(3, 0));
+    current[0].options[1] = "5";
+    current.length = 0;
+    expect(attempt.questions[0]).toMatchObject({ options: ["3", "4"] });
+    expect(findAttempt([attempt], attempt.id)).toBe(attempt);
+  });
+
+  it("ignores results saved without a question snapshot", () => {
+    const legacy = { timestamp: new Date(), totalQuestions: 3, correctAnswers: 2, percentage: 66.7 };
+    expect(findAttempt([legacy], "any")).toBeUndefined();
+  });
+
+  it("formats durations", () => {
+    let timer = startAttemptTimer(2, 0);
+    timer = recordAnswerTime(timer, 1, 185_000);
+    const attempt = createQuizAttempt(questions.slice(0, 2), { 1: 0 }, timer);
+    expect(formatDuration(totalAttemptTime(attempt))).toBe("3m 05s");
+    expect(formatDuration(4_400)).toBe("4s");
+  });
+});
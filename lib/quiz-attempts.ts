@@ -0,0 +1,82 @@
+import { isResponseCorrect } from "./question-types";
+import type { QuizAnswer, QuizQuestion, QuizResponse, QuizResult } from "./types";
+
+// Quiz attempts keep a snapshot of their questions, the responses and the time spent per
+// question. Time is measured between interactions: answering adds the time since the
+// previous interaction (or since the quiz started) to that question.
+
+export interface AttemptTimer {
+  startedAt: number;
+  lastEventAt: number;
+  timeMs: number[];
+}
+
+// Attempt that can be replayed in the review screen
+export type ReviewableQuizResult = QuizResult & Required<Pick<QuizResult, "id" | "questions" | "answers">>;
+
+export function startAttemptTimer(questionCount: number, now: number = Date.now()): AttemptTimer {
+  return { startedAt: now, lastEventAt: now, timeMs: new Array(questionCount).fill(0) };
+}
+
+// Attribute the time since the last interaction to the question that was just answered
+export function recordAnswerTime(timer: AttemptTimer, questionIndex: number, now: number = Date.now()): AttemptTimer {
+  const elapsed = Math.max(0, now - timer.lastEventAt);
+  return {
+    ...timer,
+    lastEventAt: now,
+    timeMs: timer.timeMs.map((ms, idx) => (idx === questionIndex ? ms + elapsed : ms)),
+  };
+}
+
+export function createQuizAttempt(
+  questions: QuizQuestion[],
+  selected: Record<number, QuizResponse | null>,
+  timer: AttemptTimer,
+  now: Date = new Date()
+): ReviewableQuizResult {
+  const answers: QuizAnswer[] = questions.map((_, idx) => ({
+    selected: selected[idx] ?? null,
+    timeMs: timer.timeMs[idx] ?? 0,
+  }));
+  const correctAnswers = questions.filter((quiz, idx) => isResponseCorrect(quiz, answers[idx].selected)).length;
+
+  return {
+    id: `${now.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: now,
+    totalQuestions: questions.length,
+    correctAnswers,
+    percentage: questions.length > 0 ? (correctAnswers / questions.length) * 100 : 0,
+    // Copy the questions so regenerating them later leaves the attempt intact
+    questions: structuredClone(questions),
+    answers,
+  };
+}
+
+export function isReviewable(result: QuizResult): result is ReviewableQuizResult {
+  return !!result.id && !!result.questions && !!result.answers;
+}
+
+export function findAttempt(results: QuizResult[] | undefined, attemptId: string): ReviewableQuizResult | undefined {
+  return results?.filter(isReviewable).find((result) => result.id === attemptId);
+}
+
+export function totalAttemptTime(result: ReviewableQuizResult): number {
+  return result.answers.reduce((sum, answer) => sum + answer.timeMs, 0);
+}
+
+// "42s" or "3m 05s"
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+// Questions asked so far, current ones first, so new questions can avoid repeating them
+export function collectAskedQuestions(results: QuizResult[] = [], current: QuizQuestion[] = [], limit = 30): QuizQuestion[] {
+  const asked = new Map<string, QuizQuestion>();
+  const attempts = results.filter(isReviewable).reverse();
+  for (const question of [...current, ...attempts.flatMap((attempt) => attempt.questions)]) {
+    if (!asked.has(question.question)) asked.set(question.question, question);
+  }
+  return [...asked.values()].slice(0, limit);
+}
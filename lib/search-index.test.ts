@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { PAGE_BREAK } from "./chunking";
+import { buildSearchIndex, buildSnippet, hashEmbedding, searchIndex, sourceRange } from "./search-index";
+import { createMaterial } from "./test-helpers";
+import type { LearningContent } from "./types";
+
+const material = (id: string, fileName: string, extractedText: string, content?: Partial<LearningContent>) =>
+  createMaterial(id, {
+    fileName,
+    extractedText,
+    content: content && {
+      microLessons: [],
+      quizQuestions: [],
+      summary: "",
+      flashcards: [],
+      detectedLanguage: "English",
+      ...content,
+    },
+  });
+
+const materials = [
+  material("bio", "biology.pdf", `Cells divide by mitosis.${PAGE_BREAK}Plants use photosynthesis to make sugar from light.`, {
+    microLessons: [{ title: "Photosynthesis", content: "Chlorophyll absorbs light energy." }],
+    flashcards: [{ front: "What is mitosis?", back: "Cell division into two identical cells." }],
+  }),
+  material("math", "analysis.pdf", "Die Übung zur Kettenregel: Ableitung verketteter Funktionen."),
+];
+
+describe("searchIndex", () => {
+  const index = buildSearchIndex(materials, { embed: hashEmbedding });
+
+  it("finds lessons, flashcards and source passages across materials", () => {
+    const hits = searchIndex(index, "photosynthesis");
+    expect(hits.map((hit) => [hit.document.materialId, hit.document.kind])).toEqual(
+      expect.arrayContaining([
+        ["bio", "lesson"],
+        ["bio", "source"],
+      ])
+    );
+    expect(searchIndex(index, "mitosis")[0].document).toMatchObject({ kind: "flashcard", index: 0 });
+  });
+
+  it("matches prefixes and ignores case and diacritics", () => {
+    expect(searchIndex(index, "UBUNG")[0].document.materialId).toBe("math");
+    expect(searchIndex(index, "kettenr")[0].document.materialId).toBe("math");
+    expect(searchIndex(index, "xylophone")).toEqual([]);
+  });
+
+  it("ranks documents containing every term first", () => {
+    const [first] = searchIndex(index, "light sugar");
+    expect(first.document).toMatchObject({ kind: "source", materialId: "bio" });
+  });
+
+  it("finds related word forms in semantic mode", () => {
+    expect(searchIndex(index, "photosynthetic", { mode: "keyword" })).toEqual([]);
+    const hits = searchIndex(index, "photosynthetic", { mode: "semantic" });
+    expect(hits[0].document.materialId).toBe("bio");
+    expect(hits[0].document.text).toMatch(/photosynthesis/i);
+  });
+
+  it("points source hits at the matched word", () => {
+    const [hit] = searchIndex(index, "sugar");
+    const range = sourceRange(hit)!;
+    expect(materials[0].extractedText.slice(range.start, range.end)).toBe("sugar");
+    expect(hit.document.label).toBe("Pages 1–2");
+  });
+});
+
+describe("buildSnippet", () => {
+  it("cuts around the first hit and highlights every query term", () => {
+    const text = `${"filler ".repeat(30)}Mitochondria make ATP. More mitochondria${" filler".repeat(30)}`;
+    const snippet = buildSnippet(text, "mitochondria", 40);
+
+    expect(snippet.text.startsWith("…")).toBe(true);
+    expect(snippet.text.endsWith("…")).toBe(true);
+    expect(snippet.highlights.map(({ start, end }) => snippet.text.slice(start, end))).toEqual([
+      "Mitochondria",
+      "mitochondria",
+    ]);
+  });
+
+  it("highlights words that only match with their diacritics removed", () => {
+    const snippet = buildSnippet("Die Übersicht über die Zellatmung", "uber");
+    expect(snippet.highlights.map(({ start, end }) => snippet.text.slice(start, end))).toEqual(["Übersicht", "über"]);
+
+    const decomposed = buildSnippet("Cafe\u0301 and cafés", "CAFE");
+    expect(decomposed.highlights.map(({ start, end }) => decomposed.text.slice(start, end))).toEqual([
+      "Cafe\u0301",
+      "cafés",
+    ]);
+  });
+});
@@ -0,0 +1,269 @@
+import { getChunkLabel, splitIntoChunks, toSourcePosition, type TextChunk } from "./chunking";
+import type { UploadedMaterial } from "./types";
+
+// Client-side search over the whole library. Every material is split into documents (its
+// name, each lesson, each flashcard and passages of the extracted text) that go into an
+// inverted index ranked with BM25. Documents can also get embedding vectors for semantic
+// queries; the built-in embedder hashes words and word pieces, so it finds inflections and
+// related compounds without a model, and a model embedder can be passed in instead.
+
+export type SearchMode = "keyword" | "semantic";
+export type SearchDocumentKind = "material" | "lesson" | "flashcard" | "source";
+
+export interface SearchDocument {
+  materialId: string;
+  kind: SearchDocumentKind;
+  // Index of the lesson, flashcard or passage within the material
+  index: number;
+  label: string;
+  text: string;
+  // Passage of the extracted text, for source documents
+  chunk?: TextChunk;
+}
+
+export type Embedder = (text: string) => number[];
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  // Term -> document index -> term frequency
+  postings: Map<string, Map<number, number>>;
+  lengths: number[];
+  averageLength: number;
+  // Unit length embeddings of the documents, when the index was built with an embedder
+  vectors?: number[][];
+  embed?: Embedder;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+  snippet: Snippet;
+}
+
+export interface Snippet {
+  text: string;
+  // Ranges of the query terms in the snippet text
+  highlights: { start: number; end: number }[];
+  // Position of the first highlighted term in the document text
+  match?: { start: number; end: number };
+}
+
+const PASSAGE_SIZE = 1500;
+// Query terms also match longer index terms they are a prefix of, at a lower weight
+const PREFIX_WEIGHT = 0.5;
+// Semantic hits below this similarity are noise
+const MIN_SIMILARITY = 0.15;
+const SNIPPET_RADIUS = 80;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const foldDiacritics = (text: string) => text.normalize("NFKD").replace(/\p{M}/gu, "");
+
+// Lowercased words of at least three letters or digits, with diacritics removed
+export const tokenize = (text: string) => foldDiacritics(text.toLowerCase()).match(/[\p{L}\p{N}]{3,}/gu) ?? [];
+
+function materialDocuments(material: UploadedMaterial): SearchDocument[] {
+  const base = { materialId: material.id };
+  const content = material.content;
+  return [
+    {
+      ...base,
+      kind: "material",
+      index: 0,
+      label: material.fileName,
+      text: [material.fileName, material.suggestedTitle, material.thematicCategory].filter(Boolean).join("\n"),
+    },
+    ...(content?.microLessons ?? []).map((lesson, idx) => ({
+      ...base,
+      kind: "lesson" as const,
+      index: idx,
+      label: `Lesson ${idx + 1}: ${lesson.title}`,
+      text: `${lesson.title}\n${lesson.content}`,
+    })),
+    ...(content?.flashcards ?? []).map((card, idx) => ({
+      ...base,
+      kind: "flashcard" as const,
+      index: idx,
+      label: `Flashcard ${idx + 1}`,
+      text: `${card.front}\n${card.back}`,
+    })),
+    ...splitIntoChunks(material.extractedText, PASSAGE_SIZE)
+      .filter((chunk) => chunk.text.trim())
+      .map((chunk) => ({
+        ...base,
+        kind: "source" as const,
+        index: chunk.index,
+        label: getChunkLabel(chunk),
+        text: chunk.text,
+        chunk,
+      })),
+  ];
+}
+
+function hash(text: string): number {
+  // FNV-1a
+  let value = 0x811c9dc5;
+  for (let idx = 0; idx < text.length; idx++) {
+    value ^= text.charCodeAt(idx);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+function toUnitLength(vector: number[]): number[] {
+  const length = Math.hypot(...vector);
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+// Local embedding: words and their character trigrams hashed into a fixed number of dimensions
+export function hashEmbedding(text: string, dimensions: number = 512): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, weight: number) => {
+    const value = hash(feature);
+    // The sign bit keeps colliding features from only ever adding up
+    vector[value % dimensions] += value & 0x80000000 ? -weight : weight;
+  };
+  for (const token of tokenize(text)) {
+    add(token, 1);
+    const padded = `#${token}#`;
+    for (let idx = 0; idx + 3 <= padded.length; idx++) add(padded.slice(idx, idx + 3), 0.5);
+  }
+  return toUnitLength(vector);
+}
+
+export function buildSearchIndex(materials: UploadedMaterial[], { embed }: { embed?: Embedder } = {}): SearchIndex {
+  const documents = materials.flatMap(materialDocuments);
+  const postings = new Map<string, Map<number, number>>();
+  const lengths = documents.map((document, docIdx) => {
+    const tokens = tokenize(document.text);
+    for (const token of tokens) {
+      const counts = postings.get(token) ?? new Map<number, number>();
+      counts.set(docIdx, (counts.get(docIdx) ?? 0) + 1);
+      postings.set(token, counts);
+    }
+    return tokens.length;
+  });
+
+  return {
+    documents,
+    postings,
+    lengths,
+    averageLength: lengths.reduce((sum, length) => sum + length, 0) / Math.max(lengths.length, 1),
+    vectors: embed && documents.map((document) => toUnitLength(embed(document.text))),
+    embed,
+  };
+}
+
+function keywordScores(index: SearchIndex, terms: string[]): Map<number, number> {
+  const scores = new Map<number, number>();
+  const matchedTerms = new Map<number, number>();
+  const total = index.documents.length;
+
+  for (const term of terms) {
+    const matched = new Set<number>();
+    for (const [indexed, counts] of index.postings) {
+      const weight = indexed === term ? 1 : indexed.startsWith(term) ? PREFIX_WEIGHT : 0;
+      if (weight === 0) continue;
+      const idf = Math.log(1 + (total - counts.size + 0.5) / (counts.size + 0.5));
+      for (const [docIdx, frequency] of counts) {
+        const norm = 1 - BM25_B + (BM25_B * index.lengths[docIdx]) / index.averageLength;
+        const score = (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm);
+        scores.set(docIdx, (scores.get(docIdx) ?? 0) + weight * score);
+        matched.add(docIdx);
+      }
+    }
+    matched.forEach((docIdx) => matchedTerms.set(docIdx, (matchedTerms.get(docIdx) ?? 0) + 1));
+  }
+
+  // Documents containing every query term rank above those containing only some
+  for (const [docIdx, score] of scores) {
+    scores.set(docIdx, (score * (matchedTerms.get(docIdx) ?? 0)) / terms.length);
+  }
+  return scores;
+}
+
+function semanticScores(index: SearchIndex, query: string): Map<number, number> {
+  const scores = new Map<number, number>();
+  if (!index.vectors || !index.embed) return scores;
+  const queryVector = toUnitLength(index.embed(query));
+  index.vectors.forEach((vector, docIdx) => {
+    const similarity = vector.reduce((sum, value, dim) => sum + value * (queryVector[dim] ?? 0), 0);
+    if (similarity >= MIN_SIMILARITY) scores.set(docIdx, similarity);
+  });
+  return scores;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Text folded like `tokenize` folds it, with the offset in the original text of every folded
+// character and one past the end
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = "";
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const part = foldDiacritics(char.toLowerCase());
+    folded += part;
+    offsets.push(...Array<number>(part.length).fill(offset));
+    offset += char.length;
+  }
+  offsets.push(text.length);
+  return { folded, offsets };
+}
+
+// Excerpt of the text around the first query term, with every query term in it highlighted.
+// Terms are matched on the folded text, so "uber" highlights "Über" just as the search finds it.
+export function buildSnippet(text: string, query: string, radius: number = SNIPPET_RADIUS): Snippet {
+  const terms = [...new Set(tokenize(query))];
+  // Words starting with one of the terms
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*`, "gu");
+  const { folded, offsets } = foldWithOffsets(text);
+  const matches =
+    terms.length > 0
+      ? [...folded.matchAll(pattern)].map((m) => ({ start: offsets[m.index], end: offsets[m.index + m[0].length] }))
+      : [];
+
+  const first = matches[0];
+  const from = first ? Math.max(0, first.start - radius) : 0;
+  const to = Math.min(text.length, (first?.end ?? 0) + radius * (first ? 1 : 2));
+  const prefix = from > 0 ? "…" : "";
+  const suffix = to < text.length ? "…" : "";
+  const shift = prefix.length - from;
+
+  return {
+    text: `${prefix}${text.slice(from, to)}${suffix}`,
+    highlights: matches
+      .filter((m) => m.start >= from && m.end <= to)
+      .map((m) => ({ start: m.start + shift, end: m.end + shift })),
+    match: first,
+  };
+}
+
+// Best matches first. Semantic queries need an index built with an embedder and fall back
+// to keyword search otherwise.
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  { mode = "keyword", limit = 30 }: { mode?: SearchMode; limit?: number } = {}
+): SearchHit[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+
+  const scores = mode === "semantic" && index.vectors ? semanticScores(index, query) : keywordScores(index, terms);
+  return [...scores]
+    .sort(([docA, a], [docB, b]) => b - a || docA - docB)
+    .slice(0, limit)
+    .map(([docIdx, score]) => {
+      const document = index.documents[docIdx];
+      return { document, score, snippet: buildSnippet(document.text, query) };
+    });
+}
+
+// Range of the extracted text to show for a source hit: the matched word, or the whole passage
+export function sourceRange(hit: SearchHit): { start: number; end: number } | undefined {
+  const { chunk } = hit.document;
+  if (!chunk) return undefined;
+  const match = hit.snippet.match;
+  if (!match) return { start: chunk.startOffset, end: chunk.endOffset };
+  return { start: toSourcePosition(chunk, match.start).offset, end: toSourcePosition(chunk, match.end).offset };
+}
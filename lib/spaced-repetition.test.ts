@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { addDays, addHours, addMinutes } from "date-fns";
+import {
+  createCardSchedule,
+  isCardDue,
+  previewIntervals,
+  reviveCardSchedule,
+  scheduleReview,
+} from "./spaced-repetition";
+
+const NOW = new Date("2025-03-10T09:00:00Z");
+
+describe("spaced repetition scheduler", () => {
+  it("treats unscheduled cards as due", () => {
+    expect(isCardDue(undefined, NOW)).toBe(true);
+  });
+
+  it("grows the interval on consecutive good answers", () => {
+    const first = scheduleReview(undefined, "good", NOW);
+    const second = scheduleReview(first, "good", NOW);
+    const third = scheduleReview(second, "good", NOW);
+
+    expect(first.intervalDays).toBe(1);
+    expect(second.intervalDays).toBe(6);
+    expect(third.intervalDays).toBe(15);
+    expect(third.history).toHaveLength(3);
+    expect(isCardDue(third, NOW)).toBe(false);
+  });
+
+  it("resets repetitions and lowers ease on again", () => {
+    const learned = scheduleReview(scheduleReview(undefined, "good", NOW), "good", NOW);
+    const lapsed = scheduleReview(learned, "again", NOW);
+
+    expect(lapsed.repetitions).toBe(0);
+    expect(lapsed.lapses).toBe(1);
+    expect(lapsed.ease).toBeCloseTo(2.3);
+    expect(isCardDue(lapsed, NOW)).toBe(false);
+    expect(isCardDue(lapsed, addMinutes(NOW, 10))).toBe(true);
+  });
+
+  it("counts cards with day intervals as due for the whole day", () => {
+    const learned = scheduleReview(undefined, "good", NOW);
+    expect(isCardDue(learned, addHours(learned.dueAt, -1))).toBe(true);
+    expect(isCardDue(learned, addDays(learned.dueAt, -1))).toBe(false);
+  });
+
+  it("orders previewed intervals from again to easy", () => {
+    const schedule = scheduleReview(scheduleReview(createCardSchedule(NOW), "good", NOW), "good", NOW);
+    const { again, hard, good, easy } = previewIntervals(schedule, NOW);
+
+    expect(again).toBeLessThan(hard);
+    expect(hard).toBeLessThan(good);
+    expect(good).toBeLessThan(easy);
+  });
+
+  it("revives dates after a JSON round trip", () => {
+    const schedule = scheduleReview(undefined, "easy", NOW);
+    const revived = reviveCardSchedule(JSON.parse(JSON.stringify(schedule)));
+
+    expect(revived?.dueAt).toBeInstanceOf(Date);
+    expect(revived?.dueAt.getTime()).toBe(schedule.dueAt.getTime());
+    expect(revived?.history[0].reviewedAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,141 @@
+import { addDays, addMinutes, differenceInCalendarDays, endOfDay } from "date-fns";
+
+// SM-2 style scheduler for flashcards. Each card keeps its own ease factor,
+// interval and review log; grading a card produces the next schedule.
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export interface ReviewLogEntry {
+  reviewedAt: Date;
+  grade: ReviewGrade;
+  intervalDays: number;
+  ease: number;
+}
+
+export interface CardSchedule {
+  ease: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt?: Date;
+  history: ReviewLogEntry[];
+}
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const RELEARN_MINUTES = 10;
+
+// Create the schedule for a card that has never been reviewed (due immediately)
+export function createCardSchedule(now: Date = new Date()): CardSchedule {
+  return {
+    ease: DEFAULT_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+    history: [],
+  };
+}
+
+// Compute the next interval (in days) and ease for a grade without mutating the schedule
+function nextIntervalAndEase(schedule: CardSchedule, grade: ReviewGrade): { intervalDays: number; ease: number } {
+  const { ease, intervalDays, repetitions } = schedule;
+
+  switch (grade) {
+    case "again":
+      return { intervalDays: 0, ease: Math.max(MIN_EASE, ease - 0.2) };
+    case "hard":
+      return {
+        intervalDays: repetitions === 0 ? 1 : Math.max(1, Math.round(intervalDays * 1.2)),
+        ease: Math.max(MIN_EASE, ease - 0.15),
+      };
+    case "easy": {
+      const good = nextIntervalAndEase(schedule, "good").intervalDays;
+      return {
+        intervalDays: repetitions === 0 ? 4 : Math.max(good + 1, Math.round(intervalDays * ease * 1.3)),
+        ease: ease + 0.15,
+      };
+    }
+    case "good": {
+      let next: number;
+      if (repetitions === 0) {
+        next = 1;
+      } else if (repetitions === 1) {
+        next = 6;
+      } else {
+        next = Math.round(intervalDays * ease);
+      }
+      return { intervalDays: Math.max(next, intervalDays + 1), ease };
+    }
+  }
+}
+
+// Apply a grade to a card and return its new schedule
+export function scheduleReview(
+  schedule: CardSchedule | undefined,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): CardSchedule {
+  const current = schedule ?? createCardSchedule(now);
+  const { intervalDays, ease } = nextIntervalAndEase(current, grade);
+  const isLapse = grade === "again";
+
+  return {
+    ease,
+    intervalDays,
+    repetitions: isLapse ? 0 : current.repetitions + 1,
+    lapses: isLapse ? current.lapses + 1 : current.lapses,
+    dueAt: isLapse ? addMinutes(now, RELEARN_MINUTES) : addDays(now, intervalDays),
+    lastReviewedAt: now,
+    history: [...current.history, { reviewedAt: now, grade, intervalDays, ease }],
+  };
+}
+
+// Interval (in days) each grade would produce, used to label the grading buttons
+export function previewIntervals(schedule: CardSchedule | undefined, now: Date = new Date()): Record<ReviewGrade, number> {
+  const current = schedule ?? createCardSchedule(now);
+  return {
+    again: nextIntervalAndEase(current, "again").intervalDays,
+    hard: nextIntervalAndEase(current, "hard").intervalDays,
+    good: nextIntervalAndEase(current, "good").intervalDays,
+    easy: nextIntervalAndEase(current, "easy").intervalDays,
+  };
+}
+
+// A card without a schedule has never been studied and counts as due. Cards in a step of
+// less than a day are due at their exact time; cards with day intervals count for the whole day.
+export function isCardDue(schedule: CardSchedule | undefined, now: Date = new Date()): boolean {
+  if (!schedule) return true;
+  const dueBy = schedule.intervalDays < 1 ? now : endOfDay(now);
+  return schedule.dueAt.getTime() <= dueBy.getTime();
+}
+
+// Whole days until the card is due again (0 when it is already due)
+export function daysUntilDue(schedule: CardSchedule | undefined, now: Date = new Date()): number {
+  if (!schedule) return 0;
+  return Math.max(0, differenceInCalendarDays(schedule.dueAt, now));
+}
+
+export function formatInterval(days: number): string {
+  if (days <= 0) return `${RELEARN_MINUTES} min`;
+  if (days < 30) return `${days} d`;
+  if (days < 365) return `${Math.round(days / 30)} mo`;
+  return `${(days / 365).toFixed(1)} y`;
+}
+
+// Restore Date fields after the schedule went through JSON serialization
+export function reviveCardSchedule(raw: CardSchedule | undefined): CardSchedule | undefined {
+  if (!raw) return undefined;
+  return {
+    ...raw,
+    dueAt: new Date(raw.dueAt),
+    lastReviewedAt: raw.lastReviewedAt ? new Date(raw.lastReviewedAt) : undefined,
+    history: (raw.history || []).map((entry) => ({
+      ...entry,
+      reviewedAt: new Date(entry.reviewedAt),
+    })),
+  };
+}
@@ -0,0 +1,70 @@
+import { IDBFactory } from "fake-indexeddb";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createCardSchedule } from "./spaced-repetition";
+import { createMaterial } from "./test-helpers";
+
+const content = {
+  microLessons: [{ title: "Organelles", content: "Mitochondria produce energy." }],
+  quizQuestions: [],
+  summary: "Cells are the basic unit of life.",
+  flashcards: [{ front: "Mitochondria", back: "Produce energy", schedule: createCardSchedule(new Date(0)) }],
+  detectedLanguage: "English",
+};
+
+// Every test starts with an empty browser database and a fresh module, which caches its connection
+const loadStorage = () => import("./storage");
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+  vi.stubGlobal("indexedDB", new IDBFactory());
+  vi.resetModules();
+  localStorage.clear();
+});
+
+describe("storage migrations", () => {
+  it("imports the localStorage library and drops the old copy", async () => {
+    const quizResults = [
+      { timestamp: new Date("2026-03-02T10:00:00Z"), totalQuestions: 4, correctAnswers: 3, percentage: 75 },
+    ];
+    const legacy = [
+      createMaterial("a", { content, quizResults }),
+      createMaterial("b", { processingStatus: "error", error: "Failed" }),
+    ];
+    const { LEGACY_STORAGE_KEY, loadMaterials } = await loadStorage();
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(legacy));
+
+    const loaded = await loadMaterials();
+
+    expect(loaded).toEqual(legacy);
+    expect(loaded[0].uploadedAt).toBeInstanceOf(Date);
+    expect(loaded[0].content?.flashcards[0].schedule?.dueAt).toBeInstanceOf(Date);
+    expect(localStorage.getItem(LEGACY_STORAGE_KEY)).toBeNull();
+  });
+
+  it("keeps the localStorage library when it cannot be read", async () => {
+    const { LEGACY_STORAGE_KEY, loadMaterials } = await loadStorage();
+    localStorage.setItem(LEGACY_STORAGE_KEY, "{not json");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await loadMaterials()).toEqual([]);
+    expect(localStorage.getItem(LEGACY_STORAGE_KEY)).toBe("{not json");
+  });
+});
+
+describe("syncMaterials", () => {
+  it("saves changed materials and deletes removed ones, down to the last", async () => {
+    const { loadMaterials, syncMaterials } = await loadStorage();
+    const a = createMaterial("a", { content });
+    const b = createMaterial("b");
+    await syncMaterials([a, b], []);
+    expect(await loadMaterials()).toEqual([a, b]);
+
+    const quizResults = [{ timestamp: new Date(1), totalQuestions: 2, correctAnswers: 2, percentage: 100 }];
+    const updated = { ...a, quizResults };
+    await syncMaterials([updated], [a, b]);
+    expect(await loadMaterials()).toEqual([updated]);
+
+    await syncMaterials([], [updated]);
+    expect(await loadMaterials()).toEqual([]);
+  });
+});
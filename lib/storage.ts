@@ -0,0 +1,207 @@
+import { reviveCardSchedule } from "./spaced-repetition";
+import type { LearningContent, QuizResult, UploadedMaterial } from "./types";
+
+// IndexedDB persistence for the material library. Materials, generated content, quiz results
+// and the original files live in separate object stores so large PDFs no longer hit the
+// localStorage quota. Schema changes go through numbered migrations.
+
+const DB_NAME = "knowly";
+export const DB_VERSION = 1;
+
+// Key of the old single-entry localStorage library, imported by the first migration
+export const LEGACY_STORAGE_KEY = "learning-materials";
+
+const STORES = {
+  materials: "materials",
+  content: "content",
+  quizResults: "quizResults",
+  files: "files",
+} as const;
+
+type MaterialRecord = Omit<UploadedMaterial, "content" | "quizResults">;
+
+interface ContentRecord {
+  materialId: string;
+  content: LearningContent;
+}
+
+interface QuizResultsRecord {
+  materialId: string;
+  results: QuizResult[];
+}
+
+interface FileRecord {
+  materialId: string;
+  file: Blob;
+  fileName: string;
+  storedAt: Date;
+}
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// MIGRATIONS[n] upgrades a database from version n - 1 to version n
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db, tx) => {
+    db.createObjectStore(STORES.materials, { keyPath: "id" });
+    db.createObjectStore(STORES.content, { keyPath: "materialId" });
+    db.createObjectStore(STORES.quizResults, { keyPath: "materialId" });
+    db.createObjectStore(STORES.files, { keyPath: "materialId" });
+    importLegacyLibrary(tx);
+  },
+};
+
+// Restore Date objects in a material that went through JSON serialization
+export function reviveMaterial(m: UploadedMaterial): UploadedMaterial {
+  return {
+    ...m,
+    uploadedAt: new Date(m.uploadedAt),
+    quizResults: m.quizResults?.map((r) => ({
+      ...r,
+      timestamp: new Date(r.timestamp),
+    })),
+    tutorChat: m.tutorChat?.map((message) => ({ ...message, timestamp: new Date(message.timestamp) })),
+    notionExport: m.notionExport && { ...m.notionExport, exportedAt: new Date(m.notionExport.exportedAt) },
+    content: m.content && {
+      ...m.content,
+      flashcards: m.content.flashcards.map((card) => ({
+        ...card,
+        schedule: reviveCardSchedule(card.schedule),
+      })),
+    },
+  };
+}
+
+function putMaterial(tx: IDBTransaction, material: UploadedMaterial) {
+  const { content, quizResults, ...record } = material;
+  tx.objectStore(STORES.materials).put(record);
+
+  if (content) {
+    const contentRecord: ContentRecord = { materialId: material.id, content };
+    tx.objectStore(STORES.content).put(contentRecord);
+  } else {
+    tx.objectStore(STORES.content).delete(material.id);
+  }
+
+  if (quizResults && quizResults.length > 0) {
+    const resultsRecord: QuizResultsRecord = { materialId: material.id, results: quizResults };
+    tx.objectStore(STORES.quizResults).put(resultsRecord);
+  } else {
+    tx.objectStore(STORES.quizResults).delete(material.id);
+  }
+}
+
+function importLegacyLibrary(tx: IDBTransaction) {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+
+  try {
+    const parsed: UploadedMaterial[] = JSON.parse(stored);
+    parsed.map(reviveMaterial).forEach((material) => putMaterial(tx, material));
+    // Only drop the old copy once everything is safely in IndexedDB
+    tx.addEventListener("complete", () => localStorage.removeItem(LEGACY_STORAGE_KEY));
+  } catch (e) {
+    console.error("Failed to import materials from localStorage:", e);
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction;
+        if (!tx) return;
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          MIGRATIONS[version]?.(request.result, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+}
+
+export async function loadMaterials(): Promise<UploadedMaterial[]> {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.materials, STORES.content, STORES.quizResults], "readonly");
+
+  const [records, contents, results] = await Promise.all([
+    requestToPromise<MaterialRecord[]>(tx.objectStore(STORES.materials).getAll()),
+    requestToPromise<ContentRecord[]>(tx.objectStore(STORES.content).getAll()),
+    requestToPromise<QuizResultsRecord[]>(tx.objectStore(STORES.quizResults).getAll()),
+  ]);
+
+  const contentById = new Map(contents.map((c) => [c.materialId, c.content]));
+  const resultsById = new Map(results.map((r) => [r.materialId, r.results]));
+
+  return records.map((record) => ({
+    ...record,
+    content: contentById.get(record.id),
+    quizResults: resultsById.get(record.id),
+  }));
+}
+
+// Write materials that changed since the last save and delete the ones that were removed.
+// Materials are immutable state objects, so an unchanged reference means nothing to write.
+export async function syncMaterials(next: UploadedMaterial[], previous: UploadedMaterial[]): Promise<void> {
+  const previousById = new Map(previous.map((m) => [m.id, m]));
+  const changed = next.filter((m) => previousById.get(m.id) !== m);
+  const nextIds = new Set(next.map((m) => m.id));
+  const removed = previous.filter((m) => !nextIds.has(m.id));
+
+  if (changed.length === 0 && removed.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction(Object.values(STORES), "readwrite");
+
+  changed.forEach((material) => putMaterial(tx, material));
+  removed.forEach(({ id }) => {
+    Object.values(STORES).forEach((store) => tx.objectStore(store).delete(id));
+  });
+
+  await transactionDone(tx);
+}
+
+// Keep the original upload so a material can be re-processed without uploading it again
+export async function saveMaterialFile(materialId: string, file: File): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.files, "readwrite");
+  const record: FileRecord = {
+    materialId,
+    file,
+    fileName: file.name,
+    storedAt: new Date(),
+  };
+  tx.objectStore(STORES.files).put(record);
+  await transactionDone(tx);
+}
+
+export async function getMaterialFile(materialId: string): Promise<File | undefined> {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES.files, "readonly");
+  const record = await requestToPromise<FileRecord | undefined>(tx.objectStore(STORES.files).get(materialId));
+  if (!record) return undefined;
+  return record.file instanceof File ? record.file : new File([record.file], record.fileName, { type: record.file.type });
+}
@@ -0,0 +1,111 @@
+import type { CheckoutSession } from "./entitlements-backend";
+import { signWebhookPayload, type SubscriptionObject, type WebhookEvent } from "./entitlement-webhook";
+
+// Stand-in for the payment provider in tests and local development. It keeps checkout
+// sessions and subscriptions in memory and reports every change as a signed webhook
+// event, the way the real provider calls the billing service.
+
+const PERIOD_S = 30 * 24 * 60 * 60;
+
+export interface StripeStubOptions {
+  webhookSecret: string;
+  // Delivers a webhook request to the receiver
+  deliver: (payload: string, signatureHeader: string) => Promise<unknown>;
+  now?: () => number;
+}
+
+interface PendingCheckout {
+  id: string;
+  userId: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+let counter = 0;
+const nextId = (prefix: string) => `${prefix}_${Date.now().toString(36)}${(counter++).toString(36)}`;
+
+export function createStripeStub({ webhookSecret, deliver, now = Date.now }: StripeStubOptions) {
+  const checkouts = new Map<string, PendingCheckout>();
+  const subscriptions = new Map<string, SubscriptionObject>();
+  const nowSeconds = () => Math.floor(now() / 1000);
+
+  const send = async (event: Omit<WebhookEvent, "id" | "created">) => {
+    const timestamp = nowSeconds();
+    const payload = JSON.stringify({ ...event, id: nextId("evt"), created: timestamp });
+    await deliver(payload, await signWebhookPayload(payload, webhookSecret, timestamp));
+  };
+
+  const updateSubscription = async (
+    subscriptionId: string,
+    patch: Partial<SubscriptionObject>,
+    type: "customer.subscription.updated" | "customer.subscription.deleted" = "customer.subscription.updated"
+  ) => {
+    const subscription = subscriptions.get(subscriptionId);
+    if (!subscription) throw new Error(`No such subscription: ${subscriptionId}`);
+    const updated = { ...subscription, ...patch };
+    subscriptions.set(subscriptionId, updated);
+    await send({ type, data: { object: updated } });
+  };
+
+  return {
+    createCheckoutSession(params: { userId: string; successUrl: string; cancelUrl: string }): CheckoutSession {
+      const id = nextId("cs");
+      checkouts.set(id, { id, ...params });
+      return { id, url: `https://checkout.stripe.test/pay/${id}` };
+    },
+
+    // The customer paid on the hosted page; returns the URL the provider redirects to
+    async completeCheckout(sessionId: string): Promise<string> {
+      const checkout = checkouts.get(sessionId);
+      if (!checkout) throw new Error(`No such checkout session: ${sessionId}`);
+      checkouts.delete(sessionId);
+
+      const subscription: SubscriptionObject = {
+        id: nextId("sub"),
+        customer: nextId("cus"),
+        status: "active",
+        current_period_end: nowSeconds() + PERIOD_S,
+        cancel_at_period_end: false,
+        metadata: { userId: checkout.userId },
+      };
+      subscriptions.set(subscription.id, subscription);
+
+      await send({
+        type: "checkout.session.completed",
+        data: {
+          object: {
+            id: sessionId,
+            client_reference_id: checkout.userId,
+            customer: subscription.customer,
+            subscription: subscription.id,
+          },
+        },
+      });
+      await send({ type: "customer.subscription.created", data: { object: subscription } });
+      return checkout.successUrl;
+    },
+
+    renewSubscription(subscriptionId: string) {
+      const subscription = subscriptions.get(subscriptionId);
+      return updateSubscription(subscriptionId, {
+        status: "active",
+        current_period_end: (subscription?.current_period_end ?? nowSeconds()) + PERIOD_S,
+      });
+    },
+
+    failPayment(subscriptionId: string) {
+      return updateSubscription(subscriptionId, { status: "past_due" });
+    },
+
+    // At period end the subscription stays active until current_period_end; otherwise it ends now
+    cancelSubscription(subscriptionId: string, { atPeriodEnd }: { atPeriodEnd: boolean }) {
+      return atPeriodEnd
+        ? updateSubscription(subscriptionId, { cancel_at_period_end: true })
+        : updateSubscription(subscriptionId, { status: "canceled" }, "customer.subscription.deleted");
+    },
+
+    subscriptionIds: () => [...subscriptions.keys()],
+  };
+}
+
+export type StripeStub = ReturnType<typeof createStripeStub>;
@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { StructuredOutputError, extractJson, generateStructured } from "./structured-output";
+import { reply } from "./test-helpers";
+
+const schema = z.object({
+  items: z.array(z.object({ value: z.number().max(10, "value must be at most 10") })).min(1),
+});
+
+describe("extractJson", () => {
+  it("strips markdown fences, prose and trailing commas", () => {
+    const content = 'Here you go:\n```json\n{"items": [{"value": 1},],}\n```\nEnjoy!';
+    expect(JSON.parse(extractJson(content))).toEqual({ items: [{ value: 1 }] });
+  });
+});
+
+describe("generateStructured", () => {
+  it("re-prompts with the validation error until the answer is valid", async () => {
+    const complete = vi
+      .fn()
+      .mockResolvedValueOnce(reply('{"items": [{"value": 42}]}'))
+      .mockResolvedValueOnce(reply('{"items": [{"value": 4}]}'));
+
+    const result = await generateStructured(complete, {
+      artifact: "items",
+      schema,
+      messages: [{ role: "user", content: "Give me items" }],
+    });
+
+    expect(result).toEqual({ items: [{ value: 4 }] });
+    expect(complete).toHaveBeenCalledTimes(2);
+    const retryMessages = complete.mock.calls[1][0].messages;
+    expect(retryMessages).toHaveLength(3);
+    expect(retryMessages[2].content).toContain("items.0.value: value must be at most 10");
+  });
+
+  it("fails visibly after the maximum number of attempts", async () => {
+    const complete = vi.fn().mockResolvedValue(reply("I cannot do that."));
+
+    await expect(
+      generateStructured(complete, {
+        artifact: "items",
+        schema,
+        messages: [{ role: "user", content: "Give me items" }],
+        maxAttempts: 2,
+      })
+    ).rejects.toBeInstanceOf(StructuredOutputError);
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,117 @@
+import type { z } from "zod";
+import type { ChatMessage, GPTChatResponse, GPTChatStreamInput } from "@/hooks/use-gpt-chat";
+
+// Typed JSON generation: the model's answer is cleaned up, parsed and validated against a
+// zod schema. Invalid answers are sent back to the model together with the validation error.
+
+// Streaming options (signal, onToken) are optional; a plain completer simply ignores them
+export type ChatCompleter = (input: GPTChatStreamInput) => Promise<GPTChatResponse>;
+
+// True for the error a completer rejects with after its request was aborted
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly artifact: string,
+    public readonly attempts: number,
+    public readonly validationError: string,
+    public readonly lastResponse: string
+  ) {
+    super(`Could not generate valid ${artifact} after ${attempts} attempt${attempts !== 1 ? "s" : ""}: ${validationError}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+interface StructuredRequest<T> {
+  // Name of the artifact, used in error messages (e.g. "quiz questions")
+  artifact: string;
+  messages: ChatMessage[];
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  maxAttempts?: number;
+  // Receives the raw response text while it is streamed (restarts on every attempt)
+  onPartial?: (content: string) => void;
+}
+
+// Strip markdown fences and surrounding prose, and drop trailing commas
+export function extractJson(content: string): string {
+  let text = content.trim();
+
+  const fenced = text.match(/```(?:json|JSON)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  if (start >= 0 && end > start) {
+    text = text.slice(start, end + 1);
+  }
+
+  return text.replace(/,(\s*[}\]])/g, "$1");
+}
+
+export function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+    .join("; ");
+}
+
+// Parse and validate a response; returns either the typed value or a readable error
+export function parseStructured<T>(
+  content: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { success: true; data: T } | { success: false; error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(content));
+  } catch (e) {
+    return { success: false, error: `Response is not valid JSON (${e instanceof Error ? e.message : "parse error"})` };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return { success: false, error: formatZodError(result.error) };
+  }
+  return { success: true, data: result.data };
+}
+
+export async function generateStructured<T>(
+  complete: ChatCompleter,
+  { artifact, messages, schema, maxAttempts = DEFAULT_MAX_ATTEMPTS, onPartial }: StructuredRequest<T>
+): Promise<T> {
+  const conversation = [...messages];
+  let lastError = "";
+  let lastResponse = "";
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await complete({
+      messages: conversation,
+      onToken: onPartial && ((_token, content) => onPartial(content)),
+    });
+    lastResponse = response.content;
+
+    const parsed = parseStructured(response.content, schema);
+    if (parsed.success) {
+      return parsed.data;
+    }
+
+    lastError = parsed.error;
+    console.warn(`Invalid ${artifact} (attempt ${attempt}/${maxAttempts}):`, lastError);
+
+    // Show the model its own answer and what was wrong with it
+    conversation.push(
+      { role: "assistant", content: response.content },
+      {
+        role: "user",
+        content: `Your previous response could not be used: ${lastError}. Fix these problems and return ONLY the corrected JSON in the requested format, without markdown fences or any other text.`,
+      }
+    );
+  }
+
+  throw new StructuredOutputError(artifact, maxAttempts, lastError, lastResponse);
+}
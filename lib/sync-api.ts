@@ -0,0 +1,44 @@
+import { platformApi } from "@/sdk/core/request";
+import { requireSessionToken } from "@/lib/auth";
+import { reviveMaterial } from "@/lib/storage";
+import type { MaterialChange, PushResult, RemoteMaterialRecord, SyncApi } from "@/lib/sync-engine";
+
+// Sync endpoints on the platform API. Besides the platform token, requests carry the signed-in
+// user's session token, so every user only sees their own records. Materials travel as JSON;
+// dates come back as strings and are revived like the legacy localStorage library.
+
+async function readJson<T>(response: Response): Promise<T> {
+  if (!response.ok) {
+    throw new Error(`Sync request failed with status ${response.status}`);
+  }
+  return response.json();
+}
+
+const SESSION_HEADER = "X-Session-Token";
+
+async function sessionHeaders(): Promise<Record<string, string>> {
+  return { [SESSION_HEADER]: await requireSessionToken() };
+}
+
+function reviveRecord(record: RemoteMaterialRecord): RemoteMaterialRecord {
+  return { ...record, material: record.material && reviveMaterial(record.material) };
+}
+
+export function createPlatformSyncApi(): SyncApi {
+  return {
+    pull: async (since) => {
+      const result = await readJson<{ records: RemoteMaterialRecord[]; cursor: number }>(
+        await platformApi.get(`/sync/materials?since=${since}`, { headers: await sessionHeaders() })
+      );
+      return { records: result.records.map(reviveRecord), cursor: result.cursor };
+    },
+    push: async (changes: MaterialChange[]) => {
+      const { results } = await readJson<{ results: PushResult[] }>(
+        await platformApi.post("/sync/materials", { changes }, { headers: await sessionHeaders() })
+      );
+      return results.map((result) =>
+        result.status === "conflict" ? { ...result, record: reviveRecord(result.record) } : result
+      );
+    },
+  };
+}
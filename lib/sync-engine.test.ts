@@ -0,0 +1,211 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createSyncEngine,
+  createSyncState,
+  mergeMaterial,
+  type MaterialChange,
+  type PushResult,
+  type RemoteMaterialRecord,
+  type SyncApi,
+  type SyncEngineOptions,
+  type SyncState,
+  type SyncStatus,
+} from "./sync-engine";
+import { createMaterial } from "./test-helpers";
+import type { QuizResult, UploadedMaterial } from "./types";
+
+const result = (time: number, correctAnswers: number): QuizResult => ({
+  timestamp: new Date(time),
+  totalQuestions: 10,
+  correctAnswers,
+  percentage: correctAnswers * 10,
+});
+
+// In-memory server that applies a change only when it is based on the current revision
+const createFakeServer = () => {
+  const records = new Map<string, RemoteMaterialRecord>();
+  let revision = 0;
+  let online = true;
+
+  const api: SyncApi = {
+    pull: async (since) => {
+      if (!online) throw new TypeError("Failed to fetch");
+      return { records: [...records.values()].filter((r) => r.revision > since), cursor: revision };
+    },
+    push: async (changes: MaterialChange[]) => {
+      if (!online) throw new TypeError("Failed to fetch");
+      return changes.map((change): PushResult => {
+        const current = records.get(change.id);
+        if ((current?.revision ?? 0) !== change.baseRevision) {
+          return { id: change.id, status: "conflict", record: current! };
+        }
+        revision += 1;
+        records.set(change.id, { ...change, revision });
+        return { id: change.id, status: "applied", revision };
+      });
+    },
+  };
+  const setOnline = (value: boolean) => {
+    online = value;
+  };
+  return { api, records, setOnline };
+};
+
+// One device: its local library, persisted sync state and engine
+const createDevice = (
+  api: SyncApi,
+  clock: { now: () => number },
+  {
+    library = [],
+    confirmUpload,
+  }: { library?: UploadedMaterial[]; confirmUpload?: SyncEngineOptions["confirmUpload"] } = {}
+) => {
+  let materials: UploadedMaterial[] = library;
+  let saved: SyncState = createSyncState();
+  const statuses: SyncStatus[] = [];
+  const engine = createSyncEngine({
+    api,
+    loadState: () => saved,
+    saveState: (state) => {
+      saved = JSON.parse(JSON.stringify(state));
+    },
+    getMaterials: () => materials,
+    applyRemote: ({ put, remove }) => {
+      const previous = materials;
+      const updated = new Map(put.map((m) => [m.id, m]));
+      materials = [
+        ...previous.filter((m) => !remove.includes(m.id)).map((m) => updated.get(m.id) ?? m),
+        ...put.filter((m) => !previous.some((p) => p.id === m.id)),
+      ];
+      engine.trackChanges(materials, previous);
+    },
+    confirmUpload,
+    onStatus: (status) => statuses.push(status),
+    now: clock.now,
+  });
+  const edit = (next: (current: UploadedMaterial[]) => UploadedMaterial[]) => {
+    const previous = materials;
+    materials = next(previous);
+    engine.trackChanges(materials, previous);
+  };
+  return {
+    engine,
+    statuses,
+    edit,
+    materials: () => materials,
+    state: () => saved,
+  };
+};
+
+const setup = () => {
+  let now = 1000;
+  const clock = {
+    now: () => now,
+    advance: (ms = 1000) => {
+      now += ms;
+    },
+  };
+  const server = createFakeServer();
+  return { clock, server, a: createDevice(server.api, clock), b: createDevice(server.api, clock) };
+};
+
+describe("sync engine", () => {
+  it("copies new materials to other devices", async () => {
+    const { a, b, server } = setup();
+    a.edit(() => [createMaterial("m1", { suggestedTitle: "Biologie" })]);
+    await a.engine.sync();
+    await b.engine.sync();
+
+    expect(server.records.get("m1")?.revision).toBe(1);
+    expect(b.materials().map((m) => m.suggestedTitle)).toEqual(["Biologie"]);
+    expect(a.statuses.at(-1)).toBe("idle");
+  });
+
+  it("keeps the later metadata edit and the quiz results of both devices", async () => {
+    const { a, b, clock } = setup();
+    a.edit(() => [createMaterial("m1", { suggestedTitle: "Alt" })]);
+    await a.engine.sync();
+    await b.engine.sync();
+
+    clock.advance();
+    a.edit((current) => current.map((m) => ({ ...m, quizResults: [result(1, 7)] })));
+    clock.advance();
+    b.edit((current) => current.map((m) => ({ ...m, suggestedTitle: "Neu", quizResults: [result(2, 9)] })));
+    await a.engine.sync();
+    await b.engine.sync();
+    await a.engine.sync();
+
+    for (const device of [a, b]) {
+      const [synced] = device.materials();
+      expect(synced.suggestedTitle).toBe("Neu");
+      expect(synced.quizResults?.map((r) => r.correctAnswers)).toEqual([7, 9]);
+    }
+  });
+
+  it("queues edits while offline and pushes them once back online", async () => {
+    const { a, b, server } = setup();
+    server.setOnline(false);
+    a.edit(() => [createMaterial("m1")]);
+    await a.engine.sync();
+
+    expect(a.statuses.at(-1)).toBe("offline");
+    expect(a.state().records.m1.dirty).toBe(true);
+
+    server.setOnline(true);
+    await a.engine.sync();
+    await b.engine.sync();
+    expect(a.state().records.m1.dirty).toBe(false);
+    expect(b.materials().map((m) => m.id)).toEqual(["m1"]);
+  });
+
+  it("deletes on other devices and does not bring deleted materials back", async () => {
+    const { a, b, clock } = setup();
+    a.edit(() => [createMaterial("m1"), createMaterial("m2")]);
+    await a.engine.sync();
+    await b.engine.sync();
+
+    clock.advance();
+    b.edit((current) => current.filter((m) => m.id !== "m1"));
+    await b.engine.sync();
+    await a.engine.sync();
+    await b.engine.sync();
+
+    expect(a.materials().map((m) => m.id)).toEqual(["m2"]);
+    expect(b.materials().map((m) => m.id)).toEqual(["m2"]);
+  });
+
+  it("does not sync materials that are still being generated", async () => {
+    const { a, server } = setup();
+    a.edit(() => [createMaterial("m1", { processingStatus: "processing" })]);
+    await a.engine.sync();
+    expect(server.records.size).toBe(0);
+  });
+
+  it("asks before uploading materials that were on the device before and keeps declined ones local", async () => {
+    const { clock, server } = setup();
+    const confirmUpload = vi.fn(async () => false);
+    const device = createDevice(server.api, clock, { library: [createMaterial("m1"), createMaterial("m2")], confirmUpload });
+    await device.engine.sync();
+
+    expect(confirmUpload).toHaveBeenCalledWith([createMaterial("m1"), createMaterial("m2")]);
+    expect(server.records.size).toBe(0);
+
+    device.edit((current) => [...current.map((m) => ({ ...m, suggestedTitle: "Neu" })), createMaterial("m3")]);
+    await device.engine.sync();
+    expect(confirmUpload).toHaveBeenCalledTimes(1);
+    expect([...server.records.keys()]).toEqual(["m3"]);
+
+    const other = createDevice(server.api, clock, { library: [createMaterial("m4")], confirmUpload: async () => true });
+    await other.engine.sync();
+    expect(other.materials().map((m) => m.id)).toEqual(["m4", "m3"]);
+    expect([...server.records.keys()]).toEqual(["m3", "m4"]);
+  });
+});
+
+describe("mergeMaterial", () => {
+  it("lets a later edit win over an earlier deletion", () => {
+    const remote: RemoteMaterialRecord = { id: "m1", revision: 2, updatedAt: 100, deleted: true };
+    expect(mergeMaterial(createMaterial("m1"), 200, remote)).toMatchObject({ needsPush: true, updatedAt: 200 });
+    expect(mergeMaterial(createMaterial("m1"), 50, remote).material).toBeUndefined();
+  });
+});
@@ -0,0 +1,321 @@
+import type { QuizResult, UploadedMaterial } from "./types";
+
+// Sync of the material library between devices. Every material is a record with a server
+// revision number. Local edits are queued (and persisted, so they survive going offline or
+// closing the tab) until the server accepted them; a push based on an outdated revision is
+// rejected with the server's copy, merged, and pushed again. Merging keeps the most recently
+// changed copy of the material, except for quiz results, which are combined from both.
+// Materials that were in the local library before (another user's, or ones added while signed
+// out) are only uploaded when the user agrees; declined ones stay on this device.
+
+export type SyncStatus = "idle" | "syncing" | "offline" | "error";
+
+export interface RemoteMaterialRecord {
+  id: string;
+  revision: number;
+  // Time of the change on the device that made it
+  updatedAt: number;
+  deleted: boolean;
+  material?: UploadedMaterial;
+}
+
+export interface MaterialChange {
+  id: string;
+  // Revision the change is based on; 0 for records the server has not seen yet
+  baseRevision: number;
+  updatedAt: number;
+  deleted: boolean;
+  material?: UploadedMaterial;
+}
+
+export type PushResult =
+  | { id: string; status: "applied"; revision: number }
+  | { id: string; status: "conflict"; record: RemoteMaterialRecord };
+
+export interface SyncApi {
+  // Records changed after the given cursor, and the cursor to continue from
+  pull(since: number): Promise<{ records: RemoteMaterialRecord[]; cursor: number }>;
+  push(changes: MaterialChange[]): Promise<PushResult[]>;
+}
+
+interface TrackedRecord {
+  revision: number;
+  updatedAt: number;
+  // Changed locally and not yet accepted by the server
+  dirty: boolean;
+  // Kept as a tombstone, so a copy still in the local library is not taken for a new material
+  deleted?: boolean;
+  // Kept on this device only: the user declined to upload it to the account
+  localOnly?: boolean;
+}
+
+export interface SyncState {
+  cursor: number;
+  records: Record<string, TrackedRecord>;
+  lastSyncedAt?: number;
+}
+
+export interface RemoteUpdate {
+  put: UploadedMaterial[];
+  remove: string[];
+}
+
+export interface SyncEngineOptions {
+  api: SyncApi;
+  loadState: () => SyncState;
+  saveState: (state: SyncState) => void;
+  // Current local library
+  getMaterials: () => UploadedMaterial[];
+  // Apply records that came from the server to the local library
+  applyRemote: (update: RemoteUpdate) => void;
+  // Asked before local materials the account does not track yet are uploaded; uploads when omitted
+  confirmUpload?: (materials: UploadedMaterial[]) => Promise<boolean>;
+  onStatus?: (status: SyncStatus) => void;
+  now?: () => number;
+}
+
+// Conflicts can repeat while another device keeps writing; give up for this round after that
+const MAX_PUSH_ROUNDS = 3;
+
+export function createSyncState(): SyncState {
+  return { cursor: 0, records: {} };
+}
+
+// Materials still being generated change with every stage; they are synced once they settle
+export function isSyncable(material: UploadedMaterial): boolean {
+  return material.processingStatus !== "pending" && material.processingStatus !== "processing";
+}
+
+const quizResultKey = (result: QuizResult) =>
+  result.id ?? `${new Date(result.timestamp).getTime()}:${result.correctAnswers}/${result.totalQuestions}`;
+
+export function mergeQuizResults(a: QuizResult[] = [], b: QuizResult[] = []): QuizResult[] {
+  const byKey = new Map([...a, ...b].map((result) => [quizResultKey(result), result]));
+  return [...byKey.values()].sort((x, y) => new Date(x.timestamp).getTime() - new Date(y.timestamp).getTime());
+}
+
+// Merge a local copy with the server's. Returns the merged material (undefined when the
+// deletion wins) and whether it differs from the server's copy and has to be pushed.
+export function mergeMaterial(
+  local: UploadedMaterial | undefined,
+  localUpdatedAt: number,
+  remote: RemoteMaterialRecord
+): { material?: UploadedMaterial; updatedAt: number; needsPush: boolean } {
+  const updatedAt = Math.max(localUpdatedAt, remote.updatedAt);
+  const localWins = localUpdatedAt > remote.updatedAt;
+
+  if (!local) {
+    // Deleted here: the deletion stands unless the other device edited it afterwards
+    return localWins || remote.deleted
+      ? { material: undefined, updatedAt, needsPush: localWins && !remote.deleted }
+      : { material: remote.material, updatedAt: remote.updatedAt, needsPush: false };
+  }
+  if (remote.deleted || !remote.material) {
+    return localWins ? { material: local, updatedAt, needsPush: true } : { material: undefined, updatedAt, needsPush: false };
+  }
+
+  const base = localWins ? local : remote.material;
+  const quizResults = mergeQuizResults(local.quizResults, remote.material.quizResults);
+  const addsResults = quizResults.length > (remote.material.quizResults?.length ?? 0);
+  return {
+    material: { ...base, quizResults: quizResults.length > 0 ? quizResults : undefined },
+    updatedAt,
+    needsPush: localWins || addsResults,
+  };
+}
+
+export function createSyncEngine({
+  api,
+  loadState,
+  saveState,
+  getMaterials,
+  applyRemote,
+  confirmUpload,
+  onStatus,
+  now = Date.now,
+}: SyncEngineOptions) {
+  const state = loadState();
+  // Materials as last received from the server, so applying them is not mistaken for a local edit
+  const applied = new Map<string, UploadedMaterial>();
+  let running: Promise<void> | null = null;
+  let rerun = false;
+
+  const persist = () => saveState(state);
+
+  const apply = (update: RemoteUpdate) => {
+    if (update.put.length === 0 && update.remove.length === 0) return;
+    update.put.forEach((material) => applied.set(material.id, material));
+    update.remove.forEach((id) => applied.delete(id));
+    applyRemote(update);
+  };
+
+  // Queue local edits and deletions for the next push
+  const trackChanges = (next: UploadedMaterial[], previous: UploadedMaterial[]) => {
+    const previousById = new Map(previous.map((m) => [m.id, m]));
+    const nextIds = new Set(next.map((m) => m.id));
+    let changed = false;
+
+    for (const material of next) {
+      if (previousById.get(material.id) === material || applied.get(material.id) === material) continue;
+      if (!isSyncable(material)) continue;
+      const tracked = state.records[material.id];
+      if (tracked?.localOnly) continue;
+      state.records[material.id] = { revision: tracked?.revision ?? 0, updatedAt: now(), dirty: true };
+      changed = true;
+    }
+    for (const { id } of previous) {
+      if (nextIds.has(id)) continue;
+      const tracked = state.records[id];
+      applied.delete(id);
+      if (tracked?.deleted) {
+        // Removed because it was deleted on another device
+        continue;
+      }
+      if (!tracked?.revision) {
+        // Never reached the server, nothing to delete there
+        delete state.records[id];
+      } else {
+        state.records[id] = { ...tracked, updatedAt: now(), dirty: true, deleted: true };
+      }
+      changed = true;
+    }
+
+    if (changed) persist();
+    return changed;
+  };
+
+  // Resolve a server copy against the local state of the same record
+  const resolve = (record: RemoteMaterialRecord, update: RemoteUpdate, local: Map<string, UploadedMaterial>) => {
+    const tracked = state.records[record.id];
+    const material = local.get(record.id);
+
+    if (material && !isSyncable(material)) {
+      // Still being generated here; the local result is merged when it is pushed
+      return;
+    }
+    if (!tracked?.dirty) {
+      if (record.deleted) {
+        if (material) update.remove.push(record.id);
+        state.records[record.id] = { revision: record.revision, updatedAt: record.updatedAt, dirty: false, deleted: true };
+      } else if (record.material) {
+        update.put.push(record.material);
+        state.records[record.id] = { revision: record.revision, updatedAt: record.updatedAt, dirty: false };
+      }
+      return;
+    }
+
+    const merged = mergeMaterial(tracked.deleted ? undefined : material, tracked.updatedAt, record);
+    if (merged.material) {
+      if (merged.material !== material) update.put.push(merged.material);
+    } else if (material) {
+      update.remove.push(record.id);
+    }
+    state.records[record.id] = {
+      revision: record.revision,
+      updatedAt: merged.updatedAt,
+      dirty: merged.needsPush,
+      deleted: !merged.material || undefined,
+    };
+  };
+
+  const localById = () => new Map(getMaterials().map((m) => [m.id, m]));
+
+  const pull = async () => {
+    const { records, cursor } = await api.pull(state.cursor);
+    const local = localById();
+    const update: RemoteUpdate = { put: [], remove: [] };
+    records.forEach((record) => resolve(record, update, local));
+    state.cursor = cursor;
+    apply(update);
+    persist();
+  };
+
+  const push = async () => {
+    for (let round = 0; round < MAX_PUSH_ROUNDS; round++) {
+      const local = localById();
+      const changes: MaterialChange[] = Object.entries(state.records)
+        .filter(([, tracked]) => tracked.dirty)
+        .flatMap(([id, tracked]): MaterialChange[] => {
+          if (tracked.deleted) {
+            return [{ id, baseRevision: tracked.revision, updatedAt: tracked.updatedAt, deleted: true }];
+          }
+          const material = local.get(id);
+          if (!material || !isSyncable(material)) return [];
+          return [{ id, baseRevision: tracked.revision, updatedAt: tracked.updatedAt, deleted: false, material }];
+        });
+      if (changes.length === 0) return;
+
+      const results = await api.push(changes);
+      const update: RemoteUpdate = { put: [], remove: [] };
+      for (const result of results) {
+        if (result.status === "applied") {
+          const tracked = state.records[result.id];
+          if (tracked) {
+            state.records[result.id] = { ...tracked, revision: result.revision, dirty: false };
+          }
+        } else {
+          resolve(result.record, update, local);
+        }
+      }
+      apply(update);
+      persist();
+    }
+  };
+
+  // Materials in the local library that were never synced with this account
+  const adoptUntracked = async () => {
+    const untracked = getMaterials().filter((m) => !state.records[m.id] && isSyncable(m));
+    if (untracked.length === 0) return;
+    const upload = confirmUpload ? await confirmUpload(untracked) : true;
+    // Edits while the user was asked are covered by the answer; deleted materials are skipped
+    const current = new Set(getMaterials().map((m) => m.id));
+    for (const { id } of untracked) {
+      if (!current.has(id)) continue;
+      state.records[id] = upload
+        ? { revision: 0, updatedAt: now(), dirty: true }
+        : { revision: 0, updatedAt: now(), dirty: false, localOnly: true };
+    }
+    persist();
+  };
+
+  const run = async () => {
+    onStatus?.("syncing");
+    try {
+      await adoptUntracked();
+      await pull();
+      await push();
+      state.lastSyncedAt = now();
+      persist();
+      onStatus?.("idle");
+    } catch (error) {
+      // fetch rejects with a TypeError when the network is unreachable
+      const offline = error instanceof TypeError || (typeof navigator !== "undefined" && !navigator.onLine);
+      if (!offline) console.error("Sync failed:", error);
+      onStatus?.(offline ? "offline" : "error");
+    }
+  };
+
+  // Pull and push; calls during a running sync are folded into one follow-up run
+  const sync = (): Promise<void> => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        rerun = false;
+        await run();
+      } while (rerun);
+      running = null;
+    })();
+    return running;
+  };
+
+  return {
+    trackChanges,
+    sync,
+    getLastSyncedAt: () => state.lastSyncedAt,
+  };
+}
+
+export type SyncEngine = ReturnType<typeof createSyncEngine>;
@@ -0,0 +1,23 @@
+// Fixtures shared by the tests in lib
+import type { UploadedMaterial } from "./types";
+
+// Chat completion as returned by the mutation of the GPT chat hook
+export const reply = (content: string) => ({
+  content,
+  id: "test",
+  model: "test",
+  usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+  finishReason: "stop" as const,
+});
+
+// Processed material without content, named after its id
+export const createMaterial = (id: string, patch: Partial<UploadedMaterial> = {}): UploadedMaterial => ({
+  id,
+  fileName: `${id}.pdf`,
+  fileType: "application/pdf",
+  fileUrl: "",
+  uploadedAt: new Date(0),
+  extractedText: "",
+  processingStatus: "completed",
+  ...patch,
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from "vitest";
+import { askTutor, retrievePassages } from "./tutor";
+import { createMaterial, reply } from "./test-helpers";
+import type { TutorMessage } from "./types";
+
+const filler = (topic: string) => `${topic} ${"is covered in this chapter of the lecture notes. ".repeat(30)}`.trim();
+
+const extractedText = [
+  filler("Cells"),
+  "The chain rule differentiates composed functions: the derivative of f(g(x)) is f'(g(x)) times g'(x).",
+  filler("Photosynthesis"),
+  filler("Mitochondria"),
+].join("\n\n");
+
+const material = createMaterial("m1", { fileName: "notes.pdf", extractedText, detectedLanguage: "English" });
+
+describe("retrievePassages", () => {
+  it("ranks passages by the rare words they share with the query", () => {
+    const [passage] = retrievePassages(extractedText, "Why does the chain rule multiply derivatives?", 1);
+    expect(passage.text).toContain("chain rule");
+  });
+
+  it("returns the passages in document order", () => {
+    const passages = retrievePassages(extractedText, "mitochondria and cells", 2);
+    expect(passages.map((passage) => passage.text.split(" ")[0])).toEqual(["Cells", "Mitochondria"]);
+  });
+});
+
+describe("askTutor", () => {
+  it("sends the history and cites the quoted passages", async () => {
+    const complete = vi.fn().mockResolvedValue(
+      reply('{"answer": "Because $g$ is applied first.", "sources": ["the derivative of f(g(x)) is f\'(g(x)) times g\'(x)"]}')
+    );
+    const history: TutorMessage[] = [
+      { role: "user", content: "What is the chain rule?", timestamp: new Date(0) },
+      { role: "assistant", content: "A rule for composed functions.", timestamp: new Date(0) },
+    ];
+
+    const answer = await askTutor(complete, material, history, "Why is this step true?", new Date(1));
+
+    const { messages } = complete.mock.calls[0][0];
+    expect(messages[0].content).toContain("the derivative of f(g(x))");
+    expect(messages.slice(1)).toEqual([
+      { role: "user", content: "What is the chain rule?" },
+      { role: "assistant", content: "A rule for composed functions." },
+      { role: "user", content: "Why is this step true?" },
+    ]);
+    expect(answer).toMatchObject({ role: "assistant", content: "Because $g$ is applied first.", timestamp: new Date(1) });
+    expect(answer.citations).toHaveLength(1);
+    expect(extractedText.slice(answer.citations![0].startOffset, answer.citations![0].endOffset)).toBe(
+      "the derivative of f(g(x)) is f'(g(x)) times g'(x)"
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { getChunkLabel, splitIntoChunks, type TextChunk } from "./chunking";
+import { SOURCES_INSTRUCTION, resolveCitations, sourcesField } from "./citations";
+import { tokenize } from "./search-index";
+import { generateStructured, type ChatCompleter } from "./structured-output";
+import type { TutorMessage, UploadedMaterial } from "./types";
+
+// The tutor answers questions about a single material. For every question the passages of
+// the extracted text that share the most (rare) words with it are retrieved and sent along,
+// and the answer's quotes are resolved against them into citations.
+
+// Passages are small enough that several of them fit into one request
+const PASSAGE_SIZE = 1500;
+const PASSAGE_COUNT = 4;
+// Earlier messages sent along for follow-up questions
+const HISTORY_LENGTH = 10;
+
+const tutorAnswerSchema = z.object({
+  answer: z.string().trim().min(1, "answer must not be empty"),
+  sources: sourcesField,
+});
+
+// The passages most relevant to the query, in document order. Words are weighted by how
+// rare they are across the passages; without any overlap the opening passages are used.
+export function retrievePassages(
+  extractedText: string,
+  query: string,
+  count: number = PASSAGE_COUNT
+): TextChunk[] {
+  const passages = splitIntoChunks(extractedText, PASSAGE_SIZE);
+  const terms = passages.map((passage) => {
+    const counts = new Map<string, number>();
+    tokenize(passage.text).forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+    return counts;
+  });
+  const idf = (token: string) =>
+    Math.log(1 + passages.length / (1 + terms.filter((counts) => counts.has(token)).length));
+
+  const queryTerms = [...new Set(tokenize(query))];
+  const scored = passages.map((passage, idx) => ({
+    passage,
+    score: queryTerms.reduce((sum, token) => {
+      const frequency = terms[idx].get(token) ?? 0;
+      return frequency > 0 ? sum + idf(token) * (1 + Math.log(frequency)) : sum;
+    }, 0),
+  }));
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.passage.index - b.passage.index)
+    .slice(0, count)
+    .map(({ passage }) => passage)
+    .sort((a, b) => a.index - b.index);
+}
+
+// Answer a question about the material, given the conversation so far
+export async function askTutor(
+  complete: ChatCompleter,
+  material: UploadedMaterial,
+  history: TutorMessage[],
+  question: string,
+  now: Date = new Date()
+): Promise<TutorMessage> {
+  const recent = history.slice(-HISTORY_LENGTH);
+  // Follow-ups like "why is this step true?" refer to the previous question
+  const previousQuestion = recent.filter((message) => message.role === "user").at(-1)?.content ?? "";
+  const passages = retrievePassages(material.extractedText, `${question} ${previousQuestion}`);
+  const language = material.detectedLanguage ?? "the language of the question";
+
+  const result = await generateStructured(complete, {
+    artifact: "tutor answer",
+    schema: tutorAnswerSchema,
+    messages: [
+      {
+        role: "system",
+        content: `You are a patient tutor helping a student understand their study material "${material.suggestedTitle ?? material.fileName}". Answer using the passages from the material below; explain steps and reasoning, and say so when the passages do not cover the question instead of making things up. Write formulas in LaTeX between $ signs. ${SOURCES_INSTRUCTION} You MUST respond in ${language}. Return ONLY valid JSON in this exact format: {"answer": "...", "sources": ["..."]}\n\n${passages
+          .map((passage) => `[${getChunkLabel(passage)}]\n${passage.text}`)
+          .join("\n\n---\n\n")}`,
+      },
+      ...recent.map((message) => ({ role: message.role, content: message.content })),
+      { role: "user", content: question },
+    ],
+  });
+
+  return {
+    role: "assistant",
+    content: result.answer,
+    citations: resolveCitations(passages, result.sources),
+    timestamp: now,
+  };
+}
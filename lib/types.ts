@@ -0,0 +1,248 @@
+import type { CardSchedule } from "@/lib/spaced-repetition";
+
+// Types for learning content
+export type LessonLength = "short" | "normal" | "long";
+
+// Passage of the extracted text that generated content is based on. Offsets index into
+// the material's extractedText. Content generated with sources that could not be found in
+// the text has an empty list; content from before citations existed has none.
+export interface SourceCitation {
+  startOffset: number;
+  endOffset: number;
+  page?: number;
+  quote: string;
+  // Web page of the supplementary source the passage comes from; absent for the original material
+  sourceUrl?: string;
+}
+
+export interface MicroLesson {
+  title: string;
+  content: string;
+  citations?: SourceCitation[];
+}
+
+export type QuizQuestionType =
+  | "multipleChoice"
+  | "trueFalse"
+  | "multiSelect"
+  | "cloze"
+  | "ordering"
+  | "matching"
+  | "numeric"
+  | "freeText";
+
+interface QuizQuestionBase {
+  question: string;
+  explanation?: string;
+  // Key concept the question tests, used to track mastery per concept
+  concept?: string;
+  citations?: SourceCitation[];
+}
+
+// Questions saved before other question types existed have no type
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type?: "multipleChoice";
+  options: string[];
+  correctAnswer: number;
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: "trueFalse";
+  correctAnswer: boolean;
+}
+
+export interface MultiSelectQuestion extends QuizQuestionBase {
+  type: "multiSelect";
+  options: string[];
+  correctAnswers: number[];
+}
+
+// The question text contains one "___" per blank; each blank lists its accepted answers
+export interface ClozeQuestion extends QuizQuestionBase {
+  type: "cloze";
+  blanks: string[][];
+}
+
+// Items in the correct order; they are shuffled for display
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: "ordering";
+  items: string[];
+}
+
+export interface MatchingQuestion extends QuizQuestionBase {
+  type: "matching";
+  pairs: { left: string; right: string }[];
+}
+
+export interface NumericQuestion extends QuizQuestionBase {
+  type: "numeric";
+  answer: number;
+  // Largest accepted difference from the answer
+  tolerance: number;
+  unit?: string;
+}
+
+// Answered in the learner's own words and graded by the model
+export interface FreeTextQuestion extends QuizQuestionBase {
+  type: "freeText";
+  referenceAnswer: string;
+  // Key points a complete answer covers
+  rubric: string[];
+}
+
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | TrueFalseQuestion
+  | MultiSelectQuestion
+  | ClozeQuestion
+  | OrderingQuestion
+  | MatchingQuestion
+  | NumericQuestion
+  | FreeTextQuestion;
+
+// The model's assessment of a free-text answer
+export interface FreeTextGrade {
+  // 0-100
+  score: number;
+  feedback: string;
+  // Rubric points the answer misses or gets wrong
+  missingPoints: string[];
+}
+
+// The learner's response per question type
+export interface QuizResponseMap {
+  // Chosen option
+  multipleChoice: number;
+  trueFalse: boolean;
+  // Chosen options
+  multiSelect: number[];
+  // Text per blank
+  cloze: string[];
+  // Item indices in the chosen order
+  ordering: number[];
+  // Chosen right side (pair index) per left side
+  matching: (number | null)[];
+  // Number as typed
+  numeric: string;
+  // Answer text, with the grade once it has been checked
+  freeText: { text: string; grade?: FreeTextGrade };
+}
+
+export type QuizResponse = QuizResponseMap[QuizQuestionType];
+
+export interface Flashcard {
+  front: string;
+  back: string;
+  citations?: SourceCitation[];
+  schedule?: CardSchedule;
+}
+
+// How much of one source chunk made it into the generated content
+export interface ChunkCoverage {
+  chunkIndex: number;
+  label: string;
+  charCount: number;
+  lessons: number;
+  quizQuestions: number;
+  flashcards: number;
+  status: "completed" | "error";
+  error?: string;
+}
+
+export interface LearningContent {
+  microLessons: MicroLesson[];
+  quizQuestions: QuizQuestion[];
+  summary: string;
+  flashcards: Flashcard[];
+  detectedLanguage: string;
+  coverage?: ChunkCoverage[];
+}
+
+// One answered question of a quiz attempt
+export interface QuizAnswer {
+  // Response, or null when the question was left unanswered
+  selected: QuizResponse | null;
+  // Time spent on the question
+  timeMs: number;
+}
+
+// "practice" quizzes target weak concepts and "exam" results are this material's share of a
+// timed exam; results without a mode come from the regular quiz
+export type QuizMode = "standard" | "practice" | "exam";
+
+// A finished quiz attempt. Results saved by earlier versions only have the score; newer
+// attempts keep the question set they were taken on, so they can still be reviewed after
+// the material's questions were regenerated.
+export interface QuizResult {
+  id?: string;
+  mode?: QuizMode;
+  // Exam the result belongs to, shared by the results of all materials in it
+  examId?: string;
+  timestamp: Date;
+  totalQuestions: number;
+  correctAnswers: number;
+  percentage: number;
+  questions?: QuizQuestion[];
+  answers?: QuizAnswer[];
+}
+
+// One message of a material's tutor chat; answers cite the passages they are based on
+export interface TutorMessage {
+  role: "user" | "assistant";
+  content: string;
+  citations?: SourceCitation[];
+  timestamp: Date;
+}
+
+// Processing stages. Upload, extraction and analysis run in order; the four artifact stages
+// run concurrently afterwards. Each finished stage is persisted so processing can resume.
+export type PipelineStage =
+  | "uploaded"
+  | "textExtracted"
+  | "analyzed"
+  | "lessons"
+  | "quiz"
+  | "summary"
+  | "flashcards";
+
+export interface PipelineState {
+  lessonLength: LessonLength;
+  completedStages: PipelineStage[];
+  failedStages?: PipelineStage[];
+  // Content produced by the finished stages
+  draft: Partial<LearningContent>;
+}
+
+// Notion page a material was last exported to, and its row in the quiz results database
+// there; exporting again updates both instead of creating new ones
+export interface NotionExport {
+  parentId: string;
+  pageId: string;
+  pageUrl?: string;
+  databaseId: string;
+  rowId: string;
+  exportedAt: Date;
+}
+
+export interface UploadedMaterial {
+  id: string;
+  fileName: string;
+  fileType: string;
+  fileUrl: string;
+  // Web page or site the material was imported from
+  sourceUrl?: string;
+  uploadedAt: Date;
+  extractedText: string;
+  detectedLanguage?: string;
+  suggestedTitle?: string;
+  thematicCategory?: string;
+  // Lesson length picked at upload, reused when the content is generated again
+  lessonLength?: LessonLength;
+  content?: LearningContent;
+  processingStatus: "pending" | "processing" | "completed" | "error" | "interrupted";
+  error?: string;
+  pipeline?: PipelineState;
+  quizResults?: QuizResult[];
+  tutorChat?: TutorMessage[];
+  notionExport?: NotionExport;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { createQueueItem, planQueue, type QueueItem } from "./upload-queue";
+import { createMaterial } from "./test-helpers";
+import type { PipelineStage } from "./types";
+
+const item = (id: string, status: QueueItem["status"] = "queued", completedStages: PipelineStage[] = []): QueueItem => {
+  const material = createMaterial(id, {
+    processingStatus: "pending",
+    pipeline: { lessonLength: "normal", completedStages, draft: {} },
+  });
+  return { ...createQueueItem(material), status };
+};
+
+describe("planQueue", () => {
+  it("starts queued items up to the concurrency limit", () => {
+    const plan = planQueue([item("a", "processing"), item("b"), item("c")], Infinity);
+    expect(plan.start.map((i) => i.materialId)).toEqual(["b"]);
+  });
+
+  it("holds back new uploads over the quota but resumes started ones", () => {
+    const plan = planQueue([item("a"), item("b", "queued", ["uploaded"])], 0);
+    expect(plan.start.map((i) => i.materialId)).toEqual(["b"]);
+    expect(plan.wait.map((i) => i.materialId)).toEqual(["a"]);
+    expect(plan.quotaUsed).toBe(0);
+  });
+
+  it("releases items waiting for quota once uploads are available again", () => {
+    const plan = planQueue([item("a", "waitingForQuota"), item("b", "waitingForQuota")], 1);
+    expect(plan.start.map((i) => i.materialId)).toEqual(["a"]);
+    expect(plan.wait).toEqual([]);
+    expect(plan.quotaUsed).toBe(1);
+  });
+});
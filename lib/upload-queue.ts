@@ -0,0 +1,76 @@
+import type { UploadedMaterial } from "@/lib/types";
+
+// Batch processing queue. Every queued file already has a material in the library; the
+// queue decides when its pipeline runs, with at most UPLOAD_CONCURRENCY materials at once.
+
+export const UPLOAD_CONCURRENCY = 2;
+
+export type QueueItemStatus =
+  | "queued"
+  // Over the free daily upload limit; starts once the quota allows it
+  | "waitingForQuota"
+  | "processing"
+  | "paused"
+  | "completed"
+  | "error";
+
+export interface QueueItem {
+  materialId: string;
+  fileName: string;
+  status: QueueItemStatus;
+  // Snapshot the pipeline starts or resumes from
+  material: UploadedMaterial;
+  error?: string;
+  // Set once the item was counted against the daily quota, so pausing and resuming is free
+  quotaCounted?: boolean;
+}
+
+export function createQueueItem(material: UploadedMaterial): QueueItem {
+  return { materialId: material.id, fileName: material.fileName, status: "queued", material };
+}
+
+// A material counts against the daily quota when its processing starts for the first time
+export function needsQuota(item: QueueItem): boolean {
+  return !item.quotaCounted && (item.material.pipeline?.completedStages.length ?? 0) === 0;
+}
+
+export interface QueuePlan {
+  start: QueueItem[];
+  wait: QueueItem[];
+  // Uploads counted against the quota by this plan
+  quotaUsed: number;
+}
+
+// Decide which waiting items start now, given free slots and the remaining daily quota
+export function planQueue(queue: QueueItem[], remainingQuota: number): QueuePlan {
+  const running = queue.filter((item) => item.status === "processing").length;
+  let slots = UPLOAD_CONCURRENCY - running;
+  let quota = remainingQuota;
+  const plan: QueuePlan = { start: [], wait: [], quotaUsed: 0 };
+
+  for (const item of queue) {
+    if (slots <= 0) break;
+    if (item.status !== "queued" && item.status !== "waitingForQuota") continue;
+
+    if (needsQuota(item)) {
+      if (quota <= 0) {
+        if (item.status !== "waitingForQuota") plan.wait.push(item);
+        continue;
+      }
+      quota--;
+      plan.quotaUsed++;
+    }
+    plan.start.push(item);
+    slots--;
+  }
+
+  return plan;
+}
+
+export function summarizeQueue(queue: QueueItem[]): { total: number; finished: number; active: number } {
+  return {
+    total: queue.length,
+    finished: queue.filter((item) => item.status === "completed" || item.status === "error").length,
+    active: queue.filter((item) => item.status === "processing" || item.status === "queued").length,
+  };
+}
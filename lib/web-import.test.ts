@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { PAGE_BREAK } from "./chunking";
+import { createFirecrawlClient, FirecrawlError } from "./firecrawl";
+import { createFirecrawlStub } from "./firecrawl-stub";
+import { importFromWeb, normalizeUrl, parsePathPatterns, toMarkdown, toMarkdownFile } from "./web-import";
+
+const pages = {
+  "https://docs.example.com/guide": { title: "Guide", markdown: "# Guide\n\nStart here." },
+  "https://docs.example.com/guide/install": { title: "Install", markdown: "Run the installer." },
+  "https://docs.example.com/guide/api/v1": { title: "Old API", markdown: "Deprecated." },
+  "https://docs.example.com/blog/news": { title: "News", markdown: "Not part of the guide." },
+};
+
+const noSleep = async () => {};
+
+describe("importFromWeb", () => {
+  it("scrapes a single page to markdown", async () => {
+    const stub = createFirecrawlStub({ pages });
+    const result = await importFromWeb(createFirecrawlClient(stub.call), {
+      mode: "page",
+      url: "docs.example.com/guide",
+    });
+
+    expect(stub.calls[0]).toMatchObject({ tool: "FIRECRAWL_SCRAPE", args: { url: "https://docs.example.com/guide" } });
+    expect(result).toEqual({
+      url: "https://docs.example.com/guide",
+      title: "Guide",
+      pages: [{ url: "https://docs.example.com/guide", title: "Guide", markdown: "# Guide\n\nStart here." }],
+    });
+  });
+
+  it("reports errors of the server", async () => {
+    const stub = createFirecrawlStub({ pages });
+    const result = importFromWeb(createFirecrawlClient(stub.call), { mode: "page", url: "https://docs.example.com/x" });
+    await expect(result).rejects.toThrow(FirecrawlError);
+    await expect(result).rejects.toThrow("404 Not Found");
+  });
+
+  it("crawls a site with path filters and polls until the job completes", async () => {
+    const stub = createFirecrawlStub({ pages, pollsUntilDone: 3 });
+    const progress: number[] = [];
+    const result = await importFromWeb(
+      createFirecrawlClient(stub.call),
+      { mode: "site", url: "https://docs.example.com/guide", includePaths: ["^/guide"], excludePaths: ["/api/"] },
+      { sleep: noSleep, onProgress: ({ completed }) => progress.push(completed) }
+    );
+
+    expect(stub.calls[0].args).toMatchObject({ includePaths: ["^/guide"], excludePaths: ["/api/"], limit: 10 });
+    expect(stub.calls.filter((call) => call.tool === "FIRECRAWL_GET_THE_STATUS_OF_A_CRAWL_JOB")).toHaveLength(3);
+    expect(progress).toEqual([1, 2, 2]);
+    expect(result.title).toBe("Guide");
+    expect(result.pages.map((page) => page.title)).toEqual(["Guide", "Install"]);
+  });
+
+  it("cancels the crawl job when the import is aborted", async () => {
+    const stub = createFirecrawlStub({ pages, pollsUntilDone: 5 });
+    const controller = new AbortController();
+    const result = importFromWeb(
+      createFirecrawlClient(stub.call),
+      { mode: "site", url: "https://docs.example.com/guide" },
+      { sleep: async () => controller.abort(), signal: controller.signal }
+    );
+
+    await expect(result).rejects.toThrow();
+    expect(stub.calls.at(-1)).toMatchObject({ tool: "FIRECRAWL_CANCEL_A_CRAWL_JOB", args: { id: "crawl-1" } });
+  });
+
+  it("stops waiting for the next poll when aborted before the wait starts", async () => {
+    const stub = createFirecrawlStub({ pages, pollsUntilDone: 5 });
+    const controller = new AbortController();
+    const result = importFromWeb(
+      createFirecrawlClient(stub.call),
+      { mode: "site", url: "https://docs.example.com/guide" },
+      { onProgress: () => controller.abort(), signal: controller.signal, pollIntervalMs: 60_000 }
+    );
+
+    await expect(result).rejects.toMatchObject({ name: "AbortError" });
+    expect(stub.calls.at(-1)?.tool).toBe("FIRECRAWL_CANCEL_A_CRAWL_JOB");
+  });
+
+  it("gives up on crawls that take too long", async () => {
+    const stub = createFirecrawlStub({ pages, pollsUntilDone: 100 });
+    let time = 0;
+    const now = () => {
+      time += 60_000;
+      return time;
+    };
+    const result = importFromWeb(
+      createFirecrawlClient(stub.call),
+      { mode: "site", url: "https://docs.example.com/guide" },
+      { sleep: noSleep, now, timeoutMs: 120_000 }
+    );
+
+    await expect(result).rejects.toThrow("taking too long");
+    expect(stub.calls.at(-1)?.tool).toBe("FIRECRAWL_CANCEL_A_CRAWL_JOB");
+  });
+});
+
+describe("web import input", () => {
+  it("validates addresses and path patterns", () => {
+    expect(normalizeUrl(" example.com/docs ")).toBe("https://example.com/docs");
+    expect(() => normalizeUrl("ftp://example.com")).toThrow("Only http and https");
+    expect(() => normalizeUrl("not a url")).toThrow("valid web address");
+    expect(parsePathPatterns("^/docs, /guide/.*\n\n")).toEqual(["^/docs", "/guide/.*"]);
+    expect(() => parsePathPatterns("/docs/(")).toThrow("not a valid path pattern");
+  });
+
+  it("turns the pages into a markdown file with one page per web page", () => {
+    const webImport = {
+      url: "https://docs.example.com/guide",
+      title: "Guide: Setup",
+      pages: [
+        { url: "https://docs.example.com/guide", title: "Guide", markdown: "Start here." },
+        { url: "https://docs.example.com/guide/install", markdown: "Run the installer." },
+      ],
+    };
+    const file = toMarkdownFile(webImport);
+
+    expect(file.name).toBe("Guide Setup.md");
+    expect(file.type).toBe("text/markdown");
+    expect(toMarkdown(webImport).split(PAGE_BREAK)).toEqual([
+      "# Guide\n\nSource: https://docs.example.com/guide\n\nStart here.\n\n",
+      "# docs.example.com/guide/install\n\nSource: https://docs.example.com/guide/install\n\nRun the installer.",
+    ]);
+  });
+});
@@ -0,0 +1,163 @@
+import { PAGE_BREAK } from "./chunking";
+import { FirecrawlError, type CrawlOptions, type FirecrawlClient, type FirecrawlPage } from "./firecrawl";
+
+// Materials from the web: a single page is scraped to markdown, a documentation site is
+// crawled as a background job that is polled until it finishes. The pages become one
+// markdown file with a page break between pages, which is then queued like an upload, so
+// it goes through the normal pipeline and citations point at the crawled pages.
+
+export type WebImportRequest = { mode: "page"; url: string } | ({ mode: "site"; url: string } & CrawlOptions);
+
+export interface WebImport {
+  url: string;
+  title: string;
+  pages: FirecrawlPage[];
+}
+
+export interface WebImportOptions {
+  // Crawled and total pages while a crawl is running
+  onProgress?: (progress: { completed: number; total: number }) => void;
+  // Aborting cancels a running crawl job
+  signal?: AbortSignal;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+  now?: () => number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+export const DEFAULT_CRAWL_LIMIT = 10;
+const POLL_INTERVAL_MS = 3000;
+const CRAWL_TIMEOUT_MS = 5 * 60_000;
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Absolute http(s) URL of the input; a missing scheme defaults to https
+export function normalizeUrl(input: string): string {
+  const trimmed = input.trim();
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    throw new Error("Please enter a valid web address");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http and https addresses can be imported");
+  }
+  return url.toString();
+}
+
+// Path patterns entered one per line or separated by commas; each must be a valid regular expression
+export function parsePathPatterns(input: string): string[] {
+  const patterns = input
+    .split(/[\n,]/)
+    .map((pattern) => pattern.trim())
+    .filter(Boolean);
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new Error(`"${pattern}" is not a valid path pattern`);
+    }
+  }
+  return patterns;
+}
+
+const describeUrl = (url: string) => {
+  const { hostname, pathname } = new URL(url);
+  return `${hostname}${pathname === "/" ? "" : pathname.replace(/\/$/, "")}`;
+};
+
+async function crawlSite(
+  client: FirecrawlClient,
+  url: string,
+  crawl: CrawlOptions,
+  {
+    onProgress,
+    signal,
+    pollIntervalMs = POLL_INTERVAL_MS,
+    timeoutMs = CRAWL_TIMEOUT_MS,
+    now = Date.now,
+    sleep = wait,
+  }: WebImportOptions
+): Promise<FirecrawlPage[]> {
+  const id = await client.startCrawl(url, { limit: DEFAULT_CRAWL_LIMIT, ...crawl });
+  const startedAt = now();
+  // Stop the job on the server too when the import is given up here
+  const cancel = () => client.cancelCrawl(id).catch((e) => console.error("Failed to cancel crawl:", e));
+  const tool = "FIRECRAWL_GET_THE_STATUS_OF_A_CRAWL_JOB";
+
+  for (;;) {
+    if (signal?.aborted) {
+      await cancel();
+      signal.throwIfAborted();
+    }
+    const job = await client.getCrawlStatus(id);
+    onProgress?.({ completed: job.completed, total: job.total });
+
+    if (job.status === "completed") return job.pages;
+    if (job.status === "failed") throw new FirecrawlError(tool, "The crawl failed");
+    if (job.status === "cancelled") throw new FirecrawlError(tool, "The crawl was cancelled");
+    if (now() - startedAt > timeoutMs) {
+      await cancel();
+      throw new FirecrawlError(tool, "The crawl is taking too long. Try fewer pages.");
+    }
+    try {
+      await sleep(pollIntervalMs, signal);
+    } catch (error) {
+      await cancel();
+      throw error;
+    }
+  }
+}
+
+export async function importFromWeb(
+  client: FirecrawlClient,
+  request: WebImportRequest,
+  options: WebImportOptions = {}
+): Promise<WebImport> {
+  const url = normalizeUrl(request.url);
+
+  if (request.mode === "page") {
+    const page = await client.scrape(url);
+    return { url, title: page.title ?? describeUrl(url), pages: [page] };
+  }
+
+  const { mode: _mode, url: _url, ...crawl } = request;
+  const pages = await crawlSite(client, url, crawl, options);
+  if (pages.length === 0) {
+    throw new FirecrawlError("FIRECRAWL_CRAWL", "No readable pages were found on this site");
+  }
+  const start = pages.find((page) => page.url.replace(/\/$/, "") === url.replace(/\/$/, ""));
+  return { url, title: start?.title ?? describeUrl(url), pages };
+}
+
+// The pages as markdown, separated by page breaks
+export function toMarkdown(webImport: WebImport): string {
+  return webImport.pages
+    .map((page) => {
+      const url = page.url || webImport.url;
+      return `# ${page.title ?? describeUrl(url)}\n\nSource: ${url}\n\n${page.markdown}`;
+    })
+    .join(`\n\n${PAGE_BREAK}`);
+}
+
+export function toMarkdownFile(webImport: WebImport): File {
+  const fileName = `${webImport.title.replace(/[\\/:*?"<>|]+/g, " ").replace(/\s+/g, " ").trim().slice(0, 100)}.md`;
+  return new File([toMarkdown(webImport)], fileName, { type: "text/markdown" });
+}
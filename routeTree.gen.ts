@@ -8,81 +8,356 @@
 // You should NOT make any changes in this file as it will be overwritten.
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
-// Import Routes
+import { Route as rootRouteImport } from './routes/__root'
+import { Route as LibraryRouteImport } from './routes/_library'
+import { Route as LibraryIndexRouteImport } from './routes/_library/index'
+import { Route as LibraryExamRouteImport } from './routes/_library/exam'
+import { Route as LibrarySearchRouteImport } from './routes/_library/search'
+import { Route as LibrarySettingsRouteImport } from './routes/_library/settings'
+import { Route as LibraryMaterialsMaterialIdRouteImport } from './routes/_library/materials/$materialId'
+import { Route as LibraryMaterialsMaterialIdIndexRouteImport } from './routes/_library/materials/$materialId/index'
+import { Route as LibraryMaterialsMaterialIdFlashcardsRouteImport } from './routes/_library/materials/$materialId/flashcards'
+import { Route as LibraryMaterialsMaterialIdLessonsRouteImport } from './routes/_library/materials/$materialId/lessons'
+import { Route as LibraryMaterialsMaterialIdQuizRouteImport } from './routes/_library/materials/$materialId/quiz'
+import { Route as LibraryMaterialsMaterialIdSourceRouteImport } from './routes/_library/materials/$materialId/source'
+import { Route as LibraryMaterialsMaterialIdStatsRouteImport } from './routes/_library/materials/$materialId/stats'
+import { Route as LibraryMaterialsMaterialIdSummaryRouteImport } from './routes/_library/materials/$materialId/summary'
+import { Route as LibraryMaterialsMaterialIdTutorRouteImport } from './routes/_library/materials/$materialId/tutor'
 
-import { Route as rootRoute } from './routes/__root'
-import { Route as IndexImport } from './routes/index'
-
-// Create/Update Routes
-
-const IndexRoute = IndexImport.update({
+const LibraryRoute = LibraryRouteImport.update({
+  id: '/_library',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const LibraryIndexRoute = LibraryIndexRouteImport.update({
   id: '/',
   path: '/',
-  getParentRoute: () => rootRoute,
+  getParentRoute: () => LibraryRoute,
+} as any)
+const LibraryExamRoute = LibraryExamRouteImport.update({
+  id: '/exam',
+  path: '/exam',
+  getParentRoute: () => LibraryRoute,
 } as any)
+const LibrarySearchRoute = LibrarySearchRouteImport.update({
+  id: '/search',
+  path: '/search',
+  getParentRoute: () => LibraryRoute,
+} as any)
+const LibrarySettingsRoute = LibrarySettingsRouteImport.update({
+  id: '/settings',
+  path: '/settings',
+  getParentRoute: () => LibraryRoute,
+} as any)
+const LibraryMaterialsMaterialIdRoute =
+  LibraryMaterialsMaterialIdRouteImport.update({
+    id: '/materials/$materialId',
+    path: '/materials/$materialId',
+    getParentRoute: () => LibraryRoute,
+  } as any)
+const LibraryMaterialsMaterialIdIndexRoute =
+  LibraryMaterialsMaterialIdIndexRouteImport.update({
+    id: '/',
+    path: '/',
+    getParentRoute: () => LibraryMaterialsMaterialIdRoute,
+  } as any)
+const LibraryMaterialsMaterialIdFlashcardsRoute =
+  LibraryMaterialsMaterialIdFlashcardsRouteImport.update({
+    id: '/flashcards',
+    path: '/flashcards',
+    getParentRoute: () => LibraryMaterialsMaterialIdRoute,
+  } as any)
+const LibraryMaterialsMaterialIdLessonsRoute =
+  LibraryMaterialsMaterialIdLessonsRouteImport.update({
+    id: '/lessons',
+    path: '/lessons',
+    getParentRoute: () => LibraryMaterialsMaterialIdRoute,
+  } as any)
+const LibraryMaterialsMaterialIdQuizRoute =
+  LibraryMaterialsMaterialIdQuizRouteImport.update({
+    id: '/quiz',
+    path: '/quiz',
+    getParentRoute: () => LibraryMaterialsMaterialIdRoute,
+  } as any)
+const LibraryMaterialsMaterialIdSourceRoute =
+  LibraryMaterialsMaterialIdSourceRouteImport.update({
+    id: '/source',
+    path: '/source',
+    getParentRoute: () => LibraryMaterialsMaterialIdRoute,
+  } as any)
+const LibraryMaterialsMaterialIdStatsRoute =
+  LibraryMaterialsMaterialIdStatsRouteImport.update({
+    id: '/stats',
+    path: '/stats',
+    getParentRoute: () => LibraryMaterialsMaterialIdRoute,
+  } as any)
+const LibraryMaterialsMaterialIdSummaryRoute =
+  LibraryMaterialsMaterialIdSummaryRouteImport.update({
+    id: '/summary',
+    path: '/summary',
+    getParentRoute: () => LibraryMaterialsMaterialIdRoute,
+  } as any)
+const LibraryMaterialsMaterialIdTutorRoute =
+  LibraryMaterialsMaterialIdTutorRouteImport.update({
+    id: '/tutor',
+    path: '/tutor',
+    getParentRoute: () => LibraryMaterialsMaterialIdRoute,
+  } as any)
 
-// Populate the FileRoutesByPath interface
+export interface FileRoutesByFullPath {
+  '/': typeof LibraryIndexRoute
+  '/exam': typeof LibraryExamRoute
+  '/search': typeof LibrarySearchRoute
+  '/settings': typeof LibrarySettingsRoute
+  '/materials/$materialId': typeof LibraryMaterialsMaterialIdRouteWithChildren
+  '/materials/$materialId/flashcards': typeof LibraryMaterialsMaterialIdFlashcardsRoute
+  '/materials/$materialId/lessons': typeof LibraryMaterialsMaterialIdLessonsRoute
+  '/materials/$materialId/quiz': typeof LibraryMaterialsMaterialIdQuizRoute
+  '/materials/$materialId/source': typeof LibraryMaterialsMaterialIdSourceRoute
+  '/materials/$materialId/stats': typeof LibraryMaterialsMaterialIdStatsRoute
+  '/materials/$materialId/summary': typeof LibraryMaterialsMaterialIdSummaryRoute
+  '/materials/$materialId/tutor': typeof LibraryMaterialsMaterialIdTutorRoute
+  '/materials/$materialId/': typeof LibraryMaterialsMaterialIdIndexRoute
+}
+export interface FileRoutesByTo {
+  '/exam': typeof LibraryExamRoute
+  '/search': typeof LibrarySearchRoute
+  '/settings': typeof LibrarySettingsRoute
+  '/': typeof LibraryIndexRoute
+  '/materials/$materialId/flashcards': typeof LibraryMaterialsMaterialIdFlashcardsRoute
+  '/materials/$materialId/lessons': typeof LibraryMaterialsMaterialIdLessonsRoute
+  '/materials/$materialId/quiz': typeof LibraryMaterialsMaterialIdQuizRoute
+  '/materials/$materialId/source': typeof LibraryMaterialsMaterialIdSourceRoute
+  '/materials/$materialId/stats': typeof LibraryMaterialsMaterialIdStatsRoute
+  '/materials/$materialId/summary': typeof LibraryMaterialsMaterialIdSummaryRoute
+  '/materials/$materialId/tutor': typeof LibraryMaterialsMaterialIdTutorRoute
+  '/materials/$materialId': typeof LibraryMaterialsMaterialIdIndexRoute
+}
+export interface FileRoutesById {
+  __root__: typeof rootRouteImport
+  '/_library': typeof LibraryRouteWithChildren
+  '/_library/exam': typeof LibraryExamRoute
+  '/_library/search': typeof LibrarySearchRoute
+  '/_library/settings': typeof LibrarySettingsRoute
+  '/_library/': typeof LibraryIndexRoute
+  '/_library/materials/$materialId': typeof LibraryMaterialsMaterialIdRouteWithChildren
+  '/_library/materials/$materialId/flashcards': typeof LibraryMaterialsMaterialIdFlashcardsRoute
+  '/_library/materials/$materialId/lessons': typeof LibraryMaterialsMaterialIdLessonsRoute
+  '/_library/materials/$materialId/quiz': typeof LibraryMaterialsMaterialIdQuizRoute
+  '/_library/materials/$materialId/source': typeof LibraryMaterialsMaterialIdSourceRoute
+  '/_library/materials/$materialId/stats': typeof LibraryMaterialsMaterialIdStatsRoute
+  '/_library/materials/$materialId/summary': typeof LibraryMaterialsMaterialIdSummaryRoute
+  '/_library/materials/$materialId/tutor': typeof LibraryMaterialsMaterialIdTutorRoute
+  '/_library/materials/$materialId/': typeof LibraryMaterialsMaterialIdIndexRoute
+}
+export interface FileRouteTypes {
+  fileRoutesByFullPath: FileRoutesByFullPath
+  fullPaths:
+    | '/'
+    | '/exam'
+    | '/search'
+    | '/settings'
+    | '/materials/$materialId'
+    | '/materials/$materialId/flashcards'
+    | '/materials/$materialId/lessons'
+    | '/materials/$materialId/quiz'
+    | '/materials/$materialId/source'
+    | '/materials/$materialId/stats'
+    | '/materials/$materialId/summary'
+    | '/materials/$materialId/tutor'
+    | '/materials/$materialId/'
+  fileRoutesByTo: FileRoutesByTo
+  to:
+    | '/exam'
+    | '/search'
+    | '/settings'
+    | '/'
+    | '/materials/$materialId/flashcards'
+    | '/materials/$materialId/lessons'
+    | '/materials/$materialId/quiz'
+    | '/materials/$materialId/source'
+    | '/materials/$materialId/stats'
+    | '/materials/$materialId/summary'
+    | '/materials/$materialId/tutor'
+    | '/materials/$materialId'
+  id:
+    | '__root__'
+    | '/_library'
+    | '/_library/exam'
+    | '/_library/search'
+    | '/_library/settings'
+    | '/_library/'
+    | '/_library/materials/$materialId'
+    | '/_library/materials/$materialId/flashcards'
+    | '/_library/materials/$materialId/lessons'
+    | '/_library/materials/$materialId/quiz'
+    | '/_library/materials/$materialId/source'
+    | '/_library/materials/$materialId/stats'
+    | '/_library/materials/$materialId/summary'
+    | '/_library/materials/$materialId/tutor'
+    | '/_library/materials/$materialId/'
+  fileRoutesById: FileRoutesById
+}
+export interface RootRouteChildren {
+  LibraryRoute: typeof LibraryRouteWithChildren
+}
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
-    '/': {
-      id: '/'
+    '/_library': {
+      id: '/_library'
+      path: ''
+      fullPath: '/'
+      preLoaderRoute: typeof LibraryRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/_library/': {
+      id: '/_library/'
       path: '/'
       fullPath: '/'
-      preLoaderRoute: typeof IndexImport
-      parentRoute: typeof rootRoute
+      preLoaderRoute: typeof LibraryIndexRouteImport
+      parentRoute: typeof LibraryRoute
+    }
+    '/_library/exam': {
+      id: '/_library/exam'
+      path: '/exam'
+      fullPath: '/exam'
+      preLoaderRoute: typeof LibraryExamRouteImport
+      parentRoute: typeof LibraryRoute
+    }
+    '/_library/search': {
+      id: '/_library/search'
+      path: '/search'
+      fullPath: '/search'
+      preLoaderRoute: typeof LibrarySearchRouteImport
+      parentRoute: typeof LibraryRoute
+    }
+    '/_library/settings': {
+      id: '/_library/settings'
+      path: '/settings'
+      fullPath: '/settings'
+      preLoaderRoute: typeof LibrarySettingsRouteImport
+      parentRoute: typeof LibraryRoute
+    }
+    '/_library/materials/$materialId': {
+      id: '/_library/materials/$materialId'
+      path: '/materials/$materialId'
+      fullPath: '/materials/$materialId'
+      preLoaderRoute: typeof LibraryMaterialsMaterialIdRouteImport
+      parentRoute: typeof LibraryRoute
+    }
+    '/_library/materials/$materialId/': {
+      id: '/_library/materials/$materialId/'
+      path: '/'
+      fullPath: '/materials/$materialId/'
+      preLoaderRoute: typeof LibraryMaterialsMaterialIdIndexRouteImport
+      parentRoute: typeof LibraryMaterialsMaterialIdRoute
+    }
+    '/_library/materials/$materialId/flashcards': {
+      id: '/_library/materials/$materialId/flashcards'
+      path: '/flashcards'
+      fullPath: '/materials/$materialId/flashcards'
+      preLoaderRoute: typeof LibraryMaterialsMaterialIdFlashcardsRouteImport
+      parentRoute: typeof LibraryMaterialsMaterialIdRoute
+    }
+    '/_library/materials/$materialId/lessons': {
+      id: '/_library/materials/$materialId/lessons'
+      path: '/lessons'
+      fullPath: '/materials/$materialId/lessons'
+      preLoaderRoute: typeof LibraryMaterialsMaterialIdLessonsRouteImport
+      parentRoute: typeof LibraryMaterialsMaterialIdRoute
+    }
+    '/_library/materials/$materialId/quiz': {
+      id: '/_library/materials/$materialId/quiz'
+      path: '/quiz'
+      fullPath: '/materials/$materialId/quiz'
+      preLoaderRoute: typeof LibraryMaterialsMaterialIdQuizRouteImport
+      parentRoute: typeof LibraryMaterialsMaterialIdRoute
+    }
+    '/_library/materials/$materialId/source': {
+      id: '/_library/materials/$materialId/source'
+      path: '/source'
+      fullPath: '/materials/$materialId/source'
+      preLoaderRoute: typeof LibraryMaterialsMaterialIdSourceRouteImport
+      parentRoute: typeof LibraryMaterialsMaterialIdRoute
+    }
+    '/_library/materials/$materialId/stats': {
+      id: '/_library/materials/$materialId/stats'
+      path: '/stats'
+      fullPath: '/materials/$materialId/stats'
+      preLoaderRoute: typeof LibraryMaterialsMaterialIdStatsRouteImport
+      parentRoute: typeof LibraryMaterialsMaterialIdRoute
+    }
+    '/_library/materials/$materialId/summary': {
+      id: '/_library/materials/$materialId/summary'
+      path: '/summary'
+      fullPath: '/materials/$materialId/summary'
+      preLoaderRoute: typeof LibraryMaterialsMaterialIdSummaryRouteImport
+      parentRoute: typeof LibraryMaterialsMaterialIdRoute
+    }
+    '/_library/materials/$materialId/tutor': {
+      id: '/_library/materials/$materialId/tutor'
+      path: '/tutor'
+      fullPath: '/materials/$materialId/tutor'
+      preLoaderRoute: typeof LibraryMaterialsMaterialIdTutorRouteImport
+      parentRoute: typeof LibraryMaterialsMaterialIdRoute
     }
   }
 }
 
-// Create and export the route tree
-
-export interface FileRoutesByFullPath {
-  '/': typeof IndexRoute
+interface LibraryMaterialsMaterialIdRouteChildren {
+  LibraryMaterialsMaterialIdFlashcardsRoute: typeof LibraryMaterialsMaterialIdFlashcardsRoute
+  LibraryMaterialsMaterialIdLessonsRoute: typeof LibraryMaterialsMaterialIdLessonsRoute
+  LibraryMaterialsMaterialIdQuizRoute: typeof LibraryMaterialsMaterialIdQuizRoute
+  LibraryMaterialsMaterialIdSourceRoute: typeof LibraryMaterialsMaterialIdSourceRoute
+  LibraryMaterialsMaterialIdStatsRoute: typeof LibraryMaterialsMaterialIdStatsRoute
+  LibraryMaterialsMaterialIdSummaryRoute: typeof LibraryMaterialsMaterialIdSummaryRoute
+  LibraryMaterialsMaterialIdTutorRoute: typeof LibraryMaterialsMaterialIdTutorRoute
+  LibraryMaterialsMaterialIdIndexRoute: typeof LibraryMaterialsMaterialIdIndexRoute
 }
 
-export interface FileRoutesByTo {
-  '/': typeof IndexRoute
-}
+const LibraryMaterialsMaterialIdRouteChildren: LibraryMaterialsMaterialIdRouteChildren =
+  {
+    LibraryMaterialsMaterialIdFlashcardsRoute:
+      LibraryMaterialsMaterialIdFlashcardsRoute,
+    LibraryMaterialsMaterialIdLessonsRoute:
+      LibraryMaterialsMaterialIdLessonsRoute,
+    LibraryMaterialsMaterialIdQuizRoute: LibraryMaterialsMaterialIdQuizRoute,
+    LibraryMaterialsMaterialIdSourceRoute:
+      LibraryMaterialsMaterialIdSourceRoute,
+    LibraryMaterialsMaterialIdStatsRoute: LibraryMaterialsMaterialIdStatsRoute,
+    LibraryMaterialsMaterialIdSummaryRoute:
+      LibraryMaterialsMaterialIdSummaryRoute,
+    LibraryMaterialsMaterialIdTutorRoute: LibraryMaterialsMaterialIdTutorRoute,
+    LibraryMaterialsMaterialIdIndexRoute: LibraryMaterialsMaterialIdIndexRoute,
+  }
 
-export interface FileRoutesById {
-  __root__: typeof rootRoute
-  '/': typeof IndexRoute
-}
+const LibraryMaterialsMaterialIdRouteWithChildren =
+  LibraryMaterialsMaterialIdRoute._addFileChildren(
+    LibraryMaterialsMaterialIdRouteChildren,
+  )
 
-export interface FileRouteTypes {
-  fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/'
-  fileRoutesByTo: FileRoutesByTo
-  to: '/'
-  id: '__root__' | '/'
-  fileRoutesById: FileRoutesById
+interface LibraryRouteChildren {
+  LibraryExamRoute: typeof LibraryExamRoute
+  LibrarySearchRoute: typeof LibrarySearchRoute
+  LibrarySettingsRoute: typeof LibrarySettingsRoute
+  LibraryIndexRoute: typeof LibraryIndexRoute
+  LibraryMaterialsMaterialIdRoute: typeof LibraryMaterialsMaterialIdRouteWithChildren
 }
 
-export interface RootRouteChildren {
-  IndexRoute: typeof IndexRoute
+const LibraryRouteChildren: LibraryRouteChildren = {
+  LibraryExamRoute: LibraryExamRoute,
+  LibrarySearchRoute: LibrarySearchRoute,
+  LibrarySettingsRoute: LibrarySettingsRoute,
+  LibraryIndexRoute: LibraryIndexRoute,
+  LibraryMaterialsMaterialIdRoute: LibraryMaterialsMaterialIdRouteWithChildren,
 }
 
+const LibraryRouteWithChildren =
+  LibraryRoute._addFileChildren(LibraryRouteChildren)
+
 const rootRouteChildren: RootRouteChildren = {
-  IndexRoute: IndexRoute,
+  LibraryRoute: LibraryRouteWithChildren,
 }
-
-export const routeTree = rootRoute
+export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
   ._addFileTypes<FileRouteTypes>()
-
-/* ROUTE_MANIFEST_START
-{
-  "routes": {
-    "__root__": {
-      "filePath": "__root.tsx",
-      "children": [
-        "/"
-      ]
-    },
-    "/": {
-      "filePath": "index.tsx"
-    }
-  }
-}
-ROUTE_MANIFEST_END */
@@ -0,0 +1,912 @@
+import { createFileRoute, Link, Outlet, retainSearchParams, useNavigate, useParams } from "@tanstack/react-router";
+import { useState, useEffect, useRef } from "react";
+import { z } from "zod";
+import { useFileUploadMutation } from "@/hooks/use-file-upload";
+import { useGPTChatStreamMutation } from "@/hooks/use-gpt-chat";
+import { useGPTVisionMutation } from "@/hooks/use-gpt-vision";
+import { useEntitlements } from "@/hooks/use-entitlements";
+import { useMaterialSync } from "@/hooks/use-material-sync";
+import { LibraryContext, type LibraryContextValue, type MaterialUpdate } from "@/hooks/use-library";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import {
+  Upload,
+  GraduationCap,
+  CheckCircle,
+  AlertCircle,
+  Loader2,
+  Crown,
+  LogOut,
+  User,
+  CalendarCheck,
+  FolderOpen,
+  Globe,
+  Settings,
+} from "lucide-react";
+import * as pdfjsLib from "pdfjs-dist";
+import { AuthDialog } from "@/components/AuthDialog";
+import { MaterialList } from "@/components/MaterialList";
+import { SubscriptionDialog } from "@/components/SubscriptionDialog";
+import { UrlImportDialog } from "@/components/UrlImportDialog";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
+import { SyncUploadDialog } from "@/components/SyncUploadDialog";
+import type { UserData } from "@/lib/auth-backend";
+import {
+  addCurrentUserListener,
+  consumeAuthLinkTokens,
+  logoutUser,
+  sendVerificationEmail,
+  verifyEmail,
+} from "@/lib/auth";
+import { consumeCheckoutResult } from "@/lib/entitlements";
+import type { RemoteUpdate } from "@/lib/sync-engine";
+import { UploadQueue } from "@/components/UploadQueue";
+import { FlashcardReviewDialog, type ReviewQueueItem } from "@/components/FlashcardReview";
+import { isCardDue, scheduleReview, type ReviewGrade } from "@/lib/spaced-repetition";
+import { formatSlidesAsText, parsePptx } from "@/lib/pptx";
+import { extractPdfText, imageFileToDataUrl, isImageFile, transcribeImage } from "@/lib/ocr";
+import { ACCEPTED_FILE_EXTENSIONS, collectDroppedFiles, isSupportedFile } from "@/lib/file-selection";
+import { createQueueItem, planQueue, type QueueItem } from "@/lib/upload-queue";
+import { getMaterialFile, loadMaterials, saveMaterialFile, syncMaterials } from "@/lib/storage";
+import {
+  createPipelineState,
+  markInterrupted,
+  runPipeline,
+  type PipelinePreview,
+  type PipelineProgress,
+} from "@/lib/pipeline";
+import type { LessonLength, UploadedMaterial } from "@/lib/types";
+
+const librarySearchSchema = z.object({
+  sort: z.enum(["date", "theme", "name"]).optional().catch(undefined),
+});
+
+// Layout of every library page: header, upload, the material list and the open material or page
+export const Route = createFileRoute("/_library")({
+  validateSearch: librarySearchSchema,
+  // Keep the list order while moving between materials and study modes
+  search: { middlewares: [retainSearchParams(["sort"])] },
+  // The stored library is read once; afterwards it is kept in memory and changes are saved back
+  loader: () =>
+    loadMaterials().catch((e) => {
+      console.error("Failed to load materials:", e);
+      return [];
+    }),
+  staleTime: Infinity,
+  shouldReload: false,
+  component: LibraryLayout,
+});
+
+// Set up PDF.js worker - use local bundled worker instead of CDN
+// Vite will handle bundling the worker file
+pdfjsLib.GlobalWorkerOptions.workerSrc = new URL(
+  'pdfjs-dist/build/pdf.worker.min.mjs',
+  import.meta.url
+).toString();
+
+// Premium status stored by earlier versions; premium is now read from the billing service
+const LEGACY_SUBSCRIPTION_KEY = "subscription-status";
+const UPLOAD_LIMIT_KEY = "upload-limits";
+const FREE_DAILY_LIMIT = 3;
+
+// Uploads counted today; the stored counter is reset when the day changed
+function readTodayUploadCount(): number {
+  const storedLimits = localStorage.getItem(UPLOAD_LIMIT_KEY);
+  if (!storedLimits) return 0;
+  try {
+    const parsed = JSON.parse(storedLimits);
+    const today = new Date().toDateString();
+    if (parsed.date === today) {
+      return parsed.count || 0;
+    }
+    // Reset counter for new day
+    localStorage.setItem(UPLOAD_LIMIT_KEY, JSON.stringify({ date: today, count: 0 }));
+  } catch (e) {
+    console.error("Failed to load upload limits:", e);
+  }
+  return 0;
+}
+
+function LibraryLayout() {
+  const loadedMaterials = Route.useLoaderData();
+  const { sort: sortBy = "date" } = Route.useSearch();
+  const { materialId: openMaterialId } = useParams({ strict: false });
+  const navigate = useNavigate();
+
+  // Anything still processing was cut off by the last reload
+  const [materials, setMaterials] = useState<UploadedMaterial[]>(() => markInterrupted(loadedMaterials));
+  const [pipelineProgress, setPipelineProgress] = useState<Record<string, PipelineProgress>>({});
+  const [uploadQueue, setUploadQueue] = useState<QueueItem[]>([]);
+  // Latest queue, so handlers that finish after an await plan against the current items
+  const uploadQueueRef = useRef<QueueItem[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [lessonLength, setLessonLength] = useState<LessonLength>("normal");
+  const [awaitingCheckout, setAwaitingCheckout] = useState(false);
+  const [showSubscriptionDialog, setShowSubscriptionDialog] = useState(false);
+  const [showUrlImportDialog, setShowUrlImportDialog] = useState(false);
+  const [todayUploadCount, setTodayUploadCount] = useState(0);
+  const [currentUser, setCurrentUser] = useState<UserData | null>(null);
+  const [showAuthDialog, setShowAuthDialog] = useState(false);
+  const [passwordResetToken, setPasswordResetToken] = useState<string | undefined>();
+  const [showReviewDialog, setShowReviewDialog] = useState(false);
+  const savedMaterialsRef = useRef<UploadedMaterial[]>(loadedMaterials);
+  // Abort controllers of the materials that are currently being processed
+  const runningPipelinesRef = useRef(new Map<string, AbortController>());
+  const [preview, setPreview] = useState<(PipelinePreview & { materialId: string }) | null>(null);
+  // Files picked in this session, so queued materials do not have to be read back from storage
+  const queuedFilesRef = useRef(new Map<string, File>());
+  // Why a running pipeline was aborted from the queue
+  const stopReasonsRef = useRef(new Map<string, "pause" | "cancel">());
+  const uploadMutation = useFileUploadMutation();
+  const chatStreamMutation = useGPTChatStreamMutation();
+  const visionMutation = useGPTVisionMutation();
+  const { entitlement, isPremium, checkout } = useEntitlements(currentUser?.userId ?? null, awaitingCheckout);
+
+  // Take over materials changed or deleted on another device
+  const applyRemoteMaterials = ({ put, remove }: RemoteUpdate) => {
+    const updated = new Map(put.map((m) => [m.id, m]));
+    const removed = new Set(remove);
+    setMaterials((prev) => [
+      ...prev.filter((m) => !removed.has(m.id)).map((m) => updated.get(m.id) ?? m),
+      ...put.filter((m) => !prev.some((p) => p.id === m.id)),
+    ]);
+  };
+
+  const sync = useMaterialSync({
+    userId: currentUser?.userId ?? null,
+    materials,
+    applyRemote: applyRemoteMaterials,
+  });
+
+  // Follow the signed-in user of the stored session
+  useEffect(
+    () =>
+      addCurrentUserListener((user) => {
+        setCurrentUser(user);
+      }),
+    []
+  );
+
+  // Open links from password reset and verification emails
+  useEffect(() => {
+    const { resetToken, verificationToken } = consumeAuthLinkTokens();
+    if (resetToken) {
+      setPasswordResetToken(resetToken);
+      setShowAuthDialog(true);
+    }
+    if (verificationToken) {
+      verifyEmail(verificationToken)
+        .then((user) => {
+          setCurrentUser((prev) => (prev?.userId === user.userId ? user : prev));
+          alert("Ihre E-Mail-Adresse wurde bestätigt.");
+        })
+        .catch((e) => alert(e instanceof Error ? e.message : "Bestätigung fehlgeschlagen"));
+    }
+  }, []);
+
+  useEffect(() => {
+    localStorage.removeItem(LEGACY_SUBSCRIPTION_KEY);
+
+    // Back from the payment page: premium starts once the payment webhook arrived
+    if (consumeCheckoutResult() === "success") {
+      setAwaitingCheckout(true);
+    }
+
+    // Load today's upload count
+    setTodayUploadCount(readTodayUploadCount());
+  }, []);
+
+  // Save changed materials to IndexedDB
+  useEffect(() => {
+    const previous = savedMaterialsRef.current;
+    savedMaterialsRef.current = materials;
+    syncMaterials(materials, previous).catch((e) => console.error("Failed to save materials:", e));
+  }, [materials]);
+
+  useEffect(() => {
+    if (awaitingCheckout && isPremium) {
+      setAwaitingCheckout(false);
+    }
+  }, [awaitingCheckout, isPremium]);
+
+  // Premium users (logged in with a verified subscription) have unlimited uploads
+  const hasUnlimitedUploads = isPremium;
+
+  // Uploads left today; free users (logged in or anonymous) have a daily limit. Read from the
+  // stored counter, which is current even in handlers of an earlier render
+  const getRemainingUploads = () =>
+    hasUnlimitedUploads ? Infinity : Math.max(0, FREE_DAILY_LIMIT - readTodayUploadCount());
+
+  // Update upload count
+  const addToUploadCount = (count: number) => {
+    const today = new Date().toDateString();
+    const newCount = readTodayUploadCount() + count;
+    setTodayUploadCount(newCount);
+    localStorage.setItem(UPLOAD_LIMIT_KEY, JSON.stringify({ date: today, count: newCount }));
+  };
+
+  // Open the payment page; premium is unlocked by the billing webhook, not here
+  const openStripePayment = () => {
+    checkout.mutate(undefined, {
+      onError: (e) => alert(e.message || "Die Zahlungsseite konnte nicht geöffnet werden"),
+    });
+  };
+
+  // Handle successful authentication
+  const handleAuthSuccess = (userData: UserData) => {
+    setCurrentUser(userData);
+    setPasswordResetToken(undefined);
+  };
+
+  // Handle logout
+  const handleLogout = async () => {
+    await logoutUser();
+    setCurrentUser(null);
+  };
+
+  // Send the verification link again
+  const handleResendVerification = async () => {
+    try {
+      await sendVerificationEmail();
+      alert("Wir haben Ihnen einen neuen Bestätigungslink gesendet.");
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "E-Mail konnte nicht gesendet werden");
+    }
+  };
+
+  // Extract text from PDF; scanned pages without a text layer are transcribed by the vision model
+  const extractTextFromPDF = async (
+    file: File,
+    onProgress?: (fraction: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+    return extractPdfText(pdf, visionMutation.mutateAsync, { onProgress, signal });
+  };
+
+  // Transcribe a photo of a whiteboard, slide or handwritten notes
+  const extractTextFromImage = async (file: File, signal?: AbortSignal): Promise<string> => {
+    return transcribeImage(visionMutation.mutateAsync, await imageFileToDataUrl(file), "photo", signal);
+  };
+
+  // Extract text from plain text file
+  const extractTextFromFile = async (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => resolve(e.target?.result as string || "");
+      reader.onerror = reject;
+      reader.readAsText(file);
+    });
+  };
+
+  // Extract titles, bullets and speaker notes from a PPTX slide deck
+  const extractTextFromPPT = async (file: File): Promise<string> => {
+    if (!file.name.toLowerCase().endsWith(".pptx")) {
+      // Legacy binary .ppt files are not a ZIP package and cannot be parsed in the browser
+      throw new Error("Old .ppt files are not supported. Please save the presentation as .pptx and upload it again.");
+    }
+    const slides = await parsePptx(await file.arrayBuffer());
+    return formatSlidesAsText(slides);
+  };
+
+  // Transcribe audio/video using GPT (simulated)
+  const transcribeMedia = async (fileUrl: string, fileName: string): Promise<string> => {
+    // In a real implementation, you'd use a transcription API like Whisper
+    // For now, we'll simulate this by returning a placeholder
+    return `[Transcription of ${fileName}]\n\nThis is a simulated transcription. In production, this would use a speech-to-text API like OpenAI Whisper to transcribe the audio/video content.`;
+  };
+
+  // Extract text based on file type
+  const extractText = async (
+    file: File,
+    fileUrl: string,
+    onProgress?: (fraction: number) => void,
+    signal?: AbortSignal
+  ): Promise<string> => {
+    if (file.type === "application/pdf") {
+      return extractTextFromPDF(file, onProgress, signal);
+    } else if (isImageFile(file)) {
+      return extractTextFromImage(file, signal);
+    } else if (file.type.includes("presentation") || file.name.endsWith(".ppt") || file.name.endsWith(".pptx")) {
+      return extractTextFromPPT(file);
+    } else if (file.type.startsWith("text/")) {
+      return extractTextFromFile(file);
+    } else if (file.type.startsWith("audio/") || file.type.startsWith("video/")) {
+      return transcribeMedia(fileUrl, file.name);
+    }
+    return extractTextFromFile(file);
+  };
+
+  // Apply a change to one material of the library
+  const updateMaterial = (materialId: string, update: MaterialUpdate) => {
+    setMaterials((prev) =>
+      prev.map((m) => (m.id === materialId ? { ...m, ...(typeof update === "function" ? update(m) : update) } : m))
+    );
+  };
+
+  const openMaterial = (materialId: string) => {
+    navigate({ to: "/materials/$materialId/lessons", params: { materialId } });
+  };
+
+  // Run the remaining processing stages of a material, persisting each finished stage
+  const processMaterial = async (material: UploadedMaterial, file?: File): Promise<UploadedMaterial | undefined> => {
+    if (runningPipelinesRef.current.has(material.id)) return undefined;
+    const controller = new AbortController();
+    runningPipelinesRef.current.set(material.id, controller);
+
+    try {
+      return await runPipeline(
+        material,
+        {
+          complete: chatStreamMutation.mutateAsync,
+          getFile: async () => file ?? (await getMaterialFile(material.id)),
+          uploadFile: async (f) => (await uploadMutation.mutateAsync({ file: f })).fileUrl,
+          extractText,
+          onProgress: (progress) => setPipelineProgress((prev) => ({ ...prev, [material.id]: progress })),
+          onPreview: (next) => setPreview({ ...next, materialId: material.id }),
+          signal: controller.signal,
+        },
+        (patch) => updateMaterial(material.id, patch)
+      );
+    } finally {
+      runningPipelinesRef.current.delete(material.id);
+      setPreview((prev) => (prev?.materialId === material.id ? null : prev));
+      setPipelineProgress(({ [material.id]: _done, ...rest }) => rest);
+    }
+  };
+
+  // Apply a change to the queue and start the items it leaves room for. Plans against the queue
+  // ref instead of render state and is never called from a state updater, so a repeated call
+  // starts nothing twice and every start is counted against the quota once
+  const changeQueue = (update: (queue: QueueItem[]) => QueueItem[]) => {
+    const queue = update(uploadQueueRef.current);
+    const plan = planQueue(queue, getRemainingUploads());
+    const started = new Set(plan.start.map((item) => item.materialId));
+    const waiting = new Set(plan.wait.map((item) => item.materialId));
+    const next = queue.map((item): QueueItem => {
+      if (started.has(item.materialId)) return { ...item, status: "processing", quotaCounted: true };
+      if (waiting.has(item.materialId)) return { ...item, status: "waitingForQuota" };
+      return item;
+    });
+    uploadQueueRef.current = next;
+    setUploadQueue(next);
+
+    if (plan.quotaUsed > 0) {
+      addToUploadCount(plan.quotaUsed);
+    }
+    if (plan.wait.length > 0) {
+      setShowSubscriptionDialog(true);
+    }
+    plan.start.forEach((item) => runQueueItem(item));
+  };
+
+  const updateQueueItem = (materialId: string, patch: Partial<QueueItem>) => {
+    changeQueue((prev) => prev.map((item) => (item.materialId === materialId ? { ...item, ...patch } : item)));
+  };
+
+  const removeQueueItem = (materialId: string) => {
+    changeQueue((prev) => prev.filter((item) => item.materialId !== materialId));
+    queuedFilesRef.current.delete(materialId);
+  };
+
+  // Process one queue item and record how its pipeline ended
+  const runQueueItem = async (item: QueueItem) => {
+    const result = await processMaterial(item.material, queuedFilesRef.current.get(item.materialId));
+    const stopReason = stopReasonsRef.current.get(item.materialId);
+    stopReasonsRef.current.delete(item.materialId);
+    if (!result) return;
+
+    if (stopReason === "cancel") {
+      removeQueueItem(item.materialId);
+    } else if (result.processingStatus === "interrupted") {
+      updateQueueItem(item.materialId, { status: "paused", material: result });
+    } else {
+      updateQueueItem(item.materialId, {
+        status: result.processingStatus === "completed" ? "completed" : "error",
+        material: result,
+        error: result.error,
+      });
+      // A retry reads the stored copy of the file
+      queuedFilesRef.current.delete(item.materialId);
+    }
+  };
+
+  // Latest changeQueue, for the timer below that outlives the render it was created in
+  const changeQueueRef = useRef(changeQueue);
+  useEffect(() => {
+    changeQueueRef.current = changeQueue;
+  });
+
+  // Items waiting for the daily quota start as soon as premium is unlocked
+  useEffect(() => {
+    if (hasUnlimitedUploads) changeQueueRef.current((queue) => queue);
+  }, [hasUnlimitedUploads]);
+
+  // They also start after midnight, when the daily quota is reset
+  const isWaitingForQuota = uploadQueue.some((item) => item.status === "waitingForQuota");
+  useEffect(() => {
+    if (!isWaitingForQuota) return;
+    const interval = setInterval(() => {
+      setTodayUploadCount(readTodayUploadCount());
+      changeQueueRef.current((queue) => queue);
+    }, 60_000);
+    return () => clearInterval(interval);
+  }, [isWaitingForQuota]);
+
+  const pauseQueueItem = (materialId: string) => {
+    const item = uploadQueue.find((i) => i.materialId === materialId);
+    if (item?.status === "processing") {
+      stopReasonsRef.current.set(materialId, "pause");
+      runningPipelinesRef.current.get(materialId)?.abort();
+    } else {
+      updateQueueItem(materialId, { status: "paused" });
+    }
+  };
+
+  const resumeQueueItem = (materialId: string) => {
+    updateQueueItem(materialId, { status: "queued" });
+  };
+
+  // Stop processing and drop the item from the queue; the material stays in the library
+  // with its finished stages and can be resumed from there
+  const cancelQueueItem = (materialId: string) => {
+    if (runningPipelinesRef.current.has(materialId)) {
+      stopReasonsRef.current.set(materialId, "cancel");
+      runningPipelinesRef.current.get(materialId)?.abort();
+      return;
+    }
+    removeQueueItem(materialId);
+    if (materials.find((m) => m.id === materialId)?.processingStatus === "pending") {
+      updateMaterial(materialId, { processingStatus: "interrupted" });
+    }
+  };
+
+  const clearFinishedQueueItems = () => {
+    changeQueue((prev) => prev.filter((item) => item.status !== "completed" && item.status !== "error"));
+  };
+
+  // Continue an interrupted or failed material from its first incomplete stage
+  const resumeProcessing = (material: UploadedMaterial) => {
+    openMaterial(material.id);
+    changeQueue((prev) =>
+      prev.some((item) => item.materialId === material.id)
+        ? prev.map((item) =>
+            item.materialId === material.id ? { ...item, status: "queued", material, error: undefined } : item
+          )
+        : [...prev, createQueueItem(material)]
+    );
+  };
+
+  // Create a material for every supported file and queue it for processing
+  const enqueueFiles = (files: File[], details: Pick<UploadedMaterial, "sourceUrl"> = {}) => {
+    const supported = files.filter(isSupportedFile);
+    const skipped = files.length - supported.length;
+    if (skipped > 0) {
+      alert(
+        `${skipped} Datei${skipped !== 1 ? "en" : ""} übersprungen: Nur PDF, PPT, Text-Dateien und Bilder (PNG, JPG) sind erlaubt.`
+      );
+    }
+    if (supported.length === 0) return;
+
+    const newMaterials: UploadedMaterial[] = supported.map((file) => ({
+      id: `${Date.now()}-${Math.random()}`,
+      fileName: file.name,
+      fileType: file.type || file.name.split(".").pop() || "unknown",
+      fileUrl: "",
+      uploadedAt: new Date(),
+      extractedText: "",
+      processingStatus: "pending",
+      lessonLength,
+      pipeline: createPipelineState(lessonLength),
+      ...details,
+    }));
+
+    newMaterials.forEach((material, index) => {
+      const file = supported[index];
+      queuedFilesRef.current.set(material.id, file);
+      // Keep the original file so processing can be resumed or retried later
+      saveMaterialFile(material.id, file).catch((e) => console.error("Failed to store file:", e));
+    });
+
+    setMaterials((prev) => [...prev, ...newMaterials]);
+    openMaterial(newMaterials[0].id);
+    changeQueue((prev) => [...prev, ...newMaterials.map(createQueueItem)]);
+  };
+
+  // Handle file upload (one or more files, or a whole folder)
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = ""; // Reset file input
+    enqueueFiles(files);
+  };
+
+  // Handle files and folders dropped onto the upload card
+  const handleFileDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDraggingFiles(false);
+    collectDroppedFiles(event.dataTransfer)
+      .then(enqueueFiles)
+      .catch((e) => console.error("Failed to read dropped files:", e));
+  };
+
+  // Delete material
+  const deleteMaterial = (id: string) => {
+    setMaterials((prev) => prev.filter((m) => m.id !== id));
+    if (openMaterialId === id) {
+      navigate({ to: "/" });
+    }
+  };
+
+  // Grade a flashcard and store its next review date
+  const gradeFlashcard = (materialId: string, cardIndex: number, grade: ReviewGrade) => {
+    updateMaterial(materialId, (m) =>
+      m.content
+        ? {
+            content: {
+              ...m.content,
+              flashcards: m.content.flashcards.map((card, idx) =>
+                idx === cardIndex ? { ...card, schedule: scheduleReview(card.schedule, grade) } : card
+              ),
+            },
+          }
+        : {}
+    );
+  };
+
+  // Cards due today across all materials, oldest due first (never studied cards count as due now)
+  const getReviewQueue = (): ReviewQueueItem[] => {
+    const now = new Date();
+    return materials
+      .filter((m) => m.processingStatus === "completed")
+      .flatMap((m) =>
+        (m.content?.flashcards || []).map((card, idx) => ({
+          key: `${m.id}-${idx}`,
+          materialId: m.id,
+          materialName: m.fileName,
+          cardIndex: idx,
+          front: card.front,
+          back: card.back,
+          schedule: card.schedule,
+        }))
+      )
+      .filter((item) => isCardDue(item.schedule, now))
+      .sort((a, b) => (a.schedule?.dueAt.getTime() ?? 0) - (b.schedule?.dueAt.getTime() ?? 0));
+  };
+
+  const reviewQueue = getReviewQueue();
+  const reviewMaterialCount = new Set(reviewQueue.map((item) => item.materialId)).size;
+
+  const library: LibraryContextValue = {
+    materials,
+    updateMaterial,
+    pipelineProgress,
+    preview,
+    resumeProcessing,
+    cancelProcessing: cancelQueueItem,
+    gradeFlashcard,
+    currentUser,
+    entitlement,
+    isPremium,
+    sync,
+    openSubscriptionDialog: () => setShowSubscriptionDialog(true),
+    openAuthDialog: () => setShowAuthDialog(true),
+    logout: handleLogout,
+    resendVerification: handleResendVerification,
+  };
+
+  return (
+    <LibraryContext.Provider value={library}>
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-4 md:p-8">
+        <div className="max-w-7xl mx-auto">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex-1" />
+              <Link to="/" className="flex items-center gap-2">
+                <GraduationCap className="h-12 w-12 text-blue-600" />
+                <h1 className="text-4xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
+                  Knowly
+                </h1>
+              </Link>
+              <div className="flex-1 flex justify-end items-center gap-2">
+                {currentUser ? (
+                  <div className="flex items-center gap-2">
+                    <div className="text-right">
+                      <div className="text-sm font-medium flex items-center justify-end gap-1">
+                        <SyncStatusIndicator
+                          status={sync.status}
+                          lastSyncedAt={sync.lastSyncedAt}
+                          onEnable={() => sync.setEnabled(true)}
+                          onDisable={() => sync.setEnabled(false)}
+                          onSync={sync.syncNow}
+                        />
+                        <User className="h-4 w-4" />
+                        {currentUser.email}
+                      </div>
+                      {isPremium && (
+                        <Badge
+                          className="text-xs bg-gradient-to-r from-yellow-500 to-orange-500 text-white"
+                          title={
+                            entitlement.cancelAtPeriodEnd && entitlement.currentPeriodEnd
+                              ? `Gekündigt, aktiv bis ${entitlement.currentPeriodEnd.toLocaleDateString()}`
+                              : undefined
+                          }
+                        >
+                          <Crown className="h-3 w-3 mr-1" />
+                          Premium
+                        </Badge>
+                      )}
+                      {!currentUser.emailVerified && (
+                        <button
+                          type="button"
+                          onClick={handleResendVerification}
+                          className="text-xs text-orange-600 hover:underline"
+                          title="Bestätigungslink erneut senden"
+                        >
+                          E-Mail nicht bestätigt
+                        </button>
+                      )}
+                    </div>
+                    <Button variant="outline" size="sm" asChild title="Einstellungen">
+                      <Link to="/settings">
+                        <Settings className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleLogout}
+                      title="Abmelden"
+                    >
+                      <LogOut className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <Button
+                    variant="default"
+                    size="sm"
+                    onClick={() => setShowAuthDialog(true)}
+                  >
+                    <User className="h-4 w-4 mr-2" />
+                    Anmelden
+                  </Button>
+                )}
+              </div>
+            </div>
+            <p className="text-gray-600 max-w-2xl mx-auto">
+              Upload your learning materials and let AI automatically generate
+              micro-lessons, quizzes, summaries, and flashcards
+            </p>
+          </div>
+
+          {/* Upload Section */}
+          <Card
+            className={`mb-8 border-2 border-dashed transition-colors ${
+              isDraggingFiles ? "border-blue-500 bg-blue-100/60" : "border-blue-200 bg-blue-50/50"
+            }`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDraggingFiles(true);
+            }}
+            onDragLeave={(e) => {
+              // Ignore moves between child elements of the card
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+            }}
+            onDrop={handleFileDrop}
+          >
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <Upload className="h-5 w-5" />
+                    Upload Learning Material
+                    {isPremium && (
+                      <Badge className="bg-gradient-to-r from-yellow-500 to-orange-500 text-white">
+                        <Crown className="h-3 w-3 mr-1" />
+                        Premium
+                      </Badge>
+                    )}
+                  </CardTitle>
+                  <CardDescription>
+                    Unterstützte Formate: PDF (auch gescannt), PPT, Text, Fotos (PNG, JPG)
+                  </CardDescription>
+                </div>
+                {!isPremium && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowSubscriptionDialog(true)}
+                    className="border-yellow-500 text-yellow-700 hover:bg-yellow-50"
+                  >
+                    <Crown className="h-4 w-4 mr-2" />
+                    Premium holen
+                  </Button>
+                )}
+              </div>
+              {awaitingCheckout && !isPremium && (
+                <Alert className="mt-4 bg-blue-50 border-blue-200">
+                  <Loader2 className="h-4 w-4 text-blue-600 animate-spin" />
+                  <AlertDescription className="text-blue-800">
+                    Zahlung wird bestätigt... Premium wird freigeschaltet, sobald die Zahlung eingegangen ist.
+                  </AlertDescription>
+                </Alert>
+              )}
+              {!isPremium && (
+                <Alert className="mt-4 bg-yellow-50 border-yellow-200">
+                  <AlertCircle className="h-4 w-4 text-yellow-600" />
+                  <AlertDescription className="text-yellow-800">
+                    {currentUser
+                      ? `Gratis-Konto: ${todayUploadCount}/${FREE_DAILY_LIMIT} Dateien heute hochgeladen`
+                      : `Gratis (ohne Konto): ${todayUploadCount}/${FREE_DAILY_LIMIT} Dateien heute hochgeladen`}
+                    {todayUploadCount >= FREE_DAILY_LIMIT && " - Limit erreicht! Upgrade zu Premium für unbegrenzte Uploads."}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <div className="flex items-center justify-center gap-4">
+                  <div className="flex-1 max-w-xs">
+                    <Label htmlFor="lesson-length" className="text-sm font-medium mb-2 block">
+                      Lesson Length
+                    </Label>
+                    <Select value={lessonLength} onValueChange={(value) => setLessonLength(value as LessonLength)}>
+                      <SelectTrigger id="lesson-length">
+                        <SelectValue placeholder="Select length" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="short">Short (2-3 lessons)</SelectItem>
+                        <SelectItem value="normal">Normal (4-5 lessons)</SelectItem>
+                        <SelectItem value="long">Long (6-8 lessons)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <label htmlFor="file-upload" className="cursor-pointer">
+                      <Button asChild>
+                        <span>
+                          <Upload className="h-4 w-4 mr-2" />
+                          Choose Files
+                        </span>
+                      </Button>
+                      <input
+                        id="file-upload"
+                        type="file"
+                        multiple
+                        className="hidden"
+                        onChange={handleFileUpload}
+                        accept={ACCEPTED_FILE_EXTENSIONS}
+                      />
+                    </label>
+                    <label htmlFor="folder-upload" className="cursor-pointer">
+                      <Button asChild variant="outline">
+                        <span>
+                          <FolderOpen className="h-4 w-4 mr-2" />
+                          Choose Folder
+                        </span>
+                      </Button>
+                      <input
+                        id="folder-upload"
+                        type="file"
+                        className="hidden"
+                        onChange={handleFileUpload}
+                        {...{ webkitdirectory: "" }}
+                      />
+                    </label>
+                    <Button variant="outline" onClick={() => setShowUrlImportDialog(true)}>
+                      <Globe className="h-4 w-4 mr-2" />
+                      Import from URL
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-center text-sm text-gray-500">
+                  {isDraggingFiles ? "Drop to add to the queue" : "or drag files and folders here"}
+                </p>
+              </div>
+
+              <UploadQueue
+                queue={uploadQueue}
+                progress={pipelineProgress}
+                onPause={pauseQueueItem}
+                onResume={resumeQueueItem}
+                onCancel={cancelQueueItem}
+                onClearFinished={clearFinishedQueueItems}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Due Today Review Queue */}
+          {isPremium && reviewQueue.length > 0 && (
+            <Alert className="mb-8 bg-purple-50 border-purple-200">
+              <CalendarCheck className="h-4 w-4 text-purple-600" />
+              <AlertDescription className="flex flex-wrap items-center justify-between gap-2 text-purple-900">
+                <span>
+                  <strong>Due today:</strong> {reviewQueue.length} flashcard{reviewQueue.length !== 1 ? "s" : ""} from{" "}
+                  {reviewMaterialCount} material{reviewMaterialCount !== 1 ? "s" : ""}
+                </span>
+                <Button size="sm" onClick={() => setShowReviewDialog(true)}>
+                  Start Review
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Materials Library */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <MaterialList
+              materials={materials}
+              selectedId={openMaterialId}
+              sortBy={sortBy}
+              onSortChange={(sort) => navigate({ to: ".", search: (prev) => ({ ...prev, sort }) })}
+              onSelect={(material) => openMaterial(material.id)}
+              onRename={(id, fileName) => updateMaterial(id, { fileName })}
+              onDelete={deleteMaterial}
+              onResume={resumeProcessing}
+              onSearch={(q) => navigate({ to: "/search", search: (prev) => ({ ...prev, q }) })}
+            />
+
+            {/* Open material, or the page picked in the header */}
+            <div className="lg:col-span-2">
+              <Outlet />
+            </div>
+          </div>
+
+          {/* Offline Access Notice */}
+          {materials.length > 0 && (
+            <Alert className="mt-6 bg-green-50 border-green-200">
+              <CheckCircle className="h-4 w-4 text-green-600" />
+              <AlertDescription>
+                All your materials are saved locally and available offline. You can review them
+                anytime, even without an internet connection.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <UrlImportDialog
+            open={showUrlImportDialog}
+            onOpenChange={setShowUrlImportDialog}
+            onImport={(file, webImport) => enqueueFiles([file], { sourceUrl: webImport.url })}
+          />
+
+          <SubscriptionDialog
+            open={showSubscriptionDialog}
+            onOpenChange={setShowSubscriptionDialog}
+            isSignedIn={!!currentUser}
+            freeDailyLimit={FREE_DAILY_LIMIT}
+            isCheckingOut={checkout.isPending}
+            onCheckout={openStripePayment}
+            onSignIn={() => {
+              setShowSubscriptionDialog(false);
+              setShowAuthDialog(true);
+            }}
+          />
+
+          {/* Flashcard Review Session */}
+          <FlashcardReviewDialog
+            open={showReviewDialog}
+            onOpenChange={setShowReviewDialog}
+            queue={reviewQueue}
+            onGrade={(item, grade) => gradeFlashcard(item.materialId, item.cardIndex, grade)}
+          />
+
+          {/* Auth Dialog */}
+          <AuthDialog
+            open={showAuthDialog}
+            onOpenChange={(open) => {
+              setShowAuthDialog(open);
+              if (!open) setPasswordResetToken(undefined);
+            }}
+            onAuthSuccess={handleAuthSuccess}
+            resetToken={passwordResetToken}
+          />
+
+          <SyncUploadDialog request={sync.uploadRequest} />
+        </div>
+      </div>
+    </LibraryContext.Provider>
+  );
+}
@@ -0,0 +1,442 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { useGPTChatMutation } from "@/hooks/use-gpt-chat";
+import { useLibrary } from "@/hooks/use-library";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, ClipboardCheck, Clock, Loader2, RotateCcw, Send, Timer } from "lucide-react";
+import { MathText } from "@/components/MathText";
+import { QuizQuestionInput } from "@/components/QuizQuestionInput";
+import { SourceCitations } from "@/components/SourceCitations";
+import {
+  buildExam,
+  examMaterials,
+  examTimeLeft,
+  gradeExam,
+  toMaterialResults,
+  type Exam,
+  type ExamReport,
+  type ExamScore,
+} from "@/lib/exam";
+import { gradePendingAnswers } from "@/lib/grading";
+import { formatQuestionText, isResponseComplete } from "@/lib/question-types";
+import { formatDuration, recordAnswerTime, startAttemptTimer, type AttemptTimer } from "@/lib/quiz-attempts";
+import type { QuizResponse, UploadedMaterial } from "@/lib/types";
+
+const QUESTION_COUNTS = [10, 20, 30, 50];
+const DURATIONS_MINUTES = [10, 20, 30, 45, 60];
+// The countdown turns red in the last minute
+const WARNING_MS = 60_000;
+
+const examSearchSchema = z.object({
+  // Preselect the materials of one thematic category
+  category: z.string().optional().catch(undefined),
+});
+
+export const Route = createFileRoute("/_library/exam")({
+  validateSearch: examSearchSchema,
+  component: ExamPage,
+});
+
+type Responses = Record<number, QuizResponse | null>;
+
+interface Submission {
+  responses: Responses;
+  timer: AttemptTimer;
+}
+
+function ExamPage() {
+  const { materials, updateMaterial } = useLibrary();
+  const { category } = Route.useSearch();
+  const chatMutation = useGPTChatMutation();
+  const [exam, setExam] = useState<Exam | null>(null);
+  const [submission, setSubmission] = useState<Submission | null>(null);
+  const [result, setResult] = useState<{ responses: Responses; report: ExamReport } | null>(null);
+  const [gradingError, setGradingError] = useState<string | null>(null);
+
+  const materialName = (materialId: string) =>
+    materials.find((material) => material.id === materialId)?.fileName ?? "Deleted material";
+
+  // Grade free-text answers, then save each material's share of the exam and show the report
+  const finishExam = async (exam: Exam, { responses, timer }: Submission) => {
+    setSubmission({ responses, timer });
+    setGradingError(null);
+
+    let graded: Responses;
+    try {
+      graded = await gradePendingAnswers(
+        chatMutation.mutateAsync,
+        exam.questions.map((entry) => entry.question),
+        responses,
+        "the language of the question"
+      );
+    } catch (error) {
+      console.error("Failed to grade the exam:", error);
+      setGradingError(error instanceof Error ? error.message : "Failed to grade the exam");
+      return;
+    }
+
+    toMaterialResults(exam, graded, timer).forEach((quizResult, materialId) =>
+      updateMaterial(materialId, (m) => ({ quizResults: [...(m.quizResults || []), quizResult] }))
+    );
+    setResult({ responses: graded, report: gradeExam(exam, graded) });
+  };
+
+  const reset = () => {
+    setExam(null);
+    setSubmission(null);
+    setResult(null);
+    setGradingError(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-purple-600" />
+          Exam Mode
+        </CardTitle>
+        <CardDescription>Timed exam across several materials, graded when you submit</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!exam ? (
+          <ExamSetup materials={materials} initialCategory={category} onStart={setExam} />
+        ) : result ? (
+          <ExamResult
+            exam={exam}
+            responses={result.responses}
+            report={result.report}
+            materialName={materialName}
+            onRestart={reset}
+          />
+        ) : submission ? (
+          <div className="text-center text-gray-500 py-12 space-y-4">
+            {gradingError ? (
+              <>
+                <Alert variant="destructive" className="text-left">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{gradingError}</AlertDescription>
+                </Alert>
+                <Button onClick={() => finishExam(exam, submission)}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Retry Grading
+                </Button>
+              </>
+            ) : (
+              <>
+                <Loader2 className="h-12 w-12 mx-auto animate-spin text-purple-600" />
+                <p>Grading your exam...</p>
+              </>
+            )}
+          </div>
+        ) : (
+          <ExamRunner exam={exam} materialName={materialName} onSubmit={(answers) => finishExam(exam, answers)} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ExamSetup({
+  materials,
+  initialCategory,
+  onStart,
+}: {
+  materials: UploadedMaterial[];
+  initialCategory?: string;
+  onStart: (exam: Exam) => void;
+}) {
+  const eligible = examMaterials(materials);
+  const categories = [...new Set(eligible.map((material) => material.thematicCategory).filter((c): c is string => !!c))];
+  const [selectedIds, setSelectedIds] = useState<string[]>(() =>
+    eligible
+      .filter((material) => !initialCategory || material.thematicCategory === initialCategory)
+      .map((material) => material.id)
+  );
+  const [questionCount, setQuestionCount] = useState(20);
+  const [durationMinutes, setDurationMinutes] = useState(30);
+
+  const selected = eligible.filter((material) => selectedIds.includes(material.id));
+  const available = selected.reduce((sum, material) => sum + material.content!.quizQuestions.length, 0);
+
+  const toggle = (materialId: string, checked: boolean) =>
+    setSelectedIds((prev) => (checked ? [...prev, materialId] : prev.filter((id) => id !== materialId)));
+
+  if (eligible.length === 0) {
+    return (
+      <div className="text-center text-gray-500 py-12">
+        <ClipboardCheck className="h-16 w-16 mx-auto mb-4 opacity-50" />
+        <p>No quiz questions yet</p>
+        <p className="text-sm">Upload and process materials to build an exam from their questions</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <section className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="font-semibold">Materials</h3>
+          <div className="flex flex-wrap gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setSelectedIds(eligible.map((material) => material.id))}>
+              All
+            </Button>
+            {categories.map((category) => (
+              <Button
+                key={category}
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setSelectedIds(
+                    eligible.filter((material) => material.thematicCategory === category).map((material) => material.id)
+                  )
+                }
+              >
+                {category}
+              </Button>
+            ))}
+          </div>
+        </div>
+        <ScrollArea className="h-[220px] rounded-lg border p-2">
+          {eligible.map((material) => (
+            <Label key={material.id} className="flex items-center gap-3 p-2 rounded hover:bg-gray-50 cursor-pointer font-normal">
+              <Checkbox
+                checked={selectedIds.includes(material.id)}
+                onCheckedChange={(checked) => toggle(material.id, checked === true)}
+              />
+              <span className="flex-1 min-w-0 break-words text-sm">{material.fileName}</span>
+              {material.thematicCategory && (
+                <Badge variant="outline" className="text-xs">
+                  {material.thematicCategory}
+                </Badge>
+              )}
+              <span className="text-xs text-gray-500">{material.content!.quizQuestions.length} questions</span>
+            </Label>
+          ))}
+        </ScrollArea>
+      </section>
+
+      <section className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="exam-questions">Questions</Label>
+          <Select value={String(questionCount)} onValueChange={(value) => setQuestionCount(Number(value))}>
+            <SelectTrigger id="exam-questions">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {QUESTION_COUNTS.map((count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count} questions
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="exam-duration">Time limit</Label>
+          <Select value={String(durationMinutes)} onValueChange={(value) => setDurationMinutes(Number(value))}>
+            <SelectTrigger id="exam-duration">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DURATIONS_MINUTES.map((minutes) => (
+                <SelectItem key={minutes} value={String(minutes)}>
+                  {minutes} minutes
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </section>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-500">
+          {selected.length} material{selected.length !== 1 ? "s" : ""} · {Math.min(questionCount, available)} of {available}{" "}
+          questions
+        </p>
+        <Button
+          disabled={available === 0}
+          onClick={() => onStart(buildExam(selected, { questionCount, durationMs: durationMinutes * 60_000 }))}
+        >
+          <Timer className="h-4 w-4 mr-2" />
+          Start Exam
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ExamRunner({
+  exam,
+  materialName,
+  onSubmit,
+}: {
+  exam: Exam;
+  materialName: (materialId: string) => string;
+  onSubmit: (submission: Submission) => void;
+}) {
+  const [responses, setResponses] = useState<Responses>({});
+  const [timer, setTimer] = useState(() => startAttemptTimer(exam.questions.length, exam.startedAt));
+  const [now, setNow] = useState(() => Date.now());
+  const timeLeft = examTimeLeft(exam, now);
+  const answered = exam.questions.filter((entry, idx) => isResponseComplete(entry.question, responses[idx])).length;
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Submit once when the time is up, with whatever has been answered
+  const latest = useRef<Submission>({ responses, timer });
+  latest.current = { responses, timer };
+  const submitted = useRef(false);
+  const submit = () => {
+    if (submitted.current) return;
+    submitted.current = true;
+    onSubmit(latest.current);
+  };
+  useEffect(() => {
+    if (timeLeft === 0) submit();
+  });
+
+  const answer = (questionIndex: number, response: QuizResponse) => {
+    setResponses((prev) => ({ ...prev, [questionIndex]: response }));
+    setTimer((prev) => recordAnswerTime(prev, questionIndex));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span
+          className={`flex items-center gap-2 font-mono text-lg font-bold ${timeLeft <= WARNING_MS ? "text-red-600" : "text-gray-800"}`}
+        >
+          <Clock className="h-5 w-5" />
+          {formatDuration(timeLeft)}
+        </span>
+        <span className="text-sm text-gray-500">
+          {answered}/{exam.questions.length} answered
+        </span>
+        <Button onClick={submit}>
+          <Send className="h-4 w-4 mr-2" />
+          Submit Exam
+        </Button>
+      </div>
+
+      <ScrollArea className="h-[450px]">
+        {exam.questions.map((entry, idx) => (
+          <div key={idx} className="mb-6">
+            <p className="text-xs text-gray-500 mb-1">{materialName(entry.materialId)}</p>
+            <h3 className="font-semibold mb-3">
+              <MathText text={`${idx + 1}. ${formatQuestionText(entry.question)}`} />
+            </h3>
+            <QuizQuestionInput
+              question={entry.question}
+              response={responses[idx]}
+              onChange={(response) => answer(idx, response)}
+              revealed={false}
+            />
+            {idx < exam.questions.length - 1 && <Separator className="my-4" />}
+          </div>
+        ))}
+      </ScrollArea>
+    </div>
+  );
+}
+
+function ScoreBar({ label, score }: { label: string; score: ExamScore }) {
+  const color = score.percentage >= 80 ? "bg-green-500" : score.percentage >= 60 ? "bg-yellow-500" : "bg-red-500";
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="truncate text-gray-700">{label}</span>
+        <span className="shrink-0 text-gray-500">
+          {score.correct}/{score.total} · {score.percentage.toFixed(0)}%
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+        <div className={`h-full rounded-full ${color}`} style={{ width: `${score.percentage}%` }} />
+      </div>
+    </div>
+  );
+}
+
+function ExamResult({
+  exam,
+  responses,
+  report,
+  materialName,
+  onRestart,
+}: {
+  exam: Exam;
+  responses: Responses;
+  report: ExamReport;
+  materialName: (materialId: string) => string;
+  onRestart: () => void;
+}) {
+  return (
+    <ScrollArea className="h-[560px]">
+      <div className="space-y-6 pr-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-baseline gap-2">
+            <span className={`text-4xl font-bold ${report.percentage >= 60 ? "text-green-600" : "text-red-600"}`}>
+              {report.percentage.toFixed(1)}%
+            </span>
+            <span className="text-gray-600">
+              {report.correct}/{report.total} correct
+            </span>
+          </div>
+          <Button variant="outline" onClick={onRestart}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            New Exam
+          </Button>
+        </div>
+
+        <section className="space-y-3">
+          <h3 className="font-semibold">By material</h3>
+          {report.byMaterial.map((entry) => (
+            <ScoreBar key={entry.materialId} label={materialName(entry.materialId)} score={entry} />
+          ))}
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="font-semibold">By topic</h3>
+          {report.byTopic.map((entry) => (
+            <ScoreBar key={entry.topic} label={entry.topic} score={entry} />
+          ))}
+        </section>
+
+        <Separator />
+
+        <section>
+          <h3 className="font-semibold mb-3">Answers</h3>
+          {exam.questions.map((entry, idx) => (
+            <div key={idx} className="mb-6">
+              <p className="text-xs text-gray-500 mb-1">{materialName(entry.materialId)}</p>
+              <h4 className="font-semibold mb-3">
+                <MathText text={`${idx + 1}. ${formatQuestionText(entry.question)}`} />
+              </h4>
+              <QuizQuestionInput question={entry.question} response={responses[idx]} revealed />
+              {entry.question.explanation && (
+                <Alert className="mt-3 bg-blue-50 border-blue-200">
+                  <AlertDescription>
+                    <strong>Explanation:</strong> <MathText text={entry.question.explanation} />
+                  </AlertDescription>
+                </Alert>
+              )}
+              <SourceCitations materialId={entry.materialId} citations={entry.question.citations} className="mt-2" />
+            </div>
+          ))}
+        </section>
+      </div>
+    </ScrollArea>
+  );
+}
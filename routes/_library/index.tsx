@@ -0,0 +1,26 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Brain, Sparkles } from "lucide-react";
+
+export const Route = createFileRoute("/_library/")({
+  component: NoMaterialSelected,
+});
+
+function NoMaterialSelected() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-purple-600" />
+          Learning Content
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-center text-gray-500 py-12">
+          <Brain className="h-16 w-16 mx-auto mb-4 opacity-50" />
+          <p>Select a material to view its content</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
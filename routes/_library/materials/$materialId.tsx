@@ -0,0 +1,158 @@
+import { createFileRoute, Link, Outlet, useMatchRoute } from "@tanstack/react-router";
+import { useState } from "react";
+import { useLibrary } from "@/hooks/use-library";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Crown, FileQuestion, PauseCircle, RotateCcw, Send, Sparkles } from "lucide-react";
+import { GenerationPreview } from "@/components/GenerationPreview";
+import { NotionExportDialog } from "@/components/NotionExportDialog";
+import { PIPELINE_STAGES, canResume, getActiveStages, getStageLabel } from "@/lib/pipeline";
+import type { UploadedMaterial } from "@/lib/types";
+
+export const Route = createFileRoute("/_library/materials/$materialId")({
+  component: MaterialPage,
+});
+
+const STUDY_MODES = [
+  { to: "/materials/$materialId/lessons", label: "Lessons" },
+  { to: "/materials/$materialId/quiz", label: "Quiz" },
+  { to: "/materials/$materialId/summary", label: "Summary" },
+  { to: "/materials/$materialId/flashcards", label: "Flashcards", premium: true },
+  { to: "/materials/$materialId/tutor", label: "Tutor" },
+  { to: "/materials/$materialId/stats", label: "Stats" },
+  { to: "/materials/$materialId/source", label: "Source" },
+] as const;
+
+function MaterialPage() {
+  const { materialId } = Route.useParams();
+  const { materials, updateMaterial } = useLibrary();
+  const material = materials.find((m) => m.id === materialId);
+  const [showNotionDialog, setShowNotionDialog] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5 text-purple-600" />
+          Learning Content
+        </CardTitle>
+        {material?.processingStatus === "completed" && (
+          <>
+            <Button size="sm" variant="outline" onClick={() => setShowNotionDialog(true)}>
+              <Send className="h-4 w-4 mr-2" />
+              {material.notionExport ? "Update in Notion" : "Send to Notion"}
+            </Button>
+            <NotionExportDialog
+              open={showNotionDialog}
+              onOpenChange={setShowNotionDialog}
+              material={material}
+              materials={materials}
+              onExported={(notionExport) => updateMaterial(material.id, { notionExport })}
+            />
+          </>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!material ? (
+          <div className="text-center text-gray-500 py-12">
+            <FileQuestion className="h-16 w-16 mx-auto mb-4 opacity-50" />
+            <p>This material is not in your library</p>
+            <Button variant="link" asChild>
+              <Link to="/">Back to your materials</Link>
+            </Button>
+          </div>
+        ) : material.processingStatus === "completed" ? (
+          <StudyModes material={material} />
+        ) : (
+          <ProcessingStatus material={material} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Error, interruption or live preview of a material that is not ready yet
+function ProcessingStatus({ material }: { material: UploadedMaterial }) {
+  const { preview, pipelineProgress, resumeProcessing, cancelProcessing } = useLibrary();
+
+  if (material.processingStatus === "error") {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+          <span className="whitespace-pre-line">{material.error || "Failed to process this file"}</span>
+          {canResume(material) && (
+            <Button size="sm" variant="outline" onClick={() => resumeProcessing(material)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retry
+            </Button>
+          )}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (material.processingStatus === "interrupted") {
+    return (
+      <Alert className="bg-orange-50 border-orange-200">
+        <PauseCircle className="h-4 w-4 text-orange-600" />
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-2 text-orange-900">
+          <span>
+            Processing was interrupted after {material.pipeline?.completedStages.length ?? 0} of{" "}
+            {PIPELINE_STAGES.length} steps. Finished steps are kept.
+          </span>
+          {canResume(material) && (
+            <Button size="sm" onClick={() => resumeProcessing(material)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Resume
+            </Button>
+          )}
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  const activeStages = material.pipeline ? getActiveStages(material.pipeline) : [];
+  const livePreview = preview?.materialId === material.id ? preview : null;
+  return (
+    <GenerationPreview
+      stageLabel={activeStages.map(getStageLabel).join(", ") || undefined}
+      lessons={livePreview?.microLessons || material.pipeline?.draft.microLessons || []}
+      summary={livePreview?.summary || material.pipeline?.draft.summary}
+      progress={pipelineProgress[material.id]}
+      onCancel={() => cancelProcessing(material.id)}
+    />
+  );
+}
+
+function StudyModes({ material }: { material: UploadedMaterial }) {
+  const { isPremium } = useLibrary();
+  const matchRoute = useMatchRoute();
+  const params = { materialId: material.id };
+  const activeMode = STUDY_MODES.find((mode) => matchRoute({ to: mode.to, params }))?.to;
+
+  return (
+    <Tabs value={activeMode} className="w-full">
+      <TabsList className="grid w-full grid-cols-7">
+        {STUDY_MODES.map((mode) => {
+          const locked = "premium" in mode && !isPremium;
+          return (
+            <TabsTrigger key={mode.to} value={mode.to} disabled={locked} asChild>
+              <Link to={mode.to} params={params} disabled={locked}>
+                {mode.label}
+                {locked && <Crown className="h-3 w-3 ml-1 text-yellow-500" />}
+              </Link>
+            </TabsTrigger>
+          );
+        })}
+      </TabsList>
+
+      {/* Study modes keep per-material state such as quiz answers; start fresh for another material */}
+      <div className="mt-2">
+        <Outlet key={material.id} />
+      </div>
+    </Tabs>
+  );
+}
@@ -0,0 +1,122 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { useCurrentMaterial, useLibrary } from "@/hooks/use-library";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Crown } from "lucide-react";
+import { MathText } from "@/components/MathText";
+import { SourceCitations } from "@/components/SourceCitations";
+import { ReviewGradeButtons } from "@/components/FlashcardReview";
+import { daysUntilDue, formatInterval, isCardDue } from "@/lib/spaced-repetition";
+
+const flashcardsSearchSchema = z.object({
+  // Card to scroll to, e.g. from a search result
+  card: z.number().int().nonnegative().optional().catch(undefined),
+});
+
+export const Route = createFileRoute("/_library/materials/$materialId/flashcards")({
+  validateSearch: flashcardsSearchSchema,
+  component: Flashcards,
+});
+
+function Flashcards() {
+  const material = useCurrentMaterial(Route.useParams().materialId);
+  const { isPremium, gradeFlashcard, openSubscriptionDialog } = useLibrary();
+  const [flippedCards, setFlippedCards] = useState<Record<number, boolean>>({});
+  const { card: targetCard } = Route.useSearch();
+  const targetRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (targetCard === undefined) return;
+    targetRef.current?.scrollIntoView?.({ block: "center" });
+  }, [targetCard]);
+
+  if (!isPremium) {
+    return (
+      <div className="text-center py-12">
+        <Crown className="h-16 w-16 mx-auto mb-4 text-yellow-500" />
+        <h3 className="text-xl font-semibold mb-2">Premium Feature</h3>
+        <p className="text-gray-600 mb-4">Flashcards sind nur für Premium-Mitglieder verfügbar</p>
+        <Button
+          onClick={openSubscriptionDialog}
+          className="bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600 text-white"
+        >
+          <Crown className="h-4 w-4 mr-2" />
+          Jetzt Premium werden
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-[450px]">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {material.content?.flashcards.map((card, idx) => {
+          const isFlipped = flippedCards[idx] || false;
+          const isDue = isCardDue(card.schedule);
+
+          return (
+            <Card
+              key={idx}
+              ref={idx === targetCard ? targetRef : undefined}
+              className={`border-2 cursor-pointer transition-all hover:shadow-lg ${
+                idx === targetCard ? "border-yellow-400" : ""
+              }`}
+              onClick={() => setFlippedCards((prev) => ({ ...prev, [idx]: !prev[idx] }))}
+            >
+              <CardHeader>
+                <CardTitle className="text-sm font-semibold flex items-center justify-between">
+                  <span className="text-blue-600">Flashcard {idx + 1}</span>
+                  <span className="flex items-center gap-1">
+                    {isDue ? (
+                      <Badge variant="secondary" className="text-xs">Due</Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs text-gray-500">
+                        in {formatInterval(daysUntilDue(card.schedule))}
+                      </Badge>
+                    )}
+                    <Badge variant="outline" className="text-xs">
+                      {isFlipped ? "Back" : "Front"}
+                    </Badge>
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="min-h-[120px] flex flex-col justify-center">
+                {!isFlipped ? (
+                  <div>
+                    <p className="text-xs text-gray-500 mb-2">Question:</p>
+                    <div className="font-medium text-lg">
+                      <MathText text={card.front} />
+                    </div>
+                    <p className="text-xs text-gray-400 mt-4 italic">Click to reveal answer</p>
+                  </div>
+                ) : (
+                  <div>
+                    <p className="text-xs text-gray-500 mb-2">Answer:</p>
+                    <div className="text-gray-700 text-base">
+                      <MathText text={card.back} />
+                    </div>
+                    <SourceCitations materialId={material.id} citations={card.citations} className="mt-2" />
+                    <p className="text-xs text-gray-400 mt-4 italic">Click to see question</p>
+                    <div className="mt-4">
+                      <ReviewGradeButtons
+                        schedule={card.schedule}
+                        onGrade={(grade) => {
+                          gradeFlashcard(material.id, idx, grade);
+                          setFlippedCards((prev) => ({ ...prev, [idx]: false }));
+                        }}
+                      />
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,8 @@
+import { createFileRoute, redirect } from "@tanstack/react-router";
+
+// A material opens on its lessons
+export const Route = createFileRoute("/_library/materials/$materialId/")({
+  beforeLoad: ({ params }) => {
+    throw redirect({ to: "/materials/$materialId/lessons", params, replace: true });
+  },
+});
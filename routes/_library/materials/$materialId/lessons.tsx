@@ -0,0 +1,51 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useEffect, useRef } from "react";
+import { z } from "zod";
+import { useCurrentMaterial } from "@/hooks/use-library";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { MathText } from "@/components/MathText";
+import { SourceCitations } from "@/components/SourceCitations";
+
+const lessonsSearchSchema = z.object({
+  // Lesson to scroll to, e.g. from a search result
+  lesson: z.number().int().nonnegative().optional().catch(undefined),
+});
+
+export const Route = createFileRoute("/_library/materials/$materialId/lessons")({
+  validateSearch: lessonsSearchSchema,
+  component: Lessons,
+});
+
+function Lessons() {
+  const material = useCurrentMaterial(Route.useParams().materialId);
+  const { lesson: targetLesson } = Route.useSearch();
+  const targetRef = useRef<HTMLDivElement>(null);
+  const lessons = material.content?.microLessons ?? [];
+
+  useEffect(() => {
+    if (targetLesson === undefined) return;
+    targetRef.current?.scrollIntoView?.({ block: "start" });
+  }, [targetLesson]);
+
+  return (
+    <ScrollArea className="h-[450px]">
+      {lessons.map((lesson, idx) => (
+        <div
+          key={idx}
+          ref={idx === targetLesson ? targetRef : undefined}
+          className={`mb-4 ${idx === targetLesson ? "rounded-lg bg-yellow-50 p-2" : ""}`}
+        >
+          <h3 className="font-semibold text-lg mb-2">
+            <MathText text={`${idx + 1}. ${lesson.title}`} />
+          </h3>
+          <div className="text-gray-700 whitespace-pre-wrap">
+            <MathText text={lesson.content} />
+          </div>
+          <SourceCitations materialId={material.id} citations={lesson.citations} className="mt-2" />
+          {idx < lessons.length - 1 && <Separator className="my-4" />}
+        </div>
+      ))}
+    </ScrollArea>
+  );
+}
@@ -0,0 +1,361 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useState } from "react";
+import { z } from "zod";
+import { useGPTChatMutation } from "@/hooks/use-gpt-chat";
+import { useCurrentMaterial, useLibrary } from "@/hooks/use-library";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertCircle,
+  ArrowLeft,
+  BarChart3,
+  CheckCircle,
+  History,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  Target,
+} from "lucide-react";
+import { MathText } from "@/components/MathText";
+import { QuizAttemptReview } from "@/components/QuizAttemptReview";
+import { SourceCitations } from "@/components/SourceCitations";
+import { QuizQuestionInput } from "@/components/QuizQuestionInput";
+import { generateNewQuizQuestions, generateWeakSpotQuestions } from "@/lib/generation";
+import { hasWeakSpots, mixInRetries, planWeakSpotQuiz, type WeakSpotPlan } from "@/lib/mastery";
+import {
+  collectAskedQuestions,
+  createQuizAttempt,
+  findAttempt,
+  recordAnswerTime,
+  startAttemptTimer,
+} from "@/lib/quiz-attempts";
+import { gradeFreeTextAnswer, gradePendingAnswers } from "@/lib/grading";
+import { formatQuestionText, isResponseComplete, needsGrading, readResponse } from "@/lib/question-types";
+import type { QuizQuestion, QuizResponse, QuizResult, UploadedMaterial } from "@/lib/types";
+
+// Missed questions asked again in a practice quiz, next to the new ones
+const MAX_RETRIES = 3;
+
+const DIFFICULTY_LABELS = {
+  easier: "easier",
+  standard: "normal",
+  harder: "harder",
+} satisfies Record<WeakSpotPlan["difficulty"], string>;
+
+const quizSearchSchema = z.object({
+  // Finished attempt to replay instead of the live quiz
+  attempt: z.string().optional().catch(undefined),
+});
+
+export const Route = createFileRoute("/_library/materials/$materialId/quiz")({
+  validateSearch: quizSearchSchema,
+  component: QuizPage,
+});
+
+function QuizPage() {
+  const material = useCurrentMaterial(Route.useParams().materialId);
+  const { attempt: attemptId } = Route.useSearch();
+
+  return attemptId ? <AttemptReview material={material} attemptId={attemptId} /> : <Quiz material={material} />;
+}
+
+function AttemptReview({ material, attemptId }: { material: UploadedMaterial; attemptId: string }) {
+  const attempt = findAttempt(material.quizResults, attemptId);
+  const params = { materialId: material.id };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/materials/$materialId/quiz" params={params}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Quiz
+          </Link>
+        </Button>
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/materials/$materialId/stats" params={params}>
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Results History
+          </Link>
+        </Button>
+      </div>
+      {attempt ? (
+        <QuizAttemptReview materialId={material.id} attempt={attempt} />
+      ) : (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>This attempt was not found or was saved without its answers.</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
+
+function Quiz({ material }: { material: UploadedMaterial }) {
+  const { updateMaterial } = useLibrary();
+  const chatMutation = useGPTChatMutation();
+  // Practice quiz on weak spots; replaces the material's quiz until the learner goes back
+  const [practice, setPractice] = useState<{ questions: QuizQuestion[]; plan: WeakSpotPlan } | null>(null);
+  const questions = practice?.questions ?? material.content?.quizQuestions ?? [];
+  const weakSpots = planWeakSpotQuiz(material.quizResults);
+  const [quizAnswers, setQuizAnswers] = useState<Record<number, QuizResponse | null>>({});
+  const [revealedAnswers, setRevealedAnswers] = useState<Record<number, boolean>>({});
+  // Free-text answers currently being graded by the model
+  const [gradingAnswers, setGradingAnswers] = useState<Record<number, boolean>>({});
+  const [isCheckingAll, setIsCheckingAll] = useState(false);
+  const gradingLanguage = material.detectedLanguage ?? "the language of the question";
+  const [timer, setTimer] = useState(() => startAttemptTimer(questions.length));
+  // Attempt saved by "Check All Answers"; the quiz is finished until it is retaken
+  const [savedAttemptId, setSavedAttemptId] = useState<string | null>(null);
+  const [isGeneratingQuestions, setIsGeneratingQuestions] = useState(false);
+  const [questionError, setQuestionError] = useState<string | null>(null);
+
+  const resetQuiz = (questionCount = questions.length) => {
+    setQuizAnswers({});
+    setRevealedAnswers({});
+    setGradingAnswers({});
+    setTimer(startAttemptTimer(questionCount));
+    setSavedAttemptId(null);
+  };
+
+  const selectAnswer = (questionIndex: number, response: QuizResponse) => {
+    setQuizAnswers((prev) => ({ ...prev, [questionIndex]: response }));
+    setTimer((prev) => recordAnswerTime(prev, questionIndex));
+  };
+
+  // Check all answers at once and save the attempt with its questions and answers
+  // Free-text answers are graded first; the attempt is only saved once every answer has its grade
+  const checkAllAnswers = async () => {
+    if (questions.length === 0) return;
+
+    setIsCheckingAll(true);
+    setQuestionError(null);
+    let answers: Record<number, QuizResponse | null>;
+    try {
+      answers = await gradePendingAnswers(chatMutation.mutateAsync, questions, quizAnswers, gradingLanguage);
+    } catch (error) {
+      console.error("Failed to grade answers:", error);
+      setQuestionError(error instanceof Error ? error.message : "Failed to grade answers");
+      return;
+    } finally {
+      setIsCheckingAll(false);
+    }
+
+    setQuizAnswers(answers);
+    setRevealedAnswers(Object.fromEntries(questions.map((_, idx) => [idx, true])));
+    const attempt: QuizResult = {
+      ...createQuizAttempt(questions, answers, timer),
+      ...(practice && { mode: "practice" }),
+    };
+    updateMaterial(material.id, (m) => ({ quizResults: [...(m.quizResults || []), attempt] }));
+    setSavedAttemptId(attempt.id ?? null);
+  };
+
+  // Reveal a single question, grading a free-text answer first
+  const checkAnswer = async (questionIndex: number) => {
+    const question = questions[questionIndex];
+    const response = quizAnswers[questionIndex];
+
+    if (question.type === "freeText" && needsGrading(question, response)) {
+      const { text } = readResponse("freeText", response)!;
+      setGradingAnswers((prev) => ({ ...prev, [questionIndex]: true }));
+      setQuestionError(null);
+      try {
+        const grade = await gradeFreeTextAnswer(chatMutation.mutateAsync, question, text, gradingLanguage);
+        setQuizAnswers((prev) => ({ ...prev, [questionIndex]: { text, grade } }));
+      } catch (error) {
+        console.error("Failed to grade answer:", error);
+        setQuestionError(error instanceof Error ? error.message : "Failed to grade answer");
+        return;
+      } finally {
+        setGradingAnswers((prev) => ({ ...prev, [questionIndex]: false }));
+      }
+    }
+
+    setRevealedAnswers((prev) => ({ ...prev, [questionIndex]: true }));
+  };
+
+  // Generate new quiz questions
+  const generateNewQuestions = async () => {
+    if (!material.extractedText || !material.detectedLanguage) return;
+
+    setIsGeneratingQuestions(true);
+    setQuestionError(null);
+
+    try {
+      const newQuestions = await generateNewQuizQuestions(
+        chatMutation.mutateAsync,
+        material.extractedText,
+        material.detectedLanguage,
+        collectAskedQuestions(material.quizResults, material.content?.quizQuestions)
+      );
+
+      if (newQuestions.length > 0) {
+        updateMaterial(material.id, (m) => (m.content ? { content: { ...m.content, quizQuestions: newQuestions } } : {}));
+
+        resetQuiz(newQuestions.length);
+      }
+    } catch (error) {
+      console.error("Failed to generate new questions:", error);
+      setQuestionError(error instanceof Error ? error.message : "Failed to generate new questions");
+    } finally {
+      setIsGeneratingQuestions(false);
+    }
+  };
+
+  // Build a practice quiz: new questions on weak concepts plus retries of missed ones
+  const startPractice = async () => {
+    if (!material.extractedText || !material.detectedLanguage) return;
+
+    setIsGeneratingQuestions(true);
+    setQuestionError(null);
+
+    try {
+      const generated = await generateWeakSpotQuestions(
+        chatMutation.mutateAsync,
+        material.extractedText,
+        material.detectedLanguage,
+        weakSpots,
+        collectAskedQuestions(material.quizResults, material.content?.quizQuestions)
+      );
+      const practiceQuestions = mixInRetries(generated, weakSpots.missedQuestions.slice(0, MAX_RETRIES));
+      setPractice({ questions: practiceQuestions, plan: weakSpots });
+      resetQuiz(practiceQuestions.length);
+    } catch (error) {
+      console.error("Failed to generate practice questions:", error);
+      setQuestionError(error instanceof Error ? error.message : "Failed to generate practice questions");
+    } finally {
+      setIsGeneratingQuestions(false);
+    }
+  };
+
+  const endPractice = () => {
+    setPractice(null);
+    resetQuiz(material.content?.quizQuestions.length ?? 0);
+  };
+
+  return (
+    <div className="space-y-4">
+      {practice && (
+        <Alert className="bg-purple-50 border-purple-200">
+          <Target className="h-4 w-4 text-purple-600" />
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2 text-purple-900">
+            <span>
+              <strong>Practicing your weak spots</strong>
+              {practice.plan.weakConcepts.length > 0 &&
+                `: ${practice.plan.weakConcepts.slice(0, 4).map((entry) => entry.concept).join(", ")}`}
+              {" "}· Difficulty: {DIFFICULTY_LABELS[practice.plan.difficulty]}
+            </span>
+            <Button size="sm" variant="outline" onClick={endPractice}>
+              Back to Regular Quiz
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+      <div className="flex flex-wrap gap-2 mb-4">
+        <Button
+          onClick={checkAllAnswers}
+          variant="default"
+          size="sm"
+          disabled={Object.keys(quizAnswers).length === 0 || !!savedAttemptId || isCheckingAll}
+        >
+          {isCheckingAll ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+          Check All Answers
+        </Button>
+        {savedAttemptId && (
+          <>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/materials/$materialId/quiz" params={{ materialId: material.id }} search={{ attempt: savedAttemptId }}>
+                <History className="h-4 w-4 mr-2" />
+                Review Attempt
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => resetQuiz()}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Retake Quiz
+            </Button>
+          </>
+        )}
+        {!practice && (
+          <Button
+            onClick={generateNewQuestions}
+            variant="outline"
+            size="sm"
+            disabled={isGeneratingQuestions}
+          >
+            {isGeneratingQuestions ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="h-4 w-4 mr-2" />
+            )}
+            Generate New Questions
+          </Button>
+        )}
+        {hasWeakSpots(weakSpots) && (
+          <Button onClick={startPractice} variant="outline" size="sm" disabled={isGeneratingQuestions}>
+            {isGeneratingQuestions ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Target className="h-4 w-4 mr-2" />
+            )}
+            {practice ? "New Practice Round" : "Practice My Weak Spots"}
+          </Button>
+        )}
+        {material.quizResults && material.quizResults.length > 0 && (
+          <Button variant="outline" size="sm" asChild>
+            <Link to="/materials/$materialId/stats" params={{ materialId: material.id }}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Results History
+            </Link>
+          </Button>
+        )}
+      </div>
+
+      {questionError && (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{questionError}</AlertDescription>
+        </Alert>
+      )}
+
+      <ScrollArea className="h-[450px]">
+        {questions.map((quiz, idx) => {
+          const userAnswer = quizAnswers[idx];
+          const isRevealed = revealedAnswers[idx];
+          const isGrading = !!gradingAnswers[idx] || (isCheckingAll && needsGrading(quiz, userAnswer));
+
+          return (
+            <div key={idx} className="mb-6">
+              <h3 className="font-semibold mb-3">
+                <MathText text={`${idx + 1}. ${formatQuestionText(quiz)}`} />
+              </h3>
+              <QuizQuestionInput
+                question={quiz}
+                response={userAnswer}
+                onChange={(response) => selectAnswer(idx, response)}
+                revealed={!!isRevealed}
+                grading={isGrading}
+              />
+              {isResponseComplete(quiz, userAnswer) && !isRevealed && (
+                <Button onClick={() => checkAnswer(idx)} className="mt-3" size="sm" disabled={isGrading}>
+                  Check Answer
+                </Button>
+              )}
+              {isRevealed && quiz.explanation && (
+                <Alert className="mt-3 bg-blue-50 border-blue-200">
+                  <AlertDescription>
+                    <strong>Explanation:</strong> <MathText text={quiz.explanation} />
+                  </AlertDescription>
+                </Alert>
+              )}
+              {isRevealed && <SourceCitations materialId={material.id} citations={quiz.citations} className="mt-2" />}
+              {idx < questions.length - 1 && <Separator className="my-4" />}
+            </div>
+          );
+        })}
+      </ScrollArea>
+    </div>
+  );
+}
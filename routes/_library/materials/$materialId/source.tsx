@@ -0,0 +1,124 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useEffect, useRef, useState } from "react";
+import { z } from "zod";
+import { useCurrentMaterial, useLibrary } from "@/hooks/use-library";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { EnrichSourcesDialog } from "@/components/EnrichSourcesDialog";
+import { FileText, Globe } from "lucide-react";
+import { splitPages } from "@/lib/chunking";
+import { enrichMaterial, isThinMaterial } from "@/lib/enrichment";
+
+const sourceSearchSchema = z.object({
+  // Passage to highlight, as offsets into the extracted text
+  start: z.number().int().nonnegative().optional().catch(undefined),
+  end: z.number().int().nonnegative().optional().catch(undefined),
+});
+
+export const Route = createFileRoute("/_library/materials/$materialId/source")({
+  validateSearch: sourceSearchSchema,
+  component: SourceViewer,
+});
+
+function SourceViewer() {
+  const material = useCurrentMaterial(Route.useParams().materialId);
+  const { updateMaterial, resumeProcessing } = useLibrary();
+  const { start, end } = Route.useSearch();
+  const [showEnrichDialog, setShowEnrichDialog] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const highlight = start !== undefined && end !== undefined && end > start ? { start, end } : undefined;
+
+  // Scroll the highlighted passage into view whenever another citation is opened
+  useEffect(() => {
+    if (start === undefined || end === undefined) return;
+    containerRef.current?.querySelector("mark")?.scrollIntoView?.({ block: "center" });
+  }, [start, end]);
+
+  if (!material.extractedText.trim()) {
+    return (
+      <div className="text-center text-gray-500 py-12">
+        <FileText className="h-16 w-16 mx-auto mb-4 opacity-50" />
+        <p>No source text available</p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <p className="text-xs text-gray-500 truncate">
+          {isThinMaterial(material)
+            ? "This material is short. Background reading from the web gives the lessons more to work with."
+            : material.sourceUrl && (
+                <>
+                  Imported from{" "}
+                  <a href={material.sourceUrl} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+                    {material.sourceUrl}
+                  </a>
+                </>
+              )}
+        </p>
+        <Button size="sm" variant="outline" onClick={() => setShowEnrichDialog(true)}>
+          <Globe className="h-4 w-4 mr-2" />
+          Enrich with sources
+        </Button>
+      </div>
+      <ScrollArea className="h-[450px]">
+        <div ref={containerRef} className="space-y-6 pr-3">
+          {splitPages(material.extractedText).map((page) => (
+            <section key={page.start} className={page.sourceUrl ? "rounded-lg bg-purple-50 p-3" : undefined}>
+              {page.sourceUrl ? (
+                <h3 className="text-xs font-semibold uppercase text-purple-600 mb-2 truncate">
+                  Supplementary source ·{" "}
+                  <a href={page.sourceUrl} target="_blank" rel="noreferrer" className="normal-case hover:underline">
+                    {page.sourceUrl}
+                  </a>
+                </h3>
+              ) : (
+                page.page !== undefined && (
+                  <h3 className="text-xs font-semibold uppercase text-gray-400 mb-2">Page {page.page}</h3>
+                )
+              )}
+              <div className="text-sm text-gray-700 whitespace-pre-wrap">
+                <HighlightedText text={page.text} offset={page.start} highlight={highlight} />
+              </div>
+            </section>
+          ))}
+        </div>
+      </ScrollArea>
+      <EnrichSourcesDialog
+        open={showEnrichDialog}
+        onOpenChange={setShowEnrichDialog}
+        material={material}
+        onEnrich={(sources) => {
+          const patch = enrichMaterial(material, sources);
+          updateMaterial(material.id, patch);
+          resumeProcessing({ ...material, ...patch });
+        }}
+      />
+    </>
+  );
+}
+
+// Text starting at `offset` in the extracted text, with the part inside the highlight marked
+function HighlightedText({
+  text,
+  offset,
+  highlight,
+}: {
+  text: string;
+  offset: number;
+  highlight?: { start: number; end: number };
+}) {
+  const from = highlight ? Math.min(Math.max(highlight.start - offset, 0), text.length) : text.length;
+  const to = highlight ? Math.min(Math.max(highlight.end - offset, 0), text.length) : text.length;
+  if (from >= to) return <>{text.trim()}</>;
+
+  return (
+    <>
+      {text.slice(0, from).trimStart()}
+      <mark className="bg-yellow-200 rounded px-0.5">{text.slice(from, to)}</mark>
+      {text.slice(to).trimEnd()}
+    </>
+  );
+}
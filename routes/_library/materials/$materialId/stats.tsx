@@ -0,0 +1,210 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useCurrentMaterial } from "@/hooks/use-library";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { BarChart3, Brain, ClipboardCheck, Clock, History, Target } from "lucide-react";
+import { MASTERY_THRESHOLD, computeConceptMastery, type ConceptMastery } from "@/lib/mastery";
+import { formatDuration, isReviewable, totalAttemptTime } from "@/lib/quiz-attempts";
+import type { QuizResult } from "@/lib/types";
+
+export const Route = createFileRoute("/_library/materials/$materialId/stats")({
+  component: Stats,
+});
+
+function Stats() {
+  const material = useCurrentMaterial(Route.useParams().materialId);
+  const results = material.quizResults ?? [];
+
+  if (results.length === 0) {
+    return (
+      <div className="text-center text-gray-500 py-12">
+        <BarChart3 className="h-16 w-16 mx-auto mb-4 opacity-50" />
+        <p>No quiz results yet</p>
+        <p className="text-sm">Check your answers in the quiz to track your progress</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-[450px]">
+      <Card className="bg-gradient-to-br from-blue-50 to-purple-50 border-2 border-blue-200">
+        <CardHeader>
+          <CardTitle className="text-base flex items-center gap-2">
+            <BarChart3 className="h-5 w-5 text-blue-600" />
+            Quiz Results History
+          </CardTitle>
+          <CardDescription className="text-xs">Track your learning progress over time</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {results.map((result, idx) => (
+              <ResultBar key={result.id ?? idx} materialId={material.id} result={result} attempt={idx + 1} />
+            ))}
+          </div>
+          <Separator className="my-4" />
+          <ResultSummary results={results} />
+        </CardContent>
+      </Card>
+      <ConceptMasteryCard mastery={computeConceptMastery(results)} />
+    </ScrollArea>
+  );
+}
+
+function ResultBar({ materialId, result, attempt }: { materialId: string; result: QuizResult; attempt: number }) {
+  const barWidth = result.percentage;
+  const color =
+    result.percentage >= 80 ? "bg-gradient-to-r from-green-500 to-green-600" :
+    result.percentage >= 60 ? "bg-gradient-to-r from-yellow-500 to-yellow-600" :
+    "bg-gradient-to-r from-red-500 to-red-600";
+  const textColor =
+    result.percentage >= 80 ? "text-green-700" :
+    result.percentage >= 60 ? "text-yellow-700" :
+    "text-red-700";
+
+  return (
+    <div className="space-y-1.5 p-3 bg-white rounded-lg shadow-sm hover:shadow-md transition-shadow">
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="text-gray-600 font-medium flex items-center gap-1">
+          <span className={`inline-block w-5 h-5 rounded-full ${textColor} bg-opacity-10 flex items-center justify-center text-xs font-bold`}>
+            {attempt}
+          </span>
+          {new Date(result.timestamp).toLocaleString()}
+        </span>
+        <span className="flex items-center gap-2">
+          {result.mode === "practice" && (
+            <Badge variant="outline" className="text-xs text-purple-700 border-purple-300">
+              <Target className="h-3 w-3 mr-1" />
+              Practice
+            </Badge>
+          )}
+          {result.mode === "exam" && (
+            <Badge variant="outline" className="text-xs text-blue-700 border-blue-300">
+              <ClipboardCheck className="h-3 w-3 mr-1" />
+              Exam
+            </Badge>
+          )}
+          {isReviewable(result) && (
+            <>
+              <span className="flex items-center gap-1 text-gray-500">
+                <Clock className="h-3 w-3" />
+                {formatDuration(totalAttemptTime(result))}
+              </span>
+              <Link
+                to="/materials/$materialId/quiz"
+                params={{ materialId }}
+                search={{ attempt: result.id }}
+                className="flex items-center gap-1 text-blue-600 hover:underline"
+              >
+                <History className="h-3 w-3" />
+                Review
+              </Link>
+            </>
+          )}
+          <span className={`font-bold ${textColor}`}>
+            {result.correctAnswers}/{result.totalQuestions}
+          </span>
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-8 relative overflow-hidden shadow-inner">
+        <div
+          className={`h-full ${color} rounded-full transition-all duration-500 ease-out flex items-center justify-between px-3`}
+          style={{ width: `${barWidth}%` }}
+        >
+          {barWidth > 20 && (
+            <span className="text-white text-sm font-bold drop-shadow">{result.percentage.toFixed(1)}%</span>
+          )}
+        </div>
+        {barWidth <= 20 && (
+          <span className={`absolute right-2 top-1/2 -translate-y-1/2 text-sm font-bold ${textColor}`}>
+            {result.percentage.toFixed(1)}%
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ResultSummary({ results }: { results: QuizResult[] }) {
+  const average = results.reduce((sum, r) => sum + r.percentage, 0) / results.length;
+  const best = Math.max(...results.map((r) => r.percentage));
+  const improvement = results[results.length - 1].percentage - results[0].percentage;
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="p-3 bg-white rounded-lg shadow-sm">
+        <div className="text-xs text-gray-500 mb-1">Average Score</div>
+        <div className="flex items-baseline gap-1">
+          <span className="text-2xl font-bold text-blue-600">{average.toFixed(1)}</span>
+          <span className="text-sm text-gray-600">%</span>
+        </div>
+      </div>
+      <div className="p-3 bg-white rounded-lg shadow-sm">
+        <div className="text-xs text-gray-500 mb-1">Best Score</div>
+        <div className="flex items-baseline gap-1">
+          <span className="text-2xl font-bold text-green-600">{best.toFixed(1)}</span>
+          <span className="text-sm text-gray-600">%</span>
+        </div>
+      </div>
+      <div className="p-3 bg-white rounded-lg shadow-sm">
+        <div className="text-xs text-gray-500 mb-1">Total Attempts</div>
+        <div className="flex items-baseline gap-1">
+          <span className="text-2xl font-bold text-purple-600">{results.length}</span>
+          <span className="text-sm text-gray-600">quiz{results.length !== 1 ? "zes" : ""}</span>
+        </div>
+      </div>
+      <div className="p-3 bg-white rounded-lg shadow-sm">
+        <div className="text-xs text-gray-500 mb-1">Improvement</div>
+        <div className="flex items-baseline gap-1">
+          <span className={`text-2xl font-bold ${improvement >= 0 ? "text-green-600" : "text-red-600"}`}>
+            {improvement >= 0 ? "+" : ""}{improvement.toFixed(1)}
+          </span>
+          <span className="text-sm text-gray-600">%</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Mastery per concept, weakest first; concepts below the threshold are what practice quizzes target
+function ConceptMasteryCard({ mastery }: { mastery: ConceptMastery[] }) {
+  if (mastery.length === 0) return null;
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <Brain className="h-5 w-5 text-purple-600" />
+          Concept Mastery
+        </CardTitle>
+        <CardDescription className="text-xs">Recent answers count more than older ones</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {mastery.map((entry) => {
+          const isWeak = entry.mastery < MASTERY_THRESHOLD;
+          const percentage = Math.round(entry.mastery * 100);
+
+          return (
+            <div key={entry.concept} className="space-y-1">
+              <div className="flex items-center justify-between gap-2 text-xs">
+                <span className={`truncate ${isWeak ? "text-red-700 font-medium" : "text-gray-700"}`}>
+                  {entry.concept}
+                </span>
+                <span className="shrink-0 text-gray-500">
+                  {entry.correct}/{entry.attempts} · {percentage}%
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${isWeak ? "bg-red-500" : "bg-green-500"}`}
+                  style={{ width: `${percentage}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
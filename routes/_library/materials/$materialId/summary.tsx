@@ -0,0 +1,55 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useCurrentMaterial } from "@/hooks/use-library";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle } from "lucide-react";
+import { MathText } from "@/components/MathText";
+
+export const Route = createFileRoute("/_library/materials/$materialId/summary")({
+  component: Summary,
+});
+
+function Summary() {
+  const material = useCurrentMaterial(Route.useParams().materialId);
+  const coverage = material.content?.coverage ?? [];
+
+  return (
+    <ScrollArea className="h-[450px]">
+      <div className="prose max-w-none">
+        <div className="text-gray-700 whitespace-pre-wrap">
+          <MathText text={material.content?.summary || ""} />
+        </div>
+      </div>
+      {coverage.length > 1 && (
+        <div className="mt-6">
+          <Separator className="mb-4" />
+          <h3 className="font-semibold mb-2">Source Coverage</h3>
+          <p className="text-xs text-gray-500 mb-3">The document was processed in {coverage.length} parts</p>
+          <div className="space-y-2">
+            {coverage.map((chunk) => (
+              <div
+                key={chunk.chunkIndex}
+                className={`p-2 rounded-lg border text-sm flex items-center justify-between gap-2 ${
+                  chunk.status === "error" ? "border-red-200 bg-red-50" : "border-gray-200"
+                }`}
+              >
+                <span className="truncate">{chunk.label}</span>
+                {chunk.status === "error" ? (
+                  <Badge variant="destructive" className="text-xs shrink-0" title={chunk.error}>
+                    <AlertCircle className="h-3 w-3 mr-1" />
+                    Failed
+                  </Badge>
+                ) : (
+                  <span className="text-xs text-gray-500 shrink-0">
+                    {chunk.lessons} lessons · {chunk.quizQuestions} questions · {chunk.flashcards} cards
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </ScrollArea>
+  );
+}
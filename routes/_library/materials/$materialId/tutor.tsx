@@ -0,0 +1,156 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useEffect, useRef, useState } from "react";
+import { useCurrentMaterial, useLibrary } from "@/hooks/use-library";
+import { useGPTChatMutation } from "@/hooks/use-gpt-chat";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Loader2, MessageCircleQuestion, Send, Trash2 } from "lucide-react";
+import { MathText } from "@/components/MathText";
+import { SourceCitations } from "@/components/SourceCitations";
+import { askTutor } from "@/lib/tutor";
+import type { TutorMessage } from "@/lib/types";
+
+export const Route = createFileRoute("/_library/materials/$materialId/tutor")({
+  component: Tutor,
+});
+
+function Tutor() {
+  const material = useCurrentMaterial(Route.useParams().materialId);
+  const { updateMaterial } = useLibrary();
+  const chatMutation = useGPTChatMutation();
+  const messages = material.tutorChat ?? [];
+  const [input, setInput] = useState("");
+  // Question waiting for its answer; it is saved together with the answer
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  const messageCount = messages.length;
+  useEffect(() => {
+    if (messageCount === 0 && pendingQuestion === null) return;
+    bottomRef.current?.scrollIntoView?.({ block: "end" });
+  }, [messageCount, pendingQuestion]);
+
+  const ask = async () => {
+    const question = input.trim();
+    if (!question || pendingQuestion !== null) return;
+
+    setPendingQuestion(question);
+    setInput("");
+    setError(null);
+    try {
+      const asked: TutorMessage = { role: "user", content: question, timestamp: new Date() };
+      const answer = await askTutor(chatMutation.mutateAsync, material, messages, question);
+      updateMaterial(material.id, (m) => ({ tutorChat: [...(m.tutorChat ?? []), asked, answer] }));
+    } catch (e) {
+      console.error("Tutor request failed:", e);
+      setError(e instanceof Error ? e.message : "The tutor could not answer");
+      setInput(question);
+    } finally {
+      setPendingQuestion(null);
+    }
+  };
+
+  if (!material.extractedText.trim()) {
+    return (
+      <div className="text-center text-gray-500 py-12">
+        <MessageCircleQuestion className="h-16 w-16 mx-auto mb-4 opacity-50" />
+        <p>The tutor needs the text of the material</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ScrollArea className="h-[380px] rounded-lg border p-3">
+        {messages.length === 0 && pendingQuestion === null && (
+          <div className="text-center text-gray-500 py-12">
+            <MessageCircleQuestion className="h-12 w-12 mx-auto mb-3 opacity-50" />
+            <p>Ask anything about this material, e.g. "Why is this step true?"</p>
+          </div>
+        )}
+        <div className="space-y-3">
+          {messages.map((message, idx) => (
+            <ChatBubble key={idx} materialId={material.id} message={message} />
+          ))}
+          {pendingQuestion !== null && (
+            <>
+              <ChatBubble
+                materialId={material.id}
+                message={{ role: "user", content: pendingQuestion, timestamp: new Date() }}
+              />
+              <div className="flex items-center gap-2 text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Thinking...
+              </div>
+            </>
+          )}
+        </div>
+        <div ref={bottomRef} />
+      </ScrollArea>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-2">
+        <Textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter sends, Shift+Enter adds a line break
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              void ask();
+            }
+          }}
+          placeholder="Ask a question about this material..."
+          rows={2}
+          className="resize-none"
+        />
+        <div className="flex flex-col gap-2">
+          <Button onClick={() => void ask()} disabled={!input.trim() || pendingQuestion !== null} size="sm">
+            <Send className="h-4 w-4 mr-2" />
+            Ask
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => updateMaterial(material.id, { tutorChat: undefined })}
+            disabled={messages.length === 0 || pendingQuestion !== null}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ChatBubble({ materialId, message }: { materialId: string; message: TutorMessage }) {
+  if (message.role === "user") {
+    return (
+      <div className="flex justify-end">
+        <div className="max-w-[80%] rounded-lg bg-blue-600 text-white px-3 py-2 text-sm whitespace-pre-wrap">
+          {message.content}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-[90%] rounded-lg bg-gray-100 px-3 py-2 text-sm text-gray-800">
+      <div className="whitespace-pre-wrap">
+        <MathText text={message.content} />
+      </div>
+      <SourceCitations materialId={materialId} citations={message.citations} className="mt-2" />
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { z } from "zod";
+import { useLibrary } from "@/hooks/use-library";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Search as SearchIcon } from "lucide-react";
+import {
+  buildSearchIndex,
+  hashEmbedding,
+  searchIndex,
+  sourceRange,
+  type SearchDocumentKind,
+  type SearchHit,
+  type SearchMode,
+  type Snippet,
+} from "@/lib/search-index";
+
+const searchSchema = z.object({
+  q: z.string().optional().catch(undefined),
+  mode: z.enum(["keyword", "semantic"]).optional().catch(undefined),
+});
+
+export const Route = createFileRoute("/_library/search")({
+  validateSearch: searchSchema,
+  component: SearchPage,
+});
+
+const KIND_LABELS: Record<SearchDocumentKind, string> = {
+  material: "Material",
+  lesson: "Lesson",
+  flashcard: "Flashcard",
+  source: "Source",
+};
+
+function SearchPage() {
+  const { materials } = useLibrary();
+  const { q: query = "", mode = "keyword" } = Route.useSearch();
+  const navigate = useNavigate({ from: Route.fullPath });
+  const [input, setInput] = useState(query);
+  // The index is rebuilt whenever the library changes, e.g. when processing finishes; the
+  // vectors are only computed for searches by similar wording
+  const index = useMemo(
+    () => buildSearchIndex(materials, mode === "semantic" ? { embed: hashEmbedding } : {}),
+    [materials, mode]
+  );
+  const hits = useMemo(() => searchIndex(index, query, { mode }), [index, query, mode]);
+  const materialName = (materialId: string) =>
+    materials.find((material) => material.id === materialId)?.fileName ?? "Deleted material";
+
+  // Searching from the sidebar while this page is open
+  useEffect(() => setInput(query), [query]);
+
+  const search = (search: { q?: string; mode?: SearchMode }) =>
+    navigate({ search: (prev) => ({ ...prev, ...search }), replace: true });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SearchIcon className="h-5 w-5 text-blue-600" />
+          Search
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            search({ q: input.trim() || undefined });
+          }}
+        >
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search lessons, flashcards and sources..."
+            autoFocus
+          />
+          <Button type="submit">Search</Button>
+        </form>
+        <Tabs value={mode} onValueChange={(value) => search({ mode: value as SearchMode })}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="keyword">Keywords</TabsTrigger>
+            <TabsTrigger value="semantic">Similar Wording</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {query && (
+          <p className="text-sm text-gray-500">
+            {hits.length === 0 ? "No results" : `${hits.length} result${hits.length !== 1 ? "s" : ""}`} for "{query}"
+          </p>
+        )}
+        <ScrollArea className="h-[400px]">
+          <div className="space-y-2">
+            {hits.map((hit, idx) => (
+              <SearchResult key={idx} hit={hit} materialName={materialName(hit.document.materialId)} />
+            ))}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SearchResult({ hit, materialName }: { hit: SearchHit; materialName: string }) {
+  const { document } = hit;
+  const params = { materialId: document.materialId };
+  const body = (
+    <>
+      <div className="flex items-center gap-2 mb-1">
+        <Badge variant="outline" className="text-xs shrink-0">
+          {KIND_LABELS[document.kind]}
+        </Badge>
+        <span className="text-sm font-medium truncate">{document.label}</span>
+        <span className="text-xs text-gray-500 ml-auto truncate">{materialName}</span>
+      </div>
+      <HighlightedSnippet snippet={hit.snippet} />
+    </>
+  );
+  const className = "block p-3 border rounded-lg border-gray-200 hover:border-blue-300 hover:bg-blue-50";
+
+  switch (document.kind) {
+    case "lesson":
+      return (
+        <Link
+          to="/materials/$materialId/lessons"
+          params={params}
+          search={{ lesson: document.index }}
+          className={className}
+        >
+          {body}
+        </Link>
+      );
+    case "flashcard":
+      return (
+        <Link
+          to="/materials/$materialId/flashcards"
+          params={params}
+          search={{ card: document.index }}
+          className={className}
+        >
+          {body}
+        </Link>
+      );
+    case "source":
+      return (
+        <Link to="/materials/$materialId/source" params={params} search={sourceRange(hit)} className={className}>
+          {body}
+        </Link>
+      );
+    default:
+      return (
+        <Link to="/materials/$materialId" params={params} className={className}>
+          {body}
+        </Link>
+      );
+  }
+}
+
+function HighlightedSnippet({ snippet }: { snippet: Snippet }) {
+  const parts: ReactNode[] = [];
+  let position = 0;
+  snippet.highlights.forEach(({ start, end }, idx) => {
+    parts.push(snippet.text.slice(position, start));
+    parts.push(
+      <mark key={idx} className="bg-yellow-200 rounded px-0.5">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(snippet.text.slice(position));
+
+  return <p className="text-xs text-gray-600 line-clamp-3">{parts}</p>;
+}
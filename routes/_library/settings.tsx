@@ -0,0 +1,131 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useLibrary } from "@/hooks/use-library";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Cloud, Crown, LogOut, RefreshCw, Settings as SettingsIcon, User } from "lucide-react";
+
+export const Route = createFileRoute("/_library/settings")({
+  component: Settings,
+});
+
+function Settings() {
+  const { currentUser, entitlement, isPremium, sync, openAuthDialog, openSubscriptionDialog, logout, resendVerification } =
+    useLibrary();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SettingsIcon className="h-5 w-5 text-purple-600" />
+          Einstellungen
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!currentUser ? (
+          <div className="text-center text-gray-500 py-12">
+            <User className="h-16 w-16 mx-auto mb-4 opacity-50" />
+            <p className="mb-4">Melden Sie sich an, um Konto, Premium und Synchronisierung zu verwalten</p>
+            <Button onClick={openAuthDialog}>
+              <User className="h-4 w-4 mr-2" />
+              Anmelden
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <section className="space-y-2">
+              <h3 className="font-semibold flex items-center gap-2">
+                <User className="h-4 w-4" />
+                Konto
+              </h3>
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span>
+                  {currentUser.email}{" "}
+                  {currentUser.emailVerified ? (
+                    <Badge variant="outline" className="text-xs">Bestätigt</Badge>
+                  ) : (
+                    <Badge variant="outline" className="text-xs text-orange-600 border-orange-300">
+                      Nicht bestätigt
+                    </Badge>
+                  )}
+                </span>
+                <div className="flex gap-2">
+                  {!currentUser.emailVerified && (
+                    <Button variant="outline" size="sm" onClick={resendVerification}>
+                      Bestätigungslink senden
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={logout}>
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Abmelden
+                  </Button>
+                </div>
+              </div>
+            </section>
+
+            <Separator />
+
+            <section className="space-y-2">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Crown className="h-4 w-4 text-yellow-500" />
+                Premium
+              </h3>
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className="text-gray-600">
+                  {!isPremium
+                    ? "Gratis-Konto"
+                    : entitlement.cancelAtPeriodEnd && entitlement.currentPeriodEnd
+                      ? `Gekündigt, aktiv bis ${entitlement.currentPeriodEnd.toLocaleDateString()}`
+                      : entitlement.currentPeriodEnd
+                        ? `Aktiv, verlängert sich am ${entitlement.currentPeriodEnd.toLocaleDateString()}`
+                        : "Aktiv"}
+                </span>
+                {!isPremium && (
+                  <Button
+                    size="sm"
+                    onClick={openSubscriptionDialog}
+                    className="bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-600 hover:to-orange-600 text-white"
+                  >
+                    <Crown className="h-4 w-4 mr-2" />
+                    Premium holen
+                  </Button>
+                )}
+              </div>
+            </section>
+
+            <Separator />
+
+            <section className="space-y-2">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Cloud className="h-4 w-4 text-blue-600" />
+                Synchronisierung
+              </h3>
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="sync-enabled" className="text-sm font-normal text-gray-600">
+                  Materialien auf allen Geräten synchronisieren
+                </Label>
+                <Switch id="sync-enabled" checked={sync.enabled} onCheckedChange={sync.setEnabled} />
+              </div>
+              {sync.enabled && (
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-gray-600">
+                  <span>
+                    {sync.lastSyncedAt
+                      ? `Zuletzt synchronisiert: ${sync.lastSyncedAt.toLocaleString()}`
+                      : "Noch nicht synchronisiert"}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={sync.syncNow} disabled={sync.status === "syncing"}>
+                    <RefreshCw className={`h-4 w-4 mr-2 ${sync.status === "syncing" ? "animate-spin" : ""}`} />
+                    Jetzt synchronisieren
+                  </Button>
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,6 +3,8 @@
 
 interface ImportMetaEnv {
 	readonly TENANT_ID?: string;
+	// "mock" keeps accounts in the browser instead of the platform auth service
+	readonly VITE_AUTH_BACKEND?: string;
 	// add more env vars as needed
 }
 